@@ -11,6 +11,9 @@ const app = express();
 const PORT = process.env.PORT || 3000;
 
 let publicKey = null;
+let revokedTokenIds = new Set();
+
+const REVOCATION_SYNC_INTERVAL_MS = Number(process.env.REVOCATION_SYNC_INTERVAL_MS || 10000);
 
 // Fetch public key from User Service on startup
 async function fetchPublicKey() {
@@ -25,6 +28,19 @@ async function fetchPublicKey() {
   }
 }
 
+// Pull the list of revoked access tokens (jti) from the User Service
+async function syncRevokedTokens() {
+  try {
+    const restApiUrl = process.env.REST_API_URL || 'http://rest-api:3001';
+    const response = await axios.get(`${restApiUrl}/internal/revoked-tokens`, {
+      headers: { 'X-Service-Token': process.env.INTERNAL_SERVICE_TOKEN || '' }
+    });
+    revokedTokenIds = new Set(response.data.tokens.map((entry) => entry.jti));
+  } catch (error) {
+    console.warn('⚠️  Failed to sync revoked tokens:', error.message);
+  }
+}
+
 // JWT verification middleware
 const verifyToken = (req, res, next) => {
   const authHeader = req.headers.authorization;
@@ -41,6 +57,12 @@ const verifyToken = (req, res, next) => {
     }
 
     const decoded = jwt.verify(token, publicKey, { algorithms: ['RS256'] });
+    if (decoded.jti && revokedTokenIds.has(decoded.jti)) {
+      return res.status(401).json({
+        error: 'Invalid or expired token',
+        message: 'Token has been revoked'
+      });
+    }
     req.user = decoded;
     
     // Forward user info to backend services
@@ -75,6 +97,12 @@ const limiter = rateLimit({
 });
 app.use(limiter);
 
+// Only the gateway may set the `user` header; drop anything a client sent
+app.use((req, res, next) => {
+  delete req.headers.user;
+  next();
+});
+
 // Health check endpoint
 app.get('/health', (req, res) => {
   res.json({ 
@@ -112,7 +140,8 @@ const restApiProxy = createProxyMiddleware({
 });
 
 // Proxy configuration for GraphQL API
-const graphqlApiProxy = createProxyMiddleware({
+// The '/graphql' context keeps WebSocket upgrades for other paths away from the Task Service
+const graphqlApiProxy = createProxyMiddleware('/graphql', {
   target: process.env.GRAPHQL_API_URL || 'http://task-service:4000',
   changeOrigin: true,
   ws: true,
@@ -123,6 +152,31 @@ const graphqlApiProxy = createProxyMiddleware({
       message: err.message 
     });
   },
+  onProxyReq: (proxyReq, req, res) => {
+    // Forward user info if available
+    if (req.headers['user']) {
+      proxyReq.setHeader('user', req.headers['user']);
+    }
+    console.log(`[Task Service] ${req.method} ${req.url}`);
+  },
+  onProxyReqWs: (proxyReq, req, socket) => {
+    // WebSocket clients authenticate via connectionParams; never trust a client-supplied user header
+    proxyReq.removeHeader('user');
+    console.log(`[Task Service] WS upgrade ${req.url}`);
+  }
+});
+
+// Proxy configuration for task attachments, which the Task Service serves outside GraphQL
+const attachmentsProxy = createProxyMiddleware({
+  target: process.env.GRAPHQL_API_URL || 'http://task-service:4000',
+  changeOrigin: true,
+  onError: (err, req, res) => {
+    console.error('Task Service Proxy Error:', err.message);
+    res.status(500).json({ 
+      error: 'Task Service unavailable',
+      message: err.message 
+    });
+  },
   onProxyReq: (proxyReq, req, res) => {
     // Forward user info if available
     if (req.headers['user']) {
@@ -135,10 +189,13 @@ const graphqlApiProxy = createProxyMiddleware({
 // Public routes (no authentication required)
 app.use('/api/auth', restApiProxy);
 app.use('/api/public-key', restApiProxy);
+// Download links are signed by the Task Service and work without a token
+app.get('/attachments/:id/download', attachmentsProxy);
 
 // Protected routes (authentication required)
 app.use('/api', verifyToken, restApiProxy);
 app.use('/graphql', verifyToken, graphqlApiProxy);
+app.use('/attachments', verifyToken, attachmentsProxy);
 
 // Catch-all route
 app.get('*', (req, res) => {
@@ -147,7 +204,8 @@ app.get('*', (req, res) => {
     availableRoutes: [
       '/health',
       '/api/* (proxied to REST API)',
-      '/graphql (proxied to GraphQL API)'
+      '/graphql (proxied to GraphQL API)',
+      '/attachments/* (proxied to GraphQL API)'
     ]
   });
 });
@@ -164,6 +222,8 @@ app.use((err, req, res, next) => {
 async function startServer() {
   // Fetch public key on startup
   await fetchPublicKey();
+  await syncRevokedTokens();
+  setInterval(syncRevokedTokens, REVOCATION_SYNC_INTERVAL_MS).unref();
   
   const server = app.listen(PORT, () => {
     console.log(`🚀 API Gateway running on port ${PORT}`);
@@ -173,6 +233,9 @@ async function startServer() {
     console.log(`🔐 JWT verification: ${publicKey ? 'ENABLED' : 'DISABLED'}`);
   });
 
+  // Forward WebSocket upgrades (GraphQL subscriptions) without waiting for a first HTTP request
+  server.on('upgrade', graphqlApiProxy.upgrade);
+
   // Graceful shutdown
   process.on('SIGTERM', () => {
     console.log('SIGTERM received, shutting down gracefully');
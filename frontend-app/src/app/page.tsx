@@ -1,13 +1,46 @@
 'use client';
 
-import { useEffect, useMemo, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import Link from 'next/link';
 import {
   gql,
+  useApolloClient,
   useMutation,
   useQuery,
   useSubscription,
 } from '@apollo/client';
-import { authApi, setAuthToken, teamApi, userApi } from '@/lib/api';
+import {
+  authApi,
+  getRefreshToken,
+  invitationApi,
+  onSessionExpired,
+  setAuthToken,
+  setRefreshToken,
+  teamApi,
+  userApi,
+} from '@/lib/api';
+import { isOverdue, parseDate } from '@/lib/schedule';
+import ActivityTimeline, { ACTIVITY_FIELDS, ActivityEntry, TaskHistory } from '@/components/ActivityTimeline';
+import BulkActionBar from '@/components/BulkActionBar';
+import TeamDashboard from '@/components/TeamDashboard';
+import SubtaskTree from '@/components/SubtaskTree';
+import TaskBoard from '@/components/TaskBoard';
+import TaskCalendar from '@/components/TaskCalendar';
+import TaskChecklist, { ChecklistItem, ProgressBar } from '@/components/TaskChecklist';
+import TaskAttachments from '@/components/TaskAttachments';
+import TaskComments from '@/components/TaskComments';
+import TaskDependencies, { TaskReference } from '@/components/TaskDependencies';
+import TaskFields, { Label, LabelChip, TaskCustomFieldValue, TEAM_FIELD_DEFINITIONS } from '@/components/TaskFields';
+import NotificationBell from '@/components/NotificationBell';
+import TeamInvitations from '@/components/TeamInvitations';
+import TaskRecurrence, {
+  EMPTY_RECURRENCE,
+  Recurrence,
+  RecurrenceDraft,
+  RecurrenceFields,
+  toRecurrenceInput,
+} from '@/components/TaskRecurrence';
+import TaskTimeline from '@/components/TaskTimeline';
 
 type Task = {
   id: string;
@@ -16,13 +49,44 @@ type Task = {
   status: 'TODO' | 'IN_PROGRESS' | 'REVIEW' | 'COMPLETED' | 'CANCELLED';
   priority: 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT';
   assignedTo?: string | null;
+  assignee?: { id: string; name: string } | null;
   teamId: string;
   createdBy: string;
   createdAt: string;
   updatedAt: string;
+  startDate?: string | null;
   dueDate?: string | null;
+  parentId?: string | null;
+  position: number;
+  checklist: ChecklistItem[];
+  progress: number;
+  subtasks: { id: string }[];
+  blockedBy: TaskReference[];
+  isBlocked: boolean;
+  allowedTransitions: Task['status'][];
+  seriesId?: string | null;
+  occurrence?: number | null;
+  recurrence?: Recurrence | null;
+  labelIds: string[];
+  labels: Label[];
+  customFields: TaskCustomFieldValue[];
+};
+
+type TaskConnection = {
+  edges: { cursor: string; node: Task }[];
+  pageInfo: {
+    hasNextPage: boolean;
+    endCursor?: string | null;
+  };
+  totalCount: number;
 };
 
+type TaskView = 'list' | 'board' | 'calendar' | 'timeline';
+
+type TaskSortOption = 'CREATED_AT:DESC' | 'UPDATED_AT:DESC' | 'DUE_DATE:ASC' | 'PRIORITY:DESC';
+
+const TASK_PAGE_SIZE = 20;
+
 type NotificationMessage = {
   id: string;
   message: string;
@@ -52,29 +116,110 @@ const TASK_FIELDS = gql`
     status
     priority
     assignedTo
+    assignee {
+      id
+      name
+    }
     teamId
     createdBy
     createdAt
     updatedAt
+    startDate
     dueDate
+    parentId
+    position
+    progress
+    checklist {
+      id
+      text
+      done
+    }
+    subtasks {
+      id
+    }
+    isBlocked
+    allowedTransitions
+    blockedBy {
+      id
+      title
+      status
+    }
+    seriesId
+    occurrence
+    recurrence {
+      frequency
+      interval
+      byDay
+      until
+      count
+      rule
+    }
+    labelIds
+    labels {
+      id
+      name
+      color
+    }
+    customFields {
+      fieldId
+      value
+      field {
+        id
+        name
+        type
+      }
+    }
   }
 `;
 
 const GET_TASKS = gql`
-  query GetTasks($teamId: ID!, $status: TaskStatus) {
-    tasks(teamId: $teamId, status: $status) {
+  query GetTasks($first: Int, $after: String, $orderBy: TaskOrderBy, $filter: TaskFilter) {
+    tasksConnection(first: $first, after: $after, orderBy: $orderBy, filter: $filter) {
+      edges {
+        cursor
+        node {
+          ...TaskFields
+        }
+      }
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+      totalCount
+    }
+  }
+  ${TASK_FIELDS}
+`;
+
+const GET_BOARD_TASKS = gql`
+  query BoardTasks($teamId: ID!) {
+    tasks(teamId: $teamId) {
       ...TaskFields
     }
   }
   ${TASK_FIELDS}
 `;
 
-const GET_NOTIFICATIONS = gql`
-  query Notifications($userId: ID!) {
-    notifications(userId: $userId) {
+const GET_TEAM_ACTIVITY = gql`
+  query TeamActivity($teamId: ID!, $limit: Int) {
+    activity(teamId: $teamId, limit: $limit) {
+      ...ActivityFields
+    }
+  }
+  ${ACTIVITY_FIELDS}
+`;
+
+// Where a notification deep link should land: the team board and, for subtasks, the parent card
+const GET_TASK_LOCATION = gql`
+  query TaskLocation($id: ID!) {
+    task(id: $id) {
       id
-      message
-      createdAt
+      title
+      teamId
+      parent {
+        id
+        title
+      }
     }
   }
 `;
@@ -89,8 +234,8 @@ const CREATE_TASK = gql`
 `;
 
 const UPDATE_TASK = gql`
-  mutation UpdateTask($id: ID!, $input: UpdateTaskInput!) {
-    updateTask(id: $id, input: $input) {
+  mutation UpdateTask($id: ID!, $input: UpdateTaskInput!, $force: Boolean) {
+    updateTask(id: $id, input: $input, force: $force) {
       ...TaskFields
     }
   }
@@ -98,8 +243,8 @@ const UPDATE_TASK = gql`
 `;
 
 const DELETE_TASK = gql`
-  mutation DeleteTask($id: ID!) {
-    deleteTask(id: $id)
+  mutation DeleteTask($id: ID!, $cascade: Boolean) {
+    deleteTask(id: $id, cascade: $cascade)
   }
 `;
 
@@ -127,14 +272,16 @@ const TASK_DELETED = gql`
   }
 `;
 
-const NOTIFICATION_ADDED = gql`
-  subscription NotificationAdded($userId: ID!) {
-    notificationAdded(userId: $userId) {
-      id
-      message
-      createdAt
+const TASKS_CHANGED = gql`
+  subscription TasksChanged($teamId: ID!) {
+    tasksChanged(teamId: $teamId) {
+      tasks {
+        ...TaskFields
+      }
+      removedIds
     }
   }
+  ${TASK_FIELDS}
 `;
 
 export default function Home() {
@@ -149,17 +296,30 @@ export default function Home() {
     email: '',
     password: '',
     confirmPassword: '',
-    teamId: '',
   });
+  // Invite token from an ?invite= link; used when registering or accepted right after login
+  const [pendingInvite, setPendingInvite] = useState<{ token: string; teamName?: string } | null>(null);
   const [newTask, setNewTask] = useState({
     title: '',
     description: '',
     priority: 'MEDIUM' as Task['priority'],
     assignedTo: '',
+    startDate: '',
     dueDate: '',
+    recurrence: EMPTY_RECURRENCE as RecurrenceDraft,
   });
   const [statusFilter, setStatusFilter] = useState('');
+  const [searchInput, setSearchInput] = useState('');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [overdueOnly, setOverdueOnly] = useState(false);
+  const [labelFilter, setLabelFilter] = useState('');
+  const [taskView, setTaskView] = useState<TaskView>('list');
+  const [sortOption, setSortOption] = useState<TaskSortOption>('CREATED_AT:DESC');
+  const [selectedTaskIds, setSelectedTaskIds] = useState<string[]>([]);
+  const loadMoreRef = useRef<HTMLDivElement | null>(null);
   const [notifications, setNotifications] = useState<NotificationMessage[]>([]);
+  const [highlightedTaskId, setHighlightedTaskId] = useState<string | null>(null);
+  const [pendingTaskLink, setPendingTaskLink] = useState<string | null>(null);
   const [users, setUsers] = useState<User[]>([]);
   const [authError, setAuthError] = useState<string | null>(null);
   const [registerError, setRegisterError] = useState<string | null>(null);
@@ -175,25 +335,71 @@ export default function Home() {
 
   const hasSelectedTeam = Boolean(selectedTeam);
 
+  const [sortField, sortDirection] = sortOption.split(':');
+
   const {
     data: tasksData,
     loading: tasksLoading,
     refetch: refetchTasks,
-  } = useQuery<{ tasks: Task[] }>(GET_TASKS, {
+    fetchMore: fetchMoreTasks,
+  } = useQuery<{ tasksConnection: TaskConnection }>(GET_TASKS, {
     variables: {
-      teamId: selectedTeam,
-      status: statusFilter ? statusFilter : null,
+      first: TASK_PAGE_SIZE,
+      orderBy: { field: sortField, direction: sortDirection },
+      filter: {
+        teamId: selectedTeam,
+        status: statusFilter ? statusFilter : null,
+        search: searchTerm || null,
+        overdueOnly: overdueOnly || null,
+        labelIds: labelFilter ? [labelFilter] : null,
+        rootOnly: true,
+      },
     },
     skip: !isLoggedIn || !hasSelectedTeam,
     fetchPolicy: 'cache-and-network',
+    notifyOnNetworkStatusChange: true,
+  });
+
+  const tasksPageInfo = tasksData?.tasksConnection.pageInfo;
+
+  const { data: fieldDefinitionsData } = useQuery<{ labels: Label[] }>(TEAM_FIELD_DEFINITIONS, {
+    variables: { teamId: selectedTeam },
+    skip: !isLoggedIn || !hasSelectedTeam,
   });
+  const teamLabels = fieldDefinitionsData?.labels ?? [];
+
+  // Labels belong to one team, so a filter does not carry over to another; neither does a selection
+  useEffect(() => {
+    setLabelFilter('');
+    setSelectedTaskIds([]);
+  }, [selectedTeam]);
 
-  const { data: notificationsData, refetch: refetchNotifications } = useQuery<{
-    notifications: NotificationMessage[];
-  }>(GET_NOTIFICATIONS, {
-    variables: { userId: user?.id ?? '' },
-    skip: !user,
-    fetchPolicy: 'network-only',
+  const { data: boardData, refetch: refetchBoard } = useQuery<{ tasks: Task[] }>(GET_BOARD_TASKS, {
+    variables: { teamId: selectedTeam },
+    skip: !isLoggedIn || !hasSelectedTeam || taskView !== 'board',
+    fetchPolicy: 'cache-and-network',
+  });
+
+  // The board shows top-level tasks only; subtasks stay inside their parent card
+  const boardTasks = useMemo(() => (boardData?.tasks ?? []).filter((task) => !task.parentId), [boardData]);
+
+  const apolloClient = useApolloClient();
+
+  // Board, calendar and timeline only re-query when a task appears or disappears;
+  // updates to tasks they already show arrive through the normalized cache
+  const refetchActiveView = () => {
+    if (taskView === 'board') {
+      refetchBoard();
+    }
+    if (taskView === 'calendar' || taskView === 'timeline') {
+      apolloClient.refetchQueries({ include: ['TasksInRange'] });
+    }
+  };
+
+  const { data: activityData, refetch: refetchActivity } = useQuery<{ activity: ActivityEntry[] }>(GET_TEAM_ACTIVITY, {
+    variables: { teamId: selectedTeam, limit: 30 },
+    skip: !isLoggedIn || !hasSelectedTeam,
+    fetchPolicy: 'cache-and-network',
   });
 
   const [createTaskMutation] = useMutation(CREATE_TASK, {
@@ -204,7 +410,9 @@ export default function Home() {
         description: '',
         priority: 'MEDIUM',
         assignedTo: '',
+        startDate: '',
         dueDate: '',
+        recurrence: EMPTY_RECURRENCE,
       });
     },
   });
@@ -229,6 +437,8 @@ export default function Home() {
       if (task) {
         pushNotification(`Task created: ${task.title}`);
         refetchTasks();
+        refetchActivity();
+        refetchActiveView();
       }
     },
   });
@@ -241,6 +451,7 @@ export default function Home() {
       if (task) {
         pushNotification(`Task updated: ${task.title}`);
         refetchTasks();
+        refetchActivity();
       }
     },
   });
@@ -253,21 +464,65 @@ export default function Home() {
       if (taskId) {
         pushNotification(`Task removed`);
         refetchTasks();
+        refetchActivity();
+        refetchActiveView();
       }
     },
   });
 
-  useSubscription(NOTIFICATION_ADDED, {
-    variables: { userId: user?.id ?? '' },
-    skip: !user,
+  // Bulk operations report all of their changes in one event instead of one per task
+  useSubscription(TASKS_CHANGED, {
+    variables: { teamId: selectedTeam },
+    skip: !hasSelectedTeam,
     onData: ({ data }) => {
-      const notification = data.data?.notificationAdded as NotificationMessage | undefined;
-      if (notification) {
-        pushNotification(notification.message);
+      const event = data.data?.tasksChanged as { tasks: Task[]; removedIds: string[] } | undefined;
+      if (event) {
+        const count = event.tasks.length + event.removedIds.length;
+        pushNotification(`${count} task${count === 1 ? '' : 's'} changed`);
+        refetchTasks();
+        refetchActivity();
+        refetchActiveView();
       }
     },
   });
 
+  useEffect(() => {
+    if (typeof window !== 'undefined') {
+      setPendingTaskLink(new URLSearchParams(window.location.search).get('task'));
+    }
+  }, []);
+
+  useEffect(() => {
+    const token = typeof window !== 'undefined' ? new URLSearchParams(window.location.search).get('invite') : null;
+    if (!token) {
+      return;
+    }
+    setPendingInvite({ token });
+    if (!localStorage.getItem('token')) {
+      setIsRegisterMode(true);
+    }
+    authApi
+      .getInvitation(token)
+      .then((response) => {
+        const { email, team } = response.data as { email: string; team: { name: string } };
+        setPendingInvite({ token, teamName: team.name });
+        setRegisterForm((prev) => ({ ...prev, email }));
+      })
+      .catch((error) => {
+        setPendingInvite(null);
+        setRegisterError(error?.response?.data?.error || 'This invitation link is not valid');
+      });
+  }, []);
+
+  const clearPendingInvite = () => {
+    setPendingInvite(null);
+    if (typeof window !== 'undefined') {
+      const url = new URL(window.location.href);
+      url.searchParams.delete('invite');
+      window.history.replaceState(null, '', url.toString());
+    }
+  };
+
   useEffect(() => {
     const token = typeof window !== 'undefined' ? localStorage.getItem('token') : null;
     const storedUser = typeof window !== 'undefined' ? localStorage.getItem('user') : null;
@@ -279,9 +534,8 @@ export default function Home() {
       setSelectedTeam(parsedUser.teamId || '');
       loadTeams();
       loadUsers();
-      refetchNotifications({ userId: parsedUser.id });
     }
-  }, [refetchNotifications]);
+  }, []);
 
   useEffect(() => {
     if (isLoggedIn) {
@@ -299,20 +553,6 @@ export default function Home() {
     }
   }, [user, teams, selectedTeam]);
 
-  useEffect(() => {
-    if (notificationsData?.notifications) {
-      setNotifications((prev) => {
-        const localOnly = prev.filter((item) => item.id.startsWith('local-'));
-        const serverSorted = notificationsData.notifications
-          .slice()
-          .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
-        return [...localOnly, ...serverSorted]
-          .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
-          .slice(0, 5);
-      });
-    }
-  }, [notificationsData]);
-
   useEffect(() => {
     if (!selectedTeam) {
       setTeamMembers([]);
@@ -344,25 +584,22 @@ export default function Home() {
     setIsRegisterMode((prev) => !prev);
     setAuthError(null);
     setRegisterError(null);
-    setRegisterForm({ name: '', email: '', password: '', confirmPassword: '', teamId: '' });
+    setRegisterForm({ name: '', email: pendingInvite ? registerForm.email : '', password: '', confirmPassword: '' });
   };
 
-  const pushNotification = (message: string) => {
-    setNotifications((prev) => {
-      const next: NotificationMessage[] = [
+  // Short-lived toasts; the persistent inbox lives in the notification bell
+  const pushNotification = useCallback((message: string) => {
+    setNotifications((prev) =>
+      [
         {
           id: `local-${Date.now()}-${Math.random().toString(16).slice(2)}`,
           message,
           createdAt: new Date().toISOString(),
         },
-        ...prev.filter((notification) => notification.id.startsWith('local-')),
-        ...prev.filter((notification) => !notification.id.startsWith('local-')),
-      ];
-      return next
-        .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
-        .slice(0, 5);
-    });
-  };
+        ...prev,
+      ].slice(0, 5)
+    );
+  }, []);
 
   const loadTeams = async (): Promise<Team[]> => {
     try {
@@ -496,7 +733,7 @@ export default function Home() {
         name: registerForm.name.trim(),
         email: emailForLogin,
         password: registerForm.password,
-        teamId: registerForm.teamId.trim() || undefined,
+        inviteToken: pendingInvite?.token,
       };
 
       if (!payload.name || !payload.email || !payload.password) {
@@ -508,8 +745,10 @@ export default function Home() {
       const successMessage = response.data?.message || 'Registration successful. Please log in to continue.';
 
       setRegisterSuccess(successMessage);
-      setRegisterForm({ name: '', email: '', password: '', confirmPassword: '', teamId: '' });
+      setRegisterForm({ name: '', email: '', password: '', confirmPassword: '' });
       setIsRegisterMode(false);
+      // Registering accepted the invitation already
+      clearPendingInvite();
       setLoginForm({ email: emailForLogin, password: '' });
       setAuthError(null);
     } catch (error: any) {
@@ -523,8 +762,13 @@ export default function Home() {
     setAuthError(null);
     try {
       const response = await authApi.login(loginForm.email, loginForm.password);
-      const { token, user: loggedInUser } = response.data as { token: string; user: User };
+      const { token, refreshToken, user: loggedInUser } = response.data as {
+        token: string;
+        refreshToken: string;
+        user: User;
+      };
       setAuthToken(token);
+      setRefreshToken(refreshToken);
       setUser(loggedInUser);
       setIsLoggedIn(true);
       setSelectedTeam(loggedInUser.teamId || '');
@@ -534,15 +778,15 @@ export default function Home() {
       setLoginForm({ email: '', password: '' });
       loadTeams();
       loadUsers();
-      await refetchNotifications({ userId: loggedInUser.id });
     } catch (error: any) {
       const message = error?.response?.data?.error || 'Login failed, please check your credentials';
       setAuthError(message);
     }
   };
 
-  const handleLogout = () => {
+  const clearSession = () => {
     setAuthToken(null);
+    setRefreshToken(null);
     if (typeof window !== 'undefined') {
       localStorage.removeItem('user');
     }
@@ -554,8 +798,26 @@ export default function Home() {
     setTeamMembers([]);
     setMemberToAdd('');
     setNotifications([]);
+    setHighlightedTaskId(null);
   };
 
+  const handleLogout = async () => {
+    try {
+      await authApi.logout(getRefreshToken());
+    } catch (error) {
+      console.error('Failed to revoke session', error);
+    }
+    clearSession();
+  };
+
+  useEffect(() => {
+    onSessionExpired(() => {
+      clearSession();
+      setAuthError('Your session has expired. Please log in again.');
+    });
+    return () => onSessionExpired(null);
+  }, []);
+
   const handleCreateTask = async (event: React.FormEvent) => {
     event.preventDefault();
     if (!selectedTeam || !newTask.title.trim()) {
@@ -570,7 +832,9 @@ export default function Home() {
             priority: newTask.priority,
             assignedTo: newTask.assignedTo || undefined,
             teamId: selectedTeam,
+            startDate: newTask.startDate || undefined,
             dueDate: newTask.dueDate || undefined,
+            recurrence: toRecurrenceInput(newTask.recurrence),
           },
         },
       });
@@ -614,12 +878,17 @@ export default function Home() {
     }
   };
 
-  const handleStatusChange = async (taskId: string, status: Task['status']) => {
+  const handleStatusChange = async (task: Task, status: Task['status']) => {
+    const startsBlockedWork = task.isBlocked && (status === 'IN_PROGRESS' || status === 'COMPLETED');
+    if (startsBlockedWork && !confirm('This task is still blocked by unfinished tasks. Change its status anyway?')) {
+      return;
+    }
     try {
       await updateTaskMutation({
         variables: {
-          id: taskId,
+          id: task.id,
           input: { status },
+          force: startsBlockedWork,
         },
       });
     } catch (error: any) {
@@ -627,18 +896,146 @@ export default function Home() {
     }
   };
 
-  const handleDeleteTask = async (taskId: string) => {
-    if (!confirm('Delete this task?')) {
+  // Board drag and drop: the card moves immediately and snaps back if the server rejects the move
+  const handleMoveTask = async (task: Task, status: Task['status'], position: number) => {
+    const changesStatus = status !== task.status;
+    const startsBlockedWork = changesStatus && task.isBlocked && (status === 'IN_PROGRESS' || status === 'COMPLETED');
+    if (startsBlockedWork && !confirm('This task is still blocked by unfinished tasks. Move it anyway?')) {
+      return;
+    }
+    try {
+      await updateTaskMutation({
+        variables: {
+          id: task.id,
+          input: changesStatus ? { status, position } : { position },
+          force: startsBlockedWork,
+        },
+        optimisticResponse: {
+          updateTask: {
+            ...task,
+            __typename: 'Task',
+            status,
+            position,
+            updatedAt: new Date().toISOString(),
+          },
+        },
+      });
+    } catch (error: any) {
+      pushNotification(error.message || 'Failed to move task');
+    }
+  };
+
+  const handleDeleteTask = async (task: Task) => {
+    const hasSubtasks = task.subtasks.length > 0;
+    if (!confirm(hasSubtasks ? 'Delete this task and all of its subtasks?' : 'Delete this task?')) {
       return;
     }
     try {
-      await deleteTaskMutation({ variables: { id: taskId } });
+      await deleteTaskMutation({ variables: { id: task.id, cascade: hasSubtasks } });
     } catch (error: any) {
       pushNotification(error.message || 'Failed to delete task');
     }
   };
 
-  const filteredTasks = useMemo(() => tasksData?.tasks ?? [], [tasksData]);
+  // Notification deep link: switch to the task's team and narrow the list down to its card
+  const handleOpenTask = useCallback(async (taskId: string) => {
+    try {
+      const { data } = await apolloClient.query<{
+        task: { id: string; title: string; teamId: string; parent?: { id: string; title: string } | null } | null;
+      }>({ query: GET_TASK_LOCATION, variables: { id: taskId }, fetchPolicy: 'network-only' });
+      if (!data.task) {
+        pushNotification('That task no longer exists');
+        return;
+      }
+      const target = data.task.parent ?? data.task;
+      setSelectedTeam(data.task.teamId);
+      setTaskView('list');
+      setStatusFilter('');
+      setOverdueOnly(false);
+      setSearchInput(target.title);
+      setHighlightedTaskId(target.id);
+      window.history.replaceState(null, '', `?task=${encodeURIComponent(taskId)}`);
+    } catch (error: any) {
+      pushNotification(error.message || 'Failed to open task');
+    }
+  }, [apolloClient, pushNotification]);
+
+  const filteredTasks = useMemo(
+    () => tasksData?.tasksConnection.edges.map((edge) => edge.node) ?? [],
+    [tasksData]
+  );
+
+  const taskTitles = useMemo(
+    () => Object.fromEntries(filteredTasks.map((task) => [task.id, task.title])),
+    [filteredTasks]
+  );
+
+  // Tasks hidden by a filter change stay out of bulk actions
+  const selectedTasks = useMemo(
+    () => filteredTasks.filter((task) => selectedTaskIds.includes(task.id)),
+    [filteredTasks, selectedTaskIds]
+  );
+
+  const toggleTaskSelection = (taskId: string) => {
+    setSelectedTaskIds((prev) => (prev.includes(taskId) ? prev.filter((id) => id !== taskId) : [...prev, taskId]));
+  };
+
+  // Accept an invitation opened while logged in, or carried over from the login form
+  useEffect(() => {
+    if (!isLoggedIn || !pendingInvite) {
+      return;
+    }
+    const { token } = pendingInvite;
+    clearPendingInvite();
+    invitationApi
+      .accept(token)
+      .then(async (response) => {
+        const { team } = response.data as { team: Team };
+        pushNotification(`You joined ${team.name}`);
+        await loadTeams();
+        setSelectedTeam(team.id);
+      })
+      .catch((error) => {
+        pushNotification(error?.response?.data?.error || 'Failed to accept invitation');
+      });
+  }, [isLoggedIn, pendingInvite, pushNotification]);
+
+  useEffect(() => {
+    if (isLoggedIn && pendingTaskLink) {
+      setPendingTaskLink(null);
+      handleOpenTask(pendingTaskLink);
+    }
+  }, [isLoggedIn, pendingTaskLink, handleOpenTask]);
+
+  useEffect(() => {
+    if (!highlightedTaskId || !filteredTasks.some((task) => task.id === highlightedTaskId)) {
+      return;
+    }
+    document.getElementById(`task-${highlightedTaskId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    const timeout = setTimeout(() => setHighlightedTaskId(null), 4000);
+    return () => clearTimeout(timeout);
+  }, [highlightedTaskId, filteredTasks]);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearchTerm(searchInput.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
+
+  // Infinite scroll: load the next page once the sentinel below the list becomes visible
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !tasksPageInfo?.hasNextPage) {
+      return;
+    }
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0]?.isIntersecting && !tasksLoading) {
+        fetchMoreTasks({ variables: { after: tasksPageInfo.endCursor } });
+      }
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [tasksPageInfo, tasksLoading, fetchMoreTasks]);
 
   const statusClasses: Record<Task['status'], string> = {
     TODO: 'bg-gray-100 text-gray-700',
@@ -662,6 +1059,9 @@ export default function Home() {
     return users.filter((u) => !teamMembers.includes(u.id));
   }, [users, teamMembers]);
 
+  const isAdmin = user?.role === 'admin';
+  const canManageMembers = isAdmin || (user?.role === 'moderator' && teamMembers.includes(user.id));
+
   const membersWithDetails = useMemo(() => {
     return teamMembers
       .map((memberId) => users.find((u) => u.id === memberId))
@@ -675,6 +1075,12 @@ export default function Home() {
           <h1 className="text-3xl font-bold text-center text-gray-800 mb-6">
             {isRegisterMode ? 'Create an Account' : 'Task Manager Login'}
           </h1>
+          {pendingInvite?.teamName && (
+            <p className="mb-4 rounded-lg bg-blue-50 px-4 py-2 text-sm text-blue-700">
+              You have been invited to join <span className="font-semibold">{pendingInvite.teamName}</span>.{' '}
+              {isRegisterMode ? 'Create an account to accept.' : 'Log in to accept.'}
+            </p>
+          )}
           <form
             onSubmit={isRegisterMode ? handleRegister : handleLogin}
             className="space-y-4"
@@ -733,18 +1139,6 @@ export default function Home() {
                     required
                   />
                 </div>
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">Team ID (optional)</label>
-                  <input
-                    type="text"
-                    value={registerForm.teamId}
-                    onChange={(event) =>
-                      setRegisterForm((prev) => ({ ...prev, teamId: event.target.value }))
-                    }
-                    className="w-full border border-gray-300 rounded-lg px-4 py-2 focus:ring-2 focus:ring-blue-500"
-                    placeholder="Defaults to team 1"
-                  />
-                </div>
                 {registerError && (
                   <p className="text-red-600 text-sm">{registerError}</p>
                 )}
@@ -838,6 +1232,14 @@ export default function Home() {
             <p className="text-sm text-gray-600">Welcome back, {user?.name}</p>
           </div>
           <div className="flex flex-col gap-3 md:flex-row md:items-center">
+            {user && (
+              <NotificationBell
+                userId={user.id}
+                onNotify={(notification) => pushNotification(notification.message)}
+                onOpenTask={handleOpenTask}
+                onError={pushNotification}
+              />
+            )}
             <select
               value={selectedTeam}
               onChange={(event) => setSelectedTeam(event.target.value)}
@@ -887,46 +1289,52 @@ export default function Home() {
           )}
 
           <div className="grid gap-6 md:grid-cols-2">
-            <form onSubmit={handleTeamSubmit} className="space-y-4">
-              <div className="space-y-1">
-                <label className="block text-sm font-medium text-gray-700">Team Name</label>
-                <input
-                  value={teamForm.name}
-                  onChange={(event) => setTeamForm((prev) => ({ ...prev, name: event.target.value }))}
-                  className="w-full rounded-lg border border-gray-200 px-3 py-2 text-sm text-gray-700 shadow-sm focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-200"
-                  placeholder="e.g. Product Team"
-                />
-              </div>
-              <div className="space-y-1">
-                <label className="block text-sm font-medium text-gray-700">Description</label>
-                <textarea
-                  value={teamForm.description}
-                  onChange={(event) => setTeamForm((prev) => ({ ...prev, description: event.target.value }))}
-                  className="w-full rounded-lg border border-gray-200 px-3 py-2 text-sm text-gray-700 shadow-sm focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-200"
-                  rows={3}
-                  placeholder="Optional short summary"
-                />
-              </div>
-              <div className="flex flex-wrap gap-2">
-                <button
-                  type="submit"
-                  disabled={teamActionLoading}
-                  className="inline-flex items-center justify-center rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white shadow-sm transition hover:bg-blue-700 disabled:cursor-not-allowed disabled:opacity-60"
-                >
-                  {editingTeamId ? 'Update Team' : 'Create Team'}
-                </button>
-                {editingTeamId && (
+            {isAdmin ? (
+              <form onSubmit={handleTeamSubmit} className="space-y-4">
+                <div className="space-y-1">
+                  <label className="block text-sm font-medium text-gray-700">Team Name</label>
+                  <input
+                    value={teamForm.name}
+                    onChange={(event) => setTeamForm((prev) => ({ ...prev, name: event.target.value }))}
+                    className="w-full rounded-lg border border-gray-200 px-3 py-2 text-sm text-gray-700 shadow-sm focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-200"
+                    placeholder="e.g. Product Team"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <label className="block text-sm font-medium text-gray-700">Description</label>
+                  <textarea
+                    value={teamForm.description}
+                    onChange={(event) => setTeamForm((prev) => ({ ...prev, description: event.target.value }))}
+                    className="w-full rounded-lg border border-gray-200 px-3 py-2 text-sm text-gray-700 shadow-sm focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-200"
+                    rows={3}
+                    placeholder="Optional short summary"
+                  />
+                </div>
+                <div className="flex flex-wrap gap-2">
                   <button
-                    type="button"
-                    onClick={handleCancelEditTeam}
+                    type="submit"
                     disabled={teamActionLoading}
-                    className="inline-flex items-center justify-center rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-600 transition hover:bg-gray-100 disabled:cursor-not-allowed disabled:opacity-60"
+                    className="inline-flex items-center justify-center rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white shadow-sm transition hover:bg-blue-700 disabled:cursor-not-allowed disabled:opacity-60"
                   >
-                    Cancel
+                    {editingTeamId ? 'Update Team' : 'Create Team'}
                   </button>
-                )}
-              </div>
-            </form>
+                  {editingTeamId && (
+                    <button
+                      type="button"
+                      onClick={handleCancelEditTeam}
+                      disabled={teamActionLoading}
+                      className="inline-flex items-center justify-center rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-600 transition hover:bg-gray-100 disabled:cursor-not-allowed disabled:opacity-60"
+                    >
+                      Cancel
+                    </button>
+                  )}
+                </div>
+              </form>
+            ) : (
+              <p className="rounded-lg border border-dashed border-gray-200 px-3 py-6 text-center text-sm text-gray-500">
+                Only admins can create, edit or delete teams.
+              </p>
+            )}
 
             <div className="space-y-4">
               <div className="flex items-center justify-between">
@@ -964,22 +1372,26 @@ export default function Home() {
                         >
                           View
                         </button>
-                        <button
-                          type="button"
-                          onClick={() => handleEditTeam(team)}
-                          disabled={teamActionLoading}
-                          className="inline-flex items-center justify-center rounded-lg border border-blue-300 px-3 py-1 text-sm font-medium text-blue-600 transition hover:bg-blue-50 disabled:cursor-not-allowed disabled:opacity-60"
-                        >
-                          Edit
-                        </button>
-                        <button
-                          type="button"
-                          onClick={() => handleDeleteTeam(team.id)}
-                          disabled={teamActionLoading}
-                          className="inline-flex items-center justify-center rounded-lg border border-red-200 px-3 py-1 text-sm font-medium text-red-600 transition hover:bg-red-50 disabled:cursor-not-allowed disabled:opacity-60"
-                        >
-                          Delete
-                        </button>
+                        {isAdmin && (
+                          <>
+                            <button
+                              type="button"
+                              onClick={() => handleEditTeam(team)}
+                              disabled={teamActionLoading}
+                              className="inline-flex items-center justify-center rounded-lg border border-blue-300 px-3 py-1 text-sm font-medium text-blue-600 transition hover:bg-blue-50 disabled:cursor-not-allowed disabled:opacity-60"
+                            >
+                              Edit
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => handleDeleteTeam(team.id)}
+                              disabled={teamActionLoading}
+                              className="inline-flex items-center justify-center rounded-lg border border-red-200 px-3 py-1 text-sm font-medium text-red-600 transition hover:bg-red-50 disabled:cursor-not-allowed disabled:opacity-60"
+                            >
+                              Delete
+                            </button>
+                          </>
+                        )}
                       </div>
                     </div>
                   ))}
@@ -1059,6 +1471,16 @@ export default function Home() {
                     ))}
                   </select>
                 </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Start Date</label>
+                  <input
+                    type="date"
+                    value={newTask.startDate}
+                    max={newTask.dueDate || undefined}
+                    onChange={(event) => setNewTask((prev) => ({ ...prev, startDate: event.target.value }))}
+                    className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">Due Date</label>
                   <input
@@ -1068,6 +1490,16 @@ export default function Home() {
                     className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500"
                   />
                 </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Repeat</label>
+                  <RecurrenceFields
+                    value={newTask.recurrence}
+                    onChange={(recurrence) => setNewTask((prev) => ({ ...prev, recurrence }))}
+                  />
+                  {newTask.recurrence.frequency && !newTask.dueDate && (
+                    <p className="mt-1 text-xs text-gray-500">Recurring tasks need a due date.</p>
+                  )}
+                </div>
                 <button
                   type="submit"
                   className="w-full bg-blue-600 text-white py-2 rounded-lg hover:bg-blue-700 transition"
@@ -1080,7 +1512,16 @@ export default function Home() {
             <section className="md:col-span-1 lg:col-span-1 bg-white rounded-lg shadow p-6 space-y-4">
               <div className="flex items-center justify-between">
                 <h2 className="text-lg font-semibold text-gray-800">Team Members</h2>
-                {teamLoading && <span className="text-xs text-gray-400">Loading…</span>}
+                {teamLoading ? (
+                  <span className="text-xs text-gray-400">Loading…</span>
+                ) : (
+                  canManageMembers &&
+                  hasSelectedTeam && (
+                    <Link href={`/teams/${selectedTeam}/settings`} className="text-xs text-blue-600 hover:underline">
+                      Team settings
+                    </Link>
+                  )
+                )}
               </div>
               {membersWithDetails.length === 0 ? (
                 <p className="text-sm text-gray-500">No members assigned to this team yet.</p>
@@ -1095,61 +1536,136 @@ export default function Home() {
                         <p className="font-medium text-gray-800">{member.name}</p>
                         <p className="text-xs text-gray-500">{member.email}</p>
                       </div>
-                      <button
-                        onClick={() => handleRemoveMember(member.id)}
-                        className="text-xs text-red-500 hover:text-red-600"
-                      >
-                        Remove
-                      </button>
+                      {canManageMembers && (
+                        <button
+                          onClick={() => handleRemoveMember(member.id)}
+                          className="text-xs text-red-500 hover:text-red-600"
+                        >
+                          Remove
+                        </button>
+                      )}
                     </li>
                   ))}
                 </ul>
               )}
-              <div className="space-y-2">
-                <label className="block text-sm font-medium text-gray-700">Add Member</label>
-                <div className="flex gap-2">
-                  <select
-                    value={memberToAdd}
-                    onChange={(event) => setMemberToAdd(event.target.value)}
-                    className="flex-1 border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500"
-                  >
-                    <option value="">Select user</option>
-                    {availableUsers.map((u) => (
-                      <option key={u.id} value={u.id}>
-                        {u.name}
-                      </option>
-                    ))}
-                  </select>
-                  <button
-                    onClick={handleAddMember}
-                    type="button"
-                    className="px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
-                    disabled={!memberToAdd}
-                  >
-                    Add
-                  </button>
+              {canManageMembers && (
+                <div className="space-y-2">
+                  <label className="block text-sm font-medium text-gray-700">Add Member</label>
+                  <div className="flex gap-2">
+                    <select
+                      value={memberToAdd}
+                      onChange={(event) => setMemberToAdd(event.target.value)}
+                      className="flex-1 border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="">Select user</option>
+                      {availableUsers.map((u) => (
+                        <option key={u.id} value={u.id}>
+                          {u.name}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={handleAddMember}
+                      type="button"
+                      className="px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+                      disabled={!memberToAdd}
+                    >
+                      Add
+                    </button>
+                  </div>
                 </div>
-              </div>
+              )}
+              {canManageMembers && hasSelectedTeam && <TeamInvitations teamId={selectedTeam} onNotify={pushNotification} />}
             </section>
 
-            <section className="md:col-span-2 lg:col-span-2 bg-white rounded-lg shadow p-6">
+            <section
+              className={`md:col-span-2 ${taskView === 'list' ? 'lg:col-span-2' : 'lg:col-span-4'} bg-white rounded-lg shadow p-6`}
+            >
               <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between mb-4">
-                <h2 className="text-lg font-semibold text-gray-800">Tasks</h2>
-                <div className="flex gap-3">
-                  <select
-                    value={statusFilter}
-                    onChange={(event) => setStatusFilter(event.target.value)}
-                    className="border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500"
-                  >
-                    <option value="">All status</option>
-                    <option value="TODO">To Do</option>
-                    <option value="IN_PROGRESS">In Progress</option>
-                    <option value="REVIEW">Review</option>
-                    <option value="COMPLETED">Completed</option>
-                    <option value="CANCELLED">Cancelled</option>
-                  </select>
+                <h2 className="text-lg font-semibold text-gray-800">
+                  Tasks
+                  {taskView === 'board' ? (
+                    <span className="ml-2 text-sm font-normal text-gray-400">{boardTasks.length}</span>
+                  ) : (
+                    taskView === 'list' &&
+                    tasksData && (
+                      <span className="ml-2 text-sm font-normal text-gray-400">
+                        {tasksData.tasksConnection.totalCount}
+                      </span>
+                    )
+                  )}
+                </h2>
+                <div className="flex flex-wrap gap-3">
+                  <div className="flex rounded-lg border border-gray-300 text-sm overflow-hidden">
+                    {(['list', 'board', 'calendar', 'timeline'] as TaskView[]).map((view) => (
+                      <button
+                        key={view}
+                        onClick={() => setTaskView(view)}
+                        className={`px-3 py-2 capitalize ${
+                          taskView === view ? 'bg-blue-600 text-white' : 'text-gray-700 hover:bg-gray-100'
+                        }`}
+                      >
+                        {view}
+                      </button>
+                    ))}
+                  </div>
+                  {taskView === 'list' && (
+                    <>
+                      <input
+                        type="search"
+                        value={searchInput}
+                        onChange={(event) => setSearchInput(event.target.value)}
+                        placeholder="Search tasks…"
+                        className="border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500"
+                      />
+                      <select
+                        value={statusFilter}
+                        onChange={(event) => setStatusFilter(event.target.value)}
+                        className="border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500"
+                      >
+                        <option value="">All status</option>
+                        <option value="TODO">To Do</option>
+                        <option value="IN_PROGRESS">In Progress</option>
+                        <option value="REVIEW">Review</option>
+                        <option value="COMPLETED">Completed</option>
+                        <option value="CANCELLED">Cancelled</option>
+                      </select>
+                      {teamLabels.length > 0 && (
+                        <select
+                          value={labelFilter}
+                          onChange={(event) => setLabelFilter(event.target.value)}
+                          className="border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500"
+                        >
+                          <option value="">All labels</option>
+                          {teamLabels.map((label) => (
+                            <option key={label.id} value={label.id}>
+                              {label.name}
+                            </option>
+                          ))}
+                        </select>
+                      )}
+                      <select
+                        value={sortOption}
+                        onChange={(event) => setSortOption(event.target.value as TaskSortOption)}
+                        className="border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500"
+                      >
+                        <option value="CREATED_AT:DESC">Newest first</option>
+                        <option value="UPDATED_AT:DESC">Recently updated</option>
+                        <option value="DUE_DATE:ASC">Due date</option>
+                        <option value="PRIORITY:DESC">Priority</option>
+                      </select>
+                      <label className="flex items-center gap-2 text-sm text-gray-600">
+                        <input
+                          type="checkbox"
+                          checked={overdueOnly}
+                          onChange={(event) => setOverdueOnly(event.target.checked)}
+                        />
+                        Overdue only
+                      </label>
+                    </>
+                  )}
                   <button
-                    onClick={() => refetchTasks()}
+                    onClick={() => (taskView === 'list' ? refetchTasks() : refetchActiveView())}
                     className="border border-gray-300 rounded-lg px-3 py-2 text-sm hover:bg-gray-100"
                   >
                     Refresh
@@ -1157,16 +1673,59 @@ export default function Home() {
                 </div>
               </div>
 
-              {tasksLoading ? (
+              {taskView === 'board' ? (
+                <TaskBoard tasks={boardTasks} priorityClasses={priorityClasses} onMove={handleMoveTask} />
+              ) : taskView === 'calendar' ? (
+                <TaskCalendar teamId={selectedTeam} onError={pushNotification} />
+              ) : taskView === 'timeline' ? (
+                <TaskTimeline teamId={selectedTeam} onError={pushNotification} />
+              ) : tasksLoading && filteredTasks.length === 0 ? (
                 <p className="text-gray-500">Loading tasks...</p>
               ) : filteredTasks.length === 0 ? (
                 <p className="text-gray-500">No tasks found for the selected filters.</p>
               ) : (
                 <div className="space-y-4">
+                  <div className="flex items-center gap-2 text-sm text-gray-600">
+                    <input
+                      type="checkbox"
+                      checked={selectedTasks.length === filteredTasks.length}
+                      onChange={(event) =>
+                        setSelectedTaskIds(event.target.checked ? filteredTasks.map((task) => task.id) : [])
+                      }
+                      aria-label="Select all loaded tasks"
+                    />
+                    Select all
+                  </div>
+                  <BulkActionBar
+                    tasks={selectedTasks}
+                    teamId={selectedTeam}
+                    teams={teams}
+                    members={membersWithDetails}
+                    onCompleted={(succeededIds) => {
+                      setSelectedTaskIds((prev) => prev.filter((id) => !succeededIds.includes(id)));
+                      refetchTasks();
+                      refetchActivity();
+                    }}
+                    onClear={() => setSelectedTaskIds([])}
+                    onNotify={pushNotification}
+                  />
                   {filteredTasks.map((task) => (
-                    <div key={task.id} className="border border-gray-200 rounded-lg p-4 hover:shadow-sm transition">
+                    <div
+                      key={task.id}
+                      id={`task-${task.id}`}
+                      className={`border rounded-lg p-4 hover:shadow-sm transition ${
+                        highlightedTaskId === task.id ? 'border-blue-400 ring-2 ring-blue-200' : 'border-gray-200'
+                      }`}
+                    >
                       <div className="flex items-start justify-between gap-3">
-                        <div className="space-y-1">
+                        <input
+                          type="checkbox"
+                          checked={selectedTaskIds.includes(task.id)}
+                          onChange={() => toggleTaskSelection(task.id)}
+                          className="mt-2"
+                          aria-label={`Select ${task.title}`}
+                        />
+                        <div className="flex-1 space-y-1">
                           <h3 className="text-lg font-semibold text-gray-800">{task.title}</h3>
                           {task.description && (
                             <p className="text-sm text-gray-600">{task.description}</p>
@@ -1175,49 +1734,138 @@ export default function Home() {
                             <span className={`px-2 py-1 rounded ${statusClasses[task.status]}`}>
                               {task.status.replace('_', ' ')}
                             </span>
+                            {task.isBlocked && (
+                              <span className="px-2 py-1 rounded bg-orange-100 text-orange-700">BLOCKED</span>
+                            )}
                             <span className={`font-semibold ${priorityClasses[task.priority]}`}>
                               {task.priority}
                             </span>
                             {task.assignedTo && (
                               <span className="text-gray-500">
-                                Assigned to {users.find((u) => u.id === task.assignedTo)?.name || task.assignedTo}
+                                Assigned to {task.assignee?.name || task.assignedTo}
                               </span>
                             )}
-                            {task.dueDate && (
+                            {task.startDate && (
                               <span className="text-gray-500">
-                                Due {new Date(task.dueDate).toLocaleDateString()}
+                                Starts {parseDate(task.startDate).toLocaleDateString()}
+                              </span>
+                            )}
+                            {task.dueDate && (
+                              <span className={isOverdue(task) ? 'font-semibold text-red-600' : 'text-gray-500'}>
+                                Due {parseDate(task.dueDate).toLocaleDateString()}
                               </span>
                             )}
                           </div>
+                          {task.labels.length > 0 && (
+                            <div className="flex flex-wrap gap-1 pt-1">
+                              {task.labels.map((label) => (
+                                <LabelChip key={label.id} label={label} />
+                              ))}
+                            </div>
+                          )}
+                          {(task.checklist.length > 0 || task.subtasks.length > 0) && (
+                            <div className="w-48 pt-1">
+                              <ProgressBar progress={task.progress} />
+                            </div>
+                          )}
                         </div>
                         <button
-                          onClick={() => handleDeleteTask(task.id)}
+                          onClick={() => handleDeleteTask(task)}
                           className="text-red-500 hover:text-red-600 text-sm"
                         >
                           Delete
                         </button>
                       </div>
                       <div className="mt-3 flex flex-wrap gap-2 text-xs">
-                        {(['TODO', 'IN_PROGRESS', 'REVIEW', 'COMPLETED', 'CANCELLED'] as Task['status'][]).map((status) => (
-                          <button
-                            key={status}
-                            onClick={() => handleStatusChange(task.id, status)}
-                            disabled={task.status === status}
-                            className={`px-3 py-1 rounded border transition ${
-                              task.status === status
-                                ? 'bg-gray-200 text-gray-400 cursor-not-allowed'
-                                : 'border-gray-200 text-gray-700 hover:bg-gray-100'
-                            }`}
-                          >
-                            {status.replace('_', ' ')}
-                          </button>
-                        ))}
+                        {task.allowedTransitions.length === 0 ? (
+                          <span className="text-gray-400">No status changes available</span>
+                        ) : (
+                          task.allowedTransitions.map((status) => (
+                            <button
+                              key={status}
+                              onClick={() => handleStatusChange(task, status)}
+                              className="px-3 py-1 rounded border border-gray-200 text-gray-700 hover:bg-gray-100 transition"
+                            >
+                              {status.replace('_', ' ')}
+                            </button>
+                          ))
+                        )}
+                      </div>
+                      <div className="mt-3 border-t border-gray-100 pt-3 space-y-3">
+                        {!task.parentId && (
+                          <TaskRecurrence
+                            taskId={task.id}
+                            recurrence={task.recurrence}
+                            occurrence={task.occurrence}
+                            onError={pushNotification}
+                          />
+                        )}
+                        <TaskDependencies
+                          taskId={task.id}
+                          blockedBy={task.blockedBy}
+                          candidates={filteredTasks}
+                          onChanged={() => refetchTasks()}
+                          onError={pushNotification}
+                        />
+                        <TaskFields
+                          taskId={task.id}
+                          teamId={task.teamId}
+                          labelIds={task.labelIds}
+                          values={task.customFields}
+                          members={membersWithDetails}
+                          onError={pushNotification}
+                        />
+                        <TaskChecklist taskId={task.id} items={task.checklist} onError={pushNotification} />
+                        <SubtaskTree
+                          taskId={task.id}
+                          teamId={task.teamId}
+                          subtaskCount={task.subtasks.length}
+                          onChanged={() => refetchTasks()}
+                          onError={pushNotification}
+                        />
                       </div>
+                      <div className="mt-3 border-t border-gray-100 pt-3">
+                        <TaskHistory taskId={task.id} users={users} />
+                      </div>
+                      <TaskAttachments
+                        taskId={task.id}
+                        currentUserId={user?.id}
+                        isAdmin={isAdmin}
+                        onError={pushNotification}
+                      />
+                      <TaskComments
+                        taskId={task.id}
+                        currentUserId={user?.id}
+                        onError={pushNotification}
+                      />
                     </div>
                   ))}
+                  {tasksPageInfo?.hasNextPage && (
+                    <div ref={loadMoreRef} className="py-2 text-center text-xs text-gray-400">
+                      {tasksLoading ? 'Loading more tasks…' : 'Scroll for more'}
+                    </div>
+                  )}
                 </div>
               )}
             </section>
+
+            <section className="md:col-span-2 lg:col-span-4 bg-white rounded-lg shadow p-6 space-y-4">
+              <h2 className="text-lg font-semibold text-gray-800">Team Dashboard</h2>
+              <TeamDashboard key={selectedTeam} teamId={selectedTeam} />
+            </section>
+
+            <section className="md:col-span-2 lg:col-span-4 bg-white rounded-lg shadow p-6 space-y-4">
+              <div className="flex items-center justify-between">
+                <h2 className="text-lg font-semibold text-gray-800">Team Activity</h2>
+                <button
+                  onClick={() => refetchActivity()}
+                  className="border border-gray-300 rounded-lg px-3 py-1 text-xs hover:bg-gray-100"
+                >
+                  Refresh
+                </button>
+              </div>
+              <ActivityTimeline entries={activityData?.activity ?? []} users={users} taskTitles={taskTitles} />
+            </section>
           </div>
         )}
       </main>
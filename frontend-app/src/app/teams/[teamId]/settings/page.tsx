@@ -0,0 +1,78 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { teamApi } from '@/lib/api';
+import TeamSettings from '@/components/TeamSettings';
+
+type StoredUser = {
+  id: string;
+  name: string;
+  role: string;
+};
+
+type Team = {
+  id: string;
+  name: string;
+  members?: string[];
+};
+
+export default function TeamSettingsPage({ params }: { params: { teamId: string } }) {
+  const [user, setUser] = useState<StoredUser | null>(null);
+  const [team, setTeam] = useState<Team | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    const storedUser = localStorage.getItem('user');
+    if (!localStorage.getItem('token') || !storedUser) {
+      setError('Log in to manage team settings.');
+      return;
+    }
+    setUser(JSON.parse(storedUser) as StoredUser);
+
+    teamApi
+      .getTeam(params.teamId)
+      .then((response) => setTeam(response.data as Team))
+      .catch((requestError: any) => setError(requestError?.response?.data?.error || 'Failed to load team'));
+  }, [params.teamId]);
+
+  // The Task Service enforces the same rule; this only avoids showing controls that would fail
+  const canManage =
+    user && team && (user.role === 'admin' || (user.role === 'moderator' && (team.members || []).includes(user.id)));
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white border-b shadow-sm">
+        <div className="max-w-7xl mx-auto px-4 py-4">
+          <Link href="/" className="text-sm text-blue-600 hover:underline">
+            ← Back to tasks
+          </Link>
+          <h1 className="text-2xl font-bold text-gray-800">{team ? `${team.name} Settings` : 'Team Settings'}</h1>
+          <p className="text-sm text-gray-600">Labels and custom fields available on this team&apos;s tasks</p>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 py-8 space-y-6">
+        {message && (
+          <div className="flex items-center justify-between rounded-lg bg-blue-50 px-4 py-2 text-sm text-blue-700">
+            <span>{message}</span>
+            <button type="button" onClick={() => setMessage(null)} className="hover:underline">
+              Dismiss
+            </button>
+          </div>
+        )}
+
+        {error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : !team ? (
+          <p className="text-sm text-gray-500">Loading…</p>
+        ) : !canManage ? (
+          <p className="text-sm text-gray-600">Only admins and the team&apos;s moderators can change its settings.</p>
+        ) : (
+          <TeamSettings teamId={team.id} onNotify={setMessage} />
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+'use client';
+
+import { useState } from 'react';
+import { gql, useQuery } from '@apollo/client';
+
+export type ActivityEntry = {
+  id: string;
+  action: string;
+  entityType: string;
+  entityId: string;
+  taskId?: string | null;
+  actorId?: string | null;
+  changes: { field: string; from?: string | null; to?: string | null }[];
+  createdAt: string;
+};
+
+type Actor = {
+  id: string;
+  name: string;
+};
+
+export const ACTIVITY_FIELDS = gql`
+  fragment ActivityFields on ActivityEntry {
+    id
+    action
+    entityType
+    entityId
+    taskId
+    actorId
+    changes {
+      field
+      from
+      to
+    }
+    createdAt
+  }
+`;
+
+const GET_TASK_HISTORY = gql`
+  query TaskHistory($id: ID!) {
+    task(id: $id) {
+      id
+      history {
+        ...ActivityFields
+      }
+    }
+  }
+  ${ACTIVITY_FIELDS}
+`;
+
+const actionLabels: Record<string, string> = {
+  TASK_CREATED: 'created the task',
+  TASK_UPDATED: 'updated the task',
+  TASK_DELETED: 'deleted the task',
+  TASK_MOVED: 'moved the task to another team',
+  CHECKLIST_UPDATED: 'changed the checklist',
+  DEPENDENCY_ADDED: 'added a dependency',
+  DEPENDENCY_REMOVED: 'removed a dependency',
+  COMMENT_ADDED: 'commented',
+  COMMENT_EDITED: 'edited a comment',
+  COMMENT_DELETED: 'deleted a comment',
+  ATTACHMENT_ADDED: 'attached a file',
+  ATTACHMENT_REMOVED: 'removed an attachment',
+  LABEL_CREATED: 'created a label',
+  LABEL_UPDATED: 'changed a label',
+  LABEL_DELETED: 'deleted a label',
+  CUSTOM_FIELD_CREATED: 'added a custom field',
+  CUSTOM_FIELD_UPDATED: 'changed a custom field',
+  CUSTOM_FIELD_DELETED: 'deleted a custom field',
+  WORKFLOW_UPDATED: 'changed the workflow',
+};
+
+// Fields whose values are only meaningful as structured data are summarised instead of printed
+const SUMMARISED_FIELDS = ['checklist', 'blockedBy', 'transitions', 'labelIds', 'customFieldValues', 'options'];
+
+const formatValue = (value?: string | null) => (value === null || value === undefined || value === '' ? '—' : value);
+
+type ActivityTimelineProps = {
+  entries: ActivityEntry[];
+  users: Actor[];
+  taskTitles?: Record<string, string>;
+};
+
+export default function ActivityTimeline({ entries, users, taskTitles = {} }: ActivityTimelineProps) {
+  const actorName = (actorId?: string | null) =>
+    (actorId && users.find((u) => u.id === actorId)?.name) || actorId || 'System';
+
+  if (entries.length === 0) {
+    return <p className="text-xs text-gray-500">No activity yet.</p>;
+  }
+
+  return (
+    <ol className="relative space-y-3 border-l border-gray-200 pl-4">
+      {entries.map((entry) => (
+        <li key={entry.id} className="text-xs">
+          <span className="absolute -left-1 mt-1 h-2 w-2 rounded-full bg-blue-400" />
+          <div className="flex flex-wrap items-baseline gap-1 text-gray-700">
+            <span className="font-medium">{actorName(entry.actorId)}</span>
+            <span>{actionLabels[entry.action] || entry.action.toLowerCase().replace(/_/g, ' ')}</span>
+            {entry.taskId && taskTitles[entry.taskId] && (
+              <span className="text-gray-500">· {taskTitles[entry.taskId]}</span>
+            )}
+            <span className="ml-auto text-gray-400">{new Date(entry.createdAt).toLocaleString()}</span>
+          </div>
+          {entry.action.endsWith('_UPDATED') && entry.changes.length > 0 && (
+            <ul className="mt-1 space-y-0.5 text-gray-500">
+              {entry.changes.map((change) => (
+                <li key={change.field}>
+                  <span className="font-medium text-gray-600">{change.field}</span>
+                  {SUMMARISED_FIELDS.includes(change.field) ? (
+                    ' changed'
+                  ) : (
+                    <>
+                      : <span className="line-through">{formatValue(change.from)}</span> → {formatValue(change.to)}
+                    </>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+type TaskHistoryProps = {
+  taskId: string;
+  users: Actor[];
+};
+
+export function TaskHistory({ taskId, users }: TaskHistoryProps) {
+  const [expanded, setExpanded] = useState(false);
+  const { data, loading } = useQuery<{ task: { id: string; history: ActivityEntry[] } | null }>(GET_TASK_HISTORY, {
+    variables: { id: taskId },
+    skip: !expanded,
+    fetchPolicy: 'cache-and-network',
+  });
+
+  const history = data?.task?.history ?? [];
+
+  return (
+    <div>
+      <button
+        type="button"
+        onClick={() => setExpanded((prev) => !prev)}
+        className="text-xs font-medium text-gray-600 hover:text-gray-800"
+      >
+        {expanded ? 'Hide history' : 'Show history'}
+      </button>
+      {expanded && (
+        <div className="mt-2">
+          {loading && history.length === 0 ? (
+            <p className="text-xs text-gray-400">Loading history…</p>
+          ) : (
+            <ActivityTimeline entries={history} users={users} />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
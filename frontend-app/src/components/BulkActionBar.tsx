@@ -0,0 +1,226 @@
+'use client';
+
+import { useState } from 'react';
+import { gql, useMutation } from '@apollo/client';
+
+type BulkTaskResult = {
+  id: string;
+  success: boolean;
+  error?: string | null;
+  code?: string | null;
+};
+
+type BulkTaskPayload = {
+  results: BulkTaskResult[];
+  succeeded: number;
+  failed: number;
+};
+
+const BULK_RESULT_FIELDS = gql`
+  fragment BulkResultFields on BulkTaskPayload {
+    results {
+      id
+      success
+      error
+      code
+    }
+    succeeded
+    failed
+  }
+`;
+
+const BULK_UPDATE_TASKS = gql`
+  mutation BulkUpdateTasks($ids: [ID!]!, $input: BulkTaskInput!, $atomic: Boolean) {
+    bulkUpdateTasks(ids: $ids, input: $input, atomic: $atomic) {
+      ...BulkResultFields
+    }
+  }
+  ${BULK_RESULT_FIELDS}
+`;
+
+const BULK_DELETE_TASKS = gql`
+  mutation BulkDeleteTasks($ids: [ID!]!, $atomic: Boolean) {
+    bulkDeleteTasks(ids: $ids, cascade: true, atomic: $atomic) {
+      ...BulkResultFields
+    }
+  }
+  ${BULK_RESULT_FIELDS}
+`;
+
+const BULK_MOVE_TASKS = gql`
+  mutation BulkMoveTasks($ids: [ID!]!, $teamId: ID!, $atomic: Boolean) {
+    bulkMoveTasks(ids: $ids, teamId: $teamId, atomic: $atomic) {
+      ...BulkResultFields
+    }
+  }
+  ${BULK_RESULT_FIELDS}
+`;
+
+const STATUSES = ['TODO', 'IN_PROGRESS', 'REVIEW', 'COMPLETED', 'CANCELLED'];
+const PRIORITIES = ['LOW', 'MEDIUM', 'HIGH', 'URGENT'];
+
+const selectClass = 'border border-gray-300 rounded-lg px-2 py-1 text-sm focus:ring-2 focus:ring-blue-500';
+
+type BulkActionBarProps = {
+  tasks: { id: string; title: string }[];
+  teamId: string;
+  teams: { id: string; name: string }[];
+  members: { id: string; name: string }[];
+  // Called with the ids that were changed; failed tasks stay selected so they can be retried
+  onCompleted: (succeededIds: string[]) => void;
+  onClear: () => void;
+  onNotify?: (message: string) => void;
+};
+
+// Actions for every selected task at once, with a per-task report of what could not be done
+export default function BulkActionBar({ tasks, teamId, teams, members, onCompleted, onClear, onNotify }: BulkActionBarProps) {
+  const [atomic, setAtomic] = useState(false);
+  const [failures, setFailures] = useState<BulkTaskResult[]>([]);
+  const [busy, setBusy] = useState(false);
+
+  const [bulkUpdateTasks] = useMutation<{ bulkUpdateTasks: BulkTaskPayload }>(BULK_UPDATE_TASKS);
+  const [bulkDeleteTasks] = useMutation<{ bulkDeleteTasks: BulkTaskPayload }>(BULK_DELETE_TASKS);
+  const [bulkMoveTasks] = useMutation<{ bulkMoveTasks: BulkTaskPayload }>(BULK_MOVE_TASKS);
+
+  const ids = tasks.map((task) => task.id);
+  const titles = Object.fromEntries(tasks.map((task) => [task.id, task.title]));
+
+  const run = async (action: () => Promise<BulkTaskPayload | undefined>, verb: string) => {
+    setBusy(true);
+    try {
+      const payload = await action();
+      if (!payload) return;
+      setFailures(payload.results.filter((result) => !result.success));
+      onNotify?.(
+        payload.failed === 0
+          ? `${verb} ${payload.succeeded} task${payload.succeeded === 1 ? '' : 's'}`
+          : `${verb} ${payload.succeeded} of ${payload.results.length} tasks; ${payload.failed} failed`
+      );
+      onCompleted(payload.results.filter((result) => result.success).map((result) => result.id));
+    } catch (error: any) {
+      onNotify?.(error?.message || 'Bulk action failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleUpdate = (input: Record<string, string | null>) =>
+    run(async () => (await bulkUpdateTasks({ variables: { ids, input, atomic } })).data?.bulkUpdateTasks, 'Updated');
+
+  const handleMove = (targetTeamId: string) => {
+    if (!confirm(`Move ${ids.length} task(s) with their subtasks? Labels and custom fields are cleared.`)) return;
+    run(
+      async () => (await bulkMoveTasks({ variables: { ids, teamId: targetTeamId, atomic } })).data?.bulkMoveTasks,
+      'Moved'
+    );
+  };
+
+  const handleDelete = () => {
+    if (!confirm(`Delete ${ids.length} task(s) and all of their subtasks?`)) return;
+    run(async () => (await bulkDeleteTasks({ variables: { ids, atomic } })).data?.bulkDeleteTasks, 'Deleted');
+  };
+
+  if (ids.length === 0 && failures.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2 rounded-lg border border-blue-200 bg-blue-50 p-3">
+      {ids.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="font-medium text-blue-800">{ids.length} selected</span>
+          <select
+            value=""
+            disabled={busy}
+            onChange={(event) => event.target.value && handleUpdate({ status: event.target.value })}
+            className={selectClass}
+          >
+            <option value="">Set status…</option>
+            {STATUSES.map((status) => (
+              <option key={status} value={status}>
+                {status.replace('_', ' ')}
+              </option>
+            ))}
+          </select>
+          <select
+            value=""
+            disabled={busy}
+            onChange={(event) => event.target.value && handleUpdate({ priority: event.target.value })}
+            className={selectClass}
+          >
+            <option value="">Set priority…</option>
+            {PRIORITIES.map((priority) => (
+              <option key={priority} value={priority}>
+                {priority}
+              </option>
+            ))}
+          </select>
+          <select
+            value=""
+            disabled={busy}
+            onChange={(event) => {
+              const { value } = event.target;
+              if (value) handleUpdate({ assignedTo: value === 'none' ? null : value });
+            }}
+            className={selectClass}
+          >
+            <option value="">Assign to…</option>
+            <option value="none">Unassigned</option>
+            {members.map((member) => (
+              <option key={member.id} value={member.id}>
+                {member.name}
+              </option>
+            ))}
+          </select>
+          <select
+            value=""
+            disabled={busy}
+            onChange={(event) => event.target.value && handleMove(event.target.value)}
+            className={selectClass}
+          >
+            <option value="">Move to team…</option>
+            {teams
+              .filter((team) => team.id !== teamId)
+              .map((team) => (
+                <option key={team.id} value={team.id}>
+                  {team.name}
+                </option>
+              ))}
+          </select>
+          <button
+            type="button"
+            disabled={busy}
+            onClick={handleDelete}
+            className="rounded-lg border border-red-200 px-2 py-1 text-sm text-red-600 hover:bg-red-50 disabled:opacity-50"
+          >
+            Delete
+          </button>
+          <label className="flex items-center gap-1 text-xs text-gray-600" title="Change nothing unless every task can be changed">
+            <input type="checkbox" checked={atomic} onChange={(event) => setAtomic(event.target.checked)} />
+            All or nothing
+          </label>
+          <button type="button" onClick={onClear} className="ml-auto text-xs text-blue-700 hover:underline">
+            Clear selection
+          </button>
+        </div>
+      )}
+      {failures.length > 0 && (
+        <div className="text-xs text-red-700">
+          <div className="flex items-center justify-between">
+            <span className="font-medium">Not changed:</span>
+            <button type="button" onClick={() => setFailures([])} className="hover:underline">
+              Dismiss
+            </button>
+          </div>
+          <ul className="list-disc pl-5">
+            {failures.map((failure) => (
+              <li key={failure.id}>
+                {titles[failure.id] ?? failure.id}: {failure.error}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,314 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { gql, useMutation, useQuery, useSubscription } from '@apollo/client';
+
+export type Notification = {
+  id: string;
+  message: string;
+  type: string;
+  read: boolean;
+  createdAt: string;
+  taskId?: string | null;
+};
+
+type NotificationPreference = {
+  type: string;
+  enabled: boolean;
+};
+
+const NOTIFICATION_PAGE_SIZE = 10;
+
+const NOTIFICATION_FIELDS = gql`
+  fragment NotificationFields on Notification {
+    id
+    message
+    type
+    read
+    createdAt
+    taskId
+  }
+`;
+
+const GET_INBOX = gql`
+  query NotificationInbox($userId: ID!, $first: Int, $after: String) {
+    unreadNotificationCount(userId: $userId)
+    notificationsConnection(userId: $userId, first: $first, after: $after) {
+      edges {
+        cursor
+        node {
+          ...NotificationFields
+        }
+      }
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+      totalCount
+    }
+  }
+  ${NOTIFICATION_FIELDS}
+`;
+
+const GET_PREFERENCES = gql`
+  query NotificationPreferences($userId: ID!) {
+    notificationPreferences(userId: $userId) {
+      type
+      enabled
+    }
+  }
+`;
+
+const MARK_READ = gql`
+  mutation MarkNotificationRead($id: ID!) {
+    markNotificationRead(id: $id)
+  }
+`;
+
+const MARK_ALL_READ = gql`
+  mutation MarkAllNotificationsRead($userId: ID!) {
+    markAllNotificationsRead(userId: $userId)
+  }
+`;
+
+const DELETE_NOTIFICATION = gql`
+  mutation DeleteNotification($id: ID!) {
+    deleteNotification(id: $id)
+  }
+`;
+
+const UPDATE_PREFERENCES = gql`
+  mutation UpdateNotificationPreferences($userId: ID!, $input: [NotificationPreferenceInput!]!) {
+    updateNotificationPreferences(userId: $userId, input: $input) {
+      type
+      enabled
+    }
+  }
+`;
+
+const NOTIFICATION_ADDED = gql`
+  subscription NotificationAdded($userId: ID!) {
+    notificationAdded(userId: $userId) {
+      ...NotificationFields
+    }
+  }
+  ${NOTIFICATION_FIELDS}
+`;
+
+// TASK_DUE_SOON -> "Task due soon"
+const formatType = (type: string) => {
+  const words = type.toLowerCase().split('_').join(' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+type NotificationBellProps = {
+  userId: string;
+  onNotify?: (notification: Notification) => void;
+  onOpenTask?: (taskId: string) => void;
+  onError?: (message: string) => void;
+};
+
+export default function NotificationBell({ userId, onNotify, onOpenTask, onError }: NotificationBellProps) {
+  const [open, setOpen] = useState(false);
+  const [showPreferences, setShowPreferences] = useState(false);
+  const containerRef = useRef<HTMLDivElement | null>(null);
+
+  const { data, refetch, fetchMore } = useQuery<{
+    unreadNotificationCount: number;
+    notificationsConnection: {
+      edges: { cursor: string; node: Notification }[];
+      pageInfo: { hasNextPage: boolean; endCursor?: string | null };
+      totalCount: number;
+    };
+  }>(GET_INBOX, {
+    variables: { userId, first: NOTIFICATION_PAGE_SIZE },
+    fetchPolicy: 'cache-and-network',
+  });
+
+  const { data: preferencesData } = useQuery<{ notificationPreferences: NotificationPreference[] }>(GET_PREFERENCES, {
+    variables: { userId },
+    skip: !showPreferences,
+  });
+
+  const [markRead] = useMutation(MARK_READ);
+  const [markAllRead] = useMutation(MARK_ALL_READ, { onCompleted: () => refetch() });
+  const [deleteNotification] = useMutation(DELETE_NOTIFICATION, { onCompleted: () => refetch() });
+  const [updatePreferences] = useMutation(UPDATE_PREFERENCES, {
+    update: (cache, result) => {
+      cache.writeQuery({
+        query: GET_PREFERENCES,
+        variables: { userId },
+        data: { notificationPreferences: result.data.updateNotificationPreferences },
+      });
+    },
+  });
+
+  useSubscription(NOTIFICATION_ADDED, {
+    variables: { userId },
+    onData: ({ data: payload }) => {
+      const notification = payload.data?.notificationAdded as Notification | undefined;
+      if (notification) {
+        onNotify?.(notification);
+        refetch();
+      }
+    },
+  });
+
+  // Close the dropdown on any click outside of it
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const run = async (action: () => Promise<unknown>, fallback: string) => {
+    try {
+      await action();
+    } catch (error: any) {
+      onError?.(error?.message || fallback);
+    }
+  };
+
+  const notifications = data?.notificationsConnection.edges.map((edge) => edge.node) ?? [];
+  const pageInfo = data?.notificationsConnection.pageInfo;
+  const unreadCount = data?.unreadNotificationCount ?? 0;
+
+  const handleOpen = (notification: Notification) => {
+    if (!notification.read) {
+      run(() => markRead({ variables: { id: notification.id } }).then(() => refetch()), 'Failed to update notification');
+    }
+    if (notification.taskId) {
+      setOpen(false);
+      onOpenTask?.(notification.taskId);
+    }
+  };
+
+  const loadMore = () => {
+    if (!pageInfo?.hasNextPage) return;
+    run(
+      () =>
+        fetchMore({
+          variables: { after: pageInfo.endCursor },
+          updateQuery: (previous, { fetchMoreResult }) => ({
+            ...fetchMoreResult,
+            notificationsConnection: {
+              ...fetchMoreResult.notificationsConnection,
+              edges: [...previous.notificationsConnection.edges, ...fetchMoreResult.notificationsConnection.edges],
+            },
+          }),
+        }),
+      'Failed to load notifications'
+    );
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setOpen((value) => !value)}
+        className="relative rounded-lg border border-gray-300 px-3 py-2 hover:bg-gray-100"
+        aria-label={`Notifications (${unreadCount} unread)`}
+      >
+        🔔
+        {unreadCount > 0 && (
+          <span className="absolute -right-2 -top-2 min-w-[1.25rem] rounded-full bg-red-500 px-1 text-center text-xs font-semibold text-white">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 z-20 mt-2 w-80 rounded-lg border border-gray-200 bg-white shadow-lg">
+          <div className="flex items-center justify-between border-b border-gray-100 px-4 py-2 text-sm">
+            <span className="font-semibold text-gray-800">Notifications</span>
+            <div className="flex gap-3 text-xs">
+              <button
+                type="button"
+                onClick={() => run(() => markAllRead({ variables: { userId } }), 'Failed to mark notifications read')}
+                disabled={unreadCount === 0}
+                className="text-blue-600 hover:underline disabled:text-gray-300 disabled:no-underline"
+              >
+                Mark all read
+              </button>
+              <button
+                type="button"
+                onClick={() => setShowPreferences((value) => !value)}
+                className="text-gray-500 hover:text-gray-700"
+              >
+                {showPreferences ? 'Inbox' : 'Settings'}
+              </button>
+            </div>
+          </div>
+
+          {showPreferences ? (
+            <div className="space-y-2 px-4 py-3 text-sm">
+              <p className="text-xs text-gray-500">Choose which events notify you.</p>
+              {(preferencesData?.notificationPreferences ?? []).map((preference) => (
+                <label key={preference.type} className="flex items-center justify-between gap-2 text-gray-700">
+                  {formatType(preference.type)}
+                  <input
+                    type="checkbox"
+                    checked={preference.enabled}
+                    onChange={(event) =>
+                      run(
+                        () =>
+                          updatePreferences({
+                            variables: { userId, input: [{ type: preference.type, enabled: event.target.checked }] },
+                          }),
+                        'Failed to update preferences'
+                      )
+                    }
+                  />
+                </label>
+              ))}
+            </div>
+          ) : notifications.length === 0 ? (
+            <p className="px-4 py-6 text-center text-sm text-gray-500">You are all caught up.</p>
+          ) : (
+            <ul className="max-h-96 divide-y divide-gray-100 overflow-y-auto">
+              {notifications.map((notification) => (
+                <li key={notification.id} className={`flex gap-2 px-4 py-3 ${notification.read ? '' : 'bg-blue-50'}`}>
+                  <span
+                    className={`mt-1.5 h-2 w-2 flex-shrink-0 rounded-full ${notification.read ? 'bg-transparent' : 'bg-blue-500'}`}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => handleOpen(notification)}
+                    className="flex-1 text-left text-sm text-gray-700"
+                  >
+                    <span className={notification.taskId ? 'hover:underline' : ''}>{notification.message}</span>
+                    <span className="mt-0.5 block text-xs text-gray-400">
+                      {formatType(notification.type)} · {new Date(notification.createdAt).toLocaleString()}
+                    </span>
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() =>
+                      run(() => deleteNotification({ variables: { id: notification.id } }), 'Failed to delete notification')
+                    }
+                    className="self-start text-gray-300 hover:text-red-500"
+                    aria-label="Delete notification"
+                  >
+                    ×
+                  </button>
+                </li>
+              ))}
+              {pageInfo?.hasNextPage && (
+                <li className="px-4 py-2 text-center">
+                  <button type="button" onClick={loadMore} className="text-xs text-blue-600 hover:underline">
+                    Load older notifications
+                  </button>
+                </li>
+              )}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+'use client';
+
+import { useState } from 'react';
+import { gql, useMutation, useQuery } from '@apollo/client';
+import TaskChecklist, { ChecklistItem, ProgressBar } from '@/components/TaskChecklist';
+
+type Subtask = {
+  id: string;
+  title: string;
+  status: string;
+  allowedTransitions: string[];
+  progress: number;
+  checklist: ChecklistItem[];
+  subtasks: { id: string }[];
+};
+
+const SUBTASK_FIELDS = gql`
+  fragment SubtaskFields on Task {
+    id
+    title
+    status
+    allowedTransitions
+    parentId
+    progress
+    checklist {
+      id
+      text
+      done
+    }
+    subtasks {
+      id
+    }
+  }
+`;
+
+const GET_SUBTASKS = gql`
+  query Subtasks($id: ID!) {
+    task(id: $id) {
+      id
+      progress
+      subtasks {
+        ...SubtaskFields
+      }
+    }
+  }
+  ${SUBTASK_FIELDS}
+`;
+
+const CREATE_SUBTASK = gql`
+  mutation CreateSubtask($input: CreateTaskInput!) {
+    createTask(input: $input) {
+      ...SubtaskFields
+    }
+  }
+  ${SUBTASK_FIELDS}
+`;
+
+const UPDATE_SUBTASK_STATUS = gql`
+  mutation UpdateSubtaskStatus($id: ID!, $status: TaskStatus!) {
+    updateTask(id: $id, input: { status: $status }) {
+      ...SubtaskFields
+    }
+  }
+  ${SUBTASK_FIELDS}
+`;
+
+type SubtaskTreeProps = {
+  taskId: string;
+  teamId: string;
+  subtaskCount: number;
+  depth?: number;
+  onChanged?: () => void;
+  onError?: (message: string) => void;
+};
+
+export default function SubtaskTree({
+  taskId,
+  teamId,
+  subtaskCount,
+  depth = 0,
+  onChanged,
+  onError,
+}: SubtaskTreeProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [draft, setDraft] = useState('');
+
+  // Subtasks are only fetched once a branch is expanded, so large trees stay cheap to render
+  const { data, loading, refetch } = useQuery<{ task: { id: string; progress: number; subtasks: Subtask[] } | null }>(
+    GET_SUBTASKS,
+    {
+      variables: { id: taskId },
+      skip: !expanded,
+      fetchPolicy: 'cache-and-network',
+    }
+  );
+
+  const refresh = () => {
+    refetch();
+    onChanged?.();
+  };
+
+  const [createSubtask] = useMutation(CREATE_SUBTASK, { onCompleted: refresh });
+  const [updateStatus] = useMutation(UPDATE_SUBTASK_STATUS, { onCompleted: refresh });
+
+  const subtasks = data?.task?.subtasks ?? [];
+
+  const handleCreate = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const title = draft.trim();
+    if (!title) {
+      return;
+    }
+    try {
+      await createSubtask({ variables: { input: { title, teamId, parentId: taskId } } });
+      setDraft('');
+    } catch (error: any) {
+      onError?.(error?.message || 'Failed to create subtask');
+    }
+  };
+
+  // The checkbox follows the team workflow: it completes or reopens a subtask only when that move is allowed
+  const toggleTarget = (subtask: Subtask) => (subtask.status === 'COMPLETED' ? 'IN_PROGRESS' : 'COMPLETED');
+
+  const handleToggle = async (subtask: Subtask) => {
+    try {
+      await updateStatus({
+        variables: { id: subtask.id, status: toggleTarget(subtask) },
+      });
+    } catch (error: any) {
+      onError?.(error?.message || 'Failed to update subtask');
+    }
+  };
+
+  return (
+    <div className={depth > 0 ? 'ml-4 border-l border-gray-200 pl-3' : ''}>
+      <button
+        type="button"
+        onClick={() => setExpanded((prev) => !prev)}
+        className="text-xs font-medium text-gray-600 hover:text-gray-800"
+      >
+        {expanded ? 'Hide subtasks' : `Show subtasks${subtaskCount ? ` (${subtaskCount})` : ''}`}
+      </button>
+
+      {expanded && (
+        <div className="mt-2 space-y-2">
+          {loading && subtasks.length === 0 ? (
+            <p className="text-xs text-gray-400">Loading subtasks…</p>
+          ) : (
+            <ul className="space-y-2">
+              {subtasks.map((subtask) => (
+                <li key={subtask.id} className="rounded-lg bg-gray-50 px-3 py-2 space-y-2">
+                  <div className="flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={subtask.status === 'COMPLETED'}
+                      disabled={!subtask.allowedTransitions.includes(toggleTarget(subtask))}
+                      onChange={() => handleToggle(subtask)}
+                    />
+                    <span className={subtask.status === 'COMPLETED' ? 'text-gray-400 line-through' : 'text-gray-700'}>
+                      {subtask.title}
+                    </span>
+                    <span className="ml-auto text-xs text-gray-400">{subtask.status.replace('_', ' ')}</span>
+                  </div>
+                  {(subtask.checklist.length > 0 || subtask.subtasks.length > 0) && (
+                    <ProgressBar progress={subtask.progress} />
+                  )}
+                  <TaskChecklist taskId={subtask.id} items={subtask.checklist} onError={onError} />
+                  <SubtaskTree
+                    taskId={subtask.id}
+                    teamId={teamId}
+                    subtaskCount={subtask.subtasks.length}
+                    depth={depth + 1}
+                    onChanged={refresh}
+                    onError={onError}
+                  />
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <form onSubmit={handleCreate} className="flex gap-2">
+            <input
+              value={draft}
+              onChange={(event) => setDraft(event.target.value)}
+              placeholder="Add subtask"
+              className="flex-1 border border-gray-300 rounded-lg px-2 py-1 text-xs focus:ring-2 focus:ring-blue-500"
+            />
+            <button
+              type="submit"
+              disabled={!draft.trim()}
+              className="px-2 py-1 text-xs border border-gray-300 rounded-lg hover:bg-gray-100 disabled:opacity-60"
+            >
+              Add
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,181 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { gql, useMutation, useQuery } from '@apollo/client';
+import { attachmentApi } from '@/lib/api';
+
+type Attachment = {
+  id: string;
+  name: string;
+  size: number;
+  mimeType: string;
+  uploadedBy: string;
+  uploader?: { id: string; name: string } | null;
+  createdAt: string;
+  downloadUrl: string;
+};
+
+const GET_TASK_ATTACHMENTS = gql`
+  query TaskAttachments($id: ID!) {
+    task(id: $id) {
+      id
+      attachments {
+        id
+        name
+        size
+        mimeType
+        uploadedBy
+        uploader {
+          id
+          name
+        }
+        createdAt
+        downloadUrl
+      }
+    }
+  }
+`;
+
+const DELETE_ATTACHMENT = gql`
+  mutation DeleteAttachment($id: ID!) {
+    deleteAttachment(id: $id)
+  }
+`;
+
+const formatSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+type TaskAttachmentsProps = {
+  taskId: string;
+  currentUserId?: string;
+  isAdmin?: boolean;
+  onError?: (message: string) => void;
+};
+
+export default function TaskAttachments({ taskId, currentUserId, isAdmin, onError }: TaskAttachmentsProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const { data, loading, refetch } = useQuery<{ task: { id: string; attachments: Attachment[] } | null }>(
+    GET_TASK_ATTACHMENTS,
+    {
+      variables: { id: taskId },
+      skip: !expanded,
+      fetchPolicy: 'cache-and-network',
+    }
+  );
+  const [deleteAttachmentMutation] = useMutation(DELETE_ATTACHMENT, {
+    onCompleted: () => refetch(),
+  });
+
+  const attachments = data?.task?.attachments ?? [];
+
+  const handleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) {
+      return;
+    }
+    try {
+      setUploading(true);
+      await attachmentApi.upload(taskId, file);
+      await refetch();
+    } catch (error: any) {
+      onError?.(error?.response?.data?.error || 'Failed to upload file');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  // Download links expire after a few minutes, so fetch a fresh one on every click
+  const handleDownload = async (attachmentId: string) => {
+    try {
+      const result = await refetch();
+      const fresh = result.data?.task?.attachments.find((attachment) => attachment.id === attachmentId);
+      if (fresh) {
+        window.location.href = fresh.downloadUrl;
+      }
+    } catch (error: any) {
+      onError?.(error?.message || 'Failed to download file');
+    }
+  };
+
+  const handleDelete = async (attachment: Attachment) => {
+    if (!confirm(`Delete ${attachment.name}?`)) {
+      return;
+    }
+    try {
+      await deleteAttachmentMutation({ variables: { id: attachment.id } });
+    } catch (error: any) {
+      onError?.(error?.message || 'Failed to delete attachment');
+    }
+  };
+
+  return (
+    <div className="mt-3 border-t border-gray-100 pt-3">
+      <button
+        type="button"
+        onClick={() => setExpanded((prev) => !prev)}
+        className="text-xs font-medium text-gray-600 hover:text-gray-800"
+      >
+        {expanded ? 'Hide attachments' : `Show attachments${attachments.length ? ` (${attachments.length})` : ''}`}
+      </button>
+
+      {expanded && (
+        <div className="mt-3 space-y-2">
+          {loading && attachments.length === 0 ? (
+            <p className="text-xs text-gray-400">Loading attachments…</p>
+          ) : attachments.length === 0 ? (
+            <p className="text-xs text-gray-500">No files attached yet.</p>
+          ) : (
+            <ul className="space-y-1 text-sm">
+              {attachments.map((attachment) => (
+                <li
+                  key={attachment.id}
+                  className="flex items-center justify-between gap-2 rounded border border-gray-200 px-3 py-2"
+                >
+                  <div className="min-w-0">
+                    <button
+                      type="button"
+                      onClick={() => handleDownload(attachment.id)}
+                      className="block truncate text-blue-600 hover:underline"
+                    >
+                      {attachment.name}
+                    </button>
+                    <p className="text-xs text-gray-400">
+                      {formatSize(attachment.size)} · {attachment.uploader?.name || attachment.uploadedBy} ·{' '}
+                      {new Date(attachment.createdAt).toLocaleString()}
+                    </p>
+                  </div>
+                  {(attachment.uploadedBy === currentUserId || isAdmin) && (
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(attachment)}
+                      className="flex-shrink-0 text-xs text-red-500 hover:underline"
+                    >
+                      Delete
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <input ref={fileInput} type="file" onChange={handleUpload} className="hidden" />
+          <button
+            type="button"
+            disabled={uploading}
+            onClick={() => fileInput.current?.click()}
+            className="px-3 py-1 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 disabled:opacity-60"
+          >
+            {uploading ? 'Uploading…' : 'Attach file'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
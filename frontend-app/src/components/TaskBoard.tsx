@@ -0,0 +1,167 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+
+type TaskStatus = 'TODO' | 'IN_PROGRESS' | 'REVIEW' | 'COMPLETED' | 'CANCELLED';
+
+export type BoardTask = {
+  id: string;
+  title: string;
+  status: TaskStatus;
+  priority: string;
+  assignedTo?: string | null;
+  assignee?: Member | null;
+  position: number;
+  isBlocked: boolean;
+  allowedTransitions: TaskStatus[];
+};
+
+type Member = {
+  id: string;
+  name: string;
+};
+
+const COLUMNS: { status: TaskStatus; label: string }[] = [
+  { status: 'TODO', label: 'To Do' },
+  { status: 'IN_PROGRESS', label: 'In Progress' },
+  { status: 'REVIEW', label: 'Review' },
+  { status: 'COMPLETED', label: 'Completed' },
+  { status: 'CANCELLED', label: 'Cancelled' },
+];
+
+// Must match the gap the task service leaves between cards
+const POSITION_STEP = 1024;
+
+// Position for a card dropped at `index` of a column that no longer contains it
+const positionAt = (column: BoardTask[], index: number) => {
+  const before = column[index - 1];
+  const after = column[index];
+  if (!before && !after) return POSITION_STEP;
+  if (!before) return after.position - POSITION_STEP;
+  if (!after) return before.position + POSITION_STEP;
+  return (before.position + after.position) / 2;
+};
+
+type DropTarget = {
+  status: TaskStatus;
+  index: number;
+};
+
+type TaskBoardProps<T extends BoardTask> = {
+  tasks: T[];
+  priorityClasses: Record<string, string>;
+  onMove: (task: T, status: TaskStatus, position: number) => void;
+};
+
+export default function TaskBoard<T extends BoardTask>({ tasks, priorityClasses, onMove }: TaskBoardProps<T>) {
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+
+  const columns = useMemo(() => {
+    const byStatus = new Map<TaskStatus, T[]>(COLUMNS.map(({ status }) => [status, []]));
+    tasks.forEach((task) => byStatus.get(task.status)?.push(task));
+    byStatus.forEach((column) => column.sort((a, b) => a.position - b.position));
+    return byStatus;
+  }, [tasks]);
+
+  const dragged = tasks.find((task) => task.id === draggedId) ?? null;
+
+  // Reordering within a column is always allowed; moving to another one must be a legal transition
+  const canDropInto = (status: TaskStatus) =>
+    Boolean(dragged) && (dragged!.status === status || dragged!.allowedTransitions.includes(status));
+
+  const resetDrag = () => {
+    setDraggedId(null);
+    setDropTarget(null);
+  };
+
+  const handleDragOver = (event: React.DragEvent, status: TaskStatus, index: number) => {
+    if (!canDropInto(status)) {
+      return;
+    }
+    event.preventDefault();
+    event.stopPropagation();
+    if (dropTarget?.status !== status || dropTarget.index !== index) {
+      setDropTarget({ status, index });
+    }
+  };
+
+  const handleDrop = (event: React.DragEvent) => {
+    event.preventDefault();
+    if (!dragged || !dropTarget) {
+      resetDrag();
+      return;
+    }
+
+    const column = columns.get(dropTarget.status) ?? [];
+    const draggedIndex = column.findIndex((task) => task.id === dragged.id);
+    const remaining = column.filter((task) => task.id !== dragged.id);
+    // Indexes were measured with the dragged card still in place
+    const index = draggedIndex !== -1 && draggedIndex < dropTarget.index ? dropTarget.index - 1 : dropTarget.index;
+
+    const unchanged = dragged.status === dropTarget.status && index === draggedIndex;
+    if (!unchanged) {
+      onMove(dragged, dropTarget.status, positionAt(remaining, index));
+    }
+    resetDrag();
+  };
+
+  return (
+    <div className="grid gap-3 overflow-x-auto md:grid-cols-5">
+      {COLUMNS.map(({ status, label }) => {
+        const column = columns.get(status) ?? [];
+        const droppable = canDropInto(status);
+        return (
+          <div
+            key={status}
+            onDragOver={(event) => handleDragOver(event, status, column.length)}
+            onDrop={handleDrop}
+            className={`min-h-[12rem] rounded-lg p-2 transition ${
+              dragged && !droppable ? 'bg-gray-50 opacity-50' : 'bg-gray-100'
+            } ${dropTarget?.status === status ? 'ring-2 ring-blue-300' : ''}`}
+          >
+            <div className="mb-2 flex items-center justify-between px-1 text-xs font-semibold uppercase text-gray-500">
+              <span>{label}</span>
+              <span>{column.length}</span>
+            </div>
+            <ul className="space-y-2">
+              {column.map((task, index) => (
+                <li
+                  key={task.id}
+                  draggable
+                  onDragStart={(event) => {
+                    event.dataTransfer.effectAllowed = 'move';
+                    setDraggedId(task.id);
+                  }}
+                  onDragEnd={resetDrag}
+                  onDragOver={(event) => {
+                    const { top, height } = event.currentTarget.getBoundingClientRect();
+                    handleDragOver(event, status, event.clientY < top + height / 2 ? index : index + 1);
+                  }}
+                  className={`cursor-grab rounded-md border bg-white p-2 text-sm shadow-sm ${
+                    draggedId === task.id ? 'opacity-40' : ''
+                  } ${
+                    dropTarget?.status === status && dropTarget.index === index
+                      ? 'border-t-2 border-t-blue-500'
+                      : 'border-gray-200'
+                  }`}
+                >
+                  <p className="font-medium text-gray-800">{task.title}</p>
+                  <div className="mt-1 flex flex-wrap items-center gap-2 text-xs">
+                    <span className={`font-semibold ${priorityClasses[task.priority] ?? ''}`}>{task.priority}</span>
+                    {task.isBlocked && <span className="rounded bg-orange-100 px-1 text-orange-700">BLOCKED</span>}
+                    {task.assignedTo && (
+                      <span className="text-gray-500">
+                        {task.assignee?.name || task.assignedTo}
+                      </span>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useMutation, useQuery } from '@apollo/client';
+import {
+  RESCHEDULE_TASK,
+  ScheduledTask,
+  TASKS_IN_RANGE,
+  addDays,
+  askRescheduleScope,
+  dayKey,
+  daysBetween,
+  isOverdue,
+  parseDate,
+  shiftSchedule,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from '@/lib/schedule';
+
+type CalendarMode = 'month' | 'week';
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+type TaskCalendarProps = {
+  teamId: string;
+  onError?: (message: string) => void;
+};
+
+export default function TaskCalendar({ teamId, onError }: TaskCalendarProps) {
+  const [mode, setMode] = useState<CalendarMode>('month');
+  const [anchor, setAnchor] = useState(() => startOfDay(new Date()));
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [hoveredDay, setHoveredDay] = useState<string | null>(null);
+
+  // A month view always shows six full weeks so the grid does not jump in height
+  const days = useMemo(() => {
+    const first = mode === 'month' ? startOfWeek(startOfMonth(anchor)) : startOfWeek(anchor);
+    return Array.from({ length: mode === 'month' ? 42 : 7 }, (_, index) => addDays(first, index));
+  }, [mode, anchor]);
+
+  const windowStart = days[0];
+  const windowEnd = addDays(days[days.length - 1], 1);
+
+  const { data, loading } = useQuery<{ tasksInRange: ScheduledTask[] }>(TASKS_IN_RANGE, {
+    variables: {
+      teamId,
+      from: windowStart.toISOString(),
+      to: new Date(windowEnd.getTime() - 1).toISOString(),
+    },
+    fetchPolicy: 'cache-and-network',
+  });
+
+  const [rescheduleTask] = useMutation(RESCHEDULE_TASK);
+
+  const tasksByDay = useMemo(() => {
+    const map = new Map<string, ScheduledTask[]>();
+    (data?.tasksInRange ?? []).forEach((task) => {
+      if (!task.dueDate) return;
+      const key = dayKey(parseDate(task.dueDate));
+      map.set(key, [...(map.get(key) ?? []), task]);
+    });
+    return map;
+  }, [data]);
+
+  const navigate = (direction: 1 | -1) => {
+    setAnchor((current) =>
+      mode === 'month'
+        ? new Date(current.getFullYear(), current.getMonth() + direction, 1)
+        : addDays(current, 7 * direction)
+    );
+  };
+
+  const handleDrop = async (day: Date) => {
+    const task = data?.tasksInRange.find((item) => item.id === draggedId);
+    setDraggedId(null);
+    setHoveredDay(null);
+    if (!task?.dueDate) return;
+
+    const offset = daysBetween(parseDate(task.dueDate), day);
+    if (offset === 0) return;
+
+    const input = shiftSchedule(task, offset);
+    try {
+      await rescheduleTask({
+        variables: { id: task.id, input, scope: askRescheduleScope(task) },
+        optimisticResponse: { updateTask: { ...task, ...input, __typename: 'Task' } },
+      });
+    } catch (error: any) {
+      onError?.(error?.message || 'Failed to reschedule task');
+    }
+  };
+
+  const today = dayKey(new Date());
+  const title =
+    mode === 'month'
+      ? anchor.toLocaleDateString(undefined, { month: 'long', year: 'numeric' })
+      : `${days[0].toLocaleDateString()} – ${days[6].toLocaleDateString()}`;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <button onClick={() => navigate(-1)} className="rounded border border-gray-300 px-2 py-1 text-sm hover:bg-gray-100">
+            ‹
+          </button>
+          <button
+            onClick={() => setAnchor(startOfDay(new Date()))}
+            className="rounded border border-gray-300 px-2 py-1 text-sm hover:bg-gray-100"
+          >
+            Today
+          </button>
+          <button onClick={() => navigate(1)} className="rounded border border-gray-300 px-2 py-1 text-sm hover:bg-gray-100">
+            ›
+          </button>
+          <span className="ml-2 font-medium text-gray-800">{title}</span>
+          {loading && <span className="text-xs text-gray-400">Loading…</span>}
+        </div>
+        <div className="flex overflow-hidden rounded-lg border border-gray-300 text-sm">
+          {(['month', 'week'] as CalendarMode[]).map((option) => (
+            <button
+              key={option}
+              onClick={() => setMode(option)}
+              className={`px-3 py-1 capitalize ${mode === option ? 'bg-blue-600 text-white' : 'text-gray-700 hover:bg-gray-100'}`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-7 gap-px overflow-hidden rounded-lg border border-gray-200 bg-gray-200 text-xs">
+        {WEEKDAYS.map((weekday) => (
+          <div key={weekday} className="bg-gray-50 px-2 py-1 font-semibold text-gray-500">
+            {weekday}
+          </div>
+        ))}
+        {days.map((day) => {
+          const key = dayKey(day);
+          const inMonth = mode === 'week' || day.getMonth() === anchor.getMonth();
+          return (
+            <div
+              key={key}
+              onDragOver={(event) => {
+                event.preventDefault();
+                setHoveredDay(key);
+              }}
+              onDragLeave={() => setHoveredDay((current) => (current === key ? null : current))}
+              onDrop={(event) => {
+                event.preventDefault();
+                handleDrop(day);
+              }}
+              className={`${mode === 'month' ? 'min-h-[6rem]' : 'min-h-[14rem]'} space-y-1 p-1 ${
+                inMonth ? 'bg-white' : 'bg-gray-50 text-gray-400'
+              } ${hoveredDay === key ? 'ring-2 ring-inset ring-blue-300' : ''}`}
+            >
+              <div className={`text-right ${key === today ? 'font-bold text-blue-600' : ''}`}>{day.getDate()}</div>
+              {(tasksByDay.get(key) ?? []).map((task) => (
+                <div
+                  key={task.id}
+                  draggable
+                  onDragStart={() => setDraggedId(task.id)}
+                  onDragEnd={() => {
+                    setDraggedId(null);
+                    setHoveredDay(null);
+                  }}
+                  title={task.title}
+                  className={`cursor-grab truncate rounded px-1 py-0.5 ${
+                    isOverdue(task)
+                      ? 'bg-red-100 text-red-700'
+                      : task.status === 'COMPLETED'
+                        ? 'bg-green-50 text-green-700 line-through'
+                        : 'bg-blue-50 text-blue-700'
+                  } ${draggedId === task.id ? 'opacity-40' : ''}`}
+                >
+                  {task.title}
+                </div>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+'use client';
+
+import { useState } from 'react';
+import { gql, useMutation } from '@apollo/client';
+
+export type ChecklistItem = {
+  id: string;
+  text: string;
+  done: boolean;
+};
+
+const CHECKLIST_FIELDS = gql`
+  fragment ChecklistFields on Task {
+    id
+    progress
+    checklist {
+      id
+      text
+      done
+    }
+  }
+`;
+
+const ADD_CHECKLIST_ITEM = gql`
+  mutation AddChecklistItem($taskId: ID!, $text: String!) {
+    addChecklistItem(taskId: $taskId, text: $text) {
+      ...ChecklistFields
+    }
+  }
+  ${CHECKLIST_FIELDS}
+`;
+
+const UPDATE_CHECKLIST_ITEM = gql`
+  mutation UpdateChecklistItem($taskId: ID!, $itemId: ID!, $done: Boolean) {
+    updateChecklistItem(taskId: $taskId, itemId: $itemId, done: $done) {
+      ...ChecklistFields
+    }
+  }
+  ${CHECKLIST_FIELDS}
+`;
+
+const REMOVE_CHECKLIST_ITEM = gql`
+  mutation RemoveChecklistItem($taskId: ID!, $itemId: ID!) {
+    removeChecklistItem(taskId: $taskId, itemId: $itemId) {
+      ...ChecklistFields
+    }
+  }
+  ${CHECKLIST_FIELDS}
+`;
+
+export function ProgressBar({ progress }: { progress: number }) {
+  return (
+    <div className="flex items-center gap-2">
+      <div className="h-1.5 flex-1 rounded-full bg-gray-100">
+        <div
+          className={`h-1.5 rounded-full ${progress === 100 ? 'bg-green-500' : 'bg-blue-500'}`}
+          style={{ width: `${progress}%` }}
+        />
+      </div>
+      <span className="w-9 text-right text-xs text-gray-500">{progress}%</span>
+    </div>
+  );
+}
+
+type TaskChecklistProps = {
+  taskId: string;
+  items: ChecklistItem[];
+  onError?: (message: string) => void;
+};
+
+export default function TaskChecklist({ taskId, items, onError }: TaskChecklistProps) {
+  const [draft, setDraft] = useState('');
+  const [addItem] = useMutation(ADD_CHECKLIST_ITEM);
+  const [updateItem] = useMutation(UPDATE_CHECKLIST_ITEM);
+  const [removeItem] = useMutation(REMOVE_CHECKLIST_ITEM);
+
+  const run = async (action: () => Promise<unknown>, fallback: string) => {
+    try {
+      await action();
+    } catch (error: any) {
+      onError?.(error?.message || fallback);
+    }
+  };
+
+  const handleAdd = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const text = draft.trim();
+    if (!text) {
+      return;
+    }
+    await run(() => addItem({ variables: { taskId, text } }), 'Failed to add checklist item');
+    setDraft('');
+  };
+
+  return (
+    <div className="space-y-2">
+      {items.length > 0 && (
+        <ul className="space-y-1">
+          {items.map((item) => (
+            <li key={item.id} className="group flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={item.done}
+                onChange={(event) =>
+                  run(
+                    () => updateItem({ variables: { taskId, itemId: item.id, done: event.target.checked } }),
+                    'Failed to update checklist item'
+                  )
+                }
+              />
+              <span className={item.done ? 'text-gray-400 line-through' : 'text-gray-700'}>{item.text}</span>
+              <button
+                type="button"
+                onClick={() =>
+                  run(() => removeItem({ variables: { taskId, itemId: item.id } }), 'Failed to remove checklist item')
+                }
+                className="ml-auto hidden text-xs text-red-500 hover:text-red-600 group-hover:inline"
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <form onSubmit={handleAdd} className="flex gap-2">
+        <input
+          value={draft}
+          onChange={(event) => setDraft(event.target.value)}
+          placeholder="Add checklist item"
+          className="flex-1 border border-gray-300 rounded-lg px-2 py-1 text-xs focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          type="submit"
+          disabled={!draft.trim()}
+          className="px-2 py-1 text-xs border border-gray-300 rounded-lg hover:bg-gray-100 disabled:opacity-60"
+        >
+          Add
+        </button>
+      </form>
+    </div>
+  );
+}
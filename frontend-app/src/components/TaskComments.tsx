@@ -0,0 +1,316 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { gql, useMutation, useQuery, useSubscription } from '@apollo/client';
+
+type Author = {
+  id: string;
+  name: string;
+};
+
+type Comment = {
+  id: string;
+  taskId: string;
+  parentId?: string | null;
+  authorId: string;
+  author?: Author | null;
+  body: string;
+  createdAt: string;
+  updatedAt: string;
+  edited: boolean;
+};
+
+const COMMENT_FIELDS = gql`
+  fragment CommentFields on Comment {
+    id
+    taskId
+    parentId
+    authorId
+    author {
+      id
+      name
+    }
+    body
+    createdAt
+    updatedAt
+    edited
+  }
+`;
+
+const GET_TASK_COMMENTS = gql`
+  query TaskComments($id: ID!) {
+    task(id: $id) {
+      id
+      comments {
+        ...CommentFields
+      }
+    }
+  }
+  ${COMMENT_FIELDS}
+`;
+
+const ADD_COMMENT = gql`
+  mutation AddComment($taskId: ID!, $body: String!, $parentId: ID) {
+    addComment(taskId: $taskId, body: $body, parentId: $parentId) {
+      ...CommentFields
+    }
+  }
+  ${COMMENT_FIELDS}
+`;
+
+const EDIT_COMMENT = gql`
+  mutation EditComment($id: ID!, $body: String!) {
+    editComment(id: $id, body: $body) {
+      ...CommentFields
+    }
+  }
+  ${COMMENT_FIELDS}
+`;
+
+const DELETE_COMMENT = gql`
+  mutation DeleteComment($id: ID!) {
+    deleteComment(id: $id)
+  }
+`;
+
+const COMMENT_ADDED = gql`
+  subscription CommentAdded($taskId: ID!) {
+    commentAdded(taskId: $taskId) {
+      ...CommentFields
+    }
+  }
+  ${COMMENT_FIELDS}
+`;
+
+type TaskCommentsProps = {
+  taskId: string;
+  currentUserId?: string;
+  onError?: (message: string) => void;
+};
+
+export default function TaskComments({ taskId, currentUserId, onError }: TaskCommentsProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState('');
+
+  const { data, loading, refetch } = useQuery<{ task: { id: string; comments: Comment[] } | null }>(
+    GET_TASK_COMMENTS,
+    {
+      variables: { id: taskId },
+      skip: !expanded,
+      fetchPolicy: 'cache-and-network',
+    }
+  );
+
+  const [addCommentMutation] = useMutation(ADD_COMMENT, {
+    onCompleted: () => refetch(),
+  });
+  const [editCommentMutation] = useMutation(EDIT_COMMENT, {
+    onCompleted: () => refetch(),
+  });
+  const [deleteCommentMutation] = useMutation(DELETE_COMMENT, {
+    onCompleted: () => refetch(),
+  });
+
+  useSubscription(COMMENT_ADDED, {
+    variables: { taskId },
+    skip: !expanded,
+    onData: () => {
+      refetch();
+    },
+  });
+
+  const comments = useMemo(() => data?.task?.comments ?? [], [data]);
+
+  const repliesByParent = useMemo(() => {
+    const map = new Map<string | null, Comment[]>();
+    comments.forEach((comment) => {
+      const key = comment.parentId ?? null;
+      map.set(key, [...(map.get(key) ?? []), comment]);
+    });
+    return map;
+  }, [comments]);
+
+  const authorName = (comment?: Comment) => comment?.author?.name || comment?.authorId || '';
+
+  const reportError = (error: any, fallback: string) => {
+    onError?.(error?.message || fallback);
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!draft.trim()) {
+      return;
+    }
+    try {
+      await addCommentMutation({
+        variables: { taskId, body: draft.trim(), parentId: replyTo },
+      });
+      setDraft('');
+      setReplyTo(null);
+    } catch (error: any) {
+      reportError(error, 'Failed to add comment');
+    }
+  };
+
+  const handleSaveEdit = async (commentId: string) => {
+    if (!editDraft.trim()) {
+      return;
+    }
+    try {
+      await editCommentMutation({ variables: { id: commentId, body: editDraft.trim() } });
+      setEditingId(null);
+      setEditDraft('');
+    } catch (error: any) {
+      reportError(error, 'Failed to edit comment');
+    }
+  };
+
+  const handleDelete = async (commentId: string) => {
+    if (!confirm('Delete this comment and its replies?')) {
+      return;
+    }
+    try {
+      await deleteCommentMutation({ variables: { id: commentId } });
+    } catch (error: any) {
+      reportError(error, 'Failed to delete comment');
+    }
+  };
+
+  const renderThread = (parentId: string | null, depth: number): React.ReactNode => {
+    const thread = repliesByParent.get(parentId) ?? [];
+    if (thread.length === 0) {
+      return null;
+    }
+
+    return (
+      <ul className={`space-y-2 ${depth > 0 ? 'ml-4 border-l border-gray-200 pl-3' : ''}`}>
+        {thread.map((comment) => (
+          <li key={comment.id} className="space-y-2">
+            <div className="rounded-lg bg-gray-50 px-3 py-2 text-sm">
+              <div className="flex items-center justify-between gap-2 text-xs text-gray-500">
+                <span className="font-medium text-gray-700">{authorName(comment)}</span>
+                <span>
+                  {new Date(comment.createdAt).toLocaleString()}
+                  {comment.edited && ' · edited'}
+                </span>
+              </div>
+              {editingId === comment.id ? (
+                <div className="mt-2 space-y-2">
+                  <textarea
+                    value={editDraft}
+                    onChange={(event) => setEditDraft(event.target.value)}
+                    className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500"
+                    rows={2}
+                  />
+                  <div className="flex gap-2 text-xs">
+                    <button
+                      type="button"
+                      onClick={() => handleSaveEdit(comment.id)}
+                      className="text-blue-600 hover:underline"
+                    >
+                      Save
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setEditingId(null)}
+                      className="text-gray-500 hover:underline"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <p className="mt-1 whitespace-pre-wrap text-gray-700">{comment.body}</p>
+              )}
+              <div className="mt-1 flex gap-3 text-xs">
+                <button
+                  type="button"
+                  onClick={() => setReplyTo(comment.id)}
+                  className="text-blue-600 hover:underline"
+                >
+                  Reply
+                </button>
+                {comment.authorId === currentUserId && editingId !== comment.id && (
+                  <>
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setEditingId(comment.id);
+                        setEditDraft(comment.body);
+                      }}
+                      className="text-gray-600 hover:underline"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(comment.id)}
+                      className="text-red-500 hover:underline"
+                    >
+                      Delete
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+            {renderThread(comment.id, depth + 1)}
+          </li>
+        ))}
+      </ul>
+    );
+  };
+
+  return (
+    <div className="mt-3 border-t border-gray-100 pt-3">
+      <button
+        type="button"
+        onClick={() => setExpanded((prev) => !prev)}
+        className="text-xs font-medium text-gray-600 hover:text-gray-800"
+      >
+        {expanded ? 'Hide comments' : `Show comments${comments.length ? ` (${comments.length})` : ''}`}
+      </button>
+
+      {expanded && (
+        <div className="mt-3 space-y-3">
+          {loading && comments.length === 0 ? (
+            <p className="text-xs text-gray-400">Loading comments…</p>
+          ) : comments.length === 0 ? (
+            <p className="text-xs text-gray-500">No comments yet. Start the discussion below.</p>
+          ) : (
+            renderThread(null, 0)
+          )}
+
+          <form onSubmit={handleSubmit} className="space-y-2">
+            {replyTo && (
+              <div className="flex items-center justify-between rounded bg-blue-50 px-2 py-1 text-xs text-blue-700">
+                <span>
+                  Replying to {authorName(comments.find((comment) => comment.id === replyTo))}
+                </span>
+                <button type="button" onClick={() => setReplyTo(null)} className="hover:underline">
+                  Cancel
+                </button>
+              </div>
+            )}
+            <textarea
+              value={draft}
+              onChange={(event) => setDraft(event.target.value)}
+              className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500"
+              rows={2}
+              placeholder="Write a comment…"
+            />
+            <button
+              type="submit"
+              disabled={!draft.trim()}
+              className="px-3 py-1 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 disabled:opacity-60"
+            >
+              {replyTo ? 'Reply' : 'Comment'}
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+}
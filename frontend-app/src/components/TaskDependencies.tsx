@@ -0,0 +1,109 @@
+'use client';
+
+import { gql, useMutation } from '@apollo/client';
+
+export type TaskReference = {
+  id: string;
+  title: string;
+  status: string;
+};
+
+const DEPENDENCY_FIELDS = gql`
+  fragment DependencyFields on Task {
+    id
+    isBlocked
+    blockedBy {
+      id
+      title
+      status
+    }
+  }
+`;
+
+const ADD_DEPENDENCY = gql`
+  mutation AddDependency($taskId: ID!, $blockerId: ID!) {
+    addDependency(taskId: $taskId, blockerId: $blockerId) {
+      ...DependencyFields
+    }
+  }
+  ${DEPENDENCY_FIELDS}
+`;
+
+const REMOVE_DEPENDENCY = gql`
+  mutation RemoveDependency($taskId: ID!, $blockerId: ID!) {
+    removeDependency(taskId: $taskId, blockerId: $blockerId) {
+      ...DependencyFields
+    }
+  }
+  ${DEPENDENCY_FIELDS}
+`;
+
+const isOpen = (task: TaskReference) => task.status !== 'COMPLETED' && task.status !== 'CANCELLED';
+
+type TaskDependenciesProps = {
+  taskId: string;
+  blockedBy: TaskReference[];
+  candidates: TaskReference[];
+  onChanged?: () => void;
+  onError?: (message: string) => void;
+};
+
+export default function TaskDependencies({ taskId, blockedBy, candidates, onChanged, onError }: TaskDependenciesProps) {
+  const [addDependency] = useMutation(ADD_DEPENDENCY, { onCompleted: () => onChanged?.() });
+  const [removeDependency] = useMutation(REMOVE_DEPENDENCY, { onCompleted: () => onChanged?.() });
+
+  const available = candidates.filter(
+    (candidate) => candidate.id !== taskId && !blockedBy.some((blocker) => blocker.id === candidate.id)
+  );
+
+  const run = async (action: () => Promise<unknown>, fallback: string) => {
+    try {
+      await action();
+    } catch (error: any) {
+      onError?.(error?.message || fallback);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs">
+      {blockedBy.length > 0 && <span className="text-gray-500">Blocked by</span>}
+      {blockedBy.map((blocker) => (
+        <span
+          key={blocker.id}
+          className={`flex items-center gap-1 rounded px-2 py-0.5 ${
+            isOpen(blocker) ? 'bg-orange-100 text-orange-700' : 'bg-gray-100 text-gray-400 line-through'
+          }`}
+        >
+          {blocker.title}
+          <button
+            type="button"
+            onClick={() =>
+              run(() => removeDependency({ variables: { taskId, blockerId: blocker.id } }), 'Failed to remove dependency')
+            }
+            className="hover:text-red-600"
+            aria-label={`Remove dependency on ${blocker.title}`}
+          >
+            ×
+          </button>
+        </span>
+      ))}
+      {available.length > 0 && (
+        <select
+          value=""
+          onChange={(event) =>
+            event.target.value &&
+            run(() => addDependency({ variables: { taskId, blockerId: event.target.value } }), 'Failed to add dependency')
+          }
+          className="border border-gray-300 rounded px-1 py-0.5 text-xs text-gray-600"
+        >
+          <option value="">+ Blocked by…</option>
+          {available.map((candidate) => (
+            <option key={candidate.id} value={candidate.id}>
+              {candidate.title}
+            </option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+}
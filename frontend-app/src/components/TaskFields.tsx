@@ -0,0 +1,214 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { gql, useMutation, useQuery } from '@apollo/client';
+
+export type Label = {
+  id: string;
+  name: string;
+  color: string;
+};
+
+export type CustomFieldType = 'TEXT' | 'NUMBER' | 'DATE' | 'SINGLE_SELECT' | 'USER';
+
+export type CustomFieldDefinition = {
+  id: string;
+  name: string;
+  type: CustomFieldType;
+  options: string[];
+};
+
+export type TaskCustomFieldValue = {
+  fieldId: string;
+  value: string;
+  field: { id: string; name: string; type: CustomFieldType };
+};
+
+export const TEAM_FIELD_DEFINITIONS = gql`
+  query TeamFieldDefinitions($teamId: ID!) {
+    labels(teamId: $teamId) {
+      id
+      name
+      color
+    }
+    customFields(teamId: $teamId) {
+      id
+      name
+      type
+      options
+    }
+  }
+`;
+
+const UPDATE_TASK_FIELDS = gql`
+  mutation UpdateTaskFields($id: ID!, $input: UpdateTaskInput!) {
+    updateTask(id: $id, input: $input) {
+      id
+      labelIds
+      labels {
+        id
+        name
+        color
+      }
+      customFields {
+        fieldId
+        value
+        field {
+          id
+          name
+          type
+        }
+      }
+    }
+  }
+`;
+
+// Dark text on light label colors, white on dark ones
+const textColorFor = (hex: string) => {
+  const value = parseInt(hex.slice(1), 16);
+  const luminance = (0.299 * ((value >> 16) & 255) + 0.587 * ((value >> 8) & 255) + 0.114 * (value & 255)) / 255;
+  return luminance > 0.6 ? '#1f2937' : '#ffffff';
+};
+
+export function LabelChip({ label, muted = false }: { label: Label; muted?: boolean }) {
+  return (
+    <span
+      className={`rounded-full px-2 py-0.5 text-xs font-medium ${muted ? 'opacity-40' : ''}`}
+      style={{ backgroundColor: label.color, color: textColorFor(label.color) }}
+    >
+      {label.name}
+    </span>
+  );
+}
+
+type TaskFieldsProps = {
+  taskId: string;
+  teamId: string;
+  labelIds: string[];
+  values: TaskCustomFieldValue[];
+  members: { id: string; name: string }[];
+  onError?: (message: string) => void;
+};
+
+// Label toggles and one input per custom field the team defines
+export default function TaskFields({ taskId, teamId, labelIds, values, members, onError }: TaskFieldsProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+
+  const { data } = useQuery<{ labels: Label[]; customFields: CustomFieldDefinition[] }>(TEAM_FIELD_DEFINITIONS, {
+    variables: { teamId },
+    skip: !expanded,
+  });
+  const [updateTaskFields] = useMutation(UPDATE_TASK_FIELDS);
+
+  const currentValues = Object.fromEntries(values.map((entry) => [entry.fieldId, entry.value]));
+
+  useEffect(() => {
+    setDrafts({});
+  }, [values]);
+
+  const save = async (input: { labelIds?: string[]; customFields?: { fieldId: string; value: string | null }[] }) => {
+    try {
+      await updateTaskFields({ variables: { id: taskId, input } });
+    } catch (error: any) {
+      onError?.(error?.message || 'Failed to update task');
+      setDrafts({});
+    }
+  };
+
+  const toggleLabel = (labelId: string) =>
+    save({
+      labelIds: labelIds.includes(labelId) ? labelIds.filter((id) => id !== labelId) : [...labelIds, labelId],
+    });
+
+  const saveValue = (fieldId: string, value: string) => {
+    if (value === (currentValues[fieldId] ?? '')) {
+      return;
+    }
+    save({ customFields: [{ fieldId, value: value || null }] });
+  };
+
+  const inputClass = 'w-full border border-gray-300 rounded px-2 py-1 text-sm focus:ring-2 focus:ring-blue-500';
+
+  const renderInput = (field: CustomFieldDefinition) => {
+    const value = drafts[field.id] ?? currentValues[field.id] ?? '';
+    switch (field.type) {
+      case 'SINGLE_SELECT':
+      case 'USER':
+        return (
+          <select value={value} onChange={(event) => saveValue(field.id, event.target.value)} className={inputClass}>
+            <option value="">—</option>
+            {field.type === 'USER'
+              ? members.map((member) => (
+                  <option key={member.id} value={member.id}>
+                    {member.name}
+                  </option>
+                ))
+              : field.options.map((option) => (
+                  <option key={option} value={option}>
+                    {option}
+                  </option>
+                ))}
+          </select>
+        );
+      case 'DATE':
+        return (
+          <input
+            type="date"
+            value={value}
+            onChange={(event) => saveValue(field.id, event.target.value)}
+            className={inputClass}
+          />
+        );
+      default:
+        return (
+          <input
+            type={field.type === 'NUMBER' ? 'number' : 'text'}
+            value={value}
+            onChange={(event) => setDrafts((prev) => ({ ...prev, [field.id]: event.target.value }))}
+            onBlur={(event) => saveValue(field.id, event.target.value.trim())}
+            className={inputClass}
+          />
+        );
+    }
+  };
+
+  return (
+    <div>
+      <button
+        type="button"
+        onClick={() => setExpanded((prev) => !prev)}
+        className="text-xs font-medium text-gray-600 hover:text-gray-800"
+      >
+        {expanded ? 'Hide labels & fields' : 'Edit labels & fields'}
+      </button>
+
+      {expanded && data && (
+        <div className="mt-2 space-y-3">
+          {data.labels.length === 0 && data.customFields.length === 0 && (
+            <p className="text-xs text-gray-500">This team has no labels or custom fields yet.</p>
+          )}
+          {data.labels.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {data.labels.map((label) => (
+                <button key={label.id} type="button" onClick={() => toggleLabel(label.id)}>
+                  <LabelChip label={label} muted={!labelIds.includes(label.id)} />
+                </button>
+              ))}
+            </div>
+          )}
+          {data.customFields.length > 0 && (
+            <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+              {data.customFields.map((field) => (
+                <label key={field.id} className="block text-xs text-gray-600">
+                  {field.name}
+                  {renderInput(field)}
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
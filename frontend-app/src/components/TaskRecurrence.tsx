@@ -0,0 +1,289 @@
+'use client';
+
+import { useState } from 'react';
+import { gql, useMutation } from '@apollo/client';
+
+type Frequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+export type Recurrence = {
+  frequency: Frequency;
+  interval: number;
+  byDay: Weekday[];
+  until?: string | null;
+  count?: number | null;
+  rule: string;
+};
+
+// Form state; an empty frequency means "does not repeat"
+export type RecurrenceDraft = {
+  frequency: Frequency | '';
+  interval: number;
+  byDay: Weekday[];
+  ends: 'never' | 'until' | 'count';
+  until: string;
+  count: number;
+};
+
+export const EMPTY_RECURRENCE: RecurrenceDraft = {
+  frequency: '',
+  interval: 1,
+  byDay: [],
+  ends: 'never',
+  until: '',
+  count: 5,
+};
+
+const WEEKDAYS: Weekday[] = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+const WEEKDAY_LABELS: Record<Weekday, string> = {
+  MO: 'Mon',
+  TU: 'Tue',
+  WE: 'Wed',
+  TH: 'Thu',
+  FR: 'Fri',
+  SA: 'Sat',
+  SU: 'Sun',
+};
+const UNITS: Record<Frequency, string> = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month' };
+
+export const RECURRENCE_FIELDS = gql`
+  fragment RecurrenceFields on Task {
+    id
+    seriesId
+    occurrence
+    recurrence {
+      frequency
+      interval
+      byDay
+      until
+      count
+      rule
+    }
+  }
+`;
+
+const UPDATE_RECURRENCE = gql`
+  mutation UpdateRecurrence($id: ID!, $recurrence: RecurrenceInput!) {
+    updateTask(id: $id, input: { recurrence: $recurrence }, scope: ALL_FUTURE) {
+      ...RecurrenceFields
+    }
+  }
+  ${RECURRENCE_FIELDS}
+`;
+
+const STOP_RECURRENCE = gql`
+  mutation StopRecurrence($taskId: ID!) {
+    stopRecurrence(taskId: $taskId) {
+      ...RecurrenceFields
+    }
+  }
+  ${RECURRENCE_FIELDS}
+`;
+
+export const toRecurrenceInput = (draft: RecurrenceDraft) => {
+  if (!draft.frequency) return undefined;
+  return {
+    frequency: draft.frequency,
+    interval: draft.interval,
+    byDay: draft.frequency === 'WEEKLY' ? draft.byDay : [],
+    until: draft.ends === 'until' && draft.until ? draft.until : undefined,
+    count: draft.ends === 'count' ? draft.count : undefined,
+  };
+};
+
+const toDraft = (recurrence: Recurrence): RecurrenceDraft => ({
+  frequency: recurrence.frequency,
+  interval: recurrence.interval,
+  byDay: recurrence.byDay,
+  ends: recurrence.until ? 'until' : recurrence.count ? 'count' : 'never',
+  until: recurrence.until ? recurrence.until.slice(0, 10) : '',
+  count: recurrence.count ?? 5,
+});
+
+// "Every 2 weeks on Mon, Wed, 5 times"
+export const describeRecurrence = (recurrence: Recurrence) => {
+  const unit = UNITS[recurrence.frequency];
+  const parts = [recurrence.interval === 1 ? `Every ${unit}` : `Every ${recurrence.interval} ${unit}s`];
+  if (recurrence.byDay.length > 0) {
+    parts[0] += ` on ${recurrence.byDay.map((day) => WEEKDAY_LABELS[day]).join(', ')}`;
+  }
+  if (recurrence.until) parts.push(`until ${new Date(recurrence.until).toLocaleDateString()}`);
+  if (recurrence.count) parts.push(`${recurrence.count} times`);
+  return parts.join(', ');
+};
+
+type RecurrenceFieldsProps = {
+  value: RecurrenceDraft;
+  onChange: (value: RecurrenceDraft) => void;
+};
+
+export function RecurrenceFields({ value, onChange }: RecurrenceFieldsProps) {
+  const update = (changes: Partial<RecurrenceDraft>) => onChange({ ...value, ...changes });
+  const inputClass = 'border border-gray-300 rounded px-2 py-1 text-sm focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={value.frequency}
+          onChange={(event) => update({ frequency: event.target.value as RecurrenceDraft['frequency'] })}
+          className={inputClass}
+        >
+          <option value="">Does not repeat</option>
+          <option value="DAILY">Daily</option>
+          <option value="WEEKLY">Weekly</option>
+          <option value="MONTHLY">Monthly</option>
+        </select>
+        {value.frequency && (
+          <label className="flex items-center gap-1 text-sm text-gray-600">
+            every
+            <input
+              type="number"
+              min={1}
+              value={value.interval}
+              onChange={(event) => update({ interval: Math.max(1, Number(event.target.value) || 1) })}
+              className={`${inputClass} w-16`}
+            />
+            {UNITS[value.frequency]}(s)
+          </label>
+        )}
+      </div>
+      {value.frequency === 'WEEKLY' && (
+        <div className="flex flex-wrap gap-1">
+          {WEEKDAYS.map((day) => {
+            const selected = value.byDay.includes(day);
+            return (
+              <button
+                key={day}
+                type="button"
+                onClick={() =>
+                  update({ byDay: selected ? value.byDay.filter((item) => item !== day) : [...value.byDay, day] })
+                }
+                className={`rounded px-2 py-0.5 text-xs border ${
+                  selected ? 'bg-blue-600 border-blue-600 text-white' : 'border-gray-300 text-gray-600'
+                }`}
+              >
+                {WEEKDAY_LABELS[day]}
+              </button>
+            );
+          })}
+        </div>
+      )}
+      {value.frequency && (
+        <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+          <select
+            value={value.ends}
+            onChange={(event) => update({ ends: event.target.value as RecurrenceDraft['ends'] })}
+            className={inputClass}
+          >
+            <option value="never">Never ends</option>
+            <option value="until">Ends on</option>
+            <option value="count">Ends after</option>
+          </select>
+          {value.ends === 'until' && (
+            <input
+              type="date"
+              value={value.until}
+              onChange={(event) => update({ until: event.target.value })}
+              className={inputClass}
+            />
+          )}
+          {value.ends === 'count' && (
+            <label className="flex items-center gap-1">
+              <input
+                type="number"
+                min={1}
+                value={value.count}
+                onChange={(event) => update({ count: Math.max(1, Number(event.target.value) || 1) })}
+                className={`${inputClass} w-16`}
+              />
+              occurrences
+            </label>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+type TaskRecurrenceProps = {
+  taskId: string;
+  recurrence?: Recurrence | null;
+  occurrence?: number | null;
+  onError?: (message: string) => void;
+};
+
+// Series controls on a task card; rule changes always apply to this and all future occurrences
+export default function TaskRecurrence({ taskId, recurrence, occurrence, onError }: TaskRecurrenceProps) {
+  const [draft, setDraft] = useState<RecurrenceDraft | null>(null);
+  const [updateRecurrence] = useMutation(UPDATE_RECURRENCE);
+  const [stopRecurrence] = useMutation(STOP_RECURRENCE);
+
+  const run = async (action: () => Promise<unknown>, fallback: string) => {
+    try {
+      await action();
+      setDraft(null);
+    } catch (error: any) {
+      onError?.(error?.message || fallback);
+    }
+  };
+
+  const handleSave = () => {
+    const input = draft && toRecurrenceInput(draft);
+    if (!input) {
+      setDraft(null);
+      return;
+    }
+    run(() => updateRecurrence({ variables: { id: taskId, recurrence: input } }), 'Failed to update recurrence');
+  };
+
+  if (draft) {
+    return (
+      <div className="space-y-2 text-xs">
+        <RecurrenceFields value={draft} onChange={setDraft} />
+        <div className="flex gap-2">
+          <button type="button" onClick={handleSave} className="rounded bg-blue-600 px-3 py-1 text-white hover:bg-blue-700">
+            Save
+          </button>
+          <button type="button" onClick={() => setDraft(null)} className="text-gray-500 hover:text-gray-700">
+            Cancel
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs">
+      {recurrence ? (
+        <>
+          <span className="rounded bg-purple-100 px-2 py-0.5 text-purple-700" title={recurrence.rule}>
+            ↻ {describeRecurrence(recurrence)}
+          </span>
+          {occurrence && <span className="text-gray-400">#{occurrence}</span>}
+          <button type="button" onClick={() => setDraft(toDraft(recurrence))} className="text-blue-600 hover:underline">
+            Edit series
+          </button>
+          <button
+            type="button"
+            onClick={() =>
+              confirm('Stop repeating? Existing occurrences are kept.') &&
+              run(() => stopRecurrence({ variables: { taskId } }), 'Failed to stop recurrence')
+            }
+            className="text-red-500 hover:underline"
+          >
+            Stop repeating
+          </button>
+        </>
+      ) : (
+        <button
+          type="button"
+          onClick={() => setDraft({ ...EMPTY_RECURRENCE, frequency: 'WEEKLY' })}
+          className="text-gray-500 hover:text-gray-700"
+        >
+          ↻ Repeat…
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,190 @@
+'use client';
+
+import { useMemo, useRef, useState } from 'react';
+import { useMutation, useQuery } from '@apollo/client';
+import {
+  RESCHEDULE_TASK,
+  ScheduledTask,
+  TASKS_IN_RANGE,
+  addDays,
+  askRescheduleScope,
+  dayKey,
+  daysBetween,
+  isOverdue,
+  parseDate,
+  shiftSchedule,
+  startOfDay,
+  startOfWeek,
+} from '@/lib/schedule';
+
+const VISIBLE_DAYS = 28;
+
+type TaskTimelineProps = {
+  teamId: string;
+  onError?: (message: string) => void;
+};
+
+export default function TaskTimeline({ teamId, onError }: TaskTimelineProps) {
+  const [windowStart, setWindowStart] = useState(() => startOfWeek(new Date()));
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  // Which day of the bar was grabbed, so the bar keeps its place under the cursor when dropped
+  const grabOffset = useRef(0);
+
+  const days = useMemo(
+    () => Array.from({ length: VISIBLE_DAYS }, (_, index) => addDays(windowStart, index)),
+    [windowStart]
+  );
+  const windowEnd = addDays(windowStart, VISIBLE_DAYS);
+
+  const { data, loading } = useQuery<{ tasksInRange: ScheduledTask[] }>(TASKS_IN_RANGE, {
+    variables: {
+      teamId,
+      from: windowStart.toISOString(),
+      to: new Date(windowEnd.getTime() - 1).toISOString(),
+    },
+    fetchPolicy: 'cache-and-network',
+  });
+
+  const [rescheduleTask] = useMutation(RESCHEDULE_TASK);
+
+  // Bar start/end as day indexes relative to the window; they may fall outside it
+  const rows = useMemo(
+    () =>
+      (data?.tasksInRange ?? [])
+        .map((task) => {
+          const start = parseDate(task.startDate || task.dueDate!);
+          const end = parseDate(task.dueDate || task.startDate!);
+          return { task, startIndex: daysBetween(windowStart, start), endIndex: daysBetween(windowStart, end) };
+        })
+        .sort((a, b) => a.startIndex - b.startIndex || a.endIndex - b.endIndex),
+    [data, windowStart]
+  );
+
+  const handleDrop = async (dayIndex: number) => {
+    const row = rows.find((item) => item.task.id === draggedId);
+    setDraggedId(null);
+    if (!row) return;
+
+    const offset = dayIndex - grabOffset.current - row.startIndex;
+    if (offset === 0) return;
+
+    const input = shiftSchedule(row.task, offset);
+    try {
+      await rescheduleTask({
+        variables: { id: row.task.id, input, scope: askRescheduleScope(row.task) },
+        optimisticResponse: { updateTask: { ...row.task, ...input, __typename: 'Task' } },
+      });
+    } catch (error: any) {
+      onError?.(error?.message || 'Failed to reschedule task');
+    }
+  };
+
+  const today = dayKey(new Date());
+  const gridStyle = { gridTemplateColumns: `repeat(${VISIBLE_DAYS}, minmax(1.75rem, 1fr))` };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => setWindowStart((current) => addDays(current, -7))}
+          className="rounded border border-gray-300 px-2 py-1 text-sm hover:bg-gray-100"
+        >
+          ‹
+        </button>
+        <button
+          onClick={() => setWindowStart(startOfWeek(new Date()))}
+          className="rounded border border-gray-300 px-2 py-1 text-sm hover:bg-gray-100"
+        >
+          Today
+        </button>
+        <button
+          onClick={() => setWindowStart((current) => addDays(current, 7))}
+          className="rounded border border-gray-300 px-2 py-1 text-sm hover:bg-gray-100"
+        >
+          ›
+        </button>
+        <span className="ml-2 font-medium text-gray-800">
+          {windowStart.toLocaleDateString()} – {addDays(windowEnd, -1).toLocaleDateString()}
+        </span>
+        {loading && <span className="text-xs text-gray-400">Loading…</span>}
+      </div>
+
+      <div className="overflow-x-auto">
+        <div className="min-w-[56rem] text-xs">
+          <div className="flex border-b border-gray-200">
+            <div className="w-48 shrink-0" />
+            <div className="grid flex-1" style={gridStyle}>
+              {days.map((day) => (
+                <div
+                  key={dayKey(day)}
+                  className={`py-1 text-center ${dayKey(day) === today ? 'font-bold text-blue-600' : 'text-gray-500'}`}
+                >
+                  {day.getDate() === 1 || day.getTime() === windowStart.getTime()
+                    ? day.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })
+                    : day.getDate()}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {rows.length === 0 ? (
+            <p className="py-4 text-center text-gray-500">No scheduled tasks in this period.</p>
+          ) : (
+            rows.map(({ task, startIndex, endIndex }) => {
+              const from = Math.max(startIndex, 0);
+              const to = Math.min(endIndex, VISIBLE_DAYS - 1);
+              return (
+                <div key={task.id} className="flex border-b border-gray-100">
+                  <div className="w-48 shrink-0 truncate py-1 pr-2 text-gray-700" title={task.title}>
+                    {task.title}
+                  </div>
+                  <div
+                    className="grid flex-1"
+                    style={gridStyle}
+                    onDragOver={(event) => event.preventDefault()}
+                    onDrop={(event) => {
+                      event.preventDefault();
+                      const { left, width } = event.currentTarget.getBoundingClientRect();
+                      handleDrop(Math.floor(((event.clientX - left) / width) * VISIBLE_DAYS));
+                    }}
+                  >
+                    {days.map((day, index) => (
+                      <div
+                        key={dayKey(day)}
+                        style={{ gridRow: 1, gridColumn: index + 1 }}
+                        className={`h-7 border-l border-gray-50 ${dayKey(day) === today ? 'bg-blue-50' : ''}`}
+                      />
+                    ))}
+                    <div
+                      draggable
+                      onDragStart={(event) => {
+                        const { left, width } = event.currentTarget.getBoundingClientRect();
+                        const grabbedDay = Math.floor(((event.clientX - left) / width) * (to - from + 1));
+                        grabOffset.current = from - startIndex + grabbedDay;
+                        setDraggedId(task.id);
+                      }}
+                      onDragEnd={() => setDraggedId(null)}
+                      style={{ gridRow: 1, gridColumn: `${from + 1} / ${to + 2}` }}
+                      title={`${task.title}${task.dueDate ? ` · due ${parseDate(task.dueDate).toLocaleDateString()}` : ''}`}
+                      className={`my-1 cursor-grab truncate rounded px-1 leading-5 ${
+                        isOverdue(task)
+                          ? 'bg-red-400 text-white'
+                          : task.status === 'COMPLETED'
+                            ? 'bg-green-400 text-white'
+                            : 'bg-blue-500 text-white'
+                      } ${draggedId === task.id ? 'opacity-40' : ''} ${startIndex < 0 ? 'rounded-l-none' : ''} ${
+                        endIndex >= VISIBLE_DAYS ? 'rounded-r-none' : ''
+                      }`}
+                    >
+                      {task.title}
+                    </div>
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
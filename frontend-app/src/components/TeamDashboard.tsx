@@ -0,0 +1,247 @@
+'use client';
+
+import { useState } from 'react';
+import { gql, useQuery } from '@apollo/client';
+
+type TeamStats = {
+  statusCounts: { status: string; count: number }[];
+  priorityCounts: { priority: string; count: number }[];
+  completedPerWeek: { weekStart: string; count: number }[];
+  completedCount: number;
+  averageLeadTimeHours: number | null;
+  averageCycleTimeHours: number | null;
+  dueCount: number;
+  overdueCount: number;
+  overdueRate: number | null;
+  workload: {
+    assigneeId: string | null;
+    assignee?: { id: string; name: string } | null;
+    openTasks: number;
+    overdueTasks: number;
+  }[];
+};
+
+const GET_TEAM_STATS = gql`
+  query TeamStats($teamId: ID!, $from: String!, $to: String!) {
+    teamStats(teamId: $teamId, from: $from, to: $to) {
+      statusCounts {
+        status
+        count
+      }
+      priorityCounts {
+        priority
+        count
+      }
+      completedPerWeek {
+        weekStart
+        count
+      }
+      completedCount
+      averageLeadTimeHours
+      averageCycleTimeHours
+      dueCount
+      overdueCount
+      overdueRate
+      workload {
+        assigneeId
+        assignee {
+          id
+          name
+        }
+        openTasks
+        overdueTasks
+      }
+    }
+  }
+`;
+
+const statusBarClasses: Record<string, string> = {
+  TODO: 'bg-gray-400',
+  IN_PROGRESS: 'bg-blue-500',
+  REVIEW: 'bg-yellow-400',
+  COMPLETED: 'bg-green-500',
+  CANCELLED: 'bg-red-400',
+};
+
+const priorityBarClasses: Record<string, string> = {
+  LOW: 'bg-gray-400',
+  MEDIUM: 'bg-blue-500',
+  HIGH: 'bg-orange-500',
+  URGENT: 'bg-red-500',
+};
+
+const toDateInput = (date: Date) => date.toISOString().slice(0, 10);
+
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+// Hours under two days read better as hours, longer spans as days
+const formatDuration = (hours: number | null) => {
+  if (hours === null) return '—';
+  return hours < 48 ? `${hours.toFixed(1)} h` : `${(hours / 24).toFixed(1)} d`;
+};
+
+const formatLabel = (value: string) => value.replace('_', ' ');
+
+function HorizontalBars({ rows }: { rows: { key: string; label: string; value: number; className: string }[] }) {
+  const max = Math.max(1, ...rows.map((row) => row.value));
+  return (
+    <ul className="space-y-2">
+      {rows.map((row) => (
+        <li key={row.key} className="flex items-center gap-2 text-xs">
+          <span className="w-24 shrink-0 truncate text-gray-600">{row.label}</span>
+          <div className="h-3 flex-1 rounded bg-gray-100">
+            <div className={`h-3 rounded ${row.className}`} style={{ width: `${(row.value / max) * 100}%` }} />
+          </div>
+          <span className="w-8 text-right font-medium text-gray-700">{row.value}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function Metric({ label, value, hint }: { label: string; value: string; hint?: string }) {
+  return (
+    <div className="rounded-lg border border-gray-200 p-3">
+      <p className="text-xs text-gray-500">{label}</p>
+      <p className="text-xl font-semibold text-gray-800">{value}</p>
+      {hint && <p className="text-xs text-gray-400">{hint}</p>}
+    </div>
+  );
+}
+
+// Throughput, lead and cycle time, deadlines and workload for one team over a date range
+export default function TeamDashboard({ teamId }: { teamId: string }) {
+  const [range, setRange] = useState({ from: toDateInput(daysAgo(30)), to: toDateInput(new Date()) });
+
+  const { data, loading, error, refetch } = useQuery<{ teamStats: TeamStats }>(GET_TEAM_STATS, {
+    variables: { teamId, ...range },
+    skip: !range.from || !range.to,
+    fetchPolicy: 'cache-and-network',
+  });
+
+  const stats = data?.teamStats;
+  const weekMax = Math.max(1, ...(stats?.completedPerWeek ?? []).map((week) => week.count));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-3 text-sm">
+        <label className="text-xs text-gray-600">
+          From
+          <input
+            type="date"
+            value={range.from}
+            max={range.to}
+            onChange={(event) => setRange((prev) => ({ ...prev, from: event.target.value }))}
+            className="block border border-gray-300 rounded-lg px-3 py-1 focus:ring-2 focus:ring-blue-500"
+          />
+        </label>
+        <label className="text-xs text-gray-600">
+          To
+          <input
+            type="date"
+            value={range.to}
+            min={range.from}
+            onChange={(event) => setRange((prev) => ({ ...prev, to: event.target.value }))}
+            className="block border border-gray-300 rounded-lg px-3 py-1 focus:ring-2 focus:ring-blue-500"
+          />
+        </label>
+        {[30, 90].map((days) => (
+          <button
+            key={days}
+            type="button"
+            onClick={() => setRange({ from: toDateInput(daysAgo(days)), to: toDateInput(new Date()) })}
+            className="border border-gray-300 rounded-lg px-3 py-1 text-xs hover:bg-gray-100"
+          >
+            Last {days} days
+          </button>
+        ))}
+        <button
+          type="button"
+          onClick={() => refetch()}
+          className="border border-gray-300 rounded-lg px-3 py-1 text-xs hover:bg-gray-100"
+        >
+          Refresh
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error.message}</p>}
+      {loading && !stats && <p className="text-sm text-gray-500">Loading statistics…</p>}
+
+      {stats && (
+        <>
+          <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+            <Metric label="Completed" value={String(stats.completedCount)} />
+            <Metric label="Avg. lead time" value={formatDuration(stats.averageLeadTimeHours)} hint="Created → completed" />
+            <Metric label="Avg. cycle time" value={formatDuration(stats.averageCycleTimeHours)} hint="Started → completed" />
+            <Metric
+              label="Overdue rate"
+              value={stats.overdueRate === null ? '—' : `${Math.round(stats.overdueRate * 100)}%`}
+              hint={`${stats.overdueCount} of ${stats.dueCount} deadlines missed`}
+            />
+          </div>
+
+          <div className="grid gap-6 md:grid-cols-2">
+            <div className="space-y-2">
+              <h3 className="text-sm font-semibold text-gray-700">Completed per week</h3>
+              <div className="flex h-32 items-end gap-1">
+                {stats.completedPerWeek.map((week) => (
+                  <div
+                    key={week.weekStart}
+                    className="flex-1 rounded-t bg-green-500"
+                    style={{ height: `${(week.count / weekMax) * 100}%`, minHeight: week.count > 0 ? 4 : 1 }}
+                    title={`Week of ${week.weekStart}: ${week.count}`}
+                  />
+                ))}
+              </div>
+              <div className="flex justify-between text-xs text-gray-400">
+                <span>{stats.completedPerWeek[0]?.weekStart}</span>
+                <span>{stats.completedPerWeek[stats.completedPerWeek.length - 1]?.weekStart}</span>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="text-sm font-semibold text-gray-700">Open tasks per assignee</h3>
+              {stats.workload.length === 0 ? (
+                <p className="text-xs text-gray-500">No open tasks.</p>
+              ) : (
+                <HorizontalBars
+                  rows={stats.workload.map((entry) => ({
+                    key: entry.assigneeId ?? 'unassigned',
+                    label: entry.assigneeId ? entry.assignee?.name ?? 'Unknown user' : 'Unassigned',
+                    value: entry.openTasks,
+                    className: entry.overdueTasks > 0 ? 'bg-orange-500' : 'bg-blue-500',
+                  }))}
+                />
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="text-sm font-semibold text-gray-700">Created tasks by status</h3>
+              <HorizontalBars
+                rows={stats.statusCounts.map((entry) => ({
+                  key: entry.status,
+                  label: formatLabel(entry.status),
+                  value: entry.count,
+                  className: statusBarClasses[entry.status],
+                }))}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="text-sm font-semibold text-gray-700">Created tasks by priority</h3>
+              <HorizontalBars
+                rows={stats.priorityCounts.map((entry) => ({
+                  key: entry.priority,
+                  label: formatLabel(entry.priority),
+                  value: entry.count,
+                  className: priorityBarClasses[entry.priority],
+                }))}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-gray-400">Assignees with overdue work are shown in orange.</p>
+        </>
+      )}
+    </div>
+  );
+}
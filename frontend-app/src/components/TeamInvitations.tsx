@@ -0,0 +1,146 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { teamApi } from '@/lib/api';
+
+type Invitation = {
+  id: string;
+  email: string;
+  status: 'PENDING' | 'ACCEPTED' | 'REVOKED' | 'EXPIRED';
+  sentCount: number;
+  lastSentAt: string;
+  expiresAt: string;
+};
+
+const STATUS_CLASSES: Record<Invitation['status'], string> = {
+  PENDING: 'bg-blue-100 text-blue-700',
+  ACCEPTED: 'bg-green-100 text-green-700',
+  REVOKED: 'bg-gray-100 text-gray-500',
+  EXPIRED: 'bg-orange-100 text-orange-700',
+};
+
+// Same link the invitation email contains
+const inviteLink = (token: string) =>
+  typeof window === 'undefined' ? token : `${window.location.origin}/?invite=${encodeURIComponent(token)}`;
+
+type TeamInvitationsProps = {
+  teamId: string;
+  onNotify?: (message: string) => void;
+};
+
+// Invite by email, plus resend and revoke for invitations that are still open
+export default function TeamInvitations({ teamId, onNotify }: TeamInvitationsProps) {
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [email, setEmail] = useState('');
+  const [lastLink, setLastLink] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const response = await teamApi.getInvitations(teamId);
+      setInvitations(response.data.invitations as Invitation[]);
+    } catch (error) {
+      console.error('Failed to load invitations', error);
+    }
+  }, [teamId]);
+
+  useEffect(() => {
+    setLastLink(null);
+    load();
+  }, [load]);
+
+  const run = async (action: () => Promise<{ data: { token?: string } }>, success: string, fallback: string) => {
+    try {
+      setBusy(true);
+      const response = await action();
+      setLastLink(response.data.token ? inviteLink(response.data.token) : null);
+      onNotify?.(success);
+      await load();
+    } catch (error: any) {
+      onNotify?.(error?.response?.data?.error || fallback);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleInvite = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!email.trim()) return;
+    await run(() => teamApi.invite(teamId, email.trim()), `Invitation sent to ${email.trim()}`, 'Failed to send invitation');
+    setEmail('');
+  };
+
+  return (
+    <div className="space-y-2">
+      <label className="block text-sm font-medium text-gray-700">Invite by Email</label>
+      <form onSubmit={handleInvite} className="flex gap-2">
+        <input
+          type="email"
+          value={email}
+          onChange={(event) => setEmail(event.target.value)}
+          className="flex-1 border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500"
+          placeholder="colleague@example.com"
+        />
+        <button
+          type="submit"
+          disabled={busy || !email.trim()}
+          className="px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+        >
+          Invite
+        </button>
+      </form>
+      {lastLink && (
+        <p className="break-all rounded bg-gray-50 px-2 py-1 text-xs text-gray-600">
+          Invite link: <span className="font-mono">{lastLink}</span>
+        </p>
+      )}
+      {invitations.length > 0 && (
+        <ul className="space-y-1 text-sm">
+          {invitations.map((invitation) => (
+            <li key={invitation.id} className="flex items-center justify-between gap-2 rounded border border-gray-200 px-3 py-2">
+              <div className="min-w-0">
+                <p className="truncate text-gray-800">{invitation.email}</p>
+                <p className="text-xs text-gray-400">
+                  <span className={`rounded px-1 ${STATUS_CLASSES[invitation.status]}`}>{invitation.status}</span>{' '}
+                  {invitation.status === 'PENDING' && `expires ${new Date(invitation.expiresAt).toLocaleDateString()}`}
+                </p>
+              </div>
+              {(invitation.status === 'PENDING' || invitation.status === 'EXPIRED') && (
+                <div className="flex flex-shrink-0 gap-2 text-xs">
+                  <button
+                    type="button"
+                    disabled={busy}
+                    onClick={() =>
+                      run(
+                        () => teamApi.resendInvitation(teamId, invitation.id),
+                        `Invitation resent to ${invitation.email}`,
+                        'Failed to resend invitation'
+                      )
+                    }
+                    className="text-blue-600 hover:underline"
+                  >
+                    Resend
+                  </button>
+                  <button
+                    type="button"
+                    disabled={busy}
+                    onClick={() =>
+                      run(
+                        () => teamApi.revokeInvitation(teamId, invitation.id),
+                        'Invitation revoked',
+                        'Failed to revoke invitation'
+                      )
+                    }
+                    className="text-red-500 hover:underline"
+                  >
+                    Revoke
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,342 @@
+'use client';
+
+import { useState } from 'react';
+import { gql, useMutation, useQuery } from '@apollo/client';
+import {
+  CustomFieldDefinition,
+  CustomFieldType,
+  Label,
+  LabelChip,
+  TEAM_FIELD_DEFINITIONS,
+} from '@/components/TaskFields';
+
+const CREATE_LABEL = gql`
+  mutation CreateLabel($teamId: ID!, $input: LabelInput!) {
+    createLabel(teamId: $teamId, input: $input) {
+      id
+    }
+  }
+`;
+
+const UPDATE_LABEL = gql`
+  mutation UpdateLabel($id: ID!, $input: UpdateLabelInput!) {
+    updateLabel(id: $id, input: $input) {
+      id
+      name
+      color
+    }
+  }
+`;
+
+const DELETE_LABEL = gql`
+  mutation DeleteLabel($id: ID!) {
+    deleteLabel(id: $id)
+  }
+`;
+
+const CREATE_CUSTOM_FIELD = gql`
+  mutation CreateCustomField($teamId: ID!, $input: CustomFieldInput!) {
+    createCustomField(teamId: $teamId, input: $input) {
+      id
+    }
+  }
+`;
+
+const UPDATE_CUSTOM_FIELD = gql`
+  mutation UpdateCustomField($id: ID!, $input: UpdateCustomFieldInput!) {
+    updateCustomField(id: $id, input: $input) {
+      id
+      name
+      options
+    }
+  }
+`;
+
+const DELETE_CUSTOM_FIELD = gql`
+  mutation DeleteCustomField($id: ID!) {
+    deleteCustomField(id: $id)
+  }
+`;
+
+const FIELD_TYPE_LABELS: Record<CustomFieldType, string> = {
+  TEXT: 'Text',
+  NUMBER: 'Number',
+  DATE: 'Date',
+  SINGLE_SELECT: 'Single select',
+  USER: 'User',
+};
+
+const parseOptions = (value: string) =>
+  value
+    .split(',')
+    .map((option) => option.trim())
+    .filter(Boolean);
+
+const inputClass = 'border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500';
+
+type TeamSettingsProps = {
+  teamId: string;
+  onNotify?: (message: string) => void;
+};
+
+// Label and custom field definitions for one team; changes apply to all of its tasks
+export default function TeamSettings({ teamId, onNotify }: TeamSettingsProps) {
+  const [labelDraft, setLabelDraft] = useState({ name: '', color: '#1d76db' });
+  const [fieldDraft, setFieldDraft] = useState<{ name: string; type: CustomFieldType; options: string }>({
+    name: '',
+    type: 'TEXT',
+    options: '',
+  });
+  const [editingFieldId, setEditingFieldId] = useState<string | null>(null);
+  const [fieldEdit, setFieldEdit] = useState({ name: '', options: '' });
+
+  const { data, loading, refetch } = useQuery<{ labels: Label[]; customFields: CustomFieldDefinition[] }>(
+    TEAM_FIELD_DEFINITIONS,
+    { variables: { teamId }, fetchPolicy: 'cache-and-network' }
+  );
+
+  const [createLabel] = useMutation(CREATE_LABEL, { onCompleted: () => refetch() });
+  const [updateLabel] = useMutation(UPDATE_LABEL);
+  const [deleteLabel] = useMutation(DELETE_LABEL, { onCompleted: () => refetch() });
+  const [createCustomField] = useMutation(CREATE_CUSTOM_FIELD, { onCompleted: () => refetch() });
+  const [updateCustomField] = useMutation(UPDATE_CUSTOM_FIELD);
+  const [deleteCustomField] = useMutation(DELETE_CUSTOM_FIELD, { onCompleted: () => refetch() });
+
+  const run = async (action: () => Promise<unknown>, fallback: string) => {
+    try {
+      await action();
+      return true;
+    } catch (error: any) {
+      onNotify?.(error?.message || fallback);
+      return false;
+    }
+  };
+
+  const handleCreateLabel = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!labelDraft.name.trim()) return;
+    const created = await run(
+      () => createLabel({ variables: { teamId, input: { name: labelDraft.name.trim(), color: labelDraft.color } } }),
+      'Failed to create label'
+    );
+    if (created) setLabelDraft((prev) => ({ ...prev, name: '' }));
+  };
+
+  const handleRenameLabel = (label: Label) => {
+    const name = prompt('Label name', label.name);
+    if (!name || name.trim() === label.name) return;
+    run(() => updateLabel({ variables: { id: label.id, input: { name: name.trim() } } }), 'Failed to rename label');
+  };
+
+  const handleDeleteLabel = (label: Label) => {
+    if (!confirm(`Delete the label "${label.name}"? It is removed from every task.`)) return;
+    run(() => deleteLabel({ variables: { id: label.id } }), 'Failed to delete label');
+  };
+
+  const handleCreateField = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!fieldDraft.name.trim()) return;
+    const input = {
+      name: fieldDraft.name.trim(),
+      type: fieldDraft.type,
+      ...(fieldDraft.type === 'SINGLE_SELECT' ? { options: parseOptions(fieldDraft.options) } : {}),
+    };
+    const created = await run(() => createCustomField({ variables: { teamId, input } }), 'Failed to create field');
+    if (created) setFieldDraft({ name: '', type: 'TEXT', options: '' });
+  };
+
+  const handleSaveField = async (field: CustomFieldDefinition) => {
+    const input = {
+      name: fieldEdit.name.trim(),
+      ...(field.type === 'SINGLE_SELECT' ? { options: parseOptions(fieldEdit.options) } : {}),
+    };
+    const saved = await run(() => updateCustomField({ variables: { id: field.id, input } }), 'Failed to update field');
+    if (saved) setEditingFieldId(null);
+  };
+
+  const handleDeleteField = (field: CustomFieldDefinition) => {
+    if (!confirm(`Delete the field "${field.name}"? Its values are removed from every task.`)) return;
+    run(() => deleteCustomField({ variables: { id: field.id } }), 'Failed to delete field');
+  };
+
+  if (loading && !data) {
+    return <p className="text-sm text-gray-500">Loading settings…</p>;
+  }
+
+  const labels = data?.labels ?? [];
+  const customFields = data?.customFields ?? [];
+
+  return (
+    <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+      <section className="bg-white rounded-lg shadow p-6 space-y-4">
+        <h2 className="text-lg font-semibold text-gray-800">Labels</h2>
+        {labels.length === 0 ? (
+          <p className="text-sm text-gray-500">No labels yet.</p>
+        ) : (
+          <ul className="space-y-2">
+            {labels.map((label) => (
+              <li
+                key={label.id}
+                className="flex items-center justify-between gap-2 rounded border border-gray-200 px-3 py-2 text-sm"
+              >
+                <div className="flex items-center gap-3">
+                  <input
+                    type="color"
+                    value={label.color}
+                    onChange={(event) =>
+                      run(
+                        () => updateLabel({ variables: { id: label.id, input: { color: event.target.value } } }),
+                        'Failed to change color'
+                      )
+                    }
+                    className="h-6 w-8 cursor-pointer border-0 bg-transparent"
+                    aria-label={`Color of ${label.name}`}
+                  />
+                  <LabelChip label={label} />
+                </div>
+                <div className="flex gap-3 text-xs">
+                  <button type="button" onClick={() => handleRenameLabel(label)} className="text-blue-600 hover:underline">
+                    Rename
+                  </button>
+                  <button type="button" onClick={() => handleDeleteLabel(label)} className="text-red-500 hover:underline">
+                    Delete
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+        <form onSubmit={handleCreateLabel} className="flex gap-2">
+          <input
+            type="color"
+            value={labelDraft.color}
+            onChange={(event) => setLabelDraft((prev) => ({ ...prev, color: event.target.value }))}
+            className="h-10 w-12 cursor-pointer rounded border border-gray-300"
+            aria-label="New label color"
+          />
+          <input
+            type="text"
+            value={labelDraft.name}
+            onChange={(event) => setLabelDraft((prev) => ({ ...prev, name: event.target.value }))}
+            placeholder="New label"
+            className={`flex-1 ${inputClass}`}
+          />
+          <button
+            type="submit"
+            disabled={!labelDraft.name.trim()}
+            className="px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+          >
+            Add
+          </button>
+        </form>
+      </section>
+
+      <section className="bg-white rounded-lg shadow p-6 space-y-4">
+        <h2 className="text-lg font-semibold text-gray-800">Custom Fields</h2>
+        {customFields.length === 0 ? (
+          <p className="text-sm text-gray-500">No custom fields yet.</p>
+        ) : (
+          <ul className="space-y-2">
+            {customFields.map((field) => (
+              <li key={field.id} className="rounded border border-gray-200 px-3 py-2 text-sm">
+                {editingFieldId === field.id ? (
+                  <div className="space-y-2">
+                    <input
+                      type="text"
+                      value={fieldEdit.name}
+                      onChange={(event) => setFieldEdit((prev) => ({ ...prev, name: event.target.value }))}
+                      className={`w-full ${inputClass}`}
+                    />
+                    {field.type === 'SINGLE_SELECT' && (
+                      <input
+                        type="text"
+                        value={fieldEdit.options}
+                        onChange={(event) => setFieldEdit((prev) => ({ ...prev, options: event.target.value }))}
+                        placeholder="Options, comma separated"
+                        className={`w-full ${inputClass}`}
+                      />
+                    )}
+                    <div className="flex gap-3 text-xs">
+                      <button type="button" onClick={() => handleSaveField(field)} className="text-blue-600 hover:underline">
+                        Save
+                      </button>
+                      <button type="button" onClick={() => setEditingFieldId(null)} className="text-gray-500 hover:underline">
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex items-center justify-between gap-2">
+                    <div>
+                      <p className="font-medium text-gray-800">{field.name}</p>
+                      <p className="text-xs text-gray-500">
+                        {FIELD_TYPE_LABELS[field.type]}
+                        {field.type === 'SINGLE_SELECT' && `: ${field.options.join(', ')}`}
+                      </p>
+                    </div>
+                    <div className="flex gap-3 text-xs">
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setEditingFieldId(field.id);
+                          setFieldEdit({ name: field.name, options: field.options.join(', ') });
+                        }}
+                        className="text-blue-600 hover:underline"
+                      >
+                        Edit
+                      </button>
+                      <button type="button" onClick={() => handleDeleteField(field)} className="text-red-500 hover:underline">
+                        Delete
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+        <form onSubmit={handleCreateField} className="space-y-2">
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={fieldDraft.name}
+              onChange={(event) => setFieldDraft((prev) => ({ ...prev, name: event.target.value }))}
+              placeholder="New field"
+              className={`flex-1 ${inputClass}`}
+            />
+            <select
+              value={fieldDraft.type}
+              onChange={(event) => setFieldDraft((prev) => ({ ...prev, type: event.target.value as CustomFieldType }))}
+              className={inputClass}
+            >
+              {(Object.keys(FIELD_TYPE_LABELS) as CustomFieldType[]).map((type) => (
+                <option key={type} value={type}>
+                  {FIELD_TYPE_LABELS[type]}
+                </option>
+              ))}
+            </select>
+          </div>
+          {fieldDraft.type === 'SINGLE_SELECT' && (
+            <input
+              type="text"
+              value={fieldDraft.options}
+              onChange={(event) => setFieldDraft((prev) => ({ ...prev, options: event.target.value }))}
+              placeholder="Options, comma separated"
+              className={`w-full ${inputClass}`}
+            />
+          )}
+          <button
+            type="submit"
+            disabled={!fieldDraft.name.trim()}
+            className="px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+          >
+            Add Field
+          </button>
+        </form>
+        <p className="text-xs text-gray-400">
+          Removing an option clears it from tasks that use it. A field&apos;s type cannot change once it exists.
+        </p>
+      </section>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import axios from 'axios';
+import axios, { InternalAxiosRequestConfig } from 'axios';
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_GATEWAY_URL || 'http://localhost:3000';
 
@@ -23,6 +23,20 @@ export const setAuthToken = (token: string | null) => {
   }
 };
 
+export const getRefreshToken = () =>
+  typeof window !== 'undefined' ? localStorage.getItem('refreshToken') : null;
+
+export const setRefreshToken = (token: string | null) => {
+  if (typeof window === 'undefined') {
+    return;
+  }
+  if (token) {
+    localStorage.setItem('refreshToken', token);
+  } else {
+    localStorage.removeItem('refreshToken');
+  }
+};
+
 if (typeof window !== 'undefined') {
   const token = localStorage.getItem('token');
   if (token) {
@@ -30,12 +44,72 @@ if (typeof window !== 'undefined') {
   }
 }
 
+let refreshPromise: Promise<string | null> | null = null;
+let sessionExpiredHandler: (() => void) | null = null;
+
+export const onSessionExpired = (handler: (() => void) | null) => {
+  sessionExpiredHandler = handler;
+};
+
+// Exchange the stored refresh token for a new access token; concurrent callers share one request
+export const refreshAccessToken = (): Promise<string | null> => {
+  if (!refreshPromise) {
+    const refreshToken = getRefreshToken();
+    refreshPromise = (
+      refreshToken
+        ? axios
+            .post(`${API_BASE_URL}/api/auth/refresh`, { refreshToken })
+            .then((response) => {
+              const { token, refreshToken: rotated } = response.data as { token: string; refreshToken: string };
+              setAuthToken(token);
+              setRefreshToken(rotated);
+              return token;
+            })
+        : Promise.reject(new Error('No refresh token'))
+    )
+      .catch(() => {
+        setAuthToken(null);
+        setRefreshToken(null);
+        sessionExpiredHandler?.();
+        return null;
+      })
+      .finally(() => {
+        refreshPromise = null;
+      });
+  }
+  return refreshPromise;
+};
+
+const SESSION_ROUTES = ['/api/auth/login', '/api/auth/register', '/api/auth/refresh', '/api/auth/logout'];
+
+// Retry a request once with a fresh access token when the gateway rejects the current one
+apiClient.interceptors.response.use(
+  (response) => response,
+  async (error) => {
+    const original = error.config as (InternalAxiosRequestConfig & { _retry?: boolean }) | undefined;
+    const isSessionRoute = SESSION_ROUTES.some((route) => original?.url?.startsWith(route));
+
+    if (error.response?.status === 401 && original && !original._retry && !isSessionRoute) {
+      original._retry = true;
+      const token = await refreshAccessToken();
+      if (token) {
+        original.headers.Authorization = `Bearer ${token}`;
+        return apiClient(original);
+      }
+    }
+
+    return Promise.reject(error);
+  }
+);
+
 export const authApi = {
   login: (email: string, password: string) =>
     apiClient.post('/api/auth/login', { email, password }),
-  register: (payload: { name: string; email: string; password: string; role?: string; teamId?: string }) =>
+  register: (payload: { name: string; email: string; password: string; inviteToken?: string }) =>
     apiClient.post('/api/auth/register', payload),
+  getInvitation: (token: string) => apiClient.get(`/api/auth/invitations/${encodeURIComponent(token)}`),
   getMe: () => apiClient.get('/api/auth/me'),
+  logout: (refreshToken: string | null) => apiClient.post('/api/auth/logout', { refreshToken }),
 };
 
 export const userApi = {
@@ -60,4 +134,24 @@ export const teamApi = {
     apiClient.post(`/api/teams/${teamId}/members`, { userId }),
   removeMember: (teamId: string, userId: string) =>
     apiClient.delete(`/api/teams/${teamId}/members/${userId}`),
+  getInvitations: (teamId: string) => apiClient.get(`/api/teams/${teamId}/invitations`),
+  invite: (teamId: string, email: string) => apiClient.post(`/api/teams/${teamId}/invitations`, { email }),
+  resendInvitation: (teamId: string, invitationId: string) =>
+    apiClient.post(`/api/teams/${teamId}/invitations/${invitationId}/resend`),
+  revokeInvitation: (teamId: string, invitationId: string) =>
+    apiClient.delete(`/api/teams/${teamId}/invitations/${invitationId}`),
+};
+
+export const invitationApi = {
+  accept: (token: string) => apiClient.post('/api/invitations/accept', { token }),
+};
+
+export const attachmentApi = {
+  upload: (taskId: string, file: File) => {
+    const form = new FormData();
+    form.append('file', file);
+    return apiClient.post(`/attachments/tasks/${taskId}`, form, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+    });
+  },
 };
\ No newline at end of file
@@ -1,10 +1,12 @@
 'use client';
 
-import { ApolloClient, InMemoryCache, ApolloProvider, createHttpLink, split } from '@apollo/client';
+import { ApolloClient, InMemoryCache, ApolloProvider, createHttpLink, fromPromise, split } from '@apollo/client';
 import { setContext } from '@apollo/client/link/context';
+import { onError } from '@apollo/client/link/error';
 import { GraphQLWsLink } from '@apollo/client/link/subscriptions';
-import { getMainDefinition } from '@apollo/client/utilities';
+import { getMainDefinition, relayStylePagination } from '@apollo/client/utilities';
 import { createClient } from 'graphql-ws';
+import { refreshAccessToken } from './api';
 
 const httpLink = createHttpLink({
   uri: process.env.NEXT_PUBLIC_GRAPHQL_URL || 'http://localhost:3000/graphql',
@@ -20,6 +22,15 @@ const authLink = setContext((_, { headers }) => {
   };
 });
 
+// Refresh the access token once and replay the operation when the gateway answers 401
+const refreshLink = onError(({ networkError, operation, forward }) => {
+  if (networkError && 'statusCode' in networkError && networkError.statusCode === 401) {
+    return fromPromise(refreshAccessToken())
+      .filter((token): token is string => Boolean(token))
+      .flatMap(() => forward(operation));
+  }
+});
+
 const createWsLink = () => {
   if (typeof window === 'undefined') {
     return null;
@@ -48,13 +59,22 @@ const splitLink = wsLink
         );
       },
       wsLink,
-      authLink.concat(httpLink)
+      refreshLink.concat(authLink).concat(httpLink)
     )
-  : authLink.concat(httpLink);
+  : refreshLink.concat(authLink).concat(httpLink);
 
 const client = new ApolloClient({
   link: splitLink,
-  cache: new InMemoryCache(),
+  cache: new InMemoryCache({
+    typePolicies: {
+      Query: {
+        fields: {
+          // Pages fetched with `after` are appended to the same list for infinite scroll
+          tasksConnection: relayStylePagination(['filter', 'orderBy']),
+        },
+      },
+    },
+  }),
 });
 
 export function ApolloWrapper({ children }: { children: React.ReactNode }) {
@@ -0,0 +1,101 @@
+import { gql } from '@apollo/client';
+
+export type ScheduledTask = {
+  id: string;
+  title: string;
+  status: string;
+  priority: string;
+  assignedTo?: string | null;
+  startDate?: string | null;
+  dueDate?: string | null;
+  seriesId?: string | null;
+};
+
+const SCHEDULE_FIELDS = gql`
+  fragment ScheduleFields on Task {
+    id
+    title
+    status
+    priority
+    assignedTo
+    startDate
+    dueDate
+    seriesId
+  }
+`;
+
+// Calendar and timeline fetch only the tasks that overlap their visible window
+export const TASKS_IN_RANGE = gql`
+  query TasksInRange($teamId: ID!, $from: String!, $to: String!) {
+    tasksInRange(teamId: $teamId, from: $from, to: $to) {
+      ...ScheduleFields
+    }
+  }
+  ${SCHEDULE_FIELDS}
+`;
+
+export const RESCHEDULE_TASK = gql`
+  mutation RescheduleTask($id: ID!, $input: UpdateTaskInput!, $scope: RecurrenceScope) {
+    updateTask(id: $id, input: $input, scope: $scope) {
+      ...ScheduleFields
+    }
+  }
+  ${SCHEDULE_FIELDS}
+`;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+// Date-only values (as produced by <input type="date">) are read as local midnight, not UTC
+export const parseDate = (value: string) => {
+  if (DATE_ONLY.test(value)) {
+    const [year, month, day] = value.split('-').map(Number);
+    return new Date(year, month - 1, day);
+  }
+  return new Date(value);
+};
+
+export const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+export const addDays = (date: Date, days: number) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+// Weeks start on Monday
+export const startOfWeek = (date: Date) => addDays(startOfDay(date), -((date.getDay() + 6) % 7));
+
+export const startOfMonth = (date: Date) => new Date(date.getFullYear(), date.getMonth(), 1);
+
+export const dayKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const daysBetween = (from: Date, to: Date) => Math.round((startOfDay(to).getTime() - startOfDay(from).getTime()) / DAY_MS);
+
+// Move a stored date by whole days, keeping its original format and time of day
+export const shiftDate = (value: string, days: number) => {
+  if (DATE_ONLY.test(value)) {
+    return dayKey(addDays(parseDate(value), days));
+  }
+  const date = new Date(value);
+  date.setDate(date.getDate() + days);
+  return date.toISOString();
+};
+
+export const isOverdue = (task: ScheduledTask, now = new Date()) =>
+  Boolean(task.dueDate) &&
+  parseDate(task.dueDate!) < startOfDay(now) &&
+  task.status !== 'COMPLETED' &&
+  task.status !== 'CANCELLED';
+
+// Reschedule input that moves both dates by the same number of days
+export const shiftSchedule = (task: ScheduledTask, days: number) => ({
+  ...(task.startDate ? { startDate: shiftDate(task.startDate, days) } : {}),
+  ...(task.dueDate ? { dueDate: shiftDate(task.dueDate, days) } : {}),
+});
+
+// Moving one occurrence of a recurring task can also move the rest of its series
+export const askRescheduleScope = (task: ScheduledTask) => {
+  if (!task.seriesId) return 'THIS_OCCURRENCE';
+  return confirm('This task repeats. OK moves this and all future occurrences; Cancel moves only this one.')
+    ? 'ALL_FUTURE'
+    : 'THIS_OCCURRENCE';
+};
@@ -0,0 +1,38 @@
+const { getActivityForTask } = require('../data/activityStore');
+const { recordActivity, formatChangeValue } = require('../lib/activity');
+
+describe('recordActivity', () => {
+  it('stores only the fields that changed', () => {
+    recordActivity({
+      action: 'TASK_UPDATED',
+      entityId: 'activity-task',
+      taskId: 'activity-task',
+      teamId: 'team-1',
+      actorId: '1',
+      before: { id: 'activity-task', status: 'TODO', title: 'Same', labelIds: ['a'], updatedAt: '2030-01-01' },
+      after: { id: 'activity-task', status: 'IN_PROGRESS', title: 'Same', labelIds: ['a'], dueDate: null, updatedAt: '2030-01-02' },
+    });
+
+    const [entry] = getActivityForTask('activity-task');
+    expect(entry).toMatchObject({ action: 'TASK_UPDATED', entityType: 'task', actorId: '1' });
+    expect(entry.changes).toEqual([{ field: 'status', from: 'TODO', to: 'IN_PROGRESS' }]);
+  });
+
+  it('lists every field of a created or deleted record, newest entry first', () => {
+    recordActivity({ action: 'TASK_CREATED', entityId: 'lifecycle', taskId: 'lifecycle', teamId: 'team-1', after: { title: 'New' } });
+    recordActivity({ action: 'TASK_DELETED', entityId: 'lifecycle', taskId: 'lifecycle', teamId: 'team-1', before: { title: 'New' } });
+
+    const entries = getActivityForTask('lifecycle');
+    expect(entries.map(({ action }) => action)).toEqual(['TASK_DELETED', 'TASK_CREATED']);
+    expect(entries[0].changes).toEqual([{ field: 'title', from: 'New', to: null }]);
+    expect(entries[1]).toMatchObject({ actorId: null, changes: [{ field: 'title', from: null, to: 'New' }] });
+  });
+});
+
+describe('formatChangeValue', () => {
+  it('passes strings through and serialises everything else', () => {
+    expect(formatChangeValue('TODO')).toBe('TODO');
+    expect(formatChangeValue(['a', 'b'])).toBe('["a","b"]');
+    expect(formatChangeValue(undefined)).toBeNull();
+  });
+});
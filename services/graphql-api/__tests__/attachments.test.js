@@ -0,0 +1,92 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { isAllowedMimeType, getDownloadUrl, verifyDownloadSignature } = require('../lib/attachments');
+const { createLocalDiskStorage, createS3Storage } = require('../lib/fileStorage');
+
+describe('attachment downloads', () => {
+  const attachment = { id: 'att-1', taskId: 'task-1' };
+  const now = Date.parse('2030-01-01T00:00:00.000Z');
+
+  const parseLink = (url) => {
+    const { pathname, searchParams } = new URL(url);
+    return { pathname, expires: searchParams.get('expires'), signature: searchParams.get('signature') };
+  };
+
+  it('signs a link that only works for its attachment until it expires', () => {
+    const { pathname, expires, signature } = parseLink(getDownloadUrl(attachment, now));
+
+    expect(pathname).toBe('/attachments/att-1/download');
+    expect(verifyDownloadSignature('att-1', expires, signature, now)).toBe(true);
+    expect(verifyDownloadSignature('att-2', expires, signature, now)).toBe(false);
+    expect(verifyDownloadSignature('att-1', String(Number(expires) + 60), signature, now)).toBe(false);
+    expect(verifyDownloadSignature('att-1', expires, signature, (Number(expires) + 1) * 1000)).toBe(false);
+  });
+
+  it('accepts the configured file types only', () => {
+    expect(isAllowedMimeType('image/PNG')).toBe(true);
+    expect(isAllowedMimeType('application/pdf')).toBe(true);
+    expect(isAllowedMimeType('text/html')).toBe(false);
+    expect(isAllowedMimeType(undefined)).toBe(false);
+  });
+});
+
+describe('createLocalDiskStorage', () => {
+  let directory;
+  let storage;
+
+  beforeAll(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'attachments-'));
+    storage = createLocalDiskStorage({ directory });
+  });
+
+  afterAll(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+  it('stores, reads and removes files by key', async () => {
+    await storage.put('task-1/att-1', Buffer.from('hello'));
+
+    expect((await storage.get('task-1/att-1')).toString()).toBe('hello');
+    await storage.remove('task-1/att-1');
+    expect(await storage.get('task-1/att-1')).toBeNull();
+    await expect(storage.remove('task-1/att-1')).resolves.toBeUndefined();
+  });
+
+  it('refuses keys that leave the storage directory', async () => {
+    await expect(storage.put('../outside', Buffer.from('x'))).rejects.toThrow('Invalid storage key');
+  });
+});
+
+describe('createS3Storage', () => {
+  const setup = (response) => {
+    const fetchImpl = jest.fn(async () => response);
+    const storage = createS3Storage({
+      endpoint: 'http://minio:9000',
+      bucket: 'attachments',
+      accessKeyId: 'key-id',
+      secretAccessKey: 'secret',
+      fetchImpl,
+      clock: () => Date.parse('2030-01-01T00:00:00.000Z'),
+    });
+    return { storage, fetchImpl };
+  };
+
+  it('sends SigV4-signed path-style requests', async () => {
+    const { storage, fetchImpl } = setup({ ok: true, status: 200 });
+
+    await storage.put('task-1/report 1.pdf', Buffer.from('%PDF'), { contentType: 'application/pdf' });
+
+    const [[url, { method, headers }]] = fetchImpl.mock.calls;
+    expect(method).toBe('PUT');
+    expect(url).toBe('http://minio:9000/attachments/task-1/report%201.pdf');
+    expect(headers.Authorization).toMatch(
+      /^AWS4-HMAC-SHA256 Credential=key-id\/20300101\/us-east-1\/s3\/aws4_request, SignedHeaders=host;x-amz-content-sha256;x-amz-date, Signature=[0-9a-f]{64}$/
+    );
+    expect(headers['Content-Type']).toBe('application/pdf');
+  });
+
+  it('treats a missing object as null and other failures as errors', async () => {
+    expect(await setup({ ok: false, status: 404 }).storage.get('task-1/gone')).toBeNull();
+    await expect(setup({ ok: false, status: 403 }).storage.get('task-1/secret'))
+      .rejects.toThrow('S3 download of "task-1/secret" failed with 403');
+  });
+});
@@ -0,0 +1,93 @@
+jest.mock('../lib/tokens', () => ({ verifyAccessToken: jest.fn() }));
+jest.mock('../lib/userService', () => ({ fetchFromUserService: jest.fn() }));
+jest.mock('../lib/teamDirectory', () => ({ getTeamMembers: jest.fn() }));
+
+const { verifyAccessToken } = require('../lib/tokens');
+const { fetchFromUserService } = require('../lib/userService');
+const { getTeamMembers } = require('../lib/teamDirectory');
+const {
+  buildAuthContext,
+  authenticateConnection,
+  isAdmin,
+  assertTeamAccess,
+  assertTeamManager,
+} = require('../lib/auth');
+
+const req = { headers: { authorization: 'Bearer token' } };
+
+describe('buildAuthContext', () => {
+  beforeEach(() => {
+    verifyAccessToken.mockResolvedValue({ id: '1', role: 'admin', teamId: '1' });
+  });
+
+  it('takes the role from the User Service rather than the token', async () => {
+    fetchFromUserService.mockResolvedValue({ users: [{ id: '1', role: 'user', teamId: '1' }] });
+
+    const { user } = await buildAuthContext(req);
+
+    expect(fetchFromUserService).toHaveBeenCalledWith('/internal/users?ids=1');
+    expect(user.role).toBe('user');
+    expect(isAdmin(user)).toBe(false);
+  });
+
+  it('does not authenticate a user that no longer exists', async () => {
+    fetchFromUserService.mockResolvedValue({ users: [null] });
+
+    expect((await buildAuthContext(req)).user).toBeNull();
+  });
+
+  it('does not authenticate when the User Service cannot be reached', async () => {
+    fetchFromUserService.mockRejectedValue(new Error('connect ECONNREFUSED'));
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect((await buildAuthContext(req)).user).toBeNull();
+  });
+});
+
+describe('authenticateConnection', () => {
+  it('verifies the token sent in connectionParams', async () => {
+    verifyAccessToken.mockResolvedValue({ id: '1', role: 'user' });
+    fetchFromUserService.mockResolvedValue({ users: [{ id: '1', role: 'user', teamId: '1' }] });
+
+    await expect(authenticateConnection({ Authorization: 'Bearer token' })).resolves.toMatchObject({ id: '1' });
+    expect(verifyAccessToken).toHaveBeenLastCalledWith('Bearer token');
+  });
+
+  it('rejects connections without a valid token', async () => {
+    verifyAccessToken.mockResolvedValue(null);
+
+    await expect(authenticateConnection(undefined)).resolves.toBeNull();
+    expect(verifyAccessToken).toHaveBeenLastCalledWith(undefined);
+  });
+});
+
+describe('assertTeamAccess', () => {
+  it('admits members of the team and admins', async () => {
+    getTeamMembers.mockResolvedValue(['1', '2']);
+
+    await expect(assertTeamAccess({ user: { id: '2', role: 'user' } }, 'team-1')).resolves.toMatchObject({ id: '2' });
+    await expect(assertTeamAccess({ user: { id: '9', role: 'admin' } }, 'team-1')).resolves.toMatchObject({ id: '9' });
+    await expect(assertTeamAccess({ user: { id: '3', role: 'user' } }, 'team-1'))
+      .rejects.toThrow('You are not a member of this team');
+  });
+
+  it('denies access when the member list cannot be loaded', async () => {
+    getTeamMembers.mockResolvedValue(null);
+
+    await expect(assertTeamAccess({ user: { id: '2', role: 'user' } }, 'team-1'))
+      .rejects.toThrow('You are not a member of this team');
+  });
+
+  it('requires a user', async () => {
+    await expect(assertTeamAccess({ user: null }, 'team-1')).rejects.toThrow('You must be logged in');
+  });
+
+  it('leaves team settings to admins and moderators', async () => {
+    getTeamMembers.mockResolvedValue(['1', '2']);
+
+    await expect(assertTeamManager({ user: { id: '1', role: 'moderator' } }, 'team-1', 'Managers only'))
+      .resolves.toMatchObject({ id: '1' });
+    await expect(assertTeamManager({ user: { id: '2', role: 'user' } }, 'team-1', 'Managers only'))
+      .rejects.toThrow('Managers only');
+  });
+});
@@ -0,0 +1,23 @@
+const { addTask } = require('../data/tasksStore');
+const { POSITION_STEP, getNextPosition, assertValidPosition } = require('../lib/board');
+
+const TEAM = 'board-team';
+
+describe('board positions', () => {
+  beforeAll(() => {
+    addTask({ id: 'card-1', title: 'First', status: 'TODO', teamId: TEAM, position: 1024 });
+    addTask({ id: 'card-2', title: 'Dropped between', status: 'TODO', teamId: TEAM, position: 1536 });
+    addTask({ id: 'card-3', title: 'Reviewed', status: 'REVIEW', teamId: TEAM, position: 9000 });
+  });
+
+  it('places a new card below the last one in its column', () => {
+    expect(getNextPosition(TEAM, 'TODO')).toBe(1536 + POSITION_STEP);
+    expect(getNextPosition(TEAM, 'IN_PROGRESS')).toBe(POSITION_STEP);
+  });
+
+  it('only accepts finite positions', () => {
+    expect(() => assertValidPosition(1280.5)).not.toThrow();
+    expect(() => assertValidPosition(Infinity)).toThrow('position must be a finite number');
+    expect(() => assertValidPosition(NaN)).toThrow('position must be a finite number');
+  });
+});
@@ -0,0 +1,119 @@
+jest.mock('../lib/teamDirectory', () => ({ getTeamMembers: jest.fn(async () => ['1', '2']) }));
+
+const { addTask, findTaskById } = require('../data/tasksStore');
+const { Mutation } = require('../lib/resolvers/bulk');
+const { MAX_BULK_TASKS } = require('../lib/bulkTasks');
+const { pubsub } = require('../lib/taskEvents');
+
+const TEAM = 'bulk-team';
+const OTHER_TEAM = 'bulk-other-team';
+const as = (id, role = 'user') => ({ user: { id, role } });
+
+const addTeamTask = (id, fields = {}) => addTask({
+  id,
+  title: `Task ${id}`,
+  status: 'TODO',
+  priority: 'MEDIUM',
+  teamId: TEAM,
+  createdBy: '1',
+  parentId: null,
+  checklist: [],
+  blockedBy: [],
+  ...fields,
+});
+
+// Channels published to, ignoring notifications
+const liveChannels = (publish) => publish.mock.calls
+  .map(([channel]) => channel)
+  .filter(channel => !channel.startsWith('NOTIFICATION_ADDED_'));
+
+describe('bulk task mutations', () => {
+  let publish;
+
+  beforeEach(() => {
+    publish = jest.spyOn(pubsub, 'publish');
+  });
+
+  afterEach(() => {
+    publish.mockRestore();
+  });
+
+  it('changes the tasks that pass and reports the others', async () => {
+    addTeamTask('u1');
+    addTeamTask('u2', { status: 'COMPLETED' });
+
+    const payload = await Mutation.bulkUpdateTasks(null, {
+      ids: ['u1', 'u2', 'missing'],
+      input: { status: 'IN_PROGRESS', priority: 'HIGH' },
+    }, as('1'));
+
+    expect(payload).toMatchObject({ succeeded: 2, failed: 1 });
+    expect(payload.results[2]).toMatchObject({ id: 'missing', success: false, code: 'TASK_NOT_FOUND' });
+    expect(findTaskById('u1')).toMatchObject({ status: 'IN_PROGRESS', priority: 'HIGH' });
+    expect(findTaskById('u2')).toMatchObject({ status: 'IN_PROGRESS', priority: 'HIGH' });
+  });
+
+  it('only assigns tasks to members of their team', async () => {
+    addTeamTask('as1');
+
+    const payload = await Mutation.bulkUpdateTasks(null, { ids: ['as1'], input: { assignedTo: 'outsider' } }, as('1'));
+
+    expect(payload.results[0]).toMatchObject({ success: false, error: 'assignedTo outsider is not a member of the team' });
+    expect(findTaskById('as1').assignedTo).toBeUndefined();
+  });
+
+  it('sends one tasksChanged event per team instead of one event per task', async () => {
+    addTeamTask('e1');
+    addTeamTask('e2');
+
+    await Mutation.bulkUpdateTasks(null, { ids: ['e1', 'e2'], input: { priority: 'LOW' } }, as('1'));
+
+    expect(liveChannels(publish)).toEqual([`TASKS_CHANGED_${TEAM}`]);
+    expect(publish.mock.calls[0][1].tasksChanged.tasks.map(task => task.id)).toEqual(['e1', 'e2']);
+  });
+
+  it('reports moved tasks as removed from the old team and changed in the new one', async () => {
+    addTeamTask('m1');
+
+    const payload = await Mutation.bulkMoveTasks(null, { ids: ['m1'], teamId: OTHER_TEAM }, as('1'));
+
+    expect(payload.succeeded).toBe(1);
+    expect(findTaskById('m1').teamId).toBe(OTHER_TEAM);
+    expect(publish.mock.calls.filter(([channel]) => channel.startsWith('TASKS_CHANGED_'))).toEqual([
+      [`TASKS_CHANGED_${TEAM}`, { tasksChanged: { teamId: TEAM, tasks: [], removedIds: ['m1'] } }],
+      [`TASKS_CHANGED_${OTHER_TEAM}`, {
+        tasksChanged: { teamId: OTHER_TEAM, tasks: [expect.objectContaining({ id: 'm1' })], removedIds: [] },
+      }],
+    ]);
+    expect(liveChannels(publish)).toHaveLength(2);
+  });
+
+  it('changes nothing in an atomic run when any task fails', async () => {
+    addTeamTask('a1');
+    addTeamTask('a2', { createdBy: '2' });
+
+    const payload = await Mutation.bulkDeleteTasks(null, { ids: ['a1', 'a2'], atomic: true }, as('2'));
+
+    expect(payload.results).toEqual([
+      expect.objectContaining({ id: 'a1', success: false, code: 'FORBIDDEN' }),
+      expect.objectContaining({ id: 'a2', success: false, code: 'BULK_ABORTED' }),
+    ]);
+    expect(findTaskById('a1')).toBeTruthy();
+    expect(findTaskById('a2')).toBeTruthy();
+    expect(liveChannels(publish)).toEqual([]);
+  });
+
+  it(`accepts at most ${MAX_BULK_TASKS} distinct task ids`, async () => {
+    addTeamTask('l1');
+    const tooMany = Array.from({ length: MAX_BULK_TASKS + 1 }, (_, index) => `l${index + 1}`);
+
+    await expect(Mutation.bulkUpdateTasks(null, { ids: tooMany, input: { priority: 'LOW' } }, as('1')))
+      .rejects.toThrow(`Pass between 1 and ${MAX_BULK_TASKS} task ids`);
+    await expect(Mutation.bulkDeleteTasks(null, { ids: [] }, as('1')))
+      .rejects.toThrow(`Pass between 1 and ${MAX_BULK_TASKS} task ids`);
+
+    const repeated = Array.from({ length: MAX_BULK_TASKS + 1 }, () => 'l1');
+    const payload = await Mutation.bulkUpdateTasks(null, { ids: repeated, input: { priority: 'LOW' } }, as('1'));
+    expect(payload.results).toHaveLength(1);
+  });
+});
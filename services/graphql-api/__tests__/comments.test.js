@@ -0,0 +1,65 @@
+jest.mock('../lib/teamDirectory', () => ({ getTeamMembers: jest.fn(async () => ['1', '2']) }));
+
+const { ForbiddenError, UserInputError } = require('apollo-server-express');
+const { Mutation } = require('../lib/resolvers/comments');
+const { getTeamMembers } = require('../lib/teamDirectory');
+const { getCommentsForTask } = require('../data/commentsStore');
+const { getNotificationsForUser } = require('../data/notificationsStore');
+
+// Seeded task 2 belongs to team 1, is assigned to user 2 and was created by user 1
+const as = (id, role = 'user') => ({ user: { id, role } });
+
+describe('task comments', () => {
+  it('threads replies under their parent and notifies the assignee and creator, not the author', async () => {
+    const comment = await Mutation.addComment(null, { taskId: '2', body: '  First!  ' }, as('2'));
+    const reply = await Mutation.addComment(null, { taskId: '2', body: 'Reply', parentId: comment.id }, as('1'));
+
+    expect(comment).toMatchObject({ body: 'First!', parentId: null, authorId: '2', edited: false });
+    expect(reply.parentId).toBe(comment.id);
+    expect(getNotificationsForUser('1').filter(({ type }) => type === 'COMMENT_ADDED')).toHaveLength(1);
+    expect(getNotificationsForUser('2').filter(({ type }) => type === 'COMMENT_ADDED')).toHaveLength(1);
+  });
+
+  it('rejects empty bodies, parents on another task and non-members', async () => {
+    const other = await Mutation.addComment(null, { taskId: '1', body: 'On task 1' }, as('1'));
+
+    await expect(Mutation.addComment(null, { taskId: '2', body: '   ' }, as('2')))
+      .rejects.toThrow('Comment body is required');
+    await expect(Mutation.addComment(null, { taskId: '2', body: 'Reply', parentId: other.id }, as('2')))
+      .rejects.toThrow('Parent comment not found');
+    await expect(Mutation.addComment(null, { taskId: '2', body: 'Hi' }, as('outsider')))
+      .rejects.toThrow('You are not a member of this team');
+  });
+
+  it('lets only the author edit a comment', async () => {
+    const comment = await Mutation.addComment(null, { taskId: '2', body: 'Draft' }, as('2'));
+
+    await expect(Mutation.editComment(null, { id: comment.id, body: 'Changed' }, as('1', 'admin')))
+      .rejects.toThrow('Only the author can edit this comment');
+    await expect(Mutation.editComment(null, { id: comment.id, body: 'Final' }, as('2')))
+      .resolves.toMatchObject({ body: 'Final', edited: true });
+  });
+
+  it('deletes a comment together with its replies, by the author or an admin', async () => {
+    const root = await Mutation.addComment(null, { taskId: '1', body: 'Root' }, as('2'));
+    const reply = await Mutation.addComment(null, { taskId: '1', body: 'Reply', parentId: root.id }, as('1'));
+    await Mutation.addComment(null, { taskId: '1', body: 'Nested', parentId: reply.id }, as('2'));
+
+    await expect(Mutation.deleteComment(null, { id: root.id }, as('1')))
+      .rejects.toThrow('Only the author or an admin can delete this comment');
+    await expect(Mutation.deleteComment(null, { id: root.id }, as('1', 'admin'))).resolves.toBe(true);
+    expect(getCommentsForTask('1').filter(({ body }) => ['Root', 'Reply', 'Nested'].includes(body))).toEqual([]);
+  });
+
+  it('keeps users outside the team away from its comments, authors included', async () => {
+    const comment = await Mutation.addComment(null, { taskId: '2', body: 'Before leaving' }, as('1'));
+    getTeamMembers.mockResolvedValueOnce(['2']).mockResolvedValueOnce(['2']);
+
+    await expect(Mutation.editComment(null, { id: comment.id, body: 'After leaving' }, as('1')))
+      .rejects.toThrow(ForbiddenError);
+    await expect(Mutation.deleteComment(null, { id: comment.id }, as('1')))
+      .rejects.toThrow('You are not a member of this team');
+    await expect(Mutation.editComment(null, { id: 'missing', body: 'Hi' }, as('1')))
+      .rejects.toThrow(UserInputError);
+  });
+});
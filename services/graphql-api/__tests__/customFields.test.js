@@ -0,0 +1,66 @@
+jest.mock('../lib/teamDirectory', () => ({ getTeamMembers: jest.fn(async () => ['lead', 'dev']) }));
+
+const { addLabel } = require('../data/labelsStore');
+const { addCustomField } = require('../data/customFieldsStore');
+const { normalizeLabelInput, assertTeamLabels } = require('../lib/labels');
+const { normalizeFieldDefinition, applyCustomFieldValues, getTaskCustomFields } = require('../lib/customFields');
+
+const TEAM = 'fields-team';
+
+describe('labels', () => {
+  beforeAll(() => {
+    addLabel({ id: 'bug', teamId: TEAM, name: 'Bug', color: '#d73a4a' });
+    addLabel({ id: 'foreign', teamId: 'other-team', name: 'Docs', color: '#0075ca' });
+  });
+
+  it('keeps names unique per team, ignoring case', () => {
+    expect(() => normalizeLabelInput(TEAM, { name: ' bug ' })).toThrow('The team already has a label named "Bug"');
+    expect(normalizeLabelInput(TEAM, { name: 'BUG' }, { id: 'bug' })).toEqual({ name: 'BUG' });
+    expect(normalizeLabelInput(TEAM, { name: 'Docs', color: '#0075CA' })).toEqual({ name: 'Docs', color: '#0075ca' });
+    expect(() => normalizeLabelInput(TEAM, { color: 'blue' })).toThrow('color must be a hex color');
+  });
+
+  it('only lets a task carry its own team\'s labels', () => {
+    expect(assertTeamLabels(TEAM, ['bug', 'bug'])).toEqual(['bug']);
+    expect(() => assertTeamLabels(TEAM, ['bug', 'foreign'])).toThrow('Unknown labels for this team');
+  });
+});
+
+describe('custom fields', () => {
+  beforeAll(() => {
+    addCustomField({ id: 'points', teamId: TEAM, name: 'Points', type: 'NUMBER', options: [] });
+    addCustomField({ id: 'stage', teamId: TEAM, name: 'Stage', type: 'SINGLE_SELECT', options: ['Alpha', 'Beta'] });
+    addCustomField({ id: 'owner', teamId: TEAM, name: 'Owner', type: 'USER', options: [] });
+    addCustomField({ id: 'launch', teamId: TEAM, name: 'Launch', type: 'DATE', options: [] });
+  });
+
+  it('validates definitions by type', () => {
+    expect(() => normalizeFieldDefinition(TEAM, { name: 'Stage', type: 'TEXT' })).toThrow('already has a field named "Stage"');
+    expect(() => normalizeFieldDefinition(TEAM, { name: 'Size', type: 'SINGLE_SELECT', options: ['S', 'S'] }))
+      .toThrow('Options must be unique');
+    expect(() => normalizeFieldDefinition(TEAM, { name: 'Notes', type: 'TEXT', options: ['x'] }))
+      .toThrow('Only single-select fields have options');
+    expect(normalizeFieldDefinition(TEAM, { name: 'Notes', type: 'TEXT' })).toEqual({ name: 'Notes', options: [] });
+  });
+
+  it('stores typed values and clears empty ones', async () => {
+    const values = await applyCustomFieldValues(TEAM, { launch: '2030-01-01' }, [
+      { fieldId: 'points', value: ' 5 ' },
+      { fieldId: 'stage', value: 'Beta' },
+      { fieldId: 'owner', value: 'dev' },
+      { fieldId: 'launch', value: '' },
+    ]);
+
+    expect(values).toEqual({ points: 5, stage: 'Beta', owner: 'dev' });
+    expect(getTaskCustomFields({ teamId: TEAM, customFieldValues: values }).map(({ fieldId, value }) => [fieldId, value]))
+      .toEqual([['points', '5'], ['stage', 'Beta'], ['owner', 'dev']]);
+  });
+
+  it('rejects values that do not fit the field', async () => {
+    await expect(applyCustomFieldValues(TEAM, {}, [{ fieldId: 'points', value: 'many' }])).rejects.toThrow('Points: must be a number');
+    await expect(applyCustomFieldValues(TEAM, {}, [{ fieldId: 'stage', value: 'Gamma' }])).rejects.toThrow('Stage: must be one of Alpha, Beta');
+    await expect(applyCustomFieldValues(TEAM, {}, [{ fieldId: 'owner', value: 'stranger' }])).rejects.toThrow('Owner: must be a member of the team');
+    await expect(applyCustomFieldValues(TEAM, {}, [{ fieldId: 'launch', value: '2030-02-30x' }])).rejects.toThrow('Launch: must be a date');
+    await expect(applyCustomFieldValues('other-team', {}, [{ fieldId: 'points', value: '1' }])).rejects.toThrow('Unknown custom field for this team');
+  });
+});
@@ -0,0 +1,90 @@
+process.env.INTERNAL_SERVICE_TOKEN = 'an-event-signing-secret';
+
+jest.mock('../lib/teamDirectory', () => ({ getTeamMembers: jest.fn(), invalidateTeam: jest.fn() }));
+
+const crypto = require('crypto');
+const { isValidEvent, verifyEventSignature, createEventConsumer } = require('../lib/eventBus');
+const { hasProcessedEvent } = require('../data/processedEventsStore');
+const { addTask } = require('../data/tasksStore');
+const { getTeamMembers } = require('../lib/teamDirectory');
+const { webhookDispatcher } = require('../lib/taskEvents');
+const { eventConsumer } = require('../lib/eventHandlers');
+
+const sign = (body) => `sha256=${crypto.createHmac('sha256', process.env.INTERNAL_SERVICE_TOKEN).update(body).digest('hex')}`;
+
+describe('event signatures', () => {
+  const body = JSON.stringify({ id: 'e1', type: 'team.updated', data: {} });
+
+  it('accepts only events signed with the shared secret', () => {
+    expect(verifyEventSignature(body, sign(body))).toBe(true);
+    expect(verifyEventSignature(`${body} `, sign(body))).toBe(false);
+    expect(verifyEventSignature(body, 'sha256=forged')).toBe(false);
+    expect(verifyEventSignature(body, undefined)).toBe(false);
+  });
+
+  it('checks the envelope shape', () => {
+    expect(isValidEvent({ id: 'e1', type: 'team.updated', data: {} })).toBe(true);
+    expect(isValidEvent({ id: 'e1', type: 'team.updated' })).toBe(false);
+  });
+});
+
+describe('createEventConsumer', () => {
+  it('runs the handlers of a redelivered event only once', async () => {
+    const consumer = createEventConsumer();
+    const handler = jest.fn();
+    consumer.subscribe('user.deleted', handler);
+    const event = { id: 'redelivered', type: 'user.deleted', data: { userId: '2' } };
+
+    await expect(consumer.handle(event)).resolves.toEqual({ duplicate: false });
+    await expect(consumer.handle(event)).resolves.toEqual({ duplicate: true });
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler).toHaveBeenCalledWith({ userId: '2' }, event);
+  });
+
+  it('leaves an event unprocessed when a handler fails, so it can be redelivered', async () => {
+    const consumer = createEventConsumer();
+    const handler = jest.fn()
+      .mockRejectedValueOnce(new Error('store unavailable'))
+      .mockResolvedValueOnce(undefined);
+    consumer.subscribe('team.deleted', handler);
+    const event = { id: 'retried', type: 'team.deleted', data: { teamId: '9' } };
+
+    await expect(consumer.handle(event)).rejects.toThrow('store unavailable');
+    await expect(consumer.handle(event)).resolves.toEqual({ duplicate: false });
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('forgets processed events once they are older than the retention window', async () => {
+    let now = Date.parse('2026-01-01T00:00:00Z');
+    const consumer = createEventConsumer({ clock: () => now, retentionMs: 60 * 1000 });
+
+    await consumer.handle({ id: 'old', type: 'team.updated', data: {} });
+    now += 30 * 1000;
+    await consumer.handle({ id: 'recent', type: 'team.updated', data: {} });
+    now += 45 * 1000;
+    await consumer.handle({ id: 'new', type: 'team.updated', data: {} });
+
+    expect(hasProcessedEvent('old')).toBe(false);
+    expect(hasProcessedEvent('recent')).toBe(true);
+    expect(hasProcessedEvent('new')).toBe(true);
+  });
+});
+
+describe('team event handlers', () => {
+  it('sends webhooks only once the handlers have succeeded', async () => {
+    const dispatch = jest.spyOn(webhookDispatcher, 'dispatch').mockImplementation(() => {});
+    addTask({ id: 'left-behind', title: 'Left behind', status: 'TODO', teamId: 'hooks-team', assignedTo: 'leaver', createdBy: 'lead' });
+    const event = { id: 'member-removed', type: 'team.member_removed', data: { teamId: 'hooks-team', userId: 'leaver' } };
+
+    const teamWebhooks = () => dispatch.mock.calls.filter(([type]) => type.startsWith('team.'));
+
+    getTeamMembers.mockResolvedValueOnce(null);
+    await expect(eventConsumer.handle(event)).rejects.toThrow('Cannot load members of team hooks-team');
+    expect(teamWebhooks()).toEqual([]);
+
+    getTeamMembers.mockResolvedValueOnce(['lead']);
+    await eventConsumer.handle(event);
+    expect(teamWebhooks()).toEqual([['team.member_removed', { teamId: 'hooks-team', data: event.data }]]);
+    dispatch.mockRestore();
+  });
+});
@@ -0,0 +1,84 @@
+const { createLiveEffects } = require('../lib/liveEffects');
+
+const setup = () => {
+  const pubsub = { publish: jest.fn() };
+  const notifyUser = jest.fn();
+  return { pubsub, notifyUser, effects: createLiveEffects({ pubsub, notifyUser }) };
+};
+
+describe('createLiveEffects', () => {
+  it('sends events and notifications right away outside a bulk operation', () => {
+    const { pubsub, notifyUser, effects } = setup();
+
+    effects.immediate.publishLive('UPDATED', 'team-1', { id: 't1' });
+    effects.immediate.notify('u1', { type: 'TASK_ASSIGNED', message: 'Assigned', taskId: 't1' });
+
+    expect(pubsub.publish).toHaveBeenCalledWith('TASK_UPDATED_team-1', { taskUpdated: { id: 't1' } });
+    expect(notifyUser).toHaveBeenCalledWith('u1', { type: 'TASK_ASSIGNED', message: 'Assigned', taskId: 't1' });
+  });
+
+  it('holds everything back until flushed', () => {
+    const { pubsub, notifyUser, effects } = setup();
+    const collector = effects.collect();
+
+    collector.publishLive('UPDATED', 'team-1', { id: 't1' });
+    collector.notify('u1', { type: 'TASK_STATUS_CHANGED', message: 'Changed', taskId: 't1' });
+
+    expect(pubsub.publish).not.toHaveBeenCalled();
+    expect(notifyUser).not.toHaveBeenCalled();
+  });
+
+  it('publishes one tasksChanged event per team with the final version of each task', () => {
+    const { pubsub, effects } = setup();
+    const collector = effects.collect();
+
+    collector.publishLive('UPDATED', 'team-1', { id: 't1', status: 'IN_PROGRESS' });
+    collector.publishLive('UPDATED', 'team-1', { id: 't1', status: 'COMPLETED' });
+    collector.publishLive('CREATED', 'team-1', { id: 't2', status: 'TODO' });
+    collector.publishLive('UPDATED', 'team-1', { id: 't2', status: 'DONE' });
+    collector.publishLive('DELETED', 'team-1', { id: 't3' });
+    collector.publishLive('UPDATED', 'team-2', { id: 't4' });
+    collector.flush();
+
+    expect(pubsub.publish.mock.calls).toEqual([
+      ['TASKS_CHANGED_team-1', {
+        tasksChanged: {
+          teamId: 'team-1',
+          tasks: [{ id: 't1', status: 'COMPLETED' }, { id: 't2', status: 'DONE' }],
+          removedIds: ['t3'],
+        },
+      }],
+      ['TASKS_CHANGED_team-2', { tasksChanged: { teamId: 'team-2', tasks: [{ id: 't4' }], removedIds: [] } }],
+    ]);
+  });
+
+  it('merges notifications per user and type', () => {
+    const { notifyUser, effects } = setup();
+    const collector = effects.collect();
+
+    collector.notify('u1', { type: 'TASK_STATUS_CHANGED', message: 'A changed', taskId: 't1' });
+    collector.notify('u1', { type: 'TASK_STATUS_CHANGED', message: 'B changed', taskId: 't2' });
+    collector.notify('u2', { type: 'TASK_UNBLOCKED', message: 'C unblocked', taskId: 't3' });
+    collector.flush();
+
+    expect(notifyUser.mock.calls).toEqual([
+      ['u1', { type: 'TASK_STATUS_CHANGED', message: '2 of your tasks changed status', taskId: null }],
+      ['u2', { type: 'TASK_UNBLOCKED', message: 'C unblocked', taskId: 't3' }],
+    ]);
+  });
+
+  it('keeps collectors of concurrent operations apart', () => {
+    const { pubsub, effects } = setup();
+    const first = effects.collect();
+    const second = effects.collect();
+
+    first.publishLive('UPDATED', 'team-1', { id: 't1' });
+    second.publishLive('UPDATED', 'team-1', { id: 't2' });
+    first.flush();
+
+    expect(pubsub.publish).toHaveBeenCalledWith('TASKS_CHANGED_team-1', {
+      tasksChanged: { teamId: 'team-1', tasks: [{ id: 't1' }], removedIds: [] },
+    });
+    expect(pubsub.publish).toHaveBeenCalledTimes(1);
+  });
+});
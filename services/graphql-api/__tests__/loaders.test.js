@@ -0,0 +1,34 @@
+jest.mock('../lib/userService', () => ({ fetchFromUserService: jest.fn() }));
+
+const { fetchFromUserService } = require('../lib/userService');
+const { createLoaders } = require('../lib/loaders');
+
+describe('createLoaders', () => {
+  afterEach(() => {
+    fetchFromUserService.mockReset();
+  });
+
+  it('fetches every user asked for in one operation with a single request', async () => {
+    fetchFromUserService.mockResolvedValue({ users: [{ id: '1', name: 'Ann' }, null] });
+    const { users } = createLoaders();
+
+    const [assignee, missing, creator] = await Promise.all([users.load('1'), users.load('gone'), users.load('1')]);
+
+    expect(fetchFromUserService).toHaveBeenCalledTimes(1);
+    expect(fetchFromUserService).toHaveBeenCalledWith('/internal/users?ids=1,gone');
+    expect(assignee).toEqual({ id: '1', name: 'Ann' });
+    expect(creator).toBe(assignee);
+    expect(missing).toBeNull();
+  });
+
+  it('splits large batches at the User Service limit', async () => {
+    fetchFromUserService.mockImplementation(async (path) => ({ teams: path.split('ids=')[1].split(',').map((id) => ({ id })) }));
+    const { teams } = createLoaders();
+    const ids = Array.from({ length: 150 }, (_, index) => `team-${index}`);
+
+    const loaded = await teams.loadMany(ids);
+
+    expect(fetchFromUserService).toHaveBeenCalledTimes(2);
+    expect(loaded.map(({ id }) => id)).toEqual(ids);
+  });
+});
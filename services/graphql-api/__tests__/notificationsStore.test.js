@@ -0,0 +1,43 @@
+const {
+  addNotification,
+  getNotificationsForUser,
+  countUnreadNotifications,
+  markAllNotificationsRead,
+  removeNotificationsForTask,
+} = require('../data/notificationsStore');
+
+const add = (id, userId, { read = false, taskId = null } = {}) => addNotification({
+  id,
+  userId,
+  type: 'TASK_ASSIGNED',
+  message: `Notification ${id}`,
+  read,
+  taskId,
+  createdAt: new Date().toISOString(),
+});
+
+describe('notificationsStore', () => {
+  beforeAll(() => {
+    add('n1', 'reader');
+    add('n2', 'reader', { taskId: 't1' });
+    add('n3', 'reader', { read: true });
+    add('n4', 'other', { taskId: 't1' });
+  });
+
+  it('marks only the unread notifications of one user and reports how many changed', () => {
+    expect(countUnreadNotifications('reader')).toBe(2);
+
+    expect(markAllNotificationsRead('reader')).toBe(2);
+
+    expect(countUnreadNotifications('reader')).toBe(0);
+    expect(countUnreadNotifications('other')).toBe(1);
+    expect(markAllNotificationsRead('reader')).toBe(0);
+  });
+
+  it('removes the notifications of a deleted task for every user', () => {
+    expect(removeNotificationsForTask('t1')).toBe(2);
+
+    expect(getNotificationsForUser('reader').map((notification) => notification.id)).toEqual(['n1', 'n3']);
+    expect(getNotificationsForUser('other')).toEqual([]);
+  });
+});
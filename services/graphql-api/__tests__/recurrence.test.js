@@ -0,0 +1,62 @@
+const { normalizeRule, toRRule, getOccurrenceSchedule, assertCanRecur } = require('../lib/recurrence');
+
+const series = (input, { anchorDate = '2030-01-31T09:00:00.000Z', leadTime = null } = {}) => ({
+  rule: normalizeRule(input),
+  anchorDate,
+  anchorOccurrence: 1,
+  template: { leadTime },
+});
+
+const dueDates = (value, occurrences) => occurrences.map((occurrence) => {
+  const schedule = getOccurrenceSchedule(value, occurrence);
+  return schedule && schedule.dueDate.slice(0, 10);
+});
+
+describe('normalizeRule', () => {
+  it('fills in defaults and orders weekdays from Monday', () => {
+    const rule = normalizeRule({ frequency: 'WEEKLY', byDay: ['FR', 'MO', 'SU', 'MO'], count: 4 });
+
+    expect(rule).toEqual({ frequency: 'WEEKLY', interval: 1, byDay: ['MO', 'FR', 'SU'], until: null, count: 4 });
+    expect(toRRule(rule)).toBe('FREQ=WEEKLY;INTERVAL=1;BYDAY=MO,FR,SU;COUNT=4');
+  });
+
+  it('rejects rules outside the supported subset', () => {
+    expect(() => normalizeRule({ frequency: 'DAILY', interval: 0 })).toThrow('interval must be a positive whole number');
+    expect(() => normalizeRule({ frequency: 'MONTHLY', byDay: ['MO'] })).toThrow('byDay is only supported for weekly recurrence');
+    expect(() => normalizeRule({ frequency: 'DAILY', until: '2030-02-01', count: 3 })).toThrow('Use either until or count');
+  });
+});
+
+describe('getOccurrenceSchedule', () => {
+  it('clamps monthly occurrences to the end of shorter months', () => {
+    expect(dueDates(series({ frequency: 'MONTHLY' }), [1, 2, 3, 4])).toEqual(['2030-01-31', '2030-02-28', '2030-03-31', '2030-04-30']);
+  });
+
+  it('steps through the selected weekdays of every interval-th week', () => {
+    // 2030-01-31 is a Thursday
+    const biweekly = series({ frequency: 'WEEKLY', interval: 2, byDay: ['MO', 'TH'] });
+
+    expect(dueDates(biweekly, [1, 2, 3, 4])).toEqual(['2030-01-31', '2030-02-11', '2030-02-14', '2030-02-25']);
+  });
+
+  it('ends the series after COUNT or UNTIL', () => {
+    expect(dueDates(series({ frequency: 'DAILY', count: 2 }), [2, 3])).toEqual(['2030-02-01', null]);
+    expect(dueDates(series({ frequency: 'DAILY', interval: 3, until: '2030-02-05' }), [2, 3])).toEqual(['2030-02-03', null]);
+  });
+
+  it('keeps the start-to-due span of the first task', () => {
+    const withLead = series({ frequency: 'DAILY' }, { leadTime: 2 * 60 * 60 * 1000 });
+
+    expect(getOccurrenceSchedule(withLead, 2)).toEqual({
+      startDate: '2030-02-01T07:00:00.000Z',
+      dueDate: '2030-02-01T09:00:00.000Z',
+    });
+  });
+});
+
+describe('assertCanRecur', () => {
+  it('needs a due date and a top-level task', () => {
+    expect(() => assertCanRecur({ dueDate: null })).toThrow('Recurring tasks need a due date');
+    expect(() => assertCanRecur({ dueDate: '2030-01-31', parentId: 'epic' })).toThrow('Subtasks cannot repeat');
+  });
+});
@@ -0,0 +1,150 @@
+const { addTask, updateTask, removeTask, getTasks } = require('../data/tasksStore');
+const { parseDuration, parseDurationList, createReminderScheduler } = require('../lib/reminders');
+
+const HOUR = 60 * 60 * 1000;
+const DUE = Date.parse('2030-06-01T12:00:00.000Z');
+
+const addDueTask = (id, fields = {}) => addTask({
+  id,
+  title: `Task ${id}`,
+  status: 'TODO',
+  teamId: 'team-1',
+  assignedTo: 'assignee',
+  createdBy: 'creator',
+  dueDate: new Date(DUE).toISOString(),
+  ...fields,
+});
+
+// A scheduler whose clock only moves when the test says so
+const setup = (options = {}) => {
+  let now = DUE - 48 * HOUR;
+  const notify = jest.fn();
+  const scheduler = createReminderScheduler({
+    notify,
+    clock: () => now,
+    leadTimes: [24 * HOUR, HOUR],
+    logger: { error: jest.fn() },
+    ...options,
+  });
+  const runAt = async (time) => {
+    now = time;
+    notify.mockClear();
+    await scheduler.runOnce();
+    return notify.mock.calls;
+  };
+  const setNow = (time) => { now = time; };
+  return { scheduler, notify, runAt, setNow };
+};
+
+describe('parseDuration', () => {
+  it('reads seconds, minutes, hours and days', () => {
+    expect(parseDuration('90s')).toBe(90 * 1000);
+    expect(parseDuration('30m')).toBe(30 * 60 * 1000);
+    expect(parseDuration('1.5h')).toBe(1.5 * HOUR);
+    expect(parseDuration(' 2D ')).toBe(48 * HOUR);
+    expect(parseDurationList('24h, 1h,')).toEqual([24 * HOUR, HOUR]);
+  });
+
+  it('rejects anything else', () => {
+    expect(() => parseDuration('soon')).toThrow('Invalid duration "soon"');
+    expect(() => parseDuration('5w')).toThrow('Invalid duration');
+  });
+});
+
+describe('createReminderScheduler', () => {
+  beforeEach(() => {
+    getTasks({ includeArchived: true }).forEach((task) => removeTask(task.id));
+  });
+
+  it('sends each lead time reminder once as the deadline approaches', async () => {
+    addDueTask('soon');
+    const { runAt } = setup();
+
+    expect(await runAt(DUE - 30 * HOUR)).toEqual([]);
+    expect(await runAt(DUE - 20 * HOUR)).toEqual([
+      ['assignee', { type: 'TASK_DUE_SOON', message: 'Task "Task soon" is due within 1d', taskId: 'soon' }],
+    ]);
+    expect(await runAt(DUE - 19 * HOUR)).toEqual([]);
+    expect(await runAt(DUE - 30 * 60 * 1000)).toEqual([
+      ['assignee', { type: 'TASK_DUE_SOON', message: 'Task "Task soon" is due within 1h', taskId: 'soon' }],
+    ]);
+  });
+
+  it('only sends the tightest reminder when several lead times passed between runs', async () => {
+    addDueTask('late-start', { assignedTo: null });
+    const { runAt } = setup();
+
+    const calls = await runAt(DUE - 10 * 60 * 1000);
+    expect(calls).toHaveLength(1);
+    expect(calls[0][0]).toBe('creator');
+    expect(calls[0][1].message).toBe('Task "Task late-start" is due within 1h');
+    expect(await runAt(DUE - 5 * 60 * 1000)).toEqual([]);
+  });
+
+  it('reports an overdue task once and escalates after the grace period', async () => {
+    addDueTask('overdue');
+    const getEscalationRecipients = jest.fn(async () => ['admin', 'assignee']);
+    const { runAt } = setup({ escalationGraceMs: 4 * HOUR, getEscalationRecipients });
+
+    expect(await runAt(DUE + HOUR)).toEqual([
+      ['assignee', { type: 'TASK_OVERDUE', message: 'Task "Task overdue" is overdue', taskId: 'overdue' }],
+    ]);
+    expect(await runAt(DUE + 2 * HOUR)).toEqual([]);
+    expect(getEscalationRecipients).not.toHaveBeenCalled();
+
+    // The assignee already knows, so only the other recipients hear about the escalation
+    expect(await runAt(DUE + 5 * HOUR)).toEqual([
+      ['admin', { type: 'TASK_OVERDUE_ESCALATED', message: 'Task "Task overdue" is still overdue after 4h', taskId: 'overdue' }],
+    ]);
+    expect(await runAt(DUE + 6 * HOUR)).toEqual([]);
+  });
+
+  it('retries an escalation when the recipients cannot be loaded', async () => {
+    addDueTask('retry');
+    const getEscalationRecipients = jest.fn()
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce(['admin']);
+    const { runAt } = setup({ escalationGraceMs: HOUR, getEscalationRecipients });
+
+    await runAt(DUE + 2 * HOUR);
+    const calls = await runAt(DUE + 3 * HOUR);
+
+    expect(getEscalationRecipients).toHaveBeenCalledTimes(2);
+    expect(calls.map(([userId, { type }]) => [userId, type])).toEqual([['admin', 'TASK_OVERDUE_ESCALATED']]);
+  });
+
+  it('arms fresh reminders when the due date moves and ignores closed tasks', async () => {
+    addDueTask('moved');
+    addDueTask('done', { status: 'COMPLETED' });
+    const { runAt } = setup();
+
+    expect((await runAt(DUE + HOUR)).map(([, { taskId }]) => taskId)).toEqual(['moved']);
+
+    updateTask('moved', { dueDate: new Date(DUE + 48 * HOUR).toISOString() });
+    expect((await runAt(DUE + 30 * HOUR)).map(([, { type }]) => type)).toEqual(['TASK_DUE_SOON']);
+  });
+
+  it('checks on start and on every interval until stopped', async () => {
+    jest.useFakeTimers();
+    try {
+      addDueTask('ticking');
+      const { scheduler, notify, setNow } = setup({ intervalMs: 1000 });
+
+      setNow(DUE - 30 * HOUR);
+      scheduler.start();
+      await jest.advanceTimersByTimeAsync(0);
+      expect(notify).not.toHaveBeenCalled();
+
+      setNow(DUE + HOUR);
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(notify).toHaveBeenCalledTimes(1);
+
+      scheduler.stop();
+      addDueTask('after-stop');
+      await jest.advanceTimersByTimeAsync(5000);
+      expect(notify).toHaveBeenCalledTimes(1);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,31 @@
+const { assertValidSchedule, filterTasksInRange } = require('../lib/schedule');
+
+describe('assertValidSchedule', () => {
+  it('rejects unparseable dates and a start after the due date', () => {
+    expect(() => assertValidSchedule({ startDate: 'soon', dueDate: null })).toThrow('startDate must be a valid date');
+    expect(() => assertValidSchedule({ startDate: '2030-01-05', dueDate: '2030-01-01' }))
+      .toThrow('startDate must not be after dueDate');
+    expect(() => assertValidSchedule({ startDate: '2030-01-01', dueDate: '2030-01-05' })).not.toThrow();
+  });
+});
+
+describe('filterTasksInRange', () => {
+  const tasks = [
+    { id: 'spans-range', startDate: '2029-12-20', dueDate: '2030-02-10' },
+    { id: 'starts-inside', startDate: '2030-01-30', dueDate: '2030-02-15' },
+    { id: 'due-only', startDate: null, dueDate: '2030-01-15' },
+    { id: 'start-only', startDate: '2030-01-01', dueDate: null },
+    { id: 'before', startDate: '2029-12-01', dueDate: '2029-12-31' },
+    { id: 'undated', startDate: null, dueDate: null },
+  ];
+
+  it('returns tasks whose span overlaps the range', () => {
+    expect(filterTasksInRange(tasks, '2030-01-01', '2030-01-31').map(({ id }) => id))
+      .toEqual(['spans-range', 'starts-inside', 'due-only', 'start-only']);
+  });
+
+  it('rejects an invalid or inverted range', () => {
+    expect(() => filterTasksInRange(tasks, 'yesterday', '2030-01-31')).toThrow('from and to must be valid dates');
+    expect(() => filterTasksInRange(tasks, '2030-02-01', '2030-01-01')).toThrow('from must not be after to');
+  });
+});
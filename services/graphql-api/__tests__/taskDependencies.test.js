@@ -0,0 +1,59 @@
+const { addTask } = require('../data/tasksStore');
+const { assertValidDependency, getOpenBlockers, getUnblockedTasks } = require('../lib/taskDependencies');
+
+const TEAM = 'dependency-team';
+
+const addTeamTask = (id, fields = {}) => addTask({
+  id,
+  title: `Task ${id}`,
+  status: 'TODO',
+  teamId: TEAM,
+  parentId: null,
+  checklist: [],
+  blockedBy: [],
+  ...fields,
+});
+
+describe('task dependencies', () => {
+  // design <- build <- release, and build also waits on review
+  let design;
+  let build;
+  let release;
+  let review;
+  let outside;
+
+  beforeAll(() => {
+    design = addTeamTask('design', { status: 'COMPLETED' });
+    review = addTeamTask('review');
+    build = addTeamTask('build', { blockedBy: ['design', 'review'] });
+    release = addTeamTask('release', { blockedBy: ['build'] });
+    outside = addTeamTask('outside', { teamId: 'other-team' });
+  });
+
+  it('rejects direct and indirect cycles', () => {
+    expect(() => assertValidDependency(design, design)).toThrow('A task cannot block itself');
+    expect(() => assertValidDependency(build, release)).toThrow('This dependency would create a cycle');
+    expect(() => assertValidDependency(design, release)).toThrow('This dependency would create a cycle');
+  });
+
+  it('keeps dependencies inside one team', () => {
+    expect(() => assertValidDependency(release, outside)).toThrow('Dependencies must link tasks of the same team');
+  });
+
+  it('accepts links that do not close a loop', () => {
+    expect(() => assertValidDependency(release, review)).not.toThrow();
+    expect(() => assertValidDependency(review, design)).not.toThrow();
+  });
+
+  it('counts only unfinished blockers as open', () => {
+    expect(getOpenBlockers(build).map(({ id }) => id)).toEqual(['review']);
+  });
+
+  it('reports tasks whose last open blocker was closed', () => {
+    expect(getUnblockedTasks('review')).toEqual([]);
+    addTeamTask('review-done', { status: 'COMPLETED' });
+    addTeamTask('waiting', { blockedBy: ['design', 'review-done'] });
+
+    expect(getUnblockedTasks('review-done').map(({ id }) => id)).toEqual(['waiting']);
+  });
+});
@@ -0,0 +1,74 @@
+const { applyTaskFilter, paginateTasks } = require('../lib/taskQuery');
+
+const task = (id, fields = {}) => ({
+  id,
+  title: `Task ${id}`,
+  description: '',
+  status: 'TODO',
+  priority: 'MEDIUM',
+  createdAt: `2030-01-0${id}T00:00:00.000Z`,
+  dueDate: null,
+  ...fields,
+});
+
+const ids = (connection) => connection.edges.map(({ node }) => node.id);
+
+describe('paginateTasks', () => {
+  const tasks = ['1', '2', '3', '4', '5'].map((id) => task(id));
+
+  it('walks every task once, page by page', () => {
+    const first = paginateTasks(tasks, { first: 2 });
+    const second = paginateTasks(tasks, { first: 2, after: first.pageInfo.endCursor });
+    const third = paginateTasks(tasks, { first: 2, after: second.pageInfo.endCursor });
+
+    expect([ids(first), ids(second), ids(third)]).toEqual([['1', '2'], ['3', '4'], ['5']]);
+    expect(first.pageInfo).toMatchObject({ hasNextPage: true, hasPreviousPage: false });
+    expect(third.pageInfo).toMatchObject({ hasNextPage: false, hasPreviousPage: true });
+    expect(third.totalCount).toBe(5);
+  });
+
+  it('keeps its place when tasks before the cursor are deleted', () => {
+    const first = paginateTasks(tasks, { first: 2 });
+    const remaining = tasks.filter(({ id }) => id !== '1');
+
+    expect(ids(paginateTasks(remaining, { first: 2, after: first.pageInfo.endCursor }))).toEqual(['3', '4']);
+  });
+
+  it('breaks ties by id and sorts tasks without a value last', () => {
+    const dated = [
+      task('1', { dueDate: '2030-02-01' }),
+      task('2'),
+      task('3', { dueDate: '2030-01-01' }),
+      task('4', { dueDate: '2030-02-01' }),
+    ];
+
+    expect(ids(paginateTasks(dated, { orderBy: { field: 'DUE_DATE', direction: 'ASC' } }))).toEqual(['3', '1', '4', '2']);
+    expect(ids(paginateTasks(dated, { orderBy: { field: 'DUE_DATE', direction: 'DESC' } }))).toEqual(['1', '4', '3', '2']);
+  });
+
+  it('rejects a malformed cursor', () => {
+    expect(() => paginateTasks(tasks, { after: 'not-a-cursor' })).toThrow('Invalid cursor');
+  });
+});
+
+describe('applyTaskFilter', () => {
+  it('matches every search term against the title and description', () => {
+    const tasks = [
+      task('1', { title: 'Fix login', description: 'Refresh token expires early' }),
+      task('2', { title: 'Fix logout' }),
+    ];
+
+    expect(applyTaskFilter(tasks, { search: 'fix TOKEN' }).map(({ id }) => id)).toEqual(['1']);
+  });
+
+  it('finds overdue tasks that are still open', () => {
+    const now = Date.parse('2030-01-10T00:00:00.000Z');
+    const tasks = [
+      task('1', { dueDate: '2030-01-05' }),
+      task('2', { dueDate: '2030-01-05', status: 'COMPLETED' }),
+      task('3', { dueDate: '2030-01-20' }),
+    ];
+
+    expect(applyTaskFilter(tasks, { overdueOnly: true }, now).map(({ id }) => id)).toEqual(['1']);
+  });
+});
@@ -0,0 +1,161 @@
+jest.mock('../lib/teamDirectory', () => ({ getTeamMembers: jest.fn(async () => ['lead', 'dev']) }));
+
+const { addTask, getTasks } = require('../data/tasksStore');
+const { saveWorkflow } = require('../data/workflowsStore');
+const {
+  exportTasks,
+  parseTaskImport,
+  planTaskImport,
+  buildTaskImportReport,
+} = require('../lib/taskTransfer');
+const { applyTaskImport } = require('../lib/taskOperations');
+
+const TEAM = 'import-team';
+const actor = { id: 'lead', role: 'moderator' };
+// Stands in for the request's user loader; the User Service knows the team's members only
+const users = { loadMany: async (ids) => ids.map((id) => (['lead', 'dev'].includes(id) ? { id } : null)) };
+
+const addTeamTask = (id, fields = {}) => addTask({
+  id,
+  title: `Task ${id}`,
+  status: 'TODO',
+  priority: 'MEDIUM',
+  teamId: TEAM,
+  createdBy: 'lead',
+  blockedBy: [],
+  ...fields,
+});
+
+const importCsv = async (content, options = {}) => {
+  const plan = await planTaskImport(TEAM, parseTaskImport('CSV', content), { actor, users, ...options });
+  return buildTaskImportReport(plan, true);
+};
+
+describe('planTaskImport', () => {
+  beforeAll(() => {
+    saveWorkflow(TEAM, {
+      transitions: { TODO: ['IN_PROGRESS', 'CANCELLED'], IN_PROGRESS: ['REVIEW'], REVIEW: ['COMPLETED'] },
+      requireAssigneeForInProgress: true,
+    });
+    addTeamTask('review', { status: 'REVIEW' });
+    addTeamTask('open-blocker');
+    addTeamTask('epic');
+    addTeamTask('open-subtask', { parentId: 'epic' });
+  });
+
+  it('applies the team workflow to status changes of existing tasks only', async () => {
+    const report = await importCsv([
+      'id,title,status,assignedTo',
+      'review,Task review,TODO,',
+      'n1,Straight to review,REVIEW,',
+      'n2,Started without assignee,IN_PROGRESS,',
+      'n3,Unknown status,ARCHIVED,',
+    ].join('\n'));
+
+    expect(report.errors).toEqual([
+      { row: 1, id: 'review', message: 'Cannot move a task from REVIEW to TODO' },
+      { row: 4, id: 'n3', message: expect.stringMatching(/^status must be one of/) },
+    ]);
+    expect(report.created).toBe(2);
+  });
+
+  it('only creates tasks whose creator is a known user', async () => {
+    const report = await importCsv([
+      'id,title,createdBy',
+      'epic,Task epic,former-member',
+      'n1,Mapped creator,old-dev',
+      'n2,Unknown creator,former-member',
+    ].join('\n'), { userIdMap: [{ from: 'old-dev', to: 'dev' }] });
+
+    expect(report.errors).toEqual([
+      { row: 3, id: 'n2', message: 'createdBy former-member is not a known user' },
+    ]);
+    expect(report.created).toBe(1);
+  });
+
+  it('keeps tasks with open blockers from starting unless forced', async () => {
+    const content = 'id,title,status,assignedTo,blockedBy\nn1,Blocked,IN_PROGRESS,dev,open-blocker\n';
+
+    expect((await importCsv(content)).errors).toEqual([
+      { row: 1, id: 'n1', message: 'This task is blocked by unfinished tasks: open-blocker' },
+    ]);
+    expect((await importCsv(content, { force: true })).errors).toEqual([]);
+  });
+
+  it('counts blockers closed by the same file as closed', async () => {
+    const report = await importCsv([
+      'id,title,status,assignedTo,blockedBy',
+      'open-blocker,Task open-blocker,CANCELLED,,',
+      'n1,Unblocked,IN_PROGRESS,dev,open-blocker',
+    ].join('\n'));
+
+    expect(report.errors).toEqual([]);
+  });
+
+  it('only completes a parent whose subtasks are closed', async () => {
+    const report = await importCsv([
+      'id,title,status,parentId',
+      'epic,Task epic,COMPLETED,',
+      'n1,New epic,COMPLETED,',
+      'n2,Open child,TODO,n1',
+    ].join('\n'));
+
+    expect(report.errors).toEqual([
+      { row: 1, id: 'epic', message: 'Cannot move a task from TODO to COMPLETED' },
+      { row: 2, id: 'n1', message: 'Complete or cancel all subtasks before completing this task: n2' },
+      { row: 3, id: 'n2', message: 'Unknown parent task n1' },
+    ]);
+
+    saveWorkflow(TEAM, { transitions: { TODO: ['IN_PROGRESS', 'CANCELLED', 'COMPLETED'] } });
+    const relaxed = await importCsv([
+      'id,title,status,parentId',
+      'epic,Task epic,COMPLETED,',
+      'n1,New epic,COMPLETED,',
+      'n2,Open child,TODO,n1',
+      'n3,Done epic,COMPLETED,',
+      'n4,Cancelled child,CANCELLED,n3',
+    ].join('\n'));
+
+    expect(relaxed.errors).toEqual([
+      { row: 1, id: 'epic', message: 'Complete or cancel all subtasks before completing this task: open-subtask' },
+      { row: 2, id: 'n1', message: 'Complete or cancel all subtasks before completing this task: n2' },
+      { row: 3, id: 'n2', message: 'Unknown parent task n1' },
+    ]);
+    expect(relaxed.created).toBe(2);
+  });
+});
+
+describe('export and import', () => {
+  const SOURCE = 'export-team';
+  const TARGET = 'fresh-team';
+
+  beforeAll(() => {
+    addTeamTask('shipped', { teamId: SOURCE, status: 'COMPLETED', assignedTo: 'dev' });
+    addTeamTask('shipped-part', { teamId: SOURCE, status: 'COMPLETED', parentId: 'shipped' });
+    addTeamTask('in-review', { teamId: SOURCE, status: 'REVIEW', blockedBy: ['shipped'] });
+    addTeamTask('started', { teamId: SOURCE, status: 'IN_PROGRESS', assignedTo: 'dev' });
+  });
+
+  it.each(['CSV', 'JSON'])('copies a team\'s tasks with their statuses (%s)', async (format) => {
+    const team = `${TARGET}-${format}`;
+    saveWorkflow(team, { requireAssigneeForInProgress: true });
+    const { content } = exportTasks(SOURCE, format);
+
+    const plan = await planTaskImport(team, parseTaskImport(format, content), { actor, users });
+    applyTaskImport(plan.tasks, actor.id);
+
+    const report = buildTaskImportReport(plan, false);
+    expect(report.errors).toEqual([]);
+    expect(report.created).toBe(4);
+    const newId = (from) => report.idMap.find((entry) => entry.from === from).to;
+    const imported = getTasks({ teamId: team });
+    expect(Object.fromEntries(imported.map((task) => [task.id, task.status]))).toEqual({
+      [newId('shipped')]: 'COMPLETED',
+      [newId('shipped-part')]: 'COMPLETED',
+      [newId('in-review')]: 'REVIEW',
+      [newId('started')]: 'IN_PROGRESS',
+    });
+    expect(imported.find((task) => task.id === newId('shipped-part')).parentId).toBe(newId('shipped'));
+    expect(imported.find((task) => task.id === newId('in-review')).blockedBy).toEqual([newId('shipped')]);
+  });
+});
@@ -0,0 +1,45 @@
+const { addTask } = require('../data/tasksStore');
+const { calculateProgress, assertValidParent, getDescendants } = require('../lib/taskTree');
+
+const TEAM = 'tree-team';
+
+const addTeamTask = (id, fields = {}) => addTask({
+  id,
+  title: `Task ${id}`,
+  status: 'TODO',
+  teamId: TEAM,
+  parentId: null,
+  checklist: [],
+  blockedBy: [],
+  ...fields,
+});
+
+describe('task tree', () => {
+  beforeAll(() => {
+    addTeamTask('epic', { checklist: [{ id: 'c1', text: 'Spec', done: true }, { id: 'c2', text: 'Demo', done: false }] });
+    addTeamTask('story-done', { parentId: 'epic', status: 'COMPLETED' });
+    addTeamTask('story-open', { parentId: 'epic' });
+    addTeamTask('story-cancelled', { parentId: 'epic', status: 'CANCELLED' });
+    addTeamTask('subtask', { parentId: 'story-open' });
+    addTeamTask('elsewhere', { teamId: 'other-team' });
+  });
+
+  it('counts checklist items and direct subtasks, leaving cancelled ones out', () => {
+    // 1 of 2 checklist items and 1 of 2 remaining subtasks are done
+    expect(calculateProgress({ id: 'epic', status: 'TODO', checklist: [{ done: true }, { done: false }] })).toBe(50);
+    expect(calculateProgress({ id: 'leaf', status: 'COMPLETED', checklist: [] })).toBe(100);
+    expect(calculateProgress({ id: 'leaf', status: 'IN_PROGRESS', checklist: [] })).toBe(0);
+  });
+
+  it('lists every level below a task', () => {
+    expect(getDescendants('epic').map(({ id }) => id)).toEqual(['story-done', 'story-open', 'story-cancelled', 'subtask']);
+  });
+
+  it('rejects parents from another team or below the task itself', () => {
+    expect(() => assertValidParent('missing', { teamId: TEAM })).toThrow('Parent task not found');
+    expect(() => assertValidParent('elsewhere', { teamId: TEAM })).toThrow('same team as its parent');
+    expect(() => assertValidParent('subtask', { teamId: TEAM, taskId: 'epic' })).toThrow('cannot be moved below itself');
+    expect(() => assertValidParent('epic', { teamId: TEAM, taskId: 'epic' })).toThrow('cannot be moved below itself');
+    expect(assertValidParent('story-open', { teamId: TEAM, taskId: 'story-done' }).id).toBe('story-open');
+  });
+});
@@ -0,0 +1,31 @@
+jest.mock('../lib/teamDirectory', () => ({ getTeamMembers: jest.fn(async () => ['1', '2']) }));
+
+const { Mutation } = require('../lib/resolvers/tasks');
+const { findTaskById } = require('../data/tasksStore');
+
+// Seeded task 2 belongs to team 1 and is assigned to user 2
+const as = (id, role = 'user') => ({ user: { id, role } });
+
+describe('task assignment', () => {
+  it('only creates tasks assigned to members of the team', async () => {
+    await expect(Mutation.createTask(null, {
+      input: { title: 'For an outsider', teamId: '1', priority: 'MEDIUM', assignedTo: 'outsider' },
+    }, as('1'))).rejects.toThrow('assignedTo outsider is not a member of the team');
+
+    const task = await Mutation.createTask(null, {
+      input: { title: 'For a member', teamId: '1', priority: 'MEDIUM', assignedTo: '2' },
+    }, as('1'));
+    expect(task.assignedTo).toBe('2');
+  });
+
+  it('only reassigns tasks to members of the team', async () => {
+    await expect(Mutation.updateTask(null, { id: '2', input: { assignedTo: 'outsider' } }, as('1')))
+      .rejects.toThrow('assignedTo outsider is not a member of the team');
+    expect(findTaskById('2').assignedTo).toBe('2');
+
+    await expect(Mutation.updateTask(null, { id: '2', input: { assignedTo: '1' } }, as('1')))
+      .resolves.toMatchObject({ assignedTo: '1' });
+    await expect(Mutation.updateTask(null, { id: '2', input: { assignedTo: null } }, as('1')))
+      .resolves.toMatchObject({ assignedTo: null });
+  });
+});
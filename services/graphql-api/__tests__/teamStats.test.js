@@ -0,0 +1,83 @@
+const { addTask } = require('../data/tasksStore');
+const { addStatusChange, getStatusChangesForTeam, moveStatusChangesToTeam } = require('../data/statusChangesStore');
+const { computeTeamStats } = require('../lib/teamStats');
+
+const TEAM = 'stats-team';
+const NOW = Date.parse('2030-01-21T00:00:00.000Z');
+
+const addTeamTask = (id, fields) => addTask({
+  id,
+  title: `Task ${id}`,
+  teamId: TEAM,
+  assignedTo: null,
+  dueDate: null,
+  archivedAt: null,
+  priority: 'MEDIUM',
+  ...fields,
+  updatedAt: fields.updatedAt || fields.createdAt,
+});
+
+let changeCount = 0;
+const addHistory = (taskId, steps) => steps.forEach(([from, to, changedAt]) => {
+  changeCount += 1;
+  addStatusChange({ id: `change-${changeCount}`, taskId, teamId: TEAM, from, to, actorId: 'lead', changedAt });
+});
+
+describe('computeTeamStats', () => {
+  beforeAll(() => {
+    // Completed ahead of its deadline: 60h lead time, 36h from starting work
+    addTeamTask('shipped', { status: 'COMPLETED', priority: 'HIGH', assignedTo: 'dev', createdAt: '2030-01-07T00:00:00.000Z', dueDate: '2030-01-10T00:00:00.000Z' });
+    addHistory('shipped', [
+      [null, 'TODO', '2030-01-07T00:00:00.000Z'],
+      ['TODO', 'IN_PROGRESS', '2030-01-08T00:00:00.000Z'],
+      ['IN_PROGRESS', 'REVIEW', '2030-01-09T00:00:00.000Z'],
+      ['REVIEW', 'COMPLETED', '2030-01-09T12:00:00.000Z'],
+    ]);
+    // Completed late and without history, so its last update counts as the completion
+    addTeamTask('late', { status: 'COMPLETED', createdAt: '2030-01-08T00:00:00.000Z', updatedAt: '2030-01-15T00:00:00.000Z', dueDate: '2030-01-12T00:00:00.000Z' });
+    addTeamTask('overdue', { status: 'IN_PROGRESS', assignedTo: 'dev', createdAt: '2030-01-09T00:00:00.000Z', dueDate: '2030-01-18T00:00:00.000Z' });
+    addTeamTask('backlog', { status: 'TODO', createdAt: '2030-01-10T00:00:00.000Z' });
+    addTeamTask('dropped', { status: 'CANCELLED', createdAt: '2029-12-01T00:00:00.000Z', dueDate: '2030-01-11T00:00:00.000Z' });
+  });
+
+  it('reports throughput, lead and cycle time, deadlines and workload', () => {
+    const stats = computeTeamStats(TEAM, '2030-01-07', '2030-01-20', NOW);
+
+    expect(stats.to).toBe('2030-01-20T23:59:59.999Z');
+    expect(stats.statusCounts).toEqual([
+      { status: 'TODO', count: 1 },
+      { status: 'IN_PROGRESS', count: 1 },
+      { status: 'REVIEW', count: 0 },
+      { status: 'COMPLETED', count: 2 },
+      { status: 'CANCELLED', count: 0 },
+    ]);
+    expect(stats.completedPerWeek).toEqual([{ weekStart: '2030-01-07', count: 1 }, { weekStart: '2030-01-14', count: 1 }]);
+    expect(stats).toMatchObject({
+      completedCount: 2,
+      averageLeadTimeHours: 114,
+      averageCycleTimeHours: 36,
+      dueCount: 3,
+      overdueCount: 2,
+    });
+    expect(stats.overdueRate).toBeCloseTo(2 / 3);
+    expect(stats.workload).toEqual([
+      { assigneeId: 'dev', openTasks: 1, overdueTasks: 1 },
+      { assigneeId: null, openTasks: 1, overdueTasks: 0 },
+    ]);
+  });
+
+  it('rejects inverted and overlong ranges', () => {
+    expect(() => computeTeamStats(TEAM, '2030-01-20', '2030-01-07')).toThrow('from must not be after to');
+    expect(() => computeTeamStats(TEAM, '2030-01-01', '2031-06-01')).toThrow('The range can span at most 366 days');
+  });
+});
+
+describe('moveStatusChangesToTeam', () => {
+  it('moves a task\'s whole history to its new team', () => {
+    addHistory('moving', [[null, 'TODO', '2030-01-02T00:00:00.000Z'], ['TODO', 'IN_PROGRESS', '2030-01-03T00:00:00.000Z']]);
+
+    expect(moveStatusChangesToTeam('moving', 'new-team')).toBe(2);
+    expect(getStatusChangesForTeam('new-team').map(({ to }) => to)).toEqual(['TODO', 'IN_PROGRESS']);
+    expect(getStatusChangesForTeam(TEAM).filter(({ taskId }) => taskId === 'moving')).toEqual([]);
+  });
+});
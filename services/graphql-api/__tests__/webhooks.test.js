@@ -0,0 +1,203 @@
+const http = require('http');
+const { addWebhook, getDeliveriesForWebhook, findDeliveryById } = require('../data/webhooksStore');
+const {
+  isPrivateAddress,
+  validateWebhookInput,
+  signPayload,
+  createWebhookDispatcher,
+} = require('../lib/webhooks');
+
+const SECRET = 'a-webhook-secret-for-tests';
+
+// Stand-in receiver on a random local port; answers with the queued status codes, then 200
+const startReceiver = async (statuses = []) => {
+  const requests = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => { body += chunk; });
+    req.on('end', () => {
+      requests.push({ headers: req.headers, body });
+      res.statusCode = statuses.shift() || 200;
+      res.end();
+    });
+  });
+  await new Promise((resolve) => server.listen(0, '127.0.0.1', resolve));
+  return {
+    url: `http://127.0.0.1:${server.address().port}/hook`,
+    requests,
+    close: () => new Promise((resolve) => server.close(resolve)),
+  };
+};
+
+// Retries wait in a queue until the test runs them
+const setup = (options = {}) => {
+  const timers = [];
+  const dispatcher = createWebhookDispatcher({
+    setTimer: (fn, delayMs) => {
+      const timer = { fn, delayMs };
+      timers.push(timer);
+      return timer;
+    },
+    clock: () => Date.parse('2030-01-01T00:00:00.000Z'),
+    logger: { warn: jest.fn(), error: jest.fn() },
+    allowPrivateNetworks: true,
+    ...options,
+  });
+  const runNextRetry = () => timers.shift().fn();
+  return { dispatcher, timers, runNextRetry };
+};
+
+let webhookCount = 0;
+const registerWebhook = (url, events = ['task.created']) => {
+  webhookCount += 1;
+  return addWebhook({
+    id: `hook-${webhookCount}`,
+    teamId: `team-${webhookCount}`,
+    url,
+    events,
+    secret: SECRET,
+    active: true,
+  });
+};
+
+describe('isPrivateAddress', () => {
+  it('flags loopback, private and link-local addresses', () => {
+    ['127.0.0.1', '10.1.2.3', '172.20.0.5', '192.168.1.1', '169.254.169.254', '0.0.0.0', '::1', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1']
+      .forEach((address) => expect(isPrivateAddress(address)).toBe(true));
+    ['93.184.216.34', '8.8.8.8', '2606:4700::1111', '::ffff:8.8.8.8']
+      .forEach((address) => expect(isPrivateAddress(address)).toBe(false));
+  });
+});
+
+describe('validateWebhookInput', () => {
+  const input = (url) => ({ url, events: ['task.created'] });
+  const publicLookup = async () => [{ address: '93.184.216.34', family: 4 }];
+
+  it('rejects other protocols and internal hosts', async () => {
+    await expect(validateWebhookInput(input('ftp://example.com/hook'), { lookup: publicLookup }))
+      .rejects.toThrow('url must use http or https');
+    await expect(validateWebhookInput(input('http://127.0.0.1:4000/internal/events')))
+      .rejects.toThrow('url must not point to a private or loopback address');
+    await expect(validateWebhookInput(input('http://[::1]/hook')))
+      .rejects.toThrow('url must not point to a private or loopback address');
+
+    const internalLookup = async () => [{ address: '93.184.216.34', family: 4 }, { address: '172.18.0.3', family: 4 }];
+    await expect(validateWebhookInput(input('http://rest-api:3001/internal/users'), { lookup: internalLookup }))
+      .rejects.toThrow('url must not point to a private or loopback address');
+  });
+
+  it('accepts public hosts, and private ones when allowed', async () => {
+    await expect(validateWebhookInput(input('https://hooks.example.com/tasks'), { lookup: publicLookup }))
+      .resolves.toBeUndefined();
+    await expect(validateWebhookInput(input('http://127.0.0.1:9000/hook'), { allowPrivateNetworks: true }))
+      .resolves.toBeUndefined();
+  });
+});
+
+describe('createWebhookDispatcher', () => {
+  let receiver;
+
+  afterEach(async () => {
+    if (receiver) await receiver.close();
+    receiver = null;
+  });
+
+  it('posts a signed payload to the receiver', async () => {
+    receiver = await startReceiver();
+    const webhook = registerWebhook(receiver.url);
+    const { dispatcher } = setup();
+
+    const [delivery] = await dispatcher.dispatch('task.created', { teamId: webhook.teamId, data: { task: { id: 't1' } } });
+
+    expect(delivery).toMatchObject({ status: 'SUCCEEDED', attempts: 1, responseStatus: 200 });
+    expect(receiver.requests).toHaveLength(1);
+    const [{ headers, body }] = receiver.requests;
+    expect(headers['x-webhook-event']).toBe('task.created');
+    expect(headers['x-webhook-delivery']).toBe(delivery.id);
+    expect(headers['x-webhook-signature']).toBe(signPayload(SECRET, body));
+    expect(JSON.parse(body)).toMatchObject({ event: 'task.created', teamId: webhook.teamId, data: { task: { id: 't1' } } });
+  });
+
+  it('retries failed attempts with backoff until the receiver accepts', async () => {
+    receiver = await startReceiver([500, 503]);
+    const webhook = registerWebhook(receiver.url);
+    const { dispatcher, timers, runNextRetry } = setup({ baseDelayMs: 100 });
+
+    const [first] = await dispatcher.dispatch('task.created', { teamId: webhook.teamId, data: {} });
+    expect(first).toMatchObject({ status: 'PENDING', attempts: 1, responseStatus: 500, error: 'Receiver responded with 500' });
+    expect(timers.map(({ delayMs }) => delayMs)).toEqual([100]);
+
+    await runNextRetry();
+    expect(timers.map(({ delayMs }) => delayMs)).toEqual([200]);
+
+    await runNextRetry();
+    expect(findDeliveryById(first.id)).toMatchObject({ status: 'SUCCEEDED', attempts: 3, responseStatus: 200, error: null });
+    expect(receiver.requests).toHaveLength(3);
+    expect(timers).toHaveLength(0);
+  });
+
+  it('gives up after maxAttempts', async () => {
+    receiver = await startReceiver([500, 500]);
+    const webhook = registerWebhook(receiver.url);
+    const { dispatcher, timers, runNextRetry } = setup({ maxAttempts: 2 });
+
+    const [delivery] = await dispatcher.dispatch('task.created', { teamId: webhook.teamId, data: {} });
+    await runNextRetry();
+
+    expect(findDeliveryById(delivery.id)).toMatchObject({ status: 'FAILED', attempts: 2, nextAttemptAt: null });
+    expect(timers).toHaveLength(0);
+  });
+
+  it('does not follow redirects', async () => {
+    receiver = await startReceiver([302]);
+    const webhook = registerWebhook(receiver.url);
+    const { dispatcher } = setup({ maxAttempts: 1 });
+
+    const [delivery] = await dispatcher.dispatch('task.created', { teamId: webhook.teamId, data: {} });
+
+    expect(delivery).toMatchObject({ status: 'FAILED', responseStatus: 302 });
+    expect(receiver.requests).toHaveLength(1);
+  });
+
+  it('refuses private addresses without retrying', async () => {
+    receiver = await startReceiver();
+    const webhook = registerWebhook(receiver.url);
+    const { dispatcher, timers } = setup({ allowPrivateNetworks: false });
+
+    const [delivery] = await dispatcher.dispatch('task.created', { teamId: webhook.teamId, data: {} });
+
+    expect(delivery).toMatchObject({ status: 'FAILED', attempts: 1, error: 'Refusing to deliver to private address 127.0.0.1' });
+    expect(receiver.requests).toHaveLength(0);
+    expect(timers).toHaveLength(0);
+  });
+
+  it('connects to the address it checked rather than resolving the host again', async () => {
+    receiver = await startReceiver();
+    const port = new URL(receiver.url).port;
+    const webhook = registerWebhook(`http://hooks.example.test:${port}/hook`);
+    // A rebinding host answers with the receiver first and an unreachable address afterwards
+    const answers = ['127.0.0.1', '10.255.255.1'];
+    const lookup = jest.fn(async () => [{ address: answers.shift(), family: 4 }]);
+    const { dispatcher } = setup({ lookup, maxAttempts: 1, timeoutMs: 1000 });
+
+    const [delivery] = await dispatcher.dispatch('task.created', { teamId: webhook.teamId, data: {} });
+
+    expect(delivery).toMatchObject({ status: 'SUCCEEDED', responseStatus: 200 });
+    expect(lookup).toHaveBeenCalledTimes(1);
+    expect(receiver.requests).toHaveLength(1);
+    expect(receiver.requests[0].headers.host).toBe(`hooks.example.test:${port}`);
+  });
+
+  it('keeps only the newest finished deliveries per webhook', async () => {
+    receiver = await startReceiver();
+    const webhook = registerWebhook(receiver.url);
+    const { dispatcher } = setup({ maxLoggedDeliveries: 2 });
+
+    for (let round = 1; round <= 4; round += 1) {
+      await dispatcher.dispatch('task.created', { teamId: webhook.teamId, data: { round } });
+    }
+
+    const kept = getDeliveriesForWebhook(webhook.id);
+    expect(kept.map((delivery) => delivery.payload.data.round)).toEqual([4, 3]);
+  });
+});
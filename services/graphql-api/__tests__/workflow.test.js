@@ -0,0 +1,57 @@
+const { saveWorkflow } = require('../data/workflowsStore');
+const { assertTransition, getAllowedTransitions, buildWorkflow } = require('../lib/workflow');
+
+const task = (status, fields = {}) => ({ id: 't1', teamId: 'default-team', status, assignedTo: null, ...fields });
+
+describe('default workflow', () => {
+  it('allows the default moves and nothing else', () => {
+    expect(() => assertTransition(task('TODO'), 'IN_PROGRESS')).not.toThrow();
+    expect(() => assertTransition(task('REVIEW'), 'COMPLETED')).not.toThrow();
+    expect(() => assertTransition(task('CANCELLED'), 'COMPLETED')).toThrow('Cannot move a task from CANCELLED to COMPLETED');
+    expect(() => assertTransition(task('TODO'), 'COMPLETED')).toThrow('Cannot move a task from TODO to COMPLETED');
+  });
+
+  it('reports the allowed next statuses with the error', () => {
+    expect(() => assertTransition(task('COMPLETED'), 'TODO')).toThrow(expect.objectContaining({
+      extensions: expect.objectContaining({ from: 'COMPLETED', to: 'TODO', allowed: ['IN_PROGRESS'] }),
+    }));
+  });
+});
+
+describe('team workflow guards', () => {
+  const TEAM = 'guarded-team';
+
+  beforeAll(() => {
+    saveWorkflow(TEAM, {
+      transitions: { TODO: ['IN_PROGRESS', 'REVIEW'] },
+      requireAssigneeForInProgress: true,
+      requireIndependentReview: true,
+    });
+  });
+
+  it('uses the saved transitions and falls back to the default for statuses it leaves out', () => {
+    expect(() => assertTransition(task('TODO', { teamId: TEAM }), 'REVIEW')).not.toThrow();
+    expect(() => assertTransition(task('CANCELLED', { teamId: TEAM }), 'COMPLETED')).toThrow('Cannot move a task');
+  });
+
+  it('needs an assignee before work starts', () => {
+    expect(() => assertTransition(task('TODO', { teamId: TEAM }), 'IN_PROGRESS'))
+      .toThrow('A task needs an assignee before it can move to IN_PROGRESS');
+    expect(() => assertTransition(task('TODO', { teamId: TEAM, assignedTo: 'dev' }), 'IN_PROGRESS')).not.toThrow();
+  });
+
+  it('keeps the assignee from approving their own review', () => {
+    const inReview = task('REVIEW', { teamId: TEAM, assignedTo: 'dev' });
+
+    expect(() => assertTransition(inReview, 'COMPLETED', { id: 'dev' }))
+      .toThrow('A reviewer other than the assignee must move this task out of REVIEW');
+    expect(() => assertTransition(inReview, 'COMPLETED', { id: 'lead' })).not.toThrow();
+    expect(getAllowedTransitions(inReview, { id: 'dev' })).toEqual([]);
+    expect(getAllowedTransitions(task('TODO', { teamId: TEAM }), { id: 'lead' })).toEqual(['REVIEW']);
+  });
+
+  it('rejects a status that transitions to itself', () => {
+    expect(() => buildWorkflow(TEAM, { transitions: [{ from: 'TODO', to: ['TODO'] }] }))
+      .toThrow('A status cannot transition to itself (TODO)');
+  });
+});
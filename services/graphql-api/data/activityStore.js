@@ -0,0 +1,19 @@
+const db = require('./db');
+
+const activity = db.repository('activity');
+
+// Entries are append-only: there is deliberately no update or remove
+const addActivity = (entry) => activity.insert(entry);
+
+// Newest first
+const getActivityForTask = (taskId) => activity.find((entry) => entry.taskId === taskId).reverse();
+
+const getActivityForTeam = (teamId, { since } = {}) => activity
+  .find((entry) => entry.teamId === teamId && (!since || entry.createdAt > since))
+  .reverse();
+
+module.exports = {
+  addActivity,
+  getActivityForTask,
+  getActivityForTeam,
+};
@@ -0,0 +1,25 @@
+const db = require('./db');
+
+const attachments = db.repository('attachments');
+
+const byCreatedAt = (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+
+const getAttachmentsForTask = (taskId) => attachments
+  .find((attachment) => attachment.taskId === taskId)
+  .sort(byCreatedAt);
+
+const findAttachmentById = (id) => attachments.findById(id);
+
+const addAttachment = (attachment) => attachments.insert(attachment);
+
+const removeAttachment = (id) => attachments.remove(id);
+
+const removeAttachmentsForTask = (taskId) => attachments.removeWhere((attachment) => attachment.taskId === taskId);
+
+module.exports = {
+  getAttachmentsForTask,
+  findAttachmentById,
+  addAttachment,
+  removeAttachment,
+  removeAttachmentsForTask,
+};
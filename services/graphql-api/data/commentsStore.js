@@ -0,0 +1,38 @@
+const db = require('./db');
+
+const comments = db.repository('comments');
+
+const byCreatedAt = (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+
+const getCommentsForTask = (taskId) => comments.find((comment) => comment.taskId === taskId).sort(byCreatedAt);
+
+const findCommentById = (id) => comments.findById(id);
+
+const addComment = (comment) => comments.insert(comment);
+
+const updateComment = (id, updates) => comments.update(id, updates);
+
+// Removes a comment together with every reply below it
+const removeCommentThread = (id) => {
+  const ids = new Set([id]);
+  let size;
+  do {
+    size = ids.size;
+    comments
+      .find((comment) => comment.parentId && ids.has(comment.parentId))
+      .forEach((comment) => ids.add(comment.id));
+  } while (ids.size !== size);
+
+  return comments.removeWhere((comment) => ids.has(comment.id));
+};
+
+const removeCommentsForTask = (taskId) => comments.removeWhere((comment) => comment.taskId === taskId);
+
+module.exports = {
+  getCommentsForTask,
+  findCommentById,
+  addComment,
+  updateComment,
+  removeCommentThread,
+  removeCommentsForTask,
+};
@@ -0,0 +1,22 @@
+const db = require('./db');
+
+const customFields = db.repository('customFields');
+
+// In the order they were defined, which is also the order tasks show them in
+const getCustomFieldsForTeam = (teamId) => customFields.find((field) => field.teamId === teamId);
+
+const findCustomFieldById = (id) => customFields.findById(id);
+
+const addCustomField = (field) => customFields.insert(field);
+
+const updateCustomField = (id, updates) => customFields.update(id, updates);
+
+const removeCustomField = (id) => customFields.remove(id);
+
+module.exports = {
+  getCustomFieldsForTeam,
+  findCustomFieldById,
+  addCustomField,
+  updateCustomField,
+  removeCustomField,
+};
@@ -0,0 +1,23 @@
+const db = require('./db');
+
+const labels = db.repository('labels');
+
+const getLabelsForTeam = (teamId) => labels
+  .find((label) => label.teamId === teamId)
+  .sort((a, b) => a.name.localeCompare(b.name));
+
+const findLabelById = (id) => labels.findById(id);
+
+const addLabel = (label) => labels.insert(label);
+
+const updateLabel = (id, updates) => labels.update(id, updates);
+
+const removeLabel = (id) => labels.remove(id);
+
+module.exports = {
+  getLabelsForTeam,
+  findLabelById,
+  addLabel,
+  updateLabel,
+  removeLabel,
+};
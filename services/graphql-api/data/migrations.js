@@ -0,0 +1,161 @@
+// Schema migrations for the task service store, applied in order of `version`.
+// Never edit a released migration; append a new one instead.
+module.exports = [
+  {
+    version: 1,
+    name: 'create tasks and notifications collections',
+    up: (collections) => {
+      collections.tasks = collections.tasks || [];
+      collections.notifications = collections.notifications || [];
+    },
+  },
+  {
+    version: 2,
+    name: 'create comments collection',
+    up: (collections) => {
+      collections.comments = collections.comments || [];
+    },
+  },
+  {
+    version: 3,
+    name: 'add parentId and checklist to tasks',
+    up: (collections) => {
+      collections.tasks.forEach((task) => {
+        task.parentId = task.parentId || null;
+        task.checklist = Array.isArray(task.checklist) ? task.checklist : [];
+      });
+    },
+  },
+  {
+    version: 4,
+    name: 'add blockedBy dependencies to tasks',
+    up: (collections) => {
+      collections.tasks.forEach((task) => {
+        task.blockedBy = Array.isArray(task.blockedBy) ? task.blockedBy : [];
+      });
+    },
+  },
+  {
+    version: 5,
+    name: 'create workflows collection',
+    up: (collections) => {
+      collections.workflows = collections.workflows || [];
+    },
+  },
+  {
+    version: 6,
+    name: 'create activity collection',
+    up: (collections) => {
+      collections.activity = collections.activity || [];
+    },
+  },
+  {
+    version: 7,
+    name: 'add board position to tasks',
+    up: (collections) => {
+      const columns = new Map();
+      [...collections.tasks]
+        .sort((a, b) => (a.createdAt < b.createdAt ? -1 : 1))
+        .forEach((task) => {
+          const key = `${task.teamId}:${task.status}`;
+          const position = (columns.get(key) || 0) + 1024;
+          columns.set(key, position);
+          task.position = typeof task.position === 'number' ? task.position : position;
+        });
+    },
+  },
+  {
+    version: 8,
+    name: 'add startDate to tasks',
+    up: (collections) => {
+      collections.tasks.forEach((task) => {
+        task.startDate = task.startDate || null;
+      });
+    },
+  },
+  {
+    version: 9,
+    name: 'create reminders collection',
+    up: (collections) => {
+      collections.reminders = collections.reminders || [];
+    },
+  },
+  {
+    version: 10,
+    name: 'create series collection and link recurring tasks',
+    up: (collections) => {
+      collections.series = collections.series || [];
+      collections.tasks.forEach((task) => {
+        task.seriesId = task.seriesId || null;
+        task.occurrence = task.occurrence || null;
+      });
+    },
+  },
+  {
+    version: 11,
+    name: 'create notification preferences collection',
+    up: (collections) => {
+      collections.notificationPreferences = collections.notificationPreferences || [];
+    },
+  },
+  {
+    version: 12,
+    name: 'create webhook and delivery log collections',
+    up: (collections) => {
+      collections.webhooks = collections.webhooks || [];
+      collections.webhookDeliveries = collections.webhookDeliveries || [];
+    },
+  },
+  {
+    version: 13,
+    name: 'create processed events collection and add task archive date',
+    up: (collections) => {
+      collections.processedEvents = collections.processedEvents || [];
+      collections.tasks.forEach((task) => {
+        task.archivedAt = task.archivedAt || null;
+      });
+    },
+  },
+  {
+    version: 14,
+    name: 'create attachments collection',
+    up: (collections) => {
+      collections.attachments = collections.attachments || [];
+    },
+  },
+  {
+    version: 15,
+    name: 'create label and custom field collections',
+    up: (collections) => {
+      collections.labels = collections.labels || [];
+      collections.customFields = collections.customFields || [];
+      collections.tasks.forEach((task) => {
+        task.labelIds = task.labelIds || [];
+        task.customFieldValues = task.customFieldValues || {};
+      });
+    },
+  },
+  {
+    version: 16,
+    name: 'create status change history from the activity log',
+    up: (collections) => {
+      collections.statusChanges = collections.statusChanges || [];
+      (collections.activity || [])
+        .filter((entry) => entry.entityType === 'task')
+        .forEach((entry) => {
+          // Deletions also diff the status, to null; they are not transitions
+          const change = entry.changes.find(({ field }) => field === 'status');
+          if (!change || !change.to) return;
+          collections.statusChanges.push({
+            id: entry.id,
+            taskId: entry.taskId,
+            teamId: entry.teamId,
+            from: change.from,
+            to: change.to,
+            actorId: entry.actorId,
+            changedAt: entry.createdAt,
+          });
+        });
+    },
+  },
+];
@@ -0,0 +1,18 @@
+const db = require('./db');
+
+const preferences = db.repository('notificationPreferences');
+
+// One record per user, keyed by user id; users without a record receive everything
+const findPreferences = (userId) => preferences.findById(userId);
+
+const savePreferences = (userId, updates) => {
+  if (preferences.findById(userId)) {
+    return preferences.update(userId, updates);
+  }
+  return preferences.insert({ id: userId, userId, ...updates });
+};
+
+module.exports = {
+  findPreferences,
+  savePreferences,
+};
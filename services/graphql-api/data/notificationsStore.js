@@ -0,0 +1,38 @@
+const db = require('./db');
+
+const notifications = db.repository('notifications');
+
+const getNotificationsForUser = (userId) => notifications.find((notification) => notification.userId === userId);
+
+const findNotificationById = (id) => notifications.findById(id);
+
+const addNotification = (notification) => notifications.insert(notification);
+
+const updateNotification = (id, updates) => notifications.update(id, updates);
+
+const isUnreadFor = (userId) => (notification) => notification.userId === userId && !notification.read;
+
+const getUnreadNotifications = (userId) => notifications.find(isUnreadFor(userId));
+
+const countUnreadNotifications = (userId) => getUnreadNotifications(userId).length;
+
+// Returns how many notifications were flipped to read
+const markAllNotificationsRead = (userId) => notifications.updateWhere(isUnreadFor(userId), { read: true });
+
+const removeNotification = (id) => notifications.remove(id);
+
+const removeNotificationsForTask = (taskId) => notifications.removeWhere((notification) => notification.taskId === taskId);
+
+const countNotifications = () => notifications.count();
+
+module.exports = {
+  getNotificationsForUser,
+  findNotificationById,
+  addNotification,
+  updateNotification,
+  countUnreadNotifications,
+  markAllNotificationsRead,
+  removeNotification,
+  removeNotificationsForTask,
+  countNotifications,
+};
@@ -0,0 +1,19 @@
+const db = require('./db');
+
+const processedEvents = db.repository('processedEvents');
+
+// Ids of bus events already handled, so redeliveries are acknowledged without running handlers again
+const hasProcessedEvent = (id) => Boolean(processedEvents.findById(id));
+
+// Record a handled event and drop those processed before `forgetBefore`, in one write
+const addProcessedEvent = (event, { forgetBefore = null } = {}) => db.batch(() => {
+  if (forgetBefore) {
+    processedEvents.removeWhere((processed) => processed.processedAt < forgetBefore);
+  }
+  return processedEvents.insert(event);
+});
+
+module.exports = {
+  hasProcessedEvent,
+  addProcessedEvent,
+};
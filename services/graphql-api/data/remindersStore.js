@@ -0,0 +1,16 @@
+const db = require('./db');
+
+const reminders = db.repository('reminders');
+
+// One record per reminder already delivered, so a restart does not send it again
+const hasReminder = (id) => Boolean(reminders.findById(id));
+
+const addReminder = (reminder) => reminders.insert(reminder);
+
+const removeRemindersForTask = (taskId) => reminders.removeWhere((reminder) => reminder.taskId === taskId);
+
+module.exports = {
+  hasReminder,
+  addReminder,
+  removeRemindersForTask,
+};
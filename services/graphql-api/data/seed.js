@@ -0,0 +1,82 @@
+// Default fixtures inserted when a store is created for the first time
+const seed = (collections) => {
+  const now = new Date().toISOString();
+
+  collections.tasks.push(
+    {
+      id: '1',
+      title: 'Setup Project Infrastructure',
+      description: 'Initialize microservices architecture with Docker',
+      status: 'COMPLETED',
+      priority: 'HIGH',
+      assignedTo: '1',
+      teamId: '1',
+      createdBy: '1',
+      createdAt: now,
+      updatedAt: now,
+      dueDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
+      startDate: null,
+      parentId: null,
+      checklist: [],
+      blockedBy: [],
+      position: 1024,
+      seriesId: null,
+      occurrence: null,
+      archivedAt: null,
+      labelIds: [],
+      customFieldValues: {},
+    },
+    {
+      id: '2',
+      title: 'Implement JWT Authentication',
+      description: 'Add JWT-based authentication with RSA keys',
+      status: 'IN_PROGRESS',
+      priority: 'HIGH',
+      assignedTo: '2',
+      teamId: '1',
+      createdBy: '1',
+      createdAt: now,
+      updatedAt: now,
+      dueDate: new Date(Date.now() + 5 * 24 * 60 * 60 * 1000).toISOString(),
+      startDate: null,
+      parentId: null,
+      checklist: [],
+      blockedBy: [],
+      position: 1024,
+      seriesId: null,
+      occurrence: null,
+      archivedAt: null,
+      labelIds: [],
+      customFieldValues: {},
+    },
+  );
+
+  const statusChange = (id, taskId, from, to) => ({
+    id,
+    taskId,
+    teamId: '1',
+    from,
+    to,
+    actorId: '1',
+    changedAt: now,
+  });
+  collections.statusChanges.push(
+    statusChange('1', '1', null, 'TODO'),
+    statusChange('2', '1', 'TODO', 'IN_PROGRESS'),
+    statusChange('3', '1', 'IN_PROGRESS', 'COMPLETED'),
+    statusChange('4', '2', null, 'TODO'),
+    statusChange('5', '2', 'TODO', 'IN_PROGRESS'),
+  );
+
+  collections.notifications.push({
+    id: '1',
+    userId: '2',
+    message: 'You have been assigned to task: Implement JWT Authentication',
+    type: 'TASK_ASSIGNED',
+    read: false,
+    createdAt: now,
+    taskId: '2',
+  });
+};
+
+module.exports = seed;
@@ -0,0 +1,19 @@
+const db = require('./db');
+
+const series = db.repository('series');
+
+// A series holds the recurrence rule and the template every occurrence is created from
+const findSeriesById = (id) => series.findById(id);
+
+const addSeries = (record) => series.insert(record);
+
+const updateSeries = (id, updates) => series.update(id, updates);
+
+const removeSeries = (id) => series.remove(id);
+
+module.exports = {
+  findSeriesById,
+  addSeries,
+  updateSeries,
+  removeSeries,
+};
@@ -0,0 +1,25 @@
+const db = require('./db');
+
+const statusChanges = db.repository('statusChanges');
+
+const addStatusChange = (change) => statusChanges.insert(change);
+
+// Oldest first, so each task's transitions can be replayed in order
+const getStatusChangesForTeam = (teamId) => statusChanges
+  .find((change) => change.teamId === teamId)
+  .sort((a, b) => a.changedAt.localeCompare(b.changedAt));
+
+const removeStatusChangesForTask = (taskId) => statusChanges.removeWhere((change) => change.taskId === taskId);
+
+// A task moved to another team takes its history along
+const moveStatusChangesToTeam = (taskId, teamId) => statusChanges.updateWhere(
+  (change) => change.taskId === taskId,
+  { teamId }
+);
+
+module.exports = {
+  addStatusChange,
+  getStatusChangesForTeam,
+  removeStatusChangesForTask,
+  moveStatusChangesToTeam,
+};
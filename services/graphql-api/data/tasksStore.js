@@ -0,0 +1,40 @@
+const db = require('./db');
+
+const tasks = db.repository('tasks');
+
+// Archived tasks are left out unless asked for
+const getTasks = ({ teamId, assignedTo, status, includeArchived = false } = {}) => tasks.find((task) => (
+  (!teamId || task.teamId === teamId)
+  && (!assignedTo || task.assignedTo === assignedTo)
+  && (!status || task.status === status)
+  && (includeArchived || !task.archivedAt)
+));
+
+const findTaskById = (id) => tasks.findById(id);
+
+const getSubtasks = (parentId) => tasks.find((task) => task.parentId === parentId);
+
+// Tasks that list the given task as one of their blockers
+const getBlockedTasks = (blockerId) => tasks.find((task) => (task.blockedBy || []).includes(blockerId));
+
+const getSeriesTasks = (seriesId) => tasks.find((task) => task.seriesId === seriesId);
+
+const addTask = (task) => tasks.insert(task);
+
+const updateTask = (id, updates) => tasks.update(id, updates);
+
+const removeTask = (id) => tasks.remove(id);
+
+const countTasks = () => tasks.count();
+
+module.exports = {
+  getTasks,
+  findTaskById,
+  getSubtasks,
+  getBlockedTasks,
+  getSeriesTasks,
+  addTask,
+  updateTask,
+  removeTask,
+  countTasks,
+};
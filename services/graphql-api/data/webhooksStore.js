@@ -0,0 +1,56 @@
+const db = require('./db');
+
+const webhooks = db.repository('webhooks');
+const deliveries = db.repository('webhookDeliveries');
+
+const getWebhooksForTeam = (teamId) => webhooks.find((webhook) => webhook.teamId === teamId);
+
+const findWebhookById = (id) => webhooks.findById(id);
+
+const addWebhook = (webhook) => webhooks.insert(webhook);
+
+// Deleting a webhook also drops its delivery log
+const removeWebhook = (id) => {
+  deliveries.removeWhere((delivery) => delivery.webhookId === id);
+  return webhooks.remove(id);
+};
+
+const isFinished = (delivery) => delivery.status !== 'PENDING';
+
+// Log new deliveries in one write. Each webhook's oldest finished entries are dropped so that,
+// counting the new one, at most `keepPerWebhook` remain.
+const addDeliveries = (records, { keepPerWebhook = Infinity } = {}) => db.batch(() => {
+  const webhookIds = [...new Set(records.map((delivery) => delivery.webhookId))];
+  webhookIds.forEach((webhookId) => {
+    const finished = deliveries.find((delivery) => delivery.webhookId === webhookId && isFinished(delivery));
+    const excess = finished.length - (keepPerWebhook - 1);
+    if (excess > 0) {
+      const dropped = new Set(finished.slice(0, excess).map((delivery) => delivery.id));
+      deliveries.removeWhere((delivery) => dropped.has(delivery.id));
+    }
+  });
+  return records.map((delivery) => deliveries.insert(delivery));
+});
+
+const findDeliveryById = (id) => deliveries.findById(id);
+
+const updateDelivery = (id, updates) => deliveries.update(id, updates);
+
+// Newest first
+const getDeliveriesForWebhook = (webhookId) => deliveries
+  .find((delivery) => delivery.webhookId === webhookId)
+  .reverse();
+
+const getPendingDeliveries = () => deliveries.find((delivery) => delivery.status === 'PENDING');
+
+module.exports = {
+  getWebhooksForTeam,
+  findWebhookById,
+  addWebhook,
+  removeWebhook,
+  addDeliveries,
+  findDeliveryById,
+  updateDelivery,
+  getDeliveriesForWebhook,
+  getPendingDeliveries,
+};
@@ -0,0 +1,18 @@
+const db = require('./db');
+
+const workflows = db.repository('workflows');
+
+// Workflows are keyed by team: one record per team, using the team id as record id
+const findWorkflowByTeam = (teamId) => workflows.findById(teamId);
+
+const saveWorkflow = (teamId, workflow) => {
+  if (workflows.findById(teamId)) {
+    return workflows.update(teamId, workflow);
+  }
+  return workflows.insert({ id: teamId, teamId, ...workflow });
+};
+
+module.exports = {
+  findWorkflowByTeam,
+  saveWorkflow,
+};
@@ -0,0 +1,55 @@
+const { v4: uuidv4 } = require('uuid');
+const { addActivity } = require('../data/activityStore');
+
+// Bookkeeping fields that change on every write and say nothing about the edit itself
+const IGNORED_FIELDS = ['id', 'createdAt', 'updatedAt'];
+
+const isEqual = (a, b) => JSON.stringify(a) === JSON.stringify(b);
+
+// Missing fields and null compare as equal
+const valueOf = (record, field) => (record && record[field] !== undefined ? record[field] : null);
+
+// Field-level differences between two versions of a record; either side may be null
+const diffRecords = (before, after) => {
+  const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+  return [...fields]
+    .filter((field) => !IGNORED_FIELDS.includes(field))
+    .filter((field) => !isEqual(valueOf(before, field), valueOf(after, field)))
+    .map((field) => ({ field, from: valueOf(before, field), to: valueOf(after, field) }));
+};
+
+/**
+ * Append an immutable activity entry. `before`/`after` are the record versions around
+ * the change and are reduced to the list of fields that differ.
+ */
+const recordActivity = ({
+  action,
+  entityType = 'task',
+  entityId,
+  taskId = null,
+  teamId,
+  actorId,
+  before = null,
+  after = null,
+}) => addActivity({
+  id: uuidv4(),
+  action,
+  entityType,
+  entityId,
+  taskId,
+  teamId,
+  actorId: actorId || null,
+  changes: diffRecords(before, after),
+  createdAt: new Date().toISOString(),
+});
+
+// Change values are stored as-is and serialised for the GraphQL String fields
+const formatChangeValue = (value) => {
+  if (value === null || value === undefined) return null;
+  return typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+module.exports = {
+  recordActivity,
+  formatChangeValue,
+};
@@ -0,0 +1,85 @@
+const crypto = require('crypto');
+const { getAttachmentsForTask, removeAttachmentsForTask } = require('../data/attachmentsStore');
+const { fileStorage } = require('./fileStorage');
+const { parseDuration } = require('./reminders');
+
+const MAX_ATTACHMENT_BYTES = Number(process.env.ATTACHMENT_MAX_BYTES) || 10 * 1024 * 1024;
+
+// Entries ending in "/*" allow a whole family, e.g. image/*
+const ALLOWED_MIME_TYPES = (process.env.ATTACHMENT_MIME_TYPES || [
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+  'application/pdf',
+  'text/plain',
+  'text/csv',
+  'text/markdown',
+  'application/json',
+  'application/zip',
+].join(','))
+  .split(',')
+  .map((type) => type.trim().toLowerCase())
+  .filter(Boolean);
+
+const DOWNLOAD_URL_TTL_MS = parseDuration(process.env.ATTACHMENT_URL_TTL || '5m');
+const PUBLIC_URL = (process.env.PUBLIC_API_URL || 'http://localhost:3000').replace(/\/+$/, '');
+
+// Without a configured secret, download links only stay valid until the service restarts
+const signingSecret = process.env.ATTACHMENT_URL_SECRET || crypto.randomBytes(32).toString('hex');
+
+const isAllowedMimeType = (mimeType) => {
+  const type = String(mimeType || '').toLowerCase();
+  return ALLOWED_MIME_TYPES.some((allowed) => (
+    allowed.endsWith('/*') ? type.startsWith(allowed.slice(0, -1)) : type === allowed
+  ));
+};
+
+const getStorageKey = (attachment) => `${attachment.taskId}/${attachment.id}`;
+
+const sign = (attachmentId, expires) => crypto
+  .createHmac('sha256', signingSecret)
+  .update(`${attachmentId}:${expires}`)
+  .digest('hex');
+
+/**
+ * Short-lived download link served through the API Gateway. Callers must have checked
+ * that the user can see the attachment's task; the link itself is the only credential.
+ */
+const getDownloadUrl = (attachment, now = Date.now()) => {
+  const expires = Math.floor((now + DOWNLOAD_URL_TTL_MS) / 1000);
+  return `${PUBLIC_URL}/attachments/${encodeURIComponent(attachment.id)}/download?expires=${expires}&signature=${sign(attachment.id, expires)}`;
+};
+
+const verifyDownloadSignature = (attachmentId, expires, signature, now = Date.now()) => {
+  const expiresAt = Number(expires);
+  if (!Number.isInteger(expiresAt) || expiresAt * 1000 < now || typeof signature !== 'string') {
+    return false;
+  }
+  const expected = Buffer.from(sign(attachmentId, expiresAt));
+  const actual = Buffer.from(signature);
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+};
+
+// Stored files are removed in the background; a failure leaves an orphaned file, not a broken task
+const removeStoredFile = (attachment) => {
+  fileStorage.remove(getStorageKey(attachment)).catch((error) => {
+    console.warn(`⚠️  Failed to remove stored file for attachment ${attachment.id}:`, error.message);
+  });
+};
+
+const removeTaskAttachments = (taskId) => {
+  getAttachmentsForTask(taskId).forEach(removeStoredFile);
+  return removeAttachmentsForTask(taskId);
+};
+
+module.exports = {
+  MAX_ATTACHMENT_BYTES,
+  ALLOWED_MIME_TYPES,
+  isAllowedMimeType,
+  getStorageKey,
+  getDownloadUrl,
+  verifyDownloadSignature,
+  removeStoredFile,
+  removeTaskAttachments,
+};
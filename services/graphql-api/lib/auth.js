@@ -0,0 +1,98 @@
+const { AuthenticationError, ForbiddenError, UserInputError } = require('apollo-server-express');
+const { getTeamMembers } = require('./teamDirectory');
+const { verifyAccessToken } = require('./tokens');
+const { fetchFromUserService } = require('./userService');
+
+// The role claim is fixed when the token is issued, so a demoted admin would keep it until
+// the token expires. The current role is read from the User Service instead; a user that was
+// deleted, or cannot be looked up, is not authenticated.
+const loadCurrentUser = async (claims) => {
+  if (!claims) {
+    return null;
+  }
+  try {
+    const result = await fetchFromUserService(`/internal/users?ids=${encodeURIComponent(claims.id)}`);
+    const profile = result && result.users[0];
+    return profile ? { ...claims, role: profile.role, teamId: profile.teamId } : null;
+  } catch (error) {
+    console.warn(`⚠️  Failed to load user ${claims.id}:`, error.message);
+    return null;
+  }
+};
+
+// Build the resolver context from the bearer token the API Gateway passes through. The token
+// is verified here as well, so a caller that reaches the service directly cannot pose as anyone.
+const buildAuthContext = async (req) => {
+  const user = req ? await loadCurrentUser(await verifyAccessToken(req.headers.authorization)) : null;
+  return { req, user };
+};
+
+// Authenticate a graphql-ws connection from the token the client sends in connectionParams
+const authenticateConnection = async (connectionParams) => {
+  const params = connectionParams || {};
+  return loadCurrentUser(await verifyAccessToken(params.authorization || params.Authorization));
+};
+
+const isAdmin = (user) => Boolean(user && user.role === 'admin');
+
+const requireUser = (context) => {
+  if (!context.user || !context.user.id) {
+    throw new AuthenticationError('You must be logged in');
+  }
+  return context.user;
+};
+
+// Decided by the member list alone; when it cannot be loaded, access is denied
+const isTeamMember = async (user, teamId) => {
+  const members = await getTeamMembers(teamId);
+  return Boolean(members) && members.includes(user.id);
+};
+
+const canAccessTeam = async (user, teamId) => isAdmin(user) || isTeamMember(user, teamId);
+
+const assertTeamAccess = async (context, teamId) => {
+  const user = requireUser(context);
+  if (!(await canAccessTeam(user, teamId))) {
+    throw new ForbiddenError('You are not a member of this team');
+  }
+  return user;
+};
+
+// Team settings (workflow, webhooks) are managed by admins and the team's moderators
+const assertTeamManager = async (context, teamId, message) => {
+  const user = await assertTeamAccess(context, teamId);
+  if (!isAdmin(user) && user.role !== 'moderator') {
+    throw new ForbiddenError(message);
+  }
+  return user;
+};
+
+// Tasks can only be assigned to members of their team. Like task imports, this is not
+// checked while the member list cannot be loaded.
+const assertAssignable = async (teamId, userId) => {
+  if (!userId) return;
+  const members = await getTeamMembers(teamId);
+  if (members && !members.includes(userId)) {
+    throw new UserInputError(`assignedTo ${userId} is not a member of the team`, { field: 'assignedTo' });
+  }
+};
+
+const assertSelf = (context, userId) => {
+  const user = requireUser(context);
+  if (user.id !== userId) {
+    throw new ForbiddenError('You can only access your own notifications');
+  }
+  return user;
+};
+
+module.exports = {
+  buildAuthContext,
+  authenticateConnection,
+  isAdmin,
+  requireUser,
+  canAccessTeam,
+  assertTeamAccess,
+  assertAssignable,
+  assertTeamManager,
+  assertSelf,
+};
@@ -0,0 +1,25 @@
+const { UserInputError } = require('apollo-server-express');
+const { getTasks } = require('../data/tasksStore');
+
+// Gap left between neighbouring cards so a drop can usually pick a midpoint without renumbering
+const POSITION_STEP = 1024;
+
+// Position that places a task at the bottom of a board column
+const getNextPosition = (teamId, status) => {
+  const positions = getTasks({ teamId, status })
+    .map((task) => task.position)
+    .filter((position) => typeof position === 'number');
+  return positions.length > 0 ? Math.max(...positions) + POSITION_STEP : POSITION_STEP;
+};
+
+const assertValidPosition = (position) => {
+  if (!Number.isFinite(position)) {
+    throw new UserInputError('position must be a finite number', { field: 'position' });
+  }
+};
+
+module.exports = {
+  POSITION_STEP,
+  getNextPosition,
+  assertValidPosition,
+};
@@ -0,0 +1,87 @@
+const { ApolloError, UserInputError } = require('apollo-server-express');
+
+const MAX_BULK_TASKS = 200;
+
+// Unique ids in the order they were given
+const normalizeBulkIds = (ids) => {
+  const unique = [...new Set(ids)];
+  if (unique.length === 0 || unique.length > MAX_BULK_TASKS) {
+    throw new UserInputError(`Pass between 1 and ${MAX_BULK_TASKS} task ids`, { field: 'ids' });
+  }
+  return unique;
+};
+
+const taskNotFound = () => new ApolloError('Task not found', 'TASK_NOT_FOUND');
+
+// ApolloErrors fail the one task; anything else is a bug and fails the whole request
+const recordFailure = (failures, id, error) => {
+  if (!(error instanceof ApolloError)) throw error;
+  failures.set(id, error);
+};
+
+/**
+ * Run the per-task checks of a bulk operation. `check` resolves to the plan for one task or
+ * throws an ApolloError; returns the plans of the tasks that passed and the errors of the rest.
+ */
+const checkEach = async (ids, check) => {
+  const plans = new Map();
+  const failures = new Map();
+  for (const id of ids) {
+    try {
+      plans.set(id, await check(id));
+    } catch (error) {
+      recordFailure(failures, id, error);
+    }
+  }
+  return { plans, failures };
+};
+
+/**
+ * Run checks that depend on the rest of the batch, e.g. a parent completing together with
+ * its subtasks. A failure can invalidate plans that passed before, so this repeats until
+ * no plan fails any more.
+ */
+const settlePlans = ({ plans, failures }, check) => {
+  let settled = false;
+  while (!settled) {
+    settled = true;
+    for (const [id, plan] of plans) {
+      try {
+        check(plan, plans);
+      } catch (error) {
+        recordFailure(failures, id, error);
+        plans.delete(id);
+        settled = false;
+      }
+    }
+  }
+};
+
+/**
+ * Per-task results in the order of `ids`. `applied` maps each changed task id to the task as
+ * it is now (null once deleted); tasks with no failure that were not applied were held back
+ * by an all-or-nothing run.
+ */
+const buildBulkPayload = (ids, failures, applied = new Map()) => {
+  const results = ids.map((id) => {
+    const failure = failures.get(id);
+    if (failure) {
+      return { id, success: false, task: null, error: failure.message, code: failure.extensions.code };
+    }
+    if (!applied.has(id)) {
+      return { id, success: false, task: null, error: 'Not applied because other tasks in the batch failed', code: 'BULK_ABORTED' };
+    }
+    return { id, success: true, task: applied.get(id), error: null, code: null };
+  });
+  const succeeded = results.filter((result) => result.success).length;
+  return { results, succeeded, failed: results.length - succeeded };
+};
+
+module.exports = {
+  MAX_BULK_TASKS,
+  normalizeBulkIds,
+  taskNotFound,
+  checkEach,
+  settlePlans,
+  buildBulkPayload,
+};
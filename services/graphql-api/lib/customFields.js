@@ -0,0 +1,124 @@
+const { UserInputError } = require('apollo-server-express');
+const { getCustomFieldsForTeam, findCustomFieldById } = require('../data/customFieldsStore');
+const { getTeamMembers } = require('./teamDirectory');
+
+const MAX_NAME_LENGTH = 50;
+const MAX_OPTIONS = 50;
+const MAX_TEXT_LENGTH = 1000;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const normalizeOptions = (options) => {
+  const trimmed = options.map((option) => option.trim());
+  if (trimmed.length === 0 || trimmed.length > MAX_OPTIONS || trimmed.some((option) => !option)) {
+    throw new UserInputError(`Single-select fields need 1 to ${MAX_OPTIONS} non-empty options`, { field: 'options' });
+  }
+  if (new Set(trimmed).size !== trimmed.length) {
+    throw new UserInputError('Options must be unique', { field: 'options' });
+  }
+  return trimmed;
+};
+
+/**
+ * Validate a custom field definition for a team. The type is fixed once the field
+ * exists, so `existing` is only used for the name check and the current type.
+ */
+const normalizeFieldDefinition = (teamId, { name, type, options }, existing = null) => {
+  const fieldType = existing ? existing.type : type;
+  const normalized = {};
+
+  if (name !== undefined && name !== null) {
+    normalized.name = name.trim();
+    if (!normalized.name || normalized.name.length > MAX_NAME_LENGTH) {
+      throw new UserInputError(`Field names must be 1 to ${MAX_NAME_LENGTH} characters`, { field: 'name' });
+    }
+    const clash = getCustomFieldsForTeam(teamId).find((field) => (
+      field.id !== (existing && existing.id) && field.name.toLowerCase() === normalized.name.toLowerCase()
+    ));
+    if (clash) {
+      throw new UserInputError(`The team already has a field named "${clash.name}"`, { field: 'name' });
+    }
+  }
+
+  if (fieldType === 'SINGLE_SELECT') {
+    if (options !== undefined && options !== null) {
+      normalized.options = normalizeOptions(options);
+    } else if (!existing) {
+      throw new UserInputError('Single-select fields need options', { field: 'options' });
+    }
+  } else if (options && options.length > 0) {
+    throw new UserInputError('Only single-select fields have options', { field: 'options' });
+  } else if (!existing) {
+    normalized.options = [];
+  }
+
+  return normalized;
+};
+
+// Turn the string sent by a client into the value stored on the task
+const normalizeFieldValue = (field, value, members) => {
+  const reject = (message) => {
+    throw new UserInputError(`${field.name}: ${message}`, { field: 'customFields', fieldId: field.id });
+  };
+
+  switch (field.type) {
+    case 'NUMBER': {
+      const number = Number(value);
+      if (value.trim() === '' || !Number.isFinite(number)) reject('must be a number');
+      return number;
+    }
+    case 'DATE':
+      if (!DATE_PATTERN.test(value) || Number.isNaN(Date.parse(value))) reject('must be a date (YYYY-MM-DD)');
+      return value;
+    case 'SINGLE_SELECT':
+      if (!field.options.includes(value)) reject(`must be one of ${field.options.join(', ')}`);
+      return value;
+    case 'USER':
+      // Membership cannot be checked while the User Service is unreachable
+      if (members && !members.includes(value)) reject('must be a member of the team');
+      return value;
+    case 'TEXT':
+    default:
+      if (value.length > MAX_TEXT_LENGTH) reject(`must be at most ${MAX_TEXT_LENGTH} characters`);
+      return value;
+  }
+};
+
+/**
+ * Apply `[{ fieldId, value }]` changes to a task's stored values. Fields not listed keep
+ * their value; a null or empty value clears the field.
+ */
+const applyCustomFieldValues = async (teamId, current, changes) => {
+  const values = { ...(current || {}) };
+  let members;
+
+  for (const { fieldId, value } of changes) {
+    const field = findCustomFieldById(fieldId);
+    if (!field || field.teamId !== teamId) {
+      throw new UserInputError('Unknown custom field for this team', { field: 'customFields', fieldId });
+    }
+    if (value === null || value === undefined || value.trim() === '') {
+      delete values[fieldId];
+      continue;
+    }
+    if (field.type === 'USER' && members === undefined) {
+      members = await getTeamMembers(teamId);
+    }
+    values[fieldId] = normalizeFieldValue(field, field.type === 'TEXT' ? value : value.trim(), members);
+  }
+
+  return values;
+};
+
+// The task's values in the order the team defined its fields; unset fields are left out
+const getTaskCustomFields = (task) => {
+  const values = task.customFieldValues || {};
+  return getCustomFieldsForTeam(task.teamId)
+    .filter((field) => values[field.id] !== undefined && values[field.id] !== null)
+    .map((field) => ({ fieldId: field.id, field, value: String(values[field.id]) }));
+};
+
+module.exports = {
+  normalizeFieldDefinition,
+  applyCustomFieldValues,
+  getTaskCustomFields,
+};
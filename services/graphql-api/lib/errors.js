@@ -0,0 +1,13 @@
+const { ApolloError } = require('apollo-server-express');
+
+// Raised when a status change is not allowed by the team's workflow or one of its guards
+class InvalidTransitionError extends ApolloError {
+  constructor(message, extensions) {
+    super(message, 'INVALID_STATUS_TRANSITION', extensions);
+    Object.defineProperty(this, 'name', { value: 'InvalidTransitionError' });
+  }
+}
+
+module.exports = {
+  InvalidTransitionError,
+};
@@ -0,0 +1,74 @@
+const crypto = require('crypto');
+const { hasProcessedEvent, addProcessedEvent } = require('../data/processedEventsStore');
+
+// Shared with the User Service, which signs every event it publishes with it
+const SIGNING_SECRET = process.env.INTERNAL_SERVICE_TOKEN || '';
+
+// Shape of the envelope published by the User Service's event bus
+const isValidEvent = (event) => Boolean(
+  event
+  && typeof event.id === 'string'
+  && typeof event.type === 'string'
+  && event.data
+  && typeof event.data === 'object'
+);
+
+// Check the X-Event-Signature HMAC of the raw request body; unsigned events are rejected
+const verifyEventSignature = (rawBody, signature) => {
+  if (!SIGNING_SECRET || !rawBody || typeof signature !== 'string') {
+    return false;
+  }
+  const expected = Buffer.from(`sha256=${crypto.createHmac('sha256', SIGNING_SECRET).update(rawBody).digest('hex')}`);
+  const actual = Buffer.from(signature);
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+};
+
+/**
+ * Subscriber side of the domain event bus. The broker delivers at least once, so an
+ * event id that was already handled is acknowledged without running its handlers again.
+ * Handlers run one after another in the order they subscribed, and a failing one stops the
+ * rest. An event is only recorded as processed once every handler has succeeded; a failing
+ * handler makes the broker redeliver, so handlers must also be safe to re-run.
+ * Processed ids are forgotten after `retentionMs`, which should outlast the broker's retries.
+ */
+const createEventConsumer = ({ clock = () => Date.now(), retentionMs = Infinity } = {}) => {
+  const handlers = new Map();
+
+  const subscribe = (type, handler) => {
+    handlers.set(type, [...(handlers.get(type) || []), handler]);
+  };
+
+  // Events without handlers are acknowledged and recorded like any other
+  const handle = async (event) => {
+    if (hasProcessedEvent(event.id)) {
+      return { duplicate: true };
+    }
+
+    for (const handler of handlers.get(event.type) || []) {
+      await handler(event.data, event);
+    }
+
+    const now = clock();
+    addProcessedEvent({
+      id: event.id,
+      type: event.type,
+      source: event.source || null,
+      occurredAt: event.occurredAt || null,
+      processedAt: new Date(now).toISOString(),
+    }, {
+      forgetBefore: Number.isFinite(retentionMs) ? new Date(now - retentionMs).toISOString() : null,
+    });
+    return { duplicate: false };
+  };
+
+  return {
+    subscribe,
+    handle,
+  };
+};
+
+module.exports = {
+  isValidEvent,
+  verifyEventSignature,
+  createEventConsumer,
+};
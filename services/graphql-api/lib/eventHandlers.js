@@ -0,0 +1,97 @@
+const { createEventConsumer } = require('./eventBus');
+const db = require('../data/db');
+const { getTasks, updateTask } = require('../data/tasksStore');
+const { updateSeries } = require('../data/seriesStore');
+const { recordActivity } = require('./activity');
+const { getTeamMembers, invalidateTeam } = require('./teamDirectory');
+const { WEBHOOK_EVENTS } = require('./webhooks');
+const { CLOSED_STATUSES } = require('./taskTree');
+const { webhookDispatcher, notifyUser, publishTaskUpdated } = require('./taskEvents');
+const { reassignTask } = require('./taskOperations');
+
+// Outlasts the User Service's redeliveries, which back off to one a minute
+const eventConsumer = createEventConsumer({
+  retentionMs: Number(process.env.PROCESSED_EVENT_RETENTION_MS) || 7 * 24 * 60 * 60 * 1000,
+});
+
+const TEAM_EVENTS = WEBHOOK_EVENTS.filter(type => type.startsWith('team.'));
+
+// Domain events from the User Service. Delivery is at-least-once, so every handler
+// only touches tasks that still need the change and is a no-op when re-run.
+TEAM_EVENTS.forEach((type) => {
+  eventConsumer.subscribe(type, (data) => {
+    // Membership changed, so cached access checks for this team are stale
+    invalidateTeam(data.teamId);
+  });
+});
+
+// Everyone already on the team hears about a new member; a redelivery may repeat the notification
+eventConsumer.subscribe('team.member_added', async ({ teamId, userId, userName, teamName }) => {
+  const members = await getTeamMembers(teamId);
+  if (!members) {
+    throw new Error(`Cannot load members of team ${teamId}`);
+  }
+  members
+    .filter(memberId => memberId !== userId)
+    .forEach((memberId) => {
+      notifyUser(memberId, {
+        type: 'TEAM_MEMBER_ADDED',
+        message: `${userName || 'A new member'} joined ${teamName || 'your team'}`,
+        taskId: null
+      });
+    });
+});
+
+// A deleted user's tasks are unassigned everywhere, closed ones included
+eventConsumer.subscribe('user.deleted', ({ userId }) => {
+  getTasks({ assignedTo: userId, includeArchived: true }).forEach(task => reassignTask(task, null));
+});
+
+// Open tasks of a removed member go back to their creator while the creator is still on the team
+eventConsumer.subscribe('team.member_removed', async ({ teamId, userId }) => {
+  const tasks = getTasks({ teamId, assignedTo: userId }).filter(task => !CLOSED_STATUSES.includes(task.status));
+  if (tasks.length === 0) return;
+
+  const members = await getTeamMembers(teamId);
+  if (!members) {
+    // Retried by the broker once the User Service answers again
+    throw new Error(`Cannot load members of team ${teamId}`);
+  }
+  tasks.forEach((task) => {
+    const stillMember = task.createdBy !== userId && members.includes(task.createdBy);
+    reassignTask(task, stillMember ? task.createdBy : null);
+  });
+});
+
+// Tasks of a deleted team are archived in one write rather than removed, and its series stop repeating
+eventConsumer.subscribe('team.deleted', ({ teamId }) => db.batch(() => {
+  const archivedAt = new Date().toISOString();
+  getTasks({ teamId }).forEach((task) => {
+    const archivedTask = updateTask(task.id, { archivedAt, updatedAt: archivedAt });
+    recordActivity({
+      action: 'TASK_ARCHIVED',
+      entityId: task.id,
+      taskId: task.id,
+      teamId,
+      actorId: null,
+      before: task,
+      after: archivedTask,
+    });
+    if (task.seriesId) {
+      updateSeries(task.seriesId, { active: false, updatedAt: archivedAt });
+    }
+    publishTaskUpdated(archivedTask);
+  });
+}));
+
+// Subscribed last: handlers run in order, so webhooks only fire once every handler above has
+// succeeded, and a redelivery after a failed handler does not send them twice
+TEAM_EVENTS.forEach((type) => {
+  eventConsumer.subscribe(type, (data) => {
+    webhookDispatcher.dispatch(type, { teamId: data.teamId, data });
+  });
+});
+
+module.exports = {
+  eventConsumer,
+};
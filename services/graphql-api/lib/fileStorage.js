@@ -0,0 +1,151 @@
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+
+/**
+ * Storage for uploaded files. The backend is chosen with FILE_STORAGE; each one provides
+ * async put(key, body, { contentType }), get(key) resolving to a Buffer or null, and
+ * remove(key). Keys are slash-separated paths such as `<taskId>/<attachmentId>`.
+ */
+const createLocalDiskStorage = ({ directory }) => {
+  const root = path.resolve(directory);
+  const resolveKey = (key) => {
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(`${root}${path.sep}`)) {
+      throw new Error(`Invalid storage key "${key}"`);
+    }
+    return filePath;
+  };
+
+  return {
+    put: async (key, body) => {
+      const filePath = resolveKey(key);
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.promises.writeFile(filePath, body);
+    },
+    get: async (key) => {
+      try {
+        return await fs.promises.readFile(resolveKey(key));
+      } catch (error) {
+        if (error.code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+    remove: async (key) => {
+      try {
+        await fs.promises.unlink(resolveKey(key));
+      } catch (error) {
+        if (error.code !== 'ENOENT') throw error;
+      }
+    },
+  };
+};
+
+const sha256 = (value) => crypto.createHash('sha256').update(value).digest('hex');
+const hmac = (key, value) => crypto.createHmac('sha256', key).update(value).digest();
+
+/**
+ * Any S3-compatible object store (AWS S3, MinIO, ...), addressed path-style as
+ * `<endpoint>/<bucket>/<key>`. Requests are signed with AWS Signature Version 4.
+ * `fetchImpl` and `clock` are injectable for tests.
+ */
+const createS3Storage = ({
+  endpoint,
+  bucket,
+  region = 'us-east-1',
+  accessKeyId,
+  secretAccessKey,
+  fetchImpl = (...args) => fetch(...args),
+  clock = () => Date.now(),
+}) => {
+  if (!endpoint || !bucket || !accessKeyId || !secretAccessKey) {
+    throw new Error('The s3 file storage needs S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY');
+  }
+  const base = new URL(endpoint);
+  const basePath = base.pathname.replace(/\/+$/, '');
+
+  const request = async (method, key, { body, contentType } = {}) => {
+    const uri = `${basePath}/${encodeURIComponent(bucket)}/${key.split('/').map(encodeURIComponent).join('/')}`;
+    const amzDate = new Date(clock()).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+    const dateStamp = amzDate.slice(0, 8);
+    const payloadHash = sha256(body || '');
+    const scope = `${dateStamp}/${region}/s3/aws4_request`;
+    const signedHeaders = 'host;x-amz-content-sha256;x-amz-date';
+
+    const canonicalRequest = [
+      method,
+      uri,
+      '',
+      `host:${base.host}\nx-amz-content-sha256:${payloadHash}\nx-amz-date:${amzDate}\n`,
+      signedHeaders,
+      payloadHash,
+    ].join('\n');
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+    const signingKey = ['s3', 'aws4_request'].reduce(
+      (key, part) => hmac(key, part),
+      hmac(hmac(`AWS4${secretAccessKey}`, dateStamp), region)
+    );
+    const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    return fetchImpl(`${base.origin}${uri}`, {
+      method,
+      headers: {
+        Authorization: `AWS4-HMAC-SHA256 Credential=${accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+        'x-amz-content-sha256': payloadHash,
+        'x-amz-date': amzDate,
+        ...(contentType ? { 'Content-Type': contentType } : {}),
+      },
+      body,
+    });
+  };
+
+  const assertOk = (response, action, key) => {
+    if (!response.ok) {
+      throw new Error(`S3 ${action} of "${key}" failed with ${response.status}`);
+    }
+  };
+
+  return {
+    put: async (key, body, { contentType } = {}) => {
+      assertOk(await request('PUT', key, { body, contentType }), 'upload', key);
+    },
+    get: async (key) => {
+      const response = await request('GET', key);
+      if (response.status === 404) return null;
+      assertOk(response, 'download', key);
+      return Buffer.from(await response.arrayBuffer());
+    },
+    // S3 answers 204 whether or not the object existed
+    remove: async (key) => {
+      const response = await request('DELETE', key);
+      if (response.status !== 404) assertOk(response, 'delete', key);
+    },
+  };
+};
+
+const BACKENDS = {
+  local: () => createLocalDiskStorage({
+    directory: process.env.FILE_STORAGE_DIR || path.join(__dirname, '..', 'storage', 'files'),
+  }),
+  s3: () => createS3Storage({
+    endpoint: process.env.S3_ENDPOINT,
+    bucket: process.env.S3_BUCKET,
+    region: process.env.S3_REGION,
+    accessKeyId: process.env.S3_ACCESS_KEY_ID,
+    secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+  }),
+};
+
+const backendName = process.env.FILE_STORAGE || 'local';
+if (!BACKENDS[backendName]) {
+  throw new Error(`Unknown FILE_STORAGE "${backendName}"; expected one of: ${Object.keys(BACKENDS).join(', ')}`);
+}
+
+const fileStorage = BACKENDS[backendName]();
+
+module.exports = {
+  BACKENDS,
+  createLocalDiskStorage,
+  createS3Storage,
+  fileStorage,
+};
@@ -0,0 +1,50 @@
+const { UserInputError } = require('apollo-server-express');
+const { getLabelsForTeam, findLabelById } = require('../data/labelsStore');
+
+const MAX_NAME_LENGTH = 50;
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+// Validate a label definition; names are unique per team, ignoring case
+const normalizeLabelInput = (teamId, { name, color }, existing = null) => {
+  const normalized = {};
+
+  if (name !== undefined && name !== null) {
+    normalized.name = name.trim();
+    if (!normalized.name || normalized.name.length > MAX_NAME_LENGTH) {
+      throw new UserInputError(`Label names must be 1 to ${MAX_NAME_LENGTH} characters`, { field: 'name' });
+    }
+    const clash = getLabelsForTeam(teamId).find((label) => (
+      label.id !== (existing && existing.id) && label.name.toLowerCase() === normalized.name.toLowerCase()
+    ));
+    if (clash) {
+      throw new UserInputError(`The team already has a label named "${clash.name}"`, { field: 'name' });
+    }
+  }
+
+  if (color !== undefined && color !== null) {
+    if (!COLOR_PATTERN.test(color)) {
+      throw new UserInputError('color must be a hex color such as #1d76db', { field: 'color' });
+    }
+    normalized.color = color.toLowerCase();
+  }
+
+  return normalized;
+};
+
+// Labels set on a task must be defined by the task's own team
+const assertTeamLabels = (teamId, labelIds) => {
+  const unique = [...new Set(labelIds)];
+  const unknown = unique.filter((id) => {
+    const label = findLabelById(id);
+    return !label || label.teamId !== teamId;
+  });
+  if (unknown.length > 0) {
+    throw new UserInputError('Unknown labels for this team', { field: 'labelIds', labelIds: unknown });
+  }
+  return unique;
+};
+
+module.exports = {
+  normalizeLabelInput,
+  assertTeamLabels,
+};
@@ -0,0 +1,65 @@
+const { coalesceNotifications } = require('./notifications');
+
+const LIVE_TASK_EVENTS = {
+  CREATED: (task) => ({ taskCreated: task }),
+  UPDATED: (task) => ({ taskUpdated: task }),
+  DELETED: (task) => ({ taskDeleted: task.id }),
+};
+
+/**
+ * Where task changes send their live events and notifications. `immediate` sends them right
+ * away. `collect()` returns a collector for one bulk operation, which the apply path passes
+ * along instead; its `flush` sends one tasksChanged event per team, in place of the per-task
+ * events, and at most one notification per user and type.
+ */
+const createLiveEffects = ({ pubsub, notifyUser }) => {
+  const publishLive = (event, teamId, task) => pubsub.publish(`TASK_${event}_${teamId}`, LIVE_TASK_EVENTS[event](task));
+
+  const immediate = {
+    notify: notifyUser,
+    publishLive,
+  };
+
+  const collect = () => {
+    const changesByTeam = new Map();
+    const notifications = [];
+
+    // Only the latest version of each task is kept
+    const collectLive = (event, teamId, task) => {
+      const changes = changesByTeam.get(teamId) || new Map();
+      changesByTeam.set(teamId, changes.set(task.id, { event, task }));
+    };
+
+    const flush = () => {
+      changesByTeam.forEach((changes, teamId) => {
+        const entries = [...changes.values()];
+        pubsub.publish(`TASKS_CHANGED_${teamId}`, {
+          tasksChanged: {
+            teamId,
+            tasks: entries.filter(({ event }) => event !== 'DELETED').map(({ task }) => task),
+            removedIds: entries.filter(({ event }) => event === 'DELETED').map(({ task }) => task.id),
+          },
+        });
+      });
+      coalesceNotifications(notifications).forEach(({ userId, ...notification }) => notifyUser(userId, notification));
+    };
+
+    return {
+      notify: (userId, notification) => {
+        notifications.push({ userId, ...notification });
+        return null;
+      },
+      publishLive: collectLive,
+      flush,
+    };
+  };
+
+  return {
+    immediate,
+    collect,
+  };
+};
+
+module.exports = {
+  createLiveEffects,
+};
@@ -0,0 +1,26 @@
+const DataLoader = require('dataloader');
+const { fetchFromUserService } = require('./userService');
+
+// Matches the User Service's limit for its batch endpoints
+const MAX_BATCH_SIZE = 100;
+
+const batchFrom = (path, key) => async (ids) => {
+  const query = ids.map(id => encodeURIComponent(id)).join(',');
+  const result = await fetchFromUserService(`${path}?ids=${query}`);
+  // The User Service answers in request order, with null for unknown ids
+  return ids.map((id, index) => (result && result[key][index]) || null);
+};
+
+/**
+ * Request-scoped loaders for the User and Team types, which live in the User Service.
+ * Every user or team id asked for while resolving one operation is fetched in a
+ * single batch request and cached until the operation completes.
+ */
+const createLoaders = () => ({
+  users: new DataLoader(batchFrom('/internal/users', 'users'), { maxBatchSize: MAX_BATCH_SIZE }),
+  teams: new DataLoader(batchFrom('/internal/teams', 'teams'), { maxBatchSize: MAX_BATCH_SIZE }),
+});
+
+module.exports = {
+  createLoaders,
+};
@@ -0,0 +1,125 @@
+const { UserInputError } = require('apollo-server-express');
+const { getNotificationsForUser } = require('../data/notificationsStore');
+const { findPreferences } = require('../data/notificationPreferencesStore');
+
+// Every type notifyUser is called with; users can opt out of each one
+const NOTIFICATION_TYPES = [
+  'TASK_ASSIGNED',
+  'TASK_STATUS_CHANGED',
+  'TASK_UNBLOCKED',
+  'COMMENT_ADDED',
+  'TASK_DUE_SOON',
+  'TASK_OVERDUE',
+  'TASK_OVERDUE_ESCALATED',
+  'TEAM_MEMBER_ADDED',
+];
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+const getDisabledTypes = (userId) => {
+  const preferences = findPreferences(userId);
+  return preferences ? preferences.disabledTypes : [];
+};
+
+const isNotificationEnabled = (userId, type) => !getDisabledTypes(userId).includes(type);
+
+const getNotificationPreferences = (userId) => {
+  const disabled = getDisabledTypes(userId);
+  return NOTIFICATION_TYPES.map((type) => ({ type, enabled: !disabled.includes(type) }));
+};
+
+// Merge a partial list of { type, enabled } into the user's current opt-outs
+const applyPreferenceChanges = (userId, changes) => {
+  const disabled = new Set(getDisabledTypes(userId));
+  changes.forEach(({ type, enabled }) => {
+    if (!NOTIFICATION_TYPES.includes(type)) {
+      throw new UserInputError(`Unknown notification type: ${type}`, { field: 'type' });
+    }
+    if (enabled) {
+      disabled.delete(type);
+    } else {
+      disabled.add(type);
+    }
+  });
+  return NOTIFICATION_TYPES.filter((type) => disabled.has(type));
+};
+
+// Sent instead of several notifications of one type that a single bulk operation produced
+const SUMMARY_MESSAGES = {
+  TASK_ASSIGNED: (count) => `You have been assigned ${count} tasks`,
+  TASK_STATUS_CHANGED: (count) => `${count} of your tasks changed status`,
+  TASK_UNBLOCKED: (count) => `${count} of your tasks are no longer blocked`,
+};
+
+/**
+ * Merge `{ userId, type, message, taskId }` entries per user and type: a single entry is kept
+ * as it is, several become one summary that points at no particular task.
+ */
+const coalesceNotifications = (notifications) => {
+  const groups = new Map();
+  notifications.forEach((notification) => {
+    const key = `${notification.userId}:${notification.type}`;
+    groups.set(key, [...(groups.get(key) || []), notification]);
+  });
+  return [...groups.values()].map((group) => {
+    if (group.length === 1) return group[0];
+    const { userId, type } = group[0];
+    const summarize = SUMMARY_MESSAGES[type] || ((count) => `${count} new task notifications`);
+    return { userId, type, message: summarize(group.length), taskId: null };
+  });
+};
+
+const encodeCursor = (notification) => Buffer.from(JSON.stringify([notification.createdAt, notification.id])).toString('base64');
+
+const decodeCursor = (cursor) => {
+  try {
+    const [createdAt, id] = JSON.parse(Buffer.from(cursor, 'base64').toString('utf8'));
+    return { createdAt, id };
+  } catch (error) {
+    throw new UserInputError('Invalid cursor', { field: 'after' });
+  }
+};
+
+// Newest first; ties on createdAt are broken by id so the order is total
+const compareNewestFirst = (a, b) => {
+  if (a.createdAt !== b.createdAt) return a.createdAt < b.createdAt ? 1 : -1;
+  if (a.id === b.id) return 0;
+  return a.id < b.id ? 1 : -1;
+};
+
+/**
+ * Relay-style page of a user's notifications, newest first.
+ * Like tasksConnection, `after` is a keyset cursor, so new arrivals do not shift later pages.
+ */
+const getNotificationsConnection = (userId, { first, after, unreadOnly } = {}) => {
+  const limit = Math.min(Math.max(first || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  const notifications = getNotificationsForUser(userId)
+    .filter((notification) => !unreadOnly || !notification.read)
+    .sort(compareNewestFirst);
+
+  const start = after
+    ? notifications.filter((notification) => compareNewestFirst(notification, decodeCursor(after)) <= 0).length
+    : 0;
+  const page = notifications.slice(start, start + limit);
+  const edges = page.map((notification) => ({ cursor: encodeCursor(notification), node: notification }));
+
+  return {
+    edges,
+    totalCount: notifications.length,
+    pageInfo: {
+      hasNextPage: start + limit < notifications.length,
+      hasPreviousPage: start > 0,
+      startCursor: edges.length > 0 ? edges[0].cursor : null,
+      endCursor: edges.length > 0 ? edges[edges.length - 1].cursor : null,
+    },
+  };
+};
+
+module.exports = {
+  isNotificationEnabled,
+  getNotificationPreferences,
+  applyPreferenceChanges,
+  getNotificationsConnection,
+  coalesceNotifications,
+};
@@ -0,0 +1,141 @@
+const { UserInputError } = require('apollo-server-express');
+const { toTime } = require('./taskQuery');
+
+// RFC 5545 weekday codes; the index matches Date#getUTCDay
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Weeks start on Monday (the RFC 5545 default WKST)
+const weekdayIndex = (day) => (WEEKDAYS.indexOf(day) + 6) % 7;
+
+/**
+ * Validate a RecurrenceInput and return the stored rule.
+ * Supported subset of RRULE: FREQ=DAILY|WEEKLY|MONTHLY, INTERVAL, BYDAY (weekly only), UNTIL or COUNT.
+ */
+const normalizeRule = (input) => {
+  const interval = input.interval === undefined || input.interval === null ? 1 : input.interval;
+  if (!Number.isInteger(interval) || interval < 1) {
+    throw new UserInputError('interval must be a positive whole number', { field: 'recurrence.interval' });
+  }
+
+  const byDay = [...new Set(input.byDay || [])];
+  if (byDay.length > 0 && input.frequency !== 'WEEKLY') {
+    throw new UserInputError('byDay is only supported for weekly recurrence', { field: 'recurrence.byDay' });
+  }
+
+  if (input.until && input.count) {
+    throw new UserInputError('Use either until or count, not both', { field: 'recurrence' });
+  }
+  if (input.until && toTime(input.until) === null) {
+    throw new UserInputError('until must be an ISO date', { field: 'recurrence.until' });
+  }
+  if (input.count !== undefined && input.count !== null && (!Number.isInteger(input.count) || input.count < 1)) {
+    throw new UserInputError('count must be a positive whole number', { field: 'recurrence.count' });
+  }
+
+  return {
+    frequency: input.frequency,
+    interval,
+    byDay: byDay.sort((a, b) => weekdayIndex(a) - weekdayIndex(b)),
+    until: input.until ? new Date(input.until).toISOString() : null,
+    count: input.count || null,
+  };
+};
+
+const toRRule = (rule) => [
+  `FREQ=${rule.frequency}`,
+  `INTERVAL=${rule.interval}`,
+  rule.byDay.length > 0 ? `BYDAY=${rule.byDay.join(',')}` : null,
+  rule.until ? `UNTIL=${rule.until.replace(/[-:]/g, '').replace(/\.\d+/, '')}` : null,
+  rule.count ? `COUNT=${rule.count}` : null,
+].filter(Boolean).join(';');
+
+// Months are added on the calendar; the day is clamped so "monthly on the 31st" lands on the last day
+const addMonths = (time, months) => {
+  const date = new Date(time);
+  const day = date.getUTCDate();
+  date.setUTCDate(1);
+  date.setUTCMonth(date.getUTCMonth() + months);
+  const lastDay = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+  date.setUTCDate(Math.min(day, lastDay));
+  return date.getTime();
+};
+
+// The anchor is always the first date; after it come the selected weekdays of every `interval`-th week
+const nthWeeklyByDay = (rule, anchor, steps) => {
+  const weekStart = anchor - weekdayIndex(WEEKDAYS[new Date(anchor).getUTCDay()]) * DAY_MS;
+  let remaining = steps;
+  for (let week = 0; ; week += rule.interval) {
+    for (const day of rule.byDay) {
+      const time = weekStart + (week * 7 + weekdayIndex(day)) * DAY_MS;
+      if (time > anchor) {
+        remaining -= 1;
+        if (remaining === 0) return time;
+      }
+    }
+  }
+};
+
+// Date of the occurrence `steps` positions after the anchor
+const advance = (rule, anchor, steps) => {
+  if (steps === 0) return anchor;
+  switch (rule.frequency) {
+    case 'DAILY':
+      return anchor + steps * rule.interval * DAY_MS;
+    case 'WEEKLY':
+      return rule.byDay.length > 0
+        ? nthWeeklyByDay(rule, anchor, steps)
+        : anchor + steps * rule.interval * 7 * DAY_MS;
+    case 'MONTHLY':
+    default:
+      return addMonths(anchor, steps * rule.interval);
+  }
+};
+
+/**
+ * Start and due date of the given occurrence number of a series, or null once the series has
+ * run out (past COUNT or UNTIL). Dates are computed from the anchor rather than the previous
+ * occurrence, so edits to a single occurrence never shift the rest of the series.
+ */
+const getOccurrenceSchedule = (series, occurrence) => {
+  const { rule, template } = series;
+  if (rule.count && occurrence > rule.count) return null;
+
+  const due = advance(rule, toTime(series.anchorDate), occurrence - series.anchorOccurrence);
+  if (rule.until && due > toTime(rule.until)) return null;
+  return {
+    startDate: template.leadTime === null ? null : new Date(due - template.leadTime).toISOString(),
+    dueDate: new Date(due).toISOString(),
+  };
+};
+
+// Occurrences are scheduled from the due date, and only top-level tasks can repeat
+const assertCanRecur = (task) => {
+  if (!task.dueDate) {
+    throw new UserInputError('Recurring tasks need a due date', { field: 'dueDate' });
+  }
+  if (task.parentId) {
+    throw new UserInputError('Subtasks cannot repeat', { field: 'recurrence' });
+  }
+};
+
+// The parts of a task that later occurrences copy
+const buildTemplate = (task) => ({
+  title: task.title,
+  description: task.description || null,
+  priority: task.priority,
+  assignedTo: task.assignedTo || null,
+  checklist: (task.checklist || []).map((item) => ({ text: item.text })),
+  labelIds: task.labelIds || [],
+  customFieldValues: task.customFieldValues || {},
+  // Length of the start-to-due span, kept so occurrences also get a start date
+  leadTime: task.startDate ? toTime(task.dueDate) - toTime(task.startDate) : null,
+});
+
+module.exports = {
+  normalizeRule,
+  toRRule,
+  getOccurrenceSchedule,
+  assertCanRecur,
+  buildTemplate,
+};
@@ -0,0 +1,168 @@
+const { getTasks } = require('../data/tasksStore');
+const { hasReminder, addReminder } = require('../data/remindersStore');
+const { CLOSED_STATUSES } = require('./taskTree');
+const { toTime } = require('./taskQuery');
+
+const UNITS = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+// "90s", "30m", "24h", "2d" -> milliseconds
+const parseDuration = (value) => {
+  const match = /^(\d+(?:\.\d+)?)\s*([smhd])$/i.exec(String(value).trim());
+  if (!match) {
+    throw new Error(`Invalid duration "${value}", expected e.g. 30m, 1h or 2d`);
+  }
+  return Math.round(Number(match[1]) * UNITS[match[2].toLowerCase()]);
+};
+
+const parseDurationList = (value) => String(value)
+  .split(',')
+  .map((part) => part.trim())
+  .filter(Boolean)
+  .map(parseDuration);
+
+const formatDuration = (ms) => {
+  const unit = ['d', 'h', 'm', 's'].find((key) => ms >= UNITS[key] && ms % UNITS[key] === 0) || 's';
+  return `${Math.round(ms / UNITS[unit])}${unit}`;
+};
+
+// Keys include the due date, so moving the deadline arms a fresh set of reminders
+const reminderKey = (task, kind) => `${task.id}:${kind}:${task.dueDate}`;
+
+/**
+ * Periodically scan open tasks with a due date and notify about upcoming and missed deadlines.
+ * Every reminder sent is recorded in the store, so a restart never delivers it twice.
+ * `clock` returns the current time in ms and is injectable for tests.
+ */
+const createReminderScheduler = ({
+  notify,
+  getEscalationRecipients = async () => [],
+  clock = () => Date.now(),
+  leadTimes = [],
+  escalationGraceMs = null,
+  intervalMs = 60 * 1000,
+  logger = console,
+}) => {
+  // Largest first, so a task first gets the earliest reminder that still applies
+  const leads = [...new Set(leadTimes)].sort((a, b) => b - a);
+  let timer = null;
+  let running = null;
+
+  const remember = (task, kind, sentAt) => {
+    addReminder({
+      id: reminderKey(task, kind),
+      taskId: task.id,
+      kind,
+      dueDate: task.dueDate,
+      sentAt: new Date(sentAt).toISOString(),
+    });
+  };
+
+  const recipientOf = (task) => task.assignedTo || task.createdBy;
+
+  const checkDueSoon = (task, due, now) => {
+    // All lead times we are already inside of; only the tightest one is delivered
+    const pending = leads.filter((lead) => due - now <= lead && !hasReminder(reminderKey(task, `DUE_SOON_${lead}`)));
+    if (pending.length === 0) return;
+
+    const lead = pending[pending.length - 1];
+    notify(recipientOf(task), {
+      type: 'TASK_DUE_SOON',
+      message: `Task "${task.title}" is due within ${formatDuration(lead)}`,
+      taskId: task.id,
+    });
+    pending.forEach((skipped) => remember(task, `DUE_SOON_${skipped}`, now));
+  };
+
+  const checkOverdue = (task, now) => {
+    if (hasReminder(reminderKey(task, 'OVERDUE'))) return;
+    notify(recipientOf(task), {
+      type: 'TASK_OVERDUE',
+      message: `Task "${task.title}" is overdue`,
+      taskId: task.id,
+    });
+    remember(task, 'OVERDUE', now);
+  };
+
+  const checkEscalation = async (task, now) => {
+    if (hasReminder(reminderKey(task, 'ESCALATED'))) return;
+
+    const recipients = await getEscalationRecipients(task);
+    // null means the lookup failed; try again on the next run
+    if (!recipients) return;
+
+    recipients
+      .filter((userId) => userId !== recipientOf(task))
+      .forEach((userId) => notify(userId, {
+        type: 'TASK_OVERDUE_ESCALATED',
+        message: `Task "${task.title}" is still overdue after ${formatDuration(escalationGraceMs)}`,
+        taskId: task.id,
+      }));
+    remember(task, 'ESCALATED', now);
+  };
+
+  const processTask = async (task, now) => {
+    const due = toTime(task.dueDate);
+    if (due === null || CLOSED_STATUSES.includes(task.status) || !recipientOf(task)) return;
+
+    if (now < due) {
+      checkDueSoon(task, due, now);
+      return;
+    }
+
+    checkOverdue(task, now);
+    if (escalationGraceMs !== null && now - due >= escalationGraceMs) {
+      await checkEscalation(task, now);
+    }
+  };
+
+  // One pass over all tasks; resolves with the number of tasks inspected
+  const runOnce = async () => {
+    const now = clock();
+    const tasks = getTasks();
+    for (const task of tasks) {
+      try {
+        await processTask(task, now);
+      } catch (error) {
+        logger.error(`Reminder check failed for task ${task.id}:`, error);
+      }
+    }
+    return tasks.length;
+  };
+
+  // Skip a tick when the previous run is still busy (e.g. a slow User Service)
+  const tick = () => {
+    if (running) return;
+    running = runOnce().finally(() => {
+      running = null;
+    });
+  };
+
+  const start = () => {
+    if (timer) return;
+    tick();
+    timer = setInterval(tick, intervalMs);
+    if (timer.unref) timer.unref();
+  };
+
+  const stop = () => {
+    clearInterval(timer);
+    timer = null;
+  };
+
+  return {
+    start,
+    stop,
+    runOnce,
+  };
+};
+
+module.exports = {
+  parseDuration,
+  parseDurationList,
+  createReminderScheduler,
+};
@@ -0,0 +1,40 @@
+const { ForbiddenError } = require('apollo-server-express');
+const { findTaskById } = require('../../data/tasksStore');
+const { findAttachmentById, removeAttachment } = require('../../data/attachmentsStore');
+const { isAdmin, assertTeamAccess } = require('../auth');
+const { recordActivity } = require('../activity');
+const { getDownloadUrl, removeStoredFile } = require('../attachments');
+
+// Attachment metadata; files are uploaded and downloaded through lib/routes/attachments
+const attachmentResolvers = {
+  Mutation: {
+    deleteAttachment: async (_, { id }, context) => {
+      const attachment = findAttachmentById(id);
+      if (!attachment) return false;
+      const task = findTaskById(attachment.taskId);
+      const user = await assertTeamAccess(context, task.teamId);
+      if (attachment.uploadedBy !== user.id && !isAdmin(user)) {
+        throw new ForbiddenError('Only the uploader or an admin can delete this attachment');
+      }
+      removeAttachment(id);
+      removeStoredFile(attachment);
+      recordActivity({
+        action: 'ATTACHMENT_REMOVED',
+        entityType: 'attachment',
+        entityId: id,
+        taskId: task.id,
+        teamId: task.teamId,
+        actorId: user.id,
+        before: attachment,
+      });
+      return true;
+    },
+  },
+
+  Attachment: {
+    uploader: (attachment, _, { loaders }) => loaders.users.load(attachment.uploadedBy),
+    downloadUrl: (attachment) => getDownloadUrl(attachment),
+  },
+};
+
+module.exports = attachmentResolvers;
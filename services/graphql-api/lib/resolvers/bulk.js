@@ -0,0 +1,164 @@
+const { ForbiddenError, UserInputError } = require('apollo-server-express');
+const { findTaskById, getSubtasks } = require('../../data/tasksStore');
+const { isAdmin, requireUser, assertTeamAccess, assertAssignable } = require('../auth');
+const { assertValidSchedule } = require('../schedule');
+const { getTeamMembers } = require('../teamDirectory');
+const {
+  normalizeBulkIds,
+  taskNotFound,
+  checkEach,
+  settlePlans,
+  buildBulkPayload,
+} = require('../bulkTasks');
+const { assertTeamLabels } = require('../labels');
+const { CLOSED_STATUSES, getDescendants } = require('../taskTree');
+const { getBlockers } = require('../taskDependencies');
+const { assertTransition } = require('../workflow');
+const { withCoalescedEffects } = require('../taskEvents');
+const { destroyTask, applyBulkUpdate, moveTaskToTeam } = require('../taskOperations');
+
+// Mutations that change up to MAX_BULK_TASKS tasks in one call; see lib/bulkTasks
+const bulkResolvers = {
+  Mutation: {
+    bulkUpdateTasks: async (_, { ids, input, force, atomic }, context) => {
+      const taskIds = normalizeBulkIds(ids);
+      if (Object.keys(input).length === 0) {
+        throw new UserInputError('Pass at least one field to change', { field: 'input' });
+      }
+      if (input.status === null || input.priority === null) {
+        throw new UserInputError('status and priority cannot be cleared', { field: 'input' });
+      }
+      const actor = requireUser(context);
+      const { addLabelIds, removeLabelIds, ...changes } = input;
+      const batch = await checkEach(taskIds, async (id) => {
+        const task = findTaskById(id);
+        if (!task) throw taskNotFound();
+        const user = await assertTeamAccess(context, task.teamId);
+        const fields = { ...changes };
+        if (fields.assignedTo && fields.assignedTo !== task.assignedTo) {
+          await assertAssignable(task.teamId, fields.assignedTo);
+        }
+        if (fields.status && fields.status !== task.status) {
+          assertTransition({ ...task, ...fields, status: task.status }, fields.status, user);
+        }
+        if (fields.startDate !== undefined || fields.dueDate !== undefined) {
+          assertValidSchedule({ ...task, ...fields });
+        }
+        if (addLabelIds || removeLabelIds) {
+          const added = addLabelIds ? assertTeamLabels(task.teamId, addLabelIds) : [];
+          fields.labelIds = [...new Set([...(task.labelIds || []), ...added])]
+            .filter(labelId => !(removeLabelIds || []).includes(labelId));
+        }
+        return { task, fields };
+      });
+      // Subtasks and blockers closed by the same batch count as closed
+      const statusAfter = (task, plans) => (plans.has(task.id) && plans.get(task.id).fields.status) || task.status;
+      settlePlans(batch, ({ task, fields }, plans) => {
+        if (fields.status === 'COMPLETED' && task.status !== 'COMPLETED') {
+          const openSubtasks = getSubtasks(task.id).filter(subtask => !CLOSED_STATUSES.includes(statusAfter(subtask, plans)));
+          if (openSubtasks.length > 0) {
+            throw new UserInputError('Complete or cancel all subtasks before completing this task', {
+              openSubtasks: openSubtasks.map(subtask => subtask.id),
+            });
+          }
+        }
+        const isStarting = ['IN_PROGRESS', 'COMPLETED'].includes(fields.status) && fields.status !== task.status;
+        if (isStarting && !force) {
+          const openBlockers = getBlockers(task).filter(blocker => !CLOSED_STATUSES.includes(statusAfter(blocker, plans)));
+          if (openBlockers.length > 0) {
+            throw new UserInputError('This task is blocked by unfinished tasks; pass force: true to override', {
+              blockedBy: openBlockers.map(blocker => blocker.id),
+            });
+          }
+        }
+      });
+      if (atomic && batch.failures.size > 0) {
+        return buildBulkPayload(taskIds, batch.failures);
+      }
+      const applied = withCoalescedEffects((effects) => new Map(
+        [...batch.plans].map(([id, plan]) => [id, applyBulkUpdate(plan, actor.id, effects)])
+      ));
+      return buildBulkPayload(taskIds, batch.failures, applied);
+    },
+
+    bulkDeleteTasks: async (_, { ids, cascade, atomic }, context) => {
+      const taskIds = normalizeBulkIds(ids);
+      const actor = requireUser(context);
+      const batch = await checkEach(taskIds, async (id) => {
+        const task = findTaskById(id);
+        if (!task) throw taskNotFound();
+        const user = await assertTeamAccess(context, task.teamId);
+        if (!isAdmin(user) && task.createdBy !== user.id) {
+          throw new ForbiddenError('Only the task creator or an admin can delete this task');
+        }
+        return { task, descendants: getDescendants(id) };
+      });
+      // Without cascade a task can only go when all of its subtasks go with it
+      if (!cascade) {
+        settlePlans(batch, ({ descendants }, plans) => {
+          const remaining = descendants.filter(task => !plans.has(task.id));
+          if (remaining.length > 0) {
+            throw new UserInputError('This task has subtasks; delete them first or pass cascade: true', {
+              subtasks: remaining.map(task => task.id),
+            });
+          }
+        });
+      }
+      if (atomic && batch.failures.size > 0) {
+        return buildBulkPayload(taskIds, batch.failures);
+      }
+      const applied = withCoalescedEffects((effects) => new Map([...batch.plans.keys()].map((id) => {
+        // Already gone when its parent was deleted earlier in the batch
+        const task = findTaskById(id);
+        if (task) {
+          getDescendants(id).reverse().forEach(descendant => destroyTask(descendant, actor.id, effects));
+          destroyTask(task, actor.id, effects);
+        }
+        return [id, null];
+      })));
+      return buildBulkPayload(taskIds, batch.failures, applied);
+    },
+
+    bulkMoveTasks: async (_, { ids, teamId, atomic }, context) => {
+      const taskIds = normalizeBulkIds(ids);
+      const actor = await assertTeamAccess(context, teamId);
+      const batch = await checkEach(taskIds, async (id) => {
+        const task = findTaskById(id);
+        if (!task) throw taskNotFound();
+        await assertTeamAccess(context, task.teamId);
+        if (task.teamId === teamId) return { task, subtree: [] };
+        // Subtasks always follow their parent
+        const subtree = [task, ...getDescendants(id)];
+        if (subtree.some(member => member.seriesId)) {
+          throw new UserInputError('Recurring tasks cannot move to another team');
+        }
+        return { task, subtree };
+      });
+      settlePlans(batch, ({ task, subtree }, plans) => {
+        if (subtree.length > 0 && task.parentId && !plans.has(task.parentId)) {
+          throw new UserInputError('Subtasks move with their parent; move the parent task instead', {
+            parentId: task.parentId,
+          });
+        }
+      });
+      if (atomic && batch.failures.size > 0) {
+        return buildBulkPayload(taskIds, batch.failures);
+      }
+      const members = await getTeamMembers(teamId);
+      const movingIds = new Set([...batch.plans.values()].flatMap(({ subtree }) => subtree.map(task => task.id)));
+      const applied = withCoalescedEffects((effects) => new Map([...batch.plans].map(([id, { subtree }]) => {
+        subtree.forEach((task) => {
+          // A subtask listed on its own may already have moved with its parent
+          const current = findTaskById(task.id);
+          if (current.teamId !== teamId) {
+            moveTaskToTeam(current, teamId, { members, movingIds, actorId: actor.id }, effects);
+          }
+        });
+        return [id, findTaskById(id)];
+      })));
+      return buildBulkPayload(taskIds, batch.failures, applied);
+    },
+  },
+};
+
+module.exports = bulkResolvers;
@@ -0,0 +1,124 @@
+const { ForbiddenError, UserInputError } = require('apollo-server-express');
+const { v4: uuidv4 } = require('uuid');
+const { findTaskById } = require('../../data/tasksStore');
+const {
+  findCommentById,
+  addComment,
+  updateComment,
+  removeCommentThread,
+} = require('../../data/commentsStore');
+const { isAdmin, requireUser, assertTeamAccess } = require('../auth');
+const { recordActivity } = require('../activity');
+const { pubsub, notifyUser } = require('../taskEvents');
+const { getCommentTeamId } = require('../taskOperations');
+
+// Threaded comments on tasks
+const commentResolvers = {
+  Mutation: {
+    addComment: async (_, { taskId, body, parentId }, context) => {
+      const task = findTaskById(taskId);
+      if (!task) throw new UserInputError('Task not found');
+      const { id: authorId } = await assertTeamAccess(context, task.teamId);
+      if (!body.trim()) throw new UserInputError('Comment body is required');
+      if (parentId) {
+        const parent = findCommentById(parentId);
+        if (!parent || parent.taskId !== taskId) throw new UserInputError('Parent comment not found');
+      }
+      const comment = addComment({
+        id: uuidv4(),
+        taskId,
+        parentId: parentId || null,
+        authorId,
+        body: body.trim(),
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+        edited: false,
+      });
+      recordActivity({
+        action: 'COMMENT_ADDED',
+        entityType: 'comment',
+        entityId: comment.id,
+        taskId,
+        teamId: task.teamId,
+        actorId: authorId,
+        after: comment,
+      });
+      const recipients = new Set([task.assignedTo, task.createdBy]);
+      recipients.delete(authorId);
+      recipients.forEach((userId) => {
+        if (!userId) return;
+        notifyUser(userId, {
+          type: 'COMMENT_ADDED',
+          message: `New comment on task "${task.title}"`,
+          taskId
+        });
+      });
+      pubsub.publish(`COMMENT_ADDED_${taskId}`, { commentAdded: comment });
+      return comment;
+    },
+
+    editComment: async (_, { id, body }, context) => {
+      requireUser(context);
+      const comment = findCommentById(id);
+      if (!comment) throw new UserInputError('Comment not found');
+      // Authors who have left the task's team can no longer change their comments
+      const user = await assertTeamAccess(context, getCommentTeamId(comment));
+      if (comment.authorId !== user.id) throw new ForbiddenError('Only the author can edit this comment');
+      if (!body.trim()) throw new UserInputError('Comment body is required');
+      const updatedComment = updateComment(id, {
+        body: body.trim(),
+        edited: true,
+        updatedAt: new Date().toISOString(),
+      });
+      recordActivity({
+        action: 'COMMENT_EDITED',
+        entityType: 'comment',
+        entityId: id,
+        taskId: comment.taskId,
+        teamId: getCommentTeamId(comment),
+        actorId: user.id,
+        before: comment,
+        after: updatedComment,
+      });
+      return updatedComment;
+    },
+
+    deleteComment: async (_, { id }, context) => {
+      requireUser(context);
+      const comment = findCommentById(id);
+      if (!comment) return false;
+      const user = await assertTeamAccess(context, getCommentTeamId(comment));
+      if (comment.authorId !== user.id && !isAdmin(user)) {
+        throw new ForbiddenError('Only the author or an admin can delete this comment');
+      }
+      removeCommentThread(id);
+      recordActivity({
+        action: 'COMMENT_DELETED',
+        entityType: 'comment',
+        entityId: id,
+        taskId: comment.taskId,
+        teamId: getCommentTeamId(comment),
+        actorId: user.id,
+        before: comment,
+      });
+      return true;
+    },
+  },
+
+  Comment: {
+    author: (comment, _, { loaders }) => loaders.users.load(comment.authorId),
+  },
+
+  Subscription: {
+    commentAdded: {
+      subscribe: async (_, { taskId }, context) => {
+        const task = findTaskById(taskId);
+        if (!task) throw new UserInputError('Task not found');
+        await assertTeamAccess(context, task.teamId);
+        return pubsub.asyncIterator([`COMMENT_ADDED_${taskId}`]);
+      },
+    },
+  },
+};
+
+module.exports = commentResolvers;
@@ -0,0 +1,103 @@
+const { v4: uuidv4 } = require('uuid');
+const {
+  getCustomFieldsForTeam,
+  findCustomFieldById,
+  addCustomField,
+  updateCustomField,
+  removeCustomField,
+} = require('../../data/customFieldsStore');
+const { assertTeamAccess, assertTeamManager } = require('../auth');
+const { recordActivity } = require('../activity');
+const { normalizeFieldDefinition } = require('../customFields');
+const { updateTeamTasks } = require('../taskOperations');
+
+// Team custom fields; values are stored on the task
+const customFieldResolvers = {
+  Query: {
+    customFields: async (_, { teamId }, context) => {
+      await assertTeamAccess(context, teamId);
+      return getCustomFieldsForTeam(teamId);
+    },
+  },
+
+  Mutation: {
+    createCustomField: async (_, { teamId, input }, context) => {
+      const user = await assertTeamManager(context, teamId, 'Only admins and moderators can manage custom fields');
+      const now = new Date().toISOString();
+      const field = addCustomField({
+        id: uuidv4(),
+        teamId,
+        type: input.type,
+        ...normalizeFieldDefinition(teamId, input),
+        createdAt: now,
+        updatedAt: now,
+      });
+      recordActivity({
+        action: 'CUSTOM_FIELD_CREATED',
+        entityType: 'customField',
+        entityId: field.id,
+        teamId,
+        actorId: user.id,
+        after: field,
+      });
+      return field;
+    },
+
+    updateCustomField: async (_, { id, input }, context) => {
+      const field = findCustomFieldById(id);
+      if (!field) throw new Error('Custom field not found');
+      const user = await assertTeamManager(context, field.teamId, 'Only admins and moderators can manage custom fields');
+      const updatedField = updateCustomField(id, {
+        ...normalizeFieldDefinition(field.teamId, input, field),
+        updatedAt: new Date().toISOString(),
+      });
+      // Tasks holding an option that no longer exists lose the value
+      if (updatedField.type === 'SINGLE_SELECT') {
+        updateTeamTasks(field.teamId, (task) => {
+          const values = task.customFieldValues || {};
+          if (values[id] === undefined || updatedField.options.includes(values[id])) return null;
+          const { [id]: removed, ...rest } = values;
+          return { customFieldValues: rest };
+        });
+      }
+      recordActivity({
+        action: 'CUSTOM_FIELD_UPDATED',
+        entityType: 'customField',
+        entityId: id,
+        teamId: field.teamId,
+        actorId: user.id,
+        before: field,
+        after: updatedField,
+      });
+      return updatedField;
+    },
+
+    deleteCustomField: async (_, { id }, context) => {
+      const field = findCustomFieldById(id);
+      if (!field) return false;
+      const user = await assertTeamManager(context, field.teamId, 'Only admins and moderators can manage custom fields');
+      removeCustomField(id);
+      updateTeamTasks(field.teamId, (task) => {
+        const values = task.customFieldValues || {};
+        if (values[id] === undefined) return null;
+        const { [id]: removed, ...rest } = values;
+        return { customFieldValues: rest };
+      });
+      recordActivity({
+        action: 'CUSTOM_FIELD_DELETED',
+        entityType: 'customField',
+        entityId: id,
+        teamId: field.teamId,
+        actorId: user.id,
+        before: field,
+      });
+      return true;
+    },
+  },
+
+  CustomField: {
+    options: (field) => field.options || [],
+  },
+};
+
+module.exports = customFieldResolvers;
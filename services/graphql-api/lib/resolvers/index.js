@@ -0,0 +1,26 @@
+const taskResolvers = require('./tasks');
+const bulkResolvers = require('./bulk');
+const commentResolvers = require('./comments');
+const attachmentResolvers = require('./attachments');
+const notificationResolvers = require('./notifications');
+const workflowResolvers = require('./workflow');
+const labelResolvers = require('./labels');
+const customFieldResolvers = require('./customFields');
+const reportResolvers = require('./reports');
+const transferResolvers = require('./transfer');
+const webhookResolvers = require('./webhooks');
+
+// Each module resolves one area of the schema; makeExecutableSchema merges them
+module.exports = [
+  taskResolvers,
+  bulkResolvers,
+  commentResolvers,
+  attachmentResolvers,
+  notificationResolvers,
+  workflowResolvers,
+  labelResolvers,
+  customFieldResolvers,
+  reportResolvers,
+  transferResolvers,
+  webhookResolvers,
+];
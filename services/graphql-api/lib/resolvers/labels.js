@@ -0,0 +1,86 @@
+const { v4: uuidv4 } = require('uuid');
+const {
+  getLabelsForTeam,
+  findLabelById,
+  addLabel,
+  updateLabel,
+  removeLabel,
+} = require('../../data/labelsStore');
+const { assertTeamAccess, assertTeamManager } = require('../auth');
+const { recordActivity } = require('../activity');
+const { normalizeLabelInput } = require('../labels');
+const { updateTeamTasks } = require('../taskOperations');
+
+// Team labels
+const labelResolvers = {
+  Query: {
+    labels: async (_, { teamId }, context) => {
+      await assertTeamAccess(context, teamId);
+      return getLabelsForTeam(teamId);
+    },
+  },
+
+  Mutation: {
+    createLabel: async (_, { teamId, input }, context) => {
+      const user = await assertTeamManager(context, teamId, 'Only admins and moderators can manage labels');
+      const now = new Date().toISOString();
+      const label = addLabel({
+        id: uuidv4(),
+        teamId,
+        ...normalizeLabelInput(teamId, input),
+        createdAt: now,
+        updatedAt: now,
+      });
+      recordActivity({
+        action: 'LABEL_CREATED',
+        entityType: 'label',
+        entityId: label.id,
+        teamId,
+        actorId: user.id,
+        after: label,
+      });
+      return label;
+    },
+
+    updateLabel: async (_, { id, input }, context) => {
+      const label = findLabelById(id);
+      if (!label) throw new Error('Label not found');
+      const user = await assertTeamManager(context, label.teamId, 'Only admins and moderators can manage labels');
+      const updatedLabel = updateLabel(id, {
+        ...normalizeLabelInput(label.teamId, input, label),
+        updatedAt: new Date().toISOString(),
+      });
+      recordActivity({
+        action: 'LABEL_UPDATED',
+        entityType: 'label',
+        entityId: id,
+        teamId: label.teamId,
+        actorId: user.id,
+        before: label,
+        after: updatedLabel,
+      });
+      return updatedLabel;
+    },
+
+    deleteLabel: async (_, { id }, context) => {
+      const label = findLabelById(id);
+      if (!label) return false;
+      const user = await assertTeamManager(context, label.teamId, 'Only admins and moderators can manage labels');
+      removeLabel(id);
+      updateTeamTasks(label.teamId, task => (
+        (task.labelIds || []).includes(id) ? { labelIds: task.labelIds.filter(labelId => labelId !== id) } : null
+      ));
+      recordActivity({
+        action: 'LABEL_DELETED',
+        entityType: 'label',
+        entityId: id,
+        teamId: label.teamId,
+        actorId: user.id,
+        before: label,
+      });
+      return true;
+    },
+  },
+};
+
+module.exports = labelResolvers;
@@ -0,0 +1,78 @@
+const {
+  getNotificationsForUser,
+  findNotificationById,
+  updateNotification,
+  countUnreadNotifications,
+  markAllNotificationsRead,
+  removeNotification,
+} = require('../../data/notificationsStore');
+const { savePreferences } = require('../../data/notificationPreferencesStore');
+const { assertSelf } = require('../auth');
+const {
+  getNotificationPreferences,
+  applyPreferenceChanges,
+  getNotificationsConnection,
+} = require('../notifications');
+const { pubsub } = require('../taskEvents');
+
+// A user's notifications and the types they opted out of
+const notificationResolvers = {
+  Query: {
+    notifications: (_, { userId }, context) => {
+      assertSelf(context, userId);
+      return getNotificationsForUser(userId);
+    },
+    notificationsConnection: (_, { userId, first, after, unreadOnly }, context) => {
+      assertSelf(context, userId);
+      return getNotificationsConnection(userId, { first, after, unreadOnly });
+    },
+    unreadNotificationCount: (_, { userId }, context) => {
+      assertSelf(context, userId);
+      return countUnreadNotifications(userId);
+    },
+    notificationPreferences: (_, { userId }, context) => {
+      assertSelf(context, userId);
+      return getNotificationPreferences(userId);
+    },
+  },
+
+  Mutation: {
+    markNotificationRead: (_, { id }, context) => {
+      const notification = findNotificationById(id);
+      if (!notification) return false;
+      assertSelf(context, notification.userId);
+      updateNotification(id, { read: true });
+      return true;
+    },
+
+    markAllNotificationsRead: (_, { userId }, context) => {
+      assertSelf(context, userId);
+      return markAllNotificationsRead(userId);
+    },
+
+    deleteNotification: (_, { id }, context) => {
+      const notification = findNotificationById(id);
+      if (!notification) return false;
+      assertSelf(context, notification.userId);
+      removeNotification(id);
+      return true;
+    },
+
+    updateNotificationPreferences: (_, { userId, input }, context) => {
+      assertSelf(context, userId);
+      savePreferences(userId, { disabledTypes: applyPreferenceChanges(userId, input), updatedAt: new Date().toISOString() });
+      return getNotificationPreferences(userId);
+    },
+  },
+
+  Subscription: {
+    notificationAdded: {
+      subscribe: (_, { userId }, context) => {
+        assertSelf(context, userId);
+        return pubsub.asyncIterator([`NOTIFICATION_ADDED_${userId}`]);
+      },
+    },
+  },
+};
+
+module.exports = notificationResolvers;
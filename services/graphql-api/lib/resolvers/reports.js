@@ -0,0 +1,34 @@
+const { UserInputError } = require('apollo-server-express');
+const { getActivityForTeam } = require('../../data/activityStore');
+const { assertTeamAccess } = require('../auth');
+const { formatChangeValue } = require('../activity');
+const { computeTeamStats } = require('../teamStats');
+
+// Team activity feed and statistics
+const reportResolvers = {
+  Query: {
+    activity: async (_, { teamId, since, limit }, context) => {
+      await assertTeamAccess(context, teamId);
+      if (since && Number.isNaN(Date.parse(since))) {
+        throw new UserInputError('since must be an ISO date', { field: 'since' });
+      }
+      const entries = getActivityForTeam(teamId, { since: since ? new Date(since).toISOString() : undefined });
+      return entries.slice(0, Math.max(0, limit));
+    },
+    teamStats: async (_, { teamId, from, to }, context) => {
+      await assertTeamAccess(context, teamId);
+      return computeTeamStats(teamId, from, to);
+    },
+  },
+
+  AssigneeWorkload: {
+    assignee: (entry, _, { loaders }) => (entry.assigneeId ? loaders.users.load(entry.assigneeId) : null),
+  },
+
+  FieldChange: {
+    from: (change) => formatChangeValue(change.from),
+    to: (change) => formatChangeValue(change.to),
+  },
+};
+
+module.exports = reportResolvers;
@@ -0,0 +1,441 @@
+const { ForbiddenError, UserInputError } = require('apollo-server-express');
+const { v4: uuidv4 } = require('uuid');
+const {
+  getTasks,
+  findTaskById,
+  getSubtasks,
+  getBlockedTasks,
+  addTask,
+  updateTask,
+} = require('../../data/tasksStore');
+const { getCommentsForTask } = require('../../data/commentsStore');
+const { getActivityForTask } = require('../../data/activityStore');
+const { findLabelById } = require('../../data/labelsStore');
+const { getAttachmentsForTask } = require('../../data/attachmentsStore');
+const { findSeriesById, updateSeries } = require('../../data/seriesStore');
+const { isAdmin, assertTeamAccess, assertAssignable } = require('../auth');
+const { applyTaskFilter, paginateTasks } = require('../taskQuery');
+const { recordActivity } = require('../activity');
+const { getNextPosition, assertValidPosition } = require('../board');
+const { assertValidSchedule, filterTasksInRange } = require('../schedule');
+const { recordStatusChange } = require('../teamStats');
+const { assertTeamLabels } = require('../labels');
+const { applyCustomFieldValues, getTaskCustomFields } = require('../customFields');
+const { normalizeRule, toRRule, assertCanRecur } = require('../recurrence');
+const {
+  CLOSED_STATUSES,
+  getDescendants,
+  getOpenSubtasks,
+  calculateProgress,
+  assertValidParent,
+} = require('../taskTree');
+const {
+  getBlockers,
+  getOpenBlockers,
+  assertValidDependency,
+  getUnblockedTasks,
+} = require('../taskDependencies');
+const { getAllowedTransitions, assertTransition } = require('../workflow');
+const {
+  pubsub,
+  notifyUser,
+  publishTaskCreated,
+  publishTaskUpdated,
+} = require('../taskEvents');
+const {
+  getVisibleTasks,
+  notifyUnblocked,
+  destroyTask,
+  startSeries,
+  updateSeriesFrom,
+  createNextOccurrence,
+  updateChecklist,
+} = require('../taskOperations');
+
+// Tasks, their checklists and dependencies, and the live task events of a team
+const taskResolvers = {
+  Query: {
+    tasks: async (_, { teamId, assignedTo, status, includeArchived, labelIds, customFields }, context) => {
+      const tasks = await getVisibleTasks(context, { teamId, assignedTo, status, includeArchived });
+      return applyTaskFilter(tasks, { labelIds, customFields });
+    },
+    tasksConnection: async (_, { first, after, orderBy, filter }, context) => {
+      const { teamId, ...criteria } = filter || {};
+      const tasks = await getVisibleTasks(context, { teamId });
+      return paginateTasks(applyTaskFilter(tasks, criteria), { first, after, orderBy });
+    },
+    tasksInRange: async (_, { teamId, from, to }, context) => {
+      const tasks = await getVisibleTasks(context, { teamId });
+      return filterTasksInRange(tasks, from, to);
+    },
+    task: async (_, { id }, context) => {
+      const task = findTaskById(id);
+      if (!task) return null;
+      await assertTeamAccess(context, task.teamId);
+      return task;
+    },
+    team: async (_, { id }, context) => {
+      await assertTeamAccess(context, id);
+      return context.loaders.teams.load(id);
+    },
+  },
+
+  Mutation: {
+    createTask: async (_, { input }, context) => {
+      const { id: createdBy } = await assertTeamAccess(context, input.teamId);
+      const { recurrence, labelIds, customFields, ...fields } = input;
+      await assertAssignable(input.teamId, input.assignedTo);
+      assertValidSchedule(input);
+      if (input.parentId) {
+        assertValidParent(input.parentId, { teamId: input.teamId });
+      }
+      const rule = recurrence ? normalizeRule(recurrence) : null;
+      if (rule) {
+        assertCanRecur(input);
+      }
+      const taskLabelIds = assertTeamLabels(input.teamId, labelIds || []);
+      const customFieldValues = await applyCustomFieldValues(input.teamId, {}, customFields || []);
+      const newTask = {
+        id: uuidv4(),
+        ...fields,
+        startDate: input.startDate || null,
+        parentId: input.parentId || null,
+        checklist: (input.checklist || []).map(item => ({
+          id: uuidv4(),
+          text: item.text,
+          done: Boolean(item.done),
+        })),
+        labelIds: taskLabelIds,
+        customFieldValues,
+        blockedBy: [],
+        status: 'TODO',
+        position: getNextPosition(input.teamId, 'TODO'),
+        seriesId: null,
+        occurrence: null,
+        archivedAt: null,
+        createdBy,
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+      };
+      if (rule) {
+        newTask.seriesId = startSeries(newTask, rule).id;
+        newTask.occurrence = 1;
+      }
+      addTask(newTask);
+      recordStatusChange(newTask, null, createdBy);
+      recordActivity({
+        action: 'TASK_CREATED',
+        entityId: newTask.id,
+        taskId: newTask.id,
+        teamId: newTask.teamId,
+        actorId: createdBy,
+        after: newTask,
+      });
+      if (input.assignedTo && input.assignedTo !== createdBy) {
+        notifyUser(input.assignedTo, {
+          type: 'TASK_ASSIGNED',
+          message: `You have been assigned a new task: ${input.title}`,
+          taskId: newTask.id
+        });
+      }
+      publishTaskCreated(newTask);
+      return newTask;
+    },
+
+    updateTask: async (_, { id, input, force, scope }, context) => {
+      const oldTask = findTaskById(id);
+      if (!oldTask) throw new Error('Task not found');
+      const user = await assertTeamAccess(context, oldTask.teamId);
+      const { recurrence, labelIds, customFields, ...fields } = input;
+      const editsSeries = Boolean(oldTask.seriesId) && scope === 'ALL_FUTURE';
+      if (recurrence) {
+        normalizeRule(recurrence);
+        if (oldTask.seriesId && !editsSeries) {
+          throw new UserInputError('Changing the recurrence applies to the whole series; pass scope: ALL_FUTURE', {
+            field: 'recurrence',
+          });
+        }
+      }
+      if (recurrence || editsSeries) {
+        assertCanRecur({ ...oldTask, ...fields });
+      }
+      if (input.status && input.status !== oldTask.status) {
+        assertTransition({ ...oldTask, ...input, status: oldTask.status }, input.status, user);
+      }
+      if (input.assignedTo && input.assignedTo !== oldTask.assignedTo) {
+        await assertAssignable(oldTask.teamId, input.assignedTo);
+      }
+      if (input.parentId) {
+        assertValidParent(input.parentId, { teamId: oldTask.teamId, taskId: id });
+      }
+      if (input.startDate !== undefined || input.dueDate !== undefined) {
+        assertValidSchedule({ ...oldTask, ...input });
+      }
+      if (input.position !== undefined && input.position !== null) {
+        assertValidPosition(input.position);
+      }
+      if (labelIds) {
+        fields.labelIds = assertTeamLabels(oldTask.teamId, labelIds);
+      }
+      if (customFields) {
+        fields.customFieldValues = await applyCustomFieldValues(oldTask.teamId, oldTask.customFieldValues, customFields);
+      }
+      if (input.status === 'COMPLETED' && oldTask.status !== 'COMPLETED') {
+        const openSubtasks = getOpenSubtasks(id);
+        if (openSubtasks.length > 0) {
+          throw new UserInputError('Complete or cancel all subtasks before completing this task', {
+            openSubtasks: openSubtasks.map(task => task.id),
+          });
+        }
+      }
+      const isStarting = ['IN_PROGRESS', 'COMPLETED'].includes(input.status) && input.status !== oldTask.status;
+      if (isStarting && !force) {
+        const openBlockers = getOpenBlockers(oldTask);
+        if (openBlockers.length > 0) {
+          throw new UserInputError('This task is blocked by unfinished tasks; pass force: true to override', {
+            blockedBy: openBlockers.map(task => task.id),
+          });
+        }
+      }
+      // A card moved to another column without an explicit slot lands at the bottom
+      const movesColumn = input.status && input.status !== oldTask.status;
+      const position = input.position ?? (movesColumn ? getNextPosition(oldTask.teamId, input.status) : oldTask.position);
+      let updatedTask = updateTask(id, {
+        ...fields,
+        position,
+        updatedAt: new Date().toISOString(),
+      });
+      if (recurrence && !oldTask.seriesId) {
+        updatedTask = updateTask(id, { seriesId: startSeries(updatedTask, normalizeRule(recurrence)).id, occurrence: 1 });
+      } else if (editsSeries) {
+        updateSeriesFrom(updatedTask, input, user.id);
+      }
+      if (updatedTask.status !== oldTask.status) {
+        recordStatusChange(updatedTask, oldTask.status, user.id);
+      }
+      recordActivity({
+        action: 'TASK_UPDATED',
+        entityId: id,
+        taskId: id,
+        teamId: oldTask.teamId,
+        actorId: user.id,
+        before: oldTask,
+        after: updatedTask,
+      });
+      if (input.status && input.status !== oldTask.status && updatedTask.assignedTo) {
+        notifyUser(updatedTask.assignedTo, {
+          type: 'TASK_STATUS_CHANGED',
+          message: `Task "${updatedTask.title}" status changed to ${input.status}`,
+          taskId: updatedTask.id
+        });
+      }
+      publishTaskUpdated(updatedTask);
+      if (CLOSED_STATUSES.includes(updatedTask.status) && !CLOSED_STATUSES.includes(oldTask.status)) {
+        notifyUnblocked(getUnblockedTasks(id));
+      }
+      if (updatedTask.status === 'COMPLETED' && oldTask.status !== 'COMPLETED') {
+        createNextOccurrence(updatedTask, user.id);
+      }
+      return updatedTask;
+    },
+
+    stopRecurrence: async (_, { taskId }, context) => {
+      const task = findTaskById(taskId);
+      if (!task) throw new Error('Task not found');
+      const { id: actorId } = await assertTeamAccess(context, task.teamId);
+      const series = task.seriesId ? findSeriesById(task.seriesId) : null;
+      if (!series) throw new UserInputError('This task does not repeat');
+      if (series.active) {
+        updateSeries(series.id, { active: false, updatedAt: new Date().toISOString() });
+        recordActivity({
+          action: 'RECURRENCE_STOPPED',
+          entityId: taskId,
+          taskId,
+          teamId: task.teamId,
+          actorId,
+        });
+        publishTaskUpdated(task);
+      }
+      return task;
+    },
+
+    deleteTask: async (_, { id, cascade }, context) => {
+      const existing = findTaskById(id);
+      if (!existing) return false;
+      const user = await assertTeamAccess(context, existing.teamId);
+      if (!isAdmin(user) && existing.createdBy !== user.id) {
+        throw new ForbiddenError('Only the task creator or an admin can delete this task');
+      }
+      const descendants = getDescendants(id);
+      if (descendants.length > 0 && !cascade) {
+        throw new UserInputError('This task has subtasks; delete them first or pass cascade: true', {
+          subtasks: descendants.map(task => task.id),
+        });
+      }
+      descendants.reverse().forEach(task => destroyTask(task, user.id));
+      destroyTask(existing, user.id);
+      return true;
+    },
+
+    addChecklistItem: async (_, { taskId, text }, context) => {
+      const task = findTaskById(taskId);
+      if (!task) throw new Error('Task not found');
+      const { id: actorId } = await assertTeamAccess(context, task.teamId);
+      if (!text.trim()) throw new UserInputError('Checklist item text is required');
+      return updateChecklist(task, [...(task.checklist || []), { id: uuidv4(), text: text.trim(), done: false }], actorId);
+    },
+
+    updateChecklistItem: async (_, { taskId, itemId, text, done }, context) => {
+      const task = findTaskById(taskId);
+      if (!task) throw new Error('Task not found');
+      const { id: actorId } = await assertTeamAccess(context, task.teamId);
+      const checklist = task.checklist || [];
+      if (!checklist.some(item => item.id === itemId)) throw new UserInputError('Checklist item not found');
+      return updateChecklist(task, checklist.map(item => (item.id === itemId ? {
+        ...item,
+        ...(text !== undefined && text !== null ? { text: text.trim() } : {}),
+        ...(done !== undefined && done !== null ? { done } : {}),
+      } : item)), actorId);
+    },
+
+    removeChecklistItem: async (_, { taskId, itemId }, context) => {
+      const task = findTaskById(taskId);
+      if (!task) throw new Error('Task not found');
+      const { id: actorId } = await assertTeamAccess(context, task.teamId);
+      return updateChecklist(task, (task.checklist || []).filter(item => item.id !== itemId), actorId);
+    },
+
+    addDependency: async (_, { taskId, blockerId }, context) => {
+      const task = findTaskById(taskId);
+      const blocker = findTaskById(blockerId);
+      if (!task || !blocker) throw new Error('Task not found');
+      const { id: actorId } = await assertTeamAccess(context, task.teamId);
+      assertValidDependency(task, blocker);
+      const blockedBy = task.blockedBy || [];
+      if (blockedBy.includes(blockerId)) return task;
+      const updatedTask = updateTask(taskId, {
+        blockedBy: [...blockedBy, blockerId],
+        updatedAt: new Date().toISOString(),
+      });
+      recordActivity({
+        action: 'DEPENDENCY_ADDED',
+        entityId: taskId,
+        taskId,
+        teamId: task.teamId,
+        actorId,
+        before: task,
+        after: updatedTask,
+      });
+      publishTaskUpdated(updatedTask);
+      return updatedTask;
+    },
+
+    removeDependency: async (_, { taskId, blockerId }, context) => {
+      const task = findTaskById(taskId);
+      if (!task) throw new Error('Task not found');
+      const { id: actorId } = await assertTeamAccess(context, task.teamId);
+      const blockedBy = task.blockedBy || [];
+      if (!blockedBy.includes(blockerId)) return task;
+      const wasBlocked = getOpenBlockers(task).length > 0;
+      const updatedTask = updateTask(taskId, {
+        blockedBy: blockedBy.filter(id => id !== blockerId),
+        updatedAt: new Date().toISOString(),
+      });
+      recordActivity({
+        action: 'DEPENDENCY_REMOVED',
+        entityId: taskId,
+        taskId,
+        teamId: task.teamId,
+        actorId,
+        before: task,
+        after: updatedTask,
+      });
+      if (wasBlocked && getOpenBlockers(updatedTask).length === 0 && !CLOSED_STATUSES.includes(updatedTask.status)) {
+        notifyUnblocked([updatedTask]);
+      } else {
+        publishTaskUpdated(updatedTask);
+      }
+      return updatedTask;
+    },
+  },
+
+  Task: {
+    parent: (task) => (task.parentId ? findTaskById(task.parentId) : null),
+    subtasks: (task) => getSubtasks(task.id),
+    checklist: (task) => task.checklist || [],
+    position: (task) => (typeof task.position === 'number' ? task.position : 0),
+    recurrence: (task) => {
+      const series = task.seriesId ? findSeriesById(task.seriesId) : null;
+      return series && series.active ? series.rule : null;
+    },
+    progress: (task) => calculateProgress(task),
+    blockedBy: (task) => getBlockers(task),
+    blocking: (task) => getBlockedTasks(task.id),
+    isBlocked: (task) => getOpenBlockers(task).length > 0,
+    allowedTransitions: (task, _, context) => getAllowedTransitions(task, context.user),
+    history: (task) => getActivityForTask(task.id),
+    comments: (task) => getCommentsForTask(task.id),
+    // Checked here because download links are handed out with the list
+    attachments: async (task, _, context) => {
+      await assertTeamAccess(context, task.teamId);
+      return getAttachmentsForTask(task.id);
+    },
+    labelIds: (task) => task.labelIds || [],
+    labels: (task) => (task.labelIds || []).map(labelId => findLabelById(labelId)).filter(Boolean),
+    customFields: (task) => getTaskCustomFields(task),
+    assignee: (task, _, { loaders }) => (task.assignedTo ? loaders.users.load(task.assignedTo) : null),
+    creator: (task, _, { loaders }) => loaders.users.load(task.createdBy),
+    team: (task, _, { loaders }) => loaders.teams.load(task.teamId),
+  },
+
+  User: {
+    team: (user, _, { loaders }) => (user.teamId ? loaders.teams.load(user.teamId) : null),
+  },
+
+  Team: {
+    // Members deleted in the meantime resolve to null and are left out
+    members: async (team, _, { loaders }) => {
+      const members = await loaders.users.loadMany(team.members || []);
+      const failure = members.find(member => member instanceof Error);
+      if (failure) throw failure;
+      return members.filter(Boolean);
+    },
+    tasks: async (team, { status }, context) => {
+      await assertTeamAccess(context, team.id);
+      return getTasks({ teamId: team.id, status });
+    },
+  },
+
+  Recurrence: {
+    rule: (rule) => toRRule(rule),
+  },
+
+  Subscription: {
+    taskCreated: {
+      subscribe: async (_, { teamId }, context) => {
+        await assertTeamAccess(context, teamId);
+        return pubsub.asyncIterator([`TASK_CREATED_${teamId}`]);
+      },
+    },
+    taskUpdated: {
+      subscribe: async (_, { teamId }, context) => {
+        await assertTeamAccess(context, teamId);
+        return pubsub.asyncIterator([`TASK_UPDATED_${teamId}`]);
+      },
+    },
+    taskDeleted: {
+      subscribe: async (_, { teamId }, context) => {
+        await assertTeamAccess(context, teamId);
+        return pubsub.asyncIterator([`TASK_DELETED_${teamId}`]);
+      },
+    },
+    tasksChanged: {
+      subscribe: async (_, { teamId }, context) => {
+        await assertTeamAccess(context, teamId);
+        return pubsub.asyncIterator([`TASKS_CHANGED_${teamId}`]);
+      },
+    },
+  },
+};
+
+module.exports = taskResolvers;
@@ -0,0 +1,37 @@
+const { assertTeamAccess, assertTeamManager } = require('../auth');
+const {
+  exportTasks,
+  parseTaskImport,
+  planTaskImport,
+  buildTaskImportReport,
+} = require('../taskTransfer');
+const { applyTaskImport } = require('../taskOperations');
+
+// Task import and export; see lib/taskTransfer
+const transferResolvers = {
+  Query: {
+    exportTasks: async (_, { teamId, format }, context) => {
+      await assertTeamAccess(context, teamId);
+      return exportTasks(teamId, format);
+    },
+  },
+
+  Mutation: {
+    importTasks: async (_, { teamId, format, content, dryRun, userIdMap, force }, context) => {
+      const actor = await assertTeamManager(context, teamId, 'Only admins and moderators can import tasks');
+      const rows = parseTaskImport(format, content);
+      const plan = await planTaskImport(teamId, rows, {
+        userIdMap: userIdMap || [],
+        users: context.loaders.users,
+        actor,
+        force,
+      });
+      if (!dryRun) {
+        applyTaskImport(plan.tasks, actor.id);
+      }
+      return buildTaskImportReport(plan, dryRun);
+    },
+  },
+};
+
+module.exports = transferResolvers;
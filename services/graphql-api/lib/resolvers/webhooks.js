@@ -0,0 +1,60 @@
+const { v4: uuidv4 } = require('uuid');
+const {
+  getWebhooksForTeam,
+  findWebhookById,
+  addWebhook,
+  removeWebhook,
+  getDeliveriesForWebhook,
+} = require('../../data/webhooksStore');
+const { assertTeamManager } = require('../auth');
+const { WEBHOOK_EVENTS, validateWebhookInput, generateSecret } = require('../webhooks');
+const { allowPrivateWebhookTargets } = require('../taskEvents');
+
+// Webhook registrations and their delivery log; see lib/webhooks
+const webhookResolvers = {
+  Query: {
+    webhooks: async (_, { teamId }, context) => {
+      await assertTeamManager(context, teamId, 'Only admins and moderators can manage webhooks');
+      return getWebhooksForTeam(teamId);
+    },
+    webhookEvents: () => WEBHOOK_EVENTS,
+  },
+
+  Mutation: {
+    // The secret is only returned here; receivers use it to verify X-Webhook-Signature
+    registerWebhook: async (_, { teamId, input }, context) => {
+      const user = await assertTeamManager(context, teamId, 'Only admins and moderators can manage webhooks');
+      await validateWebhookInput(input, { allowPrivateNetworks: allowPrivateWebhookTargets });
+      const secret = input.secret || generateSecret();
+      const webhook = addWebhook({
+        id: uuidv4(),
+        teamId,
+        url: input.url,
+        events: [...new Set(input.events)],
+        secret,
+        active: true,
+        createdBy: user.id,
+        createdAt: new Date().toISOString(),
+      });
+      return { webhook, secret };
+    },
+
+    deleteWebhook: async (_, { id }, context) => {
+      const webhook = findWebhookById(id);
+      if (!webhook) return false;
+      await assertTeamManager(context, webhook.teamId, 'Only admins and moderators can manage webhooks');
+      removeWebhook(id);
+      return true;
+    },
+  },
+
+  Webhook: {
+    deliveries: (webhook, { limit }) => getDeliveriesForWebhook(webhook.id).slice(0, Math.max(0, limit)),
+  },
+
+  WebhookDelivery: {
+    payload: (delivery) => JSON.stringify(delivery.payload),
+  },
+};
+
+module.exports = webhookResolvers;
@@ -0,0 +1,43 @@
+const { saveWorkflow } = require('../../data/workflowsStore');
+const { assertTeamAccess, assertTeamManager } = require('../auth');
+const { recordActivity } = require('../activity');
+const { STATUSES, getTeamWorkflow, buildWorkflow, getWorkflowSettings } = require('../workflow');
+
+// Per-team status workflow
+const workflowResolvers = {
+  Query: {
+    workflow: async (_, { teamId }, context) => {
+      await assertTeamAccess(context, teamId);
+      return getTeamWorkflow(teamId);
+    },
+  },
+
+  Mutation: {
+    updateWorkflow: async (_, { teamId, input }, context) => {
+      const user = await assertTeamManager(context, teamId, 'Only admins and moderators can change a team workflow');
+      const before = getTeamWorkflow(teamId);
+      saveWorkflow(teamId, {
+        ...buildWorkflow(teamId, input),
+        updatedAt: new Date().toISOString(),
+        updatedBy: user.id,
+      });
+      const after = getTeamWorkflow(teamId);
+      recordActivity({
+        action: 'WORKFLOW_UPDATED',
+        entityType: 'workflow',
+        entityId: teamId,
+        teamId,
+        actorId: user.id,
+        before: getWorkflowSettings(before),
+        after: getWorkflowSettings(after),
+      });
+      return after;
+    },
+  },
+
+  Workflow: {
+    transitions: (workflow) => STATUSES.map(from => ({ from, to: workflow.transitions[from] || [] })),
+  },
+};
+
+module.exports = workflowResolvers;
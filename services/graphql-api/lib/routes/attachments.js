@@ -0,0 +1,135 @@
+const express = require('express');
+const multer = require('multer');
+const path = require('path');
+const { v4: uuidv4 } = require('uuid');
+const { findTaskById } = require('../../data/tasksStore');
+const { findAttachmentById, addAttachment } = require('../../data/attachmentsStore');
+const { buildAuthContext, canAccessTeam } = require('../auth');
+const { recordActivity } = require('../activity');
+const { fileStorage } = require('../fileStorage');
+const {
+  MAX_ATTACHMENT_BYTES,
+  ALLOWED_MIME_TYPES,
+  isAllowedMimeType,
+  getStorageKey,
+  getDownloadUrl,
+  verifyDownloadSignature,
+  removeStoredFile,
+} = require('../attachments');
+
+const router = express.Router();
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_ATTACHMENT_BYTES, files: 1 },
+  defParamCharset: 'utf8',
+  fileFilter: (req, file, callback) => {
+    if (!isAllowedMimeType(file.mimetype)) {
+      const error = new Error(`Files of type ${file.mimetype} are not allowed`);
+      error.code = 'UNSUPPORTED_MIME_TYPE';
+      return callback(error);
+    }
+    return callback(null, true);
+  },
+}).single('file');
+
+/**
+ * POST /attachments/tasks/:taskId
+ * Upload one file (multipart field "file") to a task. Proxied by the API Gateway,
+ * which passes the caller's bearer token through.
+ */
+router.post('/tasks/:taskId', async (req, res, next) => {
+  const { user } = await buildAuthContext(req);
+  if (!user || !user.id) {
+    return res.status(401).json({ error: 'You must be logged in' });
+  }
+  const task = findTaskById(req.params.taskId);
+  if (!task) {
+    return res.status(404).json({ error: 'Task not found' });
+  }
+  if (!(await canAccessTeam(user, task.teamId))) {
+    return res.status(403).json({ error: 'You are not a member of this team' });
+  }
+
+  // The body is only read once the caller is known to be allowed to attach files here
+  upload(req, res, async (error) => {
+    if (error) {
+      if (error.code === 'LIMIT_FILE_SIZE') {
+        return res.status(413).json({ error: `Files must be at most ${MAX_ATTACHMENT_BYTES} bytes`, maxBytes: MAX_ATTACHMENT_BYTES });
+      }
+      if (error.code === 'UNSUPPORTED_MIME_TYPE') {
+        return res.status(415).json({ error: error.message, allowed: ALLOWED_MIME_TYPES });
+      }
+      return res.status(400).json({ error: error.message });
+    }
+    if (!req.file) {
+      return res.status(400).json({ error: 'Send the file in a multipart field named "file"' });
+    }
+
+    try {
+      const attachment = {
+        id: uuidv4(),
+        taskId: task.id,
+        name: path.basename(req.file.originalname).slice(0, 255) || 'file',
+        size: req.file.size,
+        mimeType: req.file.mimetype.toLowerCase(),
+        uploadedBy: user.id,
+        createdAt: new Date().toISOString(),
+      };
+      await fileStorage.put(getStorageKey(attachment), req.file.buffer, { contentType: attachment.mimeType });
+
+      // The task may have been deleted while the file was being stored
+      if (!findTaskById(task.id)) {
+        removeStoredFile(attachment);
+        return res.status(404).json({ error: 'Task not found' });
+      }
+      addAttachment(attachment);
+      recordActivity({
+        action: 'ATTACHMENT_ADDED',
+        entityType: 'attachment',
+        entityId: attachment.id,
+        taskId: task.id,
+        teamId: task.teamId,
+        actorId: user.id,
+        after: attachment,
+      });
+      res.status(201).json({ attachment: { ...attachment, downloadUrl: getDownloadUrl(attachment) } });
+    } catch (storageError) {
+      next(storageError);
+    }
+  });
+});
+
+/**
+ * GET /attachments/:id/download
+ * Serve a file for a signed link from Attachment.downloadUrl; no other credentials are needed.
+ */
+router.get('/:id/download', async (req, res, next) => {
+  const { expires, signature } = req.query;
+  if (!verifyDownloadSignature(req.params.id, expires, signature)) {
+    return res.status(403).json({ error: 'Invalid or expired download link' });
+  }
+  const attachment = findAttachmentById(req.params.id);
+  if (!attachment) {
+    return res.status(404).json({ error: 'Attachment not found' });
+  }
+
+  try {
+    const body = await fileStorage.get(getStorageKey(attachment));
+    if (!body) {
+      return res.status(404).json({ error: 'Attachment not found' });
+    }
+    res.set({
+      'Content-Type': attachment.mimeType,
+      'Content-Length': body.length,
+      'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(attachment.name)}`,
+      'X-Content-Type-Options': 'nosniff',
+      'Cache-Control': 'private, no-store',
+    });
+    res.send(body);
+  } catch (error) {
+    next(error);
+  }
+});
+
+module.exports = router;
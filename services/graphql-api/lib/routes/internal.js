@@ -0,0 +1,31 @@
+const express = require('express');
+const { isValidEvent, verifyEventSignature } = require('../eventBus');
+const { eventConsumer } = require('../eventHandlers');
+
+const router = express.Router();
+
+// Event bus subscriber endpoint for the User Service. Not proxied by the API Gateway, and only
+// events signed with the shared token are accepted. A non-2xx answer makes the broker redeliver.
+const captureRawBody = (req, res, buffer) => {
+  req.rawBody = buffer;
+};
+
+router.post('/events', express.json({ verify: captureRawBody }), async (req, res) => {
+  if (!verifyEventSignature(req.rawBody, req.headers['x-event-signature'])) {
+    return res.status(401).json({ error: 'Invalid event signature' });
+  }
+  const event = req.body;
+  if (!isValidEvent(event)) {
+    return res.status(400).json({ error: 'Malformed event' });
+  }
+
+  try {
+    const { duplicate } = await eventConsumer.handle(event);
+    res.json({ accepted: true, duplicate });
+  } catch (error) {
+    console.error(`Failed to handle ${event.type} event ${event.id}:`, error);
+    res.status(500).json({ error: 'Event handling failed' });
+  }
+});
+
+module.exports = router;
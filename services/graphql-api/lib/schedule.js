@@ -0,0 +1,45 @@
+const { UserInputError } = require('apollo-server-express');
+const { toTime } = require('./taskQuery');
+
+// Start and due dates must parse, and a task cannot be due before it starts
+const assertValidSchedule = ({ startDate, dueDate }) => {
+  ['startDate', 'dueDate'].forEach((field) => {
+    const value = field === 'startDate' ? startDate : dueDate;
+    if (value && toTime(value) === null) {
+      throw new UserInputError(`${field} must be a valid date`, { field });
+    }
+  });
+
+  if (startDate && dueDate && toTime(startDate) > toTime(dueDate)) {
+    throw new UserInputError('startDate must not be after dueDate', { field: 'startDate' });
+  }
+};
+
+// The span a task occupies on a calendar; a single date makes it a one-point span
+const getSchedule = (task) => {
+  const start = toTime(task.startDate || task.dueDate);
+  const end = toTime(task.dueDate || task.startDate);
+  return start === null ? null : { start, end };
+};
+
+// Tasks whose span overlaps [from, to]; undated tasks never match
+const filterTasksInRange = (tasks, from, to) => {
+  const rangeStart = toTime(from);
+  const rangeEnd = toTime(to);
+  if (rangeStart === null || rangeEnd === null) {
+    throw new UserInputError('from and to must be valid dates');
+  }
+  if (rangeStart > rangeEnd) {
+    throw new UserInputError('from must not be after to', { field: 'from' });
+  }
+
+  return tasks.filter((task) => {
+    const schedule = getSchedule(task);
+    return schedule !== null && schedule.start <= rangeEnd && schedule.end >= rangeStart;
+  });
+};
+
+module.exports = {
+  assertValidSchedule,
+  filterTasksInRange,
+};
@@ -0,0 +1,46 @@
+const { UserInputError } = require('apollo-server-express');
+const { findTaskById, getBlockedTasks } = require('../data/tasksStore');
+const { CLOSED_STATUSES } = require('./taskTree');
+
+const getBlockers = (task) => (task.blockedBy || []).map(findTaskById).filter(Boolean);
+
+const getOpenBlockers = (task) => getBlockers(task).filter((blocker) => !CLOSED_STATUSES.includes(blocker.status));
+
+// True when `fromId` already waits on `toId`, directly or through a chain of blockers
+const dependsOn = (fromId, toId) => {
+  const visited = new Set();
+  const stack = [fromId];
+  while (stack.length > 0) {
+    const current = findTaskById(stack.pop());
+    if (!current || visited.has(current.id)) continue;
+    visited.add(current.id);
+    if ((current.blockedBy || []).includes(toId)) return true;
+    stack.push(...(current.blockedBy || []));
+  }
+  return false;
+};
+
+// "task is blocked by blocker" must stay inside one team and must not close a loop
+const assertValidDependency = (task, blocker) => {
+  if (task.id === blocker.id) {
+    throw new UserInputError('A task cannot block itself', { field: 'blockerId' });
+  }
+  if (task.teamId !== blocker.teamId) {
+    throw new UserInputError('Dependencies must link tasks of the same team', { field: 'blockerId' });
+  }
+  if (dependsOn(blocker.id, task.id)) {
+    throw new UserInputError('This dependency would create a cycle', { field: 'blockerId' });
+  }
+};
+
+// Tasks waiting on the given blocker whose last open blocker is now out of the way
+const getUnblockedTasks = (blockerId) => getBlockedTasks(blockerId).filter((task) => (
+  !CLOSED_STATUSES.includes(task.status) && getOpenBlockers(task).length === 0
+));
+
+module.exports = {
+  getBlockers,
+  getOpenBlockers,
+  assertValidDependency,
+  getUnblockedTasks,
+};
@@ -0,0 +1,86 @@
+const { PubSub } = require('graphql-subscriptions');
+const { v4: uuidv4 } = require('uuid');
+const db = require('../data/db');
+const { addNotification } = require('../data/notificationsStore');
+const { isNotificationEnabled } = require('./notifications');
+const { createLiveEffects } = require('./liveEffects');
+const { createWebhookDispatcher } = require('./webhooks');
+
+const pubsub = new PubSub();
+
+const allowPrivateWebhookTargets = process.env.WEBHOOK_ALLOW_PRIVATE_NETWORKS === 'true';
+const webhookDispatcher = createWebhookDispatcher({
+  maxAttempts: Number(process.env.WEBHOOK_MAX_ATTEMPTS) || 5,
+  baseDelayMs: Number(process.env.WEBHOOK_RETRY_BASE_MS) || 1000,
+  maxLoggedDeliveries: Number(process.env.WEBHOOK_DELIVERY_LOG_LIMIT) || 100,
+  allowPrivateNetworks: allowPrivateWebhookTargets,
+});
+
+// Store a notification and push it to the user's live channel, unless they opted out of its type
+const notifyUser = (userId, { type, message, taskId }) => {
+  if (!isNotificationEnabled(userId, type)) return null;
+
+  const notification = {
+    id: uuidv4(),
+    userId,
+    message,
+    type,
+    read: false,
+    createdAt: new Date().toISOString(),
+    taskId
+  };
+  addNotification(notification);
+  pubsub.publish(`NOTIFICATION_ADDED_${userId}`, { notificationAdded: notification });
+  return notification;
+};
+
+// Single-task mutations send live events right away; bulk operations pass a collector instead
+const liveEffects = createLiveEffects({ pubsub, notifyUser });
+const immediateEffects = liveEffects.immediate;
+
+// Run `apply` in one storage write with a fresh collector, and send what it collected once it returns
+const withCoalescedEffects = (apply) => {
+  const effects = liveEffects.collect();
+  try {
+    return db.batch(() => apply(effects));
+  } finally {
+    effects.flush();
+  }
+};
+
+// Task changes go to live subscribers and to the team's webhooks. Webhooks fire once per task
+// even during bulk operations, since each delivery describes a single task.
+const publishTaskCreated = (task, effects = immediateEffects) => {
+  effects.publishLive('CREATED', task.teamId, task);
+  webhookDispatcher.dispatch('task.created', { teamId: task.teamId, data: { task } });
+};
+
+const publishTaskUpdated = (task, effects = immediateEffects) => {
+  effects.publishLive('UPDATED', task.teamId, task);
+  webhookDispatcher.dispatch('task.updated', { teamId: task.teamId, data: { task } });
+};
+
+const publishTaskDeleted = (task, effects = immediateEffects) => {
+  effects.publishLive('DELETED', task.teamId, task);
+  webhookDispatcher.dispatch('task.deleted', { teamId: task.teamId, data: { task } });
+};
+
+// Subscribers of the old team see the task go away; webhooks of both teams get the update
+const publishTaskMoved = (task, fromTeamId, effects = immediateEffects) => {
+  effects.publishLive('DELETED', fromTeamId, task);
+  webhookDispatcher.dispatch('task.updated', { teamId: fromTeamId, data: { task } });
+  publishTaskUpdated(task, effects);
+};
+
+module.exports = {
+  pubsub,
+  webhookDispatcher,
+  allowPrivateWebhookTargets,
+  notifyUser,
+  immediateEffects,
+  withCoalescedEffects,
+  publishTaskCreated,
+  publishTaskUpdated,
+  publishTaskDeleted,
+  publishTaskMoved,
+};
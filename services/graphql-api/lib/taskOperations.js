@@ -0,0 +1,429 @@
+const { v4: uuidv4 } = require('uuid');
+const db = require('../data/db');
+const {
+  getTasks,
+  findTaskById,
+  getBlockedTasks,
+  getSeriesTasks,
+  addTask,
+  updateTask,
+  removeTask,
+} = require('../data/tasksStore');
+const { removeNotificationsForTask } = require('../data/notificationsStore');
+const { removeCommentsForTask } = require('../data/commentsStore');
+const { removeRemindersForTask } = require('../data/remindersStore');
+const {
+  removeStatusChangesForTask,
+  moveStatusChangesToTeam,
+} = require('../data/statusChangesStore');
+const { findLabelById } = require('../data/labelsStore');
+const { findCustomFieldById } = require('../data/customFieldsStore');
+const {
+  findSeriesById,
+  addSeries,
+  updateSeries,
+  removeSeries,
+} = require('../data/seriesStore');
+const { requireUser, canAccessTeam, assertTeamAccess } = require('./auth');
+const { recordActivity } = require('./activity');
+const { getNextPosition } = require('./board');
+const { recordStatusChange } = require('./teamStats');
+const { removeTaskAttachments } = require('./attachments');
+const { normalizeRule, getOccurrenceSchedule, buildTemplate } = require('./recurrence');
+const { CLOSED_STATUSES } = require('./taskTree');
+const { getOpenBlockers, getUnblockedTasks } = require('./taskDependencies');
+const {
+  notifyUser,
+  immediateEffects,
+  publishTaskCreated,
+  publishTaskUpdated,
+  publishTaskDeleted,
+  publishTaskMoved,
+} = require('./taskEvents');
+
+// Apply the updates `change` returns for each task of a team, e.g. to drop a deleted label
+const updateTeamTasks = (teamId, change) => {
+  getTasks({ teamId, includeArchived: true }).forEach((task) => {
+    const updates = change(task);
+    if (updates) {
+      publishTaskUpdated(updateTask(task.id, updates));
+    }
+  });
+};
+
+// Tasks the caller may see: one team when teamId is given, otherwise every team they belong to
+const getVisibleTasks = async (context, { teamId, ...filters } = {}) => {
+  if (teamId) {
+    await assertTeamAccess(context, teamId);
+    return getTasks({ teamId, ...filters });
+  }
+
+  const user = requireUser(context);
+  const matching = getTasks(filters);
+  const teamIds = [...new Set(matching.map(task => task.teamId))];
+  const allowed = new Set();
+  for (const id of teamIds) {
+    if (await canAccessTeam(user, id)) allowed.add(id);
+  }
+  return matching.filter(task => allowed.has(task.teamId));
+};
+
+// Let assignees know their task can start now that nothing blocks it any more
+const notifyUnblocked = (tasks, effects = immediateEffects) => {
+  tasks.forEach((task) => {
+    if (task.assignedTo) {
+      effects.notify(task.assignedTo, {
+        type: 'TASK_UNBLOCKED',
+        message: `Task "${task.title}" is no longer blocked`,
+        taskId: task.id
+      });
+    }
+    publishTaskUpdated(task, effects);
+  });
+};
+
+// Remove a task with everything that hangs off it, in one write, and tell subscribers
+const destroyTask = (task, actorId, effects = immediateEffects) => db.batch(() => {
+  removeTask(task.id);
+  recordActivity({
+    action: 'TASK_DELETED',
+    entityId: task.id,
+    taskId: task.id,
+    teamId: task.teamId,
+    actorId,
+    before: task,
+  });
+  removeNotificationsForTask(task.id);
+  removeCommentsForTask(task.id);
+  removeRemindersForTask(task.id);
+  removeTaskAttachments(task.id);
+  removeStatusChangesForTask(task.id);
+  if (task.seriesId && getSeriesTasks(task.seriesId).length === 0) {
+    removeSeries(task.seriesId);
+  }
+  const unblocked = CLOSED_STATUSES.includes(task.status) ? [] : getUnblockedTasks(task.id);
+  getBlockedTasks(task.id).forEach((blocked) => {
+    updateTask(blocked.id, { blockedBy: blocked.blockedBy.filter(blockerId => blockerId !== task.id) });
+  });
+  notifyUnblocked(unblocked, effects);
+  publishTaskDeleted(task, effects);
+});
+
+// Template fields an "all future" edit carries over to later occurrences
+const SERIES_FIELDS = ['title', 'description', 'priority', 'assignedTo'];
+
+// Make the task the first occurrence of a new series
+const startSeries = (task, rule) => {
+  const now = new Date().toISOString();
+  return addSeries({
+    id: uuidv4(),
+    teamId: task.teamId,
+    rule,
+    anchorDate: task.dueDate,
+    anchorOccurrence: 1,
+    template: buildTemplate(task),
+    active: true,
+    createdBy: task.createdBy,
+    createdAt: now,
+    updatedAt: now,
+  });
+};
+
+// Apply an "all future" edit of one occurrence to its series and to any later open occurrences
+const updateSeriesFrom = (task, input, actorId) => {
+  const series = findSeriesById(task.seriesId);
+  if (!series) return;
+
+  const reschedules = input.recurrence || input.dueDate !== undefined || input.startDate !== undefined;
+  updateSeries(series.id, {
+    template: buildTemplate(task),
+    ...(input.recurrence ? { rule: normalizeRule(input.recurrence), active: true } : {}),
+    // Later dates are computed from this occurrence from now on
+    ...(reschedules ? { anchorDate: task.dueDate, anchorOccurrence: task.occurrence } : {}),
+    updatedAt: new Date().toISOString(),
+  });
+
+  const changes = Object.fromEntries(SERIES_FIELDS.filter(field => input[field] !== undefined).map(field => [field, input[field]]));
+  if (Object.keys(changes).length === 0) return;
+
+  getSeriesTasks(series.id)
+    .filter(other => other.occurrence > task.occurrence && !CLOSED_STATUSES.includes(other.status))
+    .forEach((other) => {
+      const updatedTask = updateTask(other.id, { ...changes, updatedAt: new Date().toISOString() });
+      recordActivity({
+        action: 'TASK_UPDATED',
+        entityId: other.id,
+        taskId: other.id,
+        teamId: other.teamId,
+        actorId,
+        before: other,
+        after: updatedTask,
+      });
+      publishTaskUpdated(updatedTask);
+    });
+};
+
+// Create the occurrence that follows a completed one; null when the series is stopped or has run out
+const createNextOccurrence = (task, actorId, effects = immediateEffects) => {
+  const series = task.seriesId ? findSeriesById(task.seriesId) : null;
+  if (!series || !series.active) return null;
+
+  // Reopening and completing an occurrence again must not produce a second successor
+  const occurrence = task.occurrence + 1;
+  if (getSeriesTasks(series.id).some(other => other.occurrence === occurrence)) return null;
+
+  const schedule = getOccurrenceSchedule(series, occurrence);
+  if (!schedule) {
+    updateSeries(series.id, { active: false, updatedAt: new Date().toISOString() });
+    return null;
+  }
+
+  const { template } = series;
+  const now = new Date().toISOString();
+  const nextTask = {
+    id: uuidv4(),
+    title: template.title,
+    description: template.description,
+    priority: template.priority,
+    assignedTo: template.assignedTo,
+    teamId: series.teamId,
+    ...schedule,
+    parentId: null,
+    checklist: template.checklist.map(item => ({ id: uuidv4(), text: item.text, done: false })),
+    // Labels and fields deleted since the series was last edited are not carried over
+    labelIds: (template.labelIds || []).filter(labelId => findLabelById(labelId)),
+    customFieldValues: Object.fromEntries(
+      Object.entries(template.customFieldValues || {}).filter(([fieldId]) => findCustomFieldById(fieldId))
+    ),
+    blockedBy: [],
+    status: 'TODO',
+    position: getNextPosition(series.teamId, 'TODO'),
+    seriesId: series.id,
+    occurrence,
+    archivedAt: null,
+    createdBy: series.createdBy,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  addTask(nextTask);
+  recordStatusChange(nextTask, null, actorId);
+  recordActivity({
+    action: 'TASK_CREATED',
+    entityId: nextTask.id,
+    taskId: nextTask.id,
+    teamId: nextTask.teamId,
+    actorId,
+    after: nextTask,
+  });
+
+  if (nextTask.assignedTo && nextTask.assignedTo !== actorId) {
+    effects.notify(nextTask.assignedTo, {
+      type: 'TASK_ASSIGNED',
+      message: `You have been assigned a new task: ${nextTask.title}`,
+      taskId: nextTask.id
+    });
+  }
+
+  publishTaskCreated(nextTask, effects);
+  return nextTask;
+};
+
+// Write the tasks planned by planTaskImport in one write. Imported assignments do not notify anyone.
+const applyTaskImport = (tasks, actorId) => db.batch(() => {
+  tasks.forEach(({ action, id, values, existing, changes }) => {
+    const now = new Date().toISOString();
+    if (action === 'create') {
+      const task = {
+        id,
+        ...values,
+        checklist: [],
+        position: getNextPosition(values.teamId, values.status),
+        seriesId: null,
+        occurrence: null,
+        archivedAt: null,
+        createdAt: values.createdAt || now,
+        updatedAt: now,
+      };
+      addTask(task);
+      recordStatusChange(task, null, actorId);
+      recordActivity({
+        action: 'TASK_CREATED',
+        entityId: id,
+        taskId: id,
+        teamId: task.teamId,
+        actorId,
+        after: task,
+      });
+      publishTaskCreated(task);
+    } else if (action === 'update') {
+      const movesColumn = changes.status !== undefined;
+      const updatedTask = updateTask(id, {
+        ...changes,
+        ...(movesColumn ? { position: getNextPosition(existing.teamId, changes.status) } : {}),
+        updatedAt: now,
+      });
+      if (movesColumn) {
+        recordStatusChange(updatedTask, existing.status, actorId);
+      }
+      recordActivity({
+        action: 'TASK_UPDATED',
+        entityId: id,
+        taskId: id,
+        teamId: existing.teamId,
+        actorId,
+        before: existing,
+        after: updatedTask,
+      });
+      publishTaskUpdated(updatedTask);
+    }
+  });
+});
+
+// One task of bulkUpdateTasks, with the same side effects as updateTask
+const applyBulkUpdate = ({ task, fields }, actorId, effects) => db.batch(() => {
+  const movesColumn = fields.status !== undefined && fields.status !== task.status;
+  const updatedTask = updateTask(task.id, {
+    ...fields,
+    ...(movesColumn ? { position: getNextPosition(task.teamId, fields.status) } : {}),
+    updatedAt: new Date().toISOString(),
+  });
+  if (movesColumn) {
+    recordStatusChange(updatedTask, task.status, actorId);
+  }
+  recordActivity({
+    action: 'TASK_UPDATED',
+    entityId: task.id,
+    taskId: task.id,
+    teamId: task.teamId,
+    actorId,
+    before: task,
+    after: updatedTask,
+  });
+
+  if (movesColumn && updatedTask.assignedTo) {
+    effects.notify(updatedTask.assignedTo, {
+      type: 'TASK_STATUS_CHANGED',
+      message: `Task "${updatedTask.title}" status changed to ${updatedTask.status}`,
+      taskId: updatedTask.id
+    });
+  }
+
+  publishTaskUpdated(updatedTask, effects);
+
+  if (CLOSED_STATUSES.includes(updatedTask.status) && !CLOSED_STATUSES.includes(task.status)) {
+    notifyUnblocked(getUnblockedTasks(task.id), effects);
+  }
+  if (updatedTask.status === 'COMPLETED' && task.status !== 'COMPLETED') {
+    createNextOccurrence(updatedTask, actorId, effects);
+  }
+  return updatedTask;
+});
+
+/**
+ * Move one task to another team. Labels and custom field values belong to the old team and
+ * are dropped, as are assignees outside the new team and dependencies on tasks that stay behind.
+ * `members` is null when the new team's member list could not be loaded.
+ */
+const moveTaskToTeam = (task, teamId, { members, movingIds, actorId }, effects) => db.batch(() => {
+  const keepsAssignee = !task.assignedTo || !members || members.includes(task.assignedTo);
+  const movedTask = updateTask(task.id, {
+    teamId,
+    assignedTo: keepsAssignee ? task.assignedTo : null,
+    labelIds: [],
+    customFieldValues: {},
+    blockedBy: (task.blockedBy || []).filter(blockerId => movingIds.has(blockerId)),
+    position: getNextPosition(teamId, task.status),
+    updatedAt: new Date().toISOString(),
+  });
+  moveStatusChangesToTeam(task.id, teamId);
+  recordActivity({
+    action: 'TASK_MOVED',
+    entityId: task.id,
+    taskId: task.id,
+    teamId,
+    actorId,
+    before: task,
+    after: movedTask,
+  });
+
+  const leftBehind = getBlockedTasks(task.id)
+    .filter(blocked => !movingIds.has(blocked.id))
+    .map(blocked => updateTask(blocked.id, { blockedBy: blocked.blockedBy.filter(blockerId => blockerId !== task.id) }));
+  const isUnblocked = (blocked) => !CLOSED_STATUSES.includes(task.status)
+    && !CLOSED_STATUSES.includes(blocked.status)
+    && getOpenBlockers(blocked).length === 0;
+  leftBehind.filter(blocked => !isUnblocked(blocked)).forEach(blocked => publishTaskUpdated(blocked, effects));
+  notifyUnblocked(leftBehind.filter(isUnblocked), effects);
+
+  publishTaskMoved(movedTask, task.teamId, effects);
+  return movedTask;
+});
+
+// Comments do not carry a teamId of their own
+const getCommentTeamId = (comment) => {
+  const task = findTaskById(comment.taskId);
+  return task ? task.teamId : null;
+};
+
+const updateChecklist = (task, checklist, actorId) => {
+  const updatedTask = updateTask(task.id, {
+    checklist,
+    updatedAt: new Date().toISOString(),
+  });
+  recordActivity({
+    action: 'CHECKLIST_UPDATED',
+    entityId: task.id,
+    taskId: task.id,
+    teamId: task.teamId,
+    actorId,
+    before: task,
+    after: updatedTask,
+  });
+  publishTaskUpdated(updatedTask);
+  return updatedTask;
+};
+
+// Change a task's assignee on behalf of the system, e.g. after the old assignee left
+const reassignTask = (task, assignedTo) => {
+  const updatedTask = updateTask(task.id, { assignedTo, updatedAt: new Date().toISOString() });
+  recordActivity({
+    action: 'TASK_UPDATED',
+    entityId: task.id,
+    taskId: task.id,
+    teamId: task.teamId,
+    actorId: null,
+    before: task,
+    after: updatedTask,
+  });
+  if (task.seriesId) {
+    const series = findSeriesById(task.seriesId);
+    if (series && series.template.assignedTo === task.assignedTo) {
+      updateSeries(series.id, { template: { ...series.template, assignedTo }, updatedAt: new Date().toISOString() });
+    }
+  }
+  if (assignedTo) {
+    notifyUser(assignedTo, {
+      type: 'TASK_ASSIGNED',
+      message: `You have been assigned a new task: ${task.title}`,
+      taskId: task.id
+    });
+  }
+  publishTaskUpdated(updatedTask);
+};
+
+module.exports = {
+  updateTeamTasks,
+  getVisibleTasks,
+  notifyUnblocked,
+  destroyTask,
+  startSeries,
+  updateSeriesFrom,
+  createNextOccurrence,
+  applyTaskImport,
+  applyBulkUpdate,
+  moveTaskToTeam,
+  getCommentTeamId,
+  updateChecklist,
+  reassignTask,
+};
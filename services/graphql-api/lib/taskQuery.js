@@ -0,0 +1,159 @@
+// Filtering, ordering and cursor pagination for the tasksConnection query
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+const PRIORITY_RANK = {
+  LOW: 0,
+  MEDIUM: 1,
+  HIGH: 2,
+  URGENT: 3,
+};
+
+const PRIORITIES = Object.keys(PRIORITY_RANK);
+
+const CLOSED_STATUSES = ['COMPLETED', 'CANCELLED'];
+
+const toTime = (value) => {
+  if (!value) return null;
+  const time = new Date(value).getTime();
+  return Number.isNaN(time) ? null : time;
+};
+
+const sortValue = (task, field) => {
+  switch (field) {
+    case 'DUE_DATE':
+      return toTime(task.dueDate);
+    case 'PRIORITY':
+      return PRIORITY_RANK[task.priority];
+    case 'UPDATED_AT':
+      return toTime(task.updatedAt);
+    case 'POSITION':
+      return typeof task.position === 'number' ? task.position : null;
+    case 'CREATED_AT':
+    default:
+      return toTime(task.createdAt);
+  }
+};
+
+const isOverdue = (task, now = Date.now()) => {
+  const due = toTime(task.dueDate);
+  return due !== null && due < now && !CLOSED_STATUSES.includes(task.status);
+};
+
+const matchesSearch = (task, search) => {
+  const terms = search.toLowerCase().split(/\s+/).filter(Boolean);
+  const haystack = `${task.title} ${task.description || ''}`.toLowerCase();
+  return terms.every((term) => haystack.includes(term));
+};
+
+const isSet = (value) => value !== undefined && value !== null;
+
+// Numbers compare numerically; dates are stored as YYYY-MM-DD and compare as strings
+const compareFieldValue = (value, bound) => {
+  if (typeof value === 'number') return value - Number(bound);
+  return String(value).localeCompare(bound);
+};
+
+const matchesCustomField = (task, { fieldId, equals, min, max, isSet: wantSet }) => {
+  const value = (task.customFieldValues || {})[fieldId];
+  if (isSet(wantSet) && isSet(value) !== wantSet) return false;
+  if (!isSet(equals) && !isSet(min) && !isSet(max)) return true;
+  if (!isSet(value)) return false;
+  if (isSet(equals) && String(value).toLowerCase() !== equals.toLowerCase()) return false;
+  if (isSet(min) && compareFieldValue(value, min) < 0) return false;
+  if (isSet(max) && compareFieldValue(value, max) > 0) return false;
+  return true;
+};
+
+const applyTaskFilter = (tasks, filter = {}, now = Date.now()) => {
+  const dueAfter = toTime(filter.dueAfter);
+  const dueBefore = toTime(filter.dueBefore);
+
+  return tasks.filter((task) => {
+    if (filter.status && task.status !== filter.status) return false;
+    if (filter.assignedTo && task.assignedTo !== filter.assignedTo) return false;
+    if (filter.createdBy && task.createdBy !== filter.createdBy) return false;
+    if (filter.priority && filter.priority.length > 0 && !filter.priority.includes(task.priority)) return false;
+    if (dueAfter !== null || dueBefore !== null) {
+      const due = toTime(task.dueDate);
+      if (due === null) return false;
+      if (dueAfter !== null && due < dueAfter) return false;
+      if (dueBefore !== null && due > dueBefore) return false;
+    }
+    if (filter.overdueOnly && !isOverdue(task, now)) return false;
+    if (filter.search && !matchesSearch(task, filter.search)) return false;
+    if (filter.rootOnly && task.parentId) return false;
+    // A task must carry every requested label
+    if (filter.labelIds && !filter.labelIds.every((labelId) => (task.labelIds || []).includes(labelId))) return false;
+    if (filter.customFields && !filter.customFields.every((criteria) => matchesCustomField(task, criteria))) return false;
+    return true;
+  });
+};
+
+// Compare by the sort key first and the id second, so the order is total and cursors are stable.
+// Tasks without a value (e.g. no due date) always sort last.
+const createComparator = ({ field = 'CREATED_AT', direction = 'ASC' } = {}) => {
+  const factor = direction === 'DESC' ? -1 : 1;
+
+  return (a, b) => {
+    const left = a.sortKey;
+    const right = b.sortKey;
+    if (left !== right) {
+      if (left === null) return 1;
+      if (right === null) return -1;
+      return (left < right ? -1 : 1) * factor;
+    }
+    if (a.id === b.id) return 0;
+    return a.id < b.id ? -1 : 1;
+  };
+};
+
+const encodeCursor = (entry) => Buffer.from(JSON.stringify([entry.sortKey, entry.id])).toString('base64');
+
+const decodeCursor = (cursor) => {
+  try {
+    const [sortKey, id] = JSON.parse(Buffer.from(cursor, 'base64').toString('utf8'));
+    return { sortKey, id };
+  } catch (error) {
+    throw new Error('Invalid cursor');
+  }
+};
+
+/**
+ * Build a Relay-style connection over the given tasks.
+ * Pagination is keyset based: `after` points at a position in the ordering, not an index,
+ * so tasks created or deleted between pages do not shift the results.
+ */
+const paginateTasks = (tasks, { first, after, orderBy } = {}) => {
+  const field = (orderBy && orderBy.field) || 'CREATED_AT';
+  const direction = (orderBy && orderBy.direction) || 'ASC';
+  const compare = createComparator({ field, direction });
+  const limit = Math.min(Math.max(first || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+  const entries = tasks
+    .map((task) => ({ id: task.id, sortKey: sortValue(task, field), task }))
+    .sort(compare);
+
+  const start = after ? entries.filter((entry) => compare(entry, decodeCursor(after)) <= 0).length : 0;
+  const page = entries.slice(start, start + limit);
+  const edges = page.map((entry) => ({ cursor: encodeCursor(entry), node: entry.task }));
+
+  return {
+    edges,
+    totalCount: entries.length,
+    pageInfo: {
+      hasNextPage: start + limit < entries.length,
+      hasPreviousPage: start > 0,
+      startCursor: edges.length > 0 ? edges[0].cursor : null,
+      endCursor: edges.length > 0 ? edges[edges.length - 1].cursor : null,
+    },
+  };
+};
+
+module.exports = {
+  PRIORITIES,
+  toTime,
+  isOverdue,
+  applyTaskFilter,
+  paginateTasks,
+};
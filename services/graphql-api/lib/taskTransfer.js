@@ -0,0 +1,399 @@
+const { v4: uuidv4 } = require('uuid');
+const { ApolloError, UserInputError } = require('apollo-server-express');
+const { getTasks } = require('../data/tasksStore');
+const { getLabelsForTeam } = require('../data/labelsStore');
+const { getCustomFieldsForTeam } = require('../data/customFieldsStore');
+const { PRIORITIES, toTime } = require('./taskQuery');
+const { STATUSES, assertTransition } = require('./workflow');
+const { CLOSED_STATUSES } = require('./taskTree');
+const { assertValidSchedule } = require('./schedule');
+const { applyCustomFieldValues } = require('./customFields');
+const { getTeamMembers } = require('./teamDirectory');
+const { toCsv, parseCsv, parseList } = require('@microservices-demo/shared/csv');
+
+const MAX_IMPORT_ROWS = 2000;
+
+const TASK_COLUMNS = [
+  'id',
+  'title',
+  'description',
+  'status',
+  'priority',
+  'assignedTo',
+  'createdBy',
+  'startDate',
+  'dueDate',
+  'parentId',
+  'blockedBy',
+  'labels',
+  'createdAt',
+];
+
+// Each custom field gets a CSV column of its own, named after the field
+const FIELD_COLUMN_PREFIX = 'field:';
+
+// Fields an import may change on an existing task
+const UPDATABLE_FIELDS = [
+  'title',
+  'description',
+  'status',
+  'priority',
+  'assignedTo',
+  'startDate',
+  'dueDate',
+  'parentId',
+  'blockedBy',
+  'labelIds',
+  'customFieldValues',
+];
+
+// What a task without the field stores, so missing, empty and default compare as equal
+const EMPTY_VALUES = {
+  blockedBy: [],
+  labelIds: [],
+  customFieldValues: {},
+};
+
+const storedValue = (task, field) => (field in EMPTY_VALUES ? task[field] ?? EMPTY_VALUES[field] : task[field] || null);
+
+// Custom field values are compared regardless of key order
+const canonical = (value) => (value && typeof value === 'object' && !Array.isArray(value)
+  ? Object.keys(value).sort().map((key) => [key, value[key]])
+  : value);
+
+const isEqual = (a, b) => JSON.stringify(canonical(a)) === JSON.stringify(canonical(b));
+
+// Empty cells and nulls mean "not given"
+const present = (value) => (value === '' || value === null || value === undefined ? undefined : String(value));
+
+// Labels and custom fields are written by name, so a file can move between teams
+const toExportRecord = (task, labelNames, fields) => {
+  const values = task.customFieldValues || {};
+  return {
+    id: task.id,
+    title: task.title,
+    description: task.description || null,
+    status: task.status,
+    priority: task.priority,
+    assignedTo: task.assignedTo || null,
+    createdBy: task.createdBy,
+    startDate: task.startDate || null,
+    dueDate: task.dueDate || null,
+    parentId: task.parentId || null,
+    blockedBy: task.blockedBy || [],
+    labels: (task.labelIds || []).map((labelId) => labelNames.get(labelId)).filter(Boolean),
+    createdAt: task.createdAt,
+    customFields: Object.fromEntries(fields
+      .filter((field) => values[field.id] !== undefined && values[field.id] !== null)
+      .map((field) => [field.name, String(values[field.id])])),
+  };
+};
+
+// A team's tasks as a file: `{ format, filename, contentType, content }`
+const exportTasks = (teamId, format) => {
+  const labelNames = new Map(getLabelsForTeam(teamId).map((label) => [label.id, label.name]));
+  const fields = getCustomFieldsForTeam(teamId);
+  const records = getTasks({ teamId }).map((task) => toExportRecord(task, labelNames, fields));
+  const exportedAt = new Date().toISOString();
+  const filename = `tasks-${teamId}-${exportedAt.slice(0, 10)}.${format.toLowerCase()}`;
+
+  if (format === 'CSV') {
+    const columns = [...TASK_COLUMNS, ...fields.map((field) => `${FIELD_COLUMN_PREFIX}${field.name}`)];
+    const rows = records.map(({ customFields, ...record }) => ({
+      ...record,
+      ...Object.fromEntries(Object.entries(customFields).map(([name, value]) => [`${FIELD_COLUMN_PREFIX}${name}`, value])),
+    }));
+    return { format, filename, contentType: 'text/csv', content: toCsv(columns, rows) };
+  }
+
+  return {
+    format,
+    filename,
+    contentType: 'application/json',
+    content: JSON.stringify({ exportedAt, teamId, tasks: records }, null, 2),
+  };
+};
+
+const fromCsvRecord = (record) => ({
+  ...record,
+  blockedBy: parseList(record.blockedBy),
+  labels: parseList(record.labels),
+  customFields: Object.fromEntries(Object.entries(record)
+    .filter(([column]) => column.startsWith(FIELD_COLUMN_PREFIX))
+    .map(([column, value]) => [column.slice(FIELD_COLUMN_PREFIX.length), value])),
+});
+
+const toTaskData = (record) => ({
+  ...Object.fromEntries(TASK_COLUMNS.map((column) => [column, present(record[column])])),
+  blockedBy: (Array.isArray(record.blockedBy) ? record.blockedBy : []).map(String),
+  labels: (Array.isArray(record.labels) ? record.labels : []).map(String),
+  customFields: record.customFields && typeof record.customFields === 'object' ? record.customFields : {},
+});
+
+/**
+ * Read an import file into rows tagged with their number: the data row for CSV, the
+ * position in the `tasks` list for JSON. The file must be shaped like an export.
+ */
+const parseTaskImport = (format, content) => {
+  let records;
+  if (format === 'CSV') {
+    try {
+      records = parseCsv(content).map(fromCsvRecord);
+    } catch (error) {
+      throw new UserInputError(`content is not valid CSV: ${error.message}`, { field: 'content' });
+    }
+  } else {
+    let parsed;
+    try {
+      parsed = JSON.parse(content);
+    } catch (error) {
+      throw new UserInputError('content is not valid JSON', { field: 'content' });
+    }
+    records = Array.isArray(parsed) ? parsed : parsed && parsed.tasks;
+    if (!Array.isArray(records)) {
+      throw new UserInputError('JSON imports need a "tasks" list', { field: 'content' });
+    }
+  }
+
+  if (records.length > MAX_IMPORT_ROWS) {
+    throw new UserInputError(`An import can hold at most ${MAX_IMPORT_ROWS} tasks`, { field: 'content' });
+  }
+  return records.map((record, index) => ({ row: index + 1, data: toTaskData(record || {}) }));
+};
+
+// The row's own fields, checked the way createTask checks them; throws UserInputError
+const validateRow = async (teamId, data, { mapUser, members, labelsByName, fieldsByName, actorId }) => {
+  const title = (data.title || '').trim();
+  if (!title) {
+    throw new UserInputError('title is required');
+  }
+
+  const status = data.status || 'TODO';
+  if (!STATUSES.includes(status)) {
+    throw new UserInputError(`status must be one of ${STATUSES.join(', ')}`);
+  }
+  const priority = data.priority || 'MEDIUM';
+  if (!PRIORITIES.includes(priority)) {
+    throw new UserInputError(`priority must be one of ${PRIORITIES.join(', ')}`);
+  }
+
+  const assignedTo = data.assignedTo ? mapUser(data.assignedTo) : null;
+  // Membership cannot be checked while the User Service is unreachable
+  if (assignedTo && members && !members.includes(assignedTo)) {
+    throw new UserInputError(`assignedTo ${assignedTo} is not a member of the team`);
+  }
+
+  assertValidSchedule(data);
+  if (data.createdAt && toTime(data.createdAt) === null) {
+    throw new UserInputError('createdAt must be a valid date');
+  }
+
+  const unknownLabels = data.labels.filter((name) => !labelsByName.has(name.toLowerCase()));
+  if (unknownLabels.length > 0) {
+    throw new UserInputError(`Unknown labels: ${unknownLabels.join(', ')}`);
+  }
+
+  const changes = Object.entries(data.customFields).map(([name, value]) => {
+    const field = fieldsByName.get(name.trim().toLowerCase());
+    if (!field) {
+      throw new UserInputError(`Unknown custom field: ${name}`);
+    }
+    const text = present(value);
+    return { fieldId: field.id, value: text && field.type === 'USER' ? mapUser(text) : text };
+  });
+
+  return {
+    title,
+    description: data.description || null,
+    status,
+    priority,
+    assignedTo,
+    teamId,
+    createdBy: data.createdBy ? mapUser(data.createdBy) : actorId,
+    startDate: data.startDate || null,
+    dueDate: data.dueDate || null,
+    labelIds: [...new Set(data.labels.map((name) => labelsByName.get(name.toLowerCase()).id))],
+    customFieldValues: await applyCustomFieldValues(teamId, {}, changes),
+    createdAt: data.createdAt ? new Date(data.createdAt).toISOString() : null,
+  };
+};
+
+// Whether following `next` from `startId` leads back to it
+const leadsBackTo = (startId, next) => {
+  const visited = new Set();
+  const stack = [...next(startId)];
+  while (stack.length > 0) {
+    const id = stack.pop();
+    if (id === startId) return true;
+    if (!visited.has(id)) {
+      visited.add(id);
+      stack.push(...next(id));
+    }
+  }
+  return false;
+};
+
+// Status changes of existing tasks follow the team's workflow. A new task keeps the status
+// of the file, which validateRow has already checked, so a REVIEW or COMPLETED task survives
+// an export into another team.
+const assertImportTransition = (plan, actor) => {
+  if (plan.existing && plan.values.status !== plan.existing.status) {
+    assertTransition({ ...plan.existing, ...plan.values, status: plan.existing.status }, plan.values.status, actor);
+  }
+};
+
+// New tasks need a creator the User Service knows; existing tasks keep theirs
+const assertImportCreator = (plan, unknownUsers) => {
+  if (!plan.existing && unknownUsers.has(plan.values.createdBy)) {
+    throw new UserInputError(`createdBy ${plan.values.createdBy} is not a known user`);
+  }
+};
+
+/**
+ * Decide what each row does without writing anything. A row whose id is a task of this
+ * team updates it; any other row creates a task under a new id. parentId and blockedBy may
+ * use ids from the file, and `userIdMap` turns user ids from another system into ours.
+ * `users` is the request's user loader, used to check the creators of new tasks.
+ * Rows get the checks of updateTask: workflow transitions for existing tasks, open subtasks
+ * and, unless `force` is set, open blockers. Other rows of the file count with their imported status.
+ */
+const planTaskImport = async (teamId, rows, { userIdMap = [], users, actor, force = false }) => {
+  const errors = [];
+  const teamTasks = new Map(getTasks({ teamId }).map((task) => [task.id, task]));
+  const userIds = new Map(userIdMap.map(({ from, to }) => [from, to]));
+  const context = {
+    mapUser: (id) => userIds.get(id) || id,
+    members: await getTeamMembers(teamId),
+    labelsByName: new Map(getLabelsForTeam(teamId).map((label) => [label.name.toLowerCase(), label])),
+    fieldsByName: new Map(getCustomFieldsForTeam(teamId).map((field) => [field.name.toLowerCase(), field])),
+    actorId: actor.id,
+  };
+  const creatorIds = [...new Set(rows.map(({ data }) => data.createdBy).filter(Boolean).map(context.mapUser))];
+  const creators = creatorIds.length > 0 ? await users.loadMany(creatorIds) : [];
+  // null marks an unknown user; an Error means the User Service did not answer, which lets the row through
+  const unknownUsers = new Set(creatorIds.filter((id, index) => creators[index] === null));
+
+  const reject = (plan, message) => {
+    plan.rejected = true;
+    errors.push({ row: plan.row, id: plan.data.id || null, message });
+  };
+
+  const plans = [];
+  const sourceIds = new Set();
+  for (const { row, data } of rows) {
+    const plan = { row, data };
+    if (data.id && sourceIds.has(data.id)) {
+      reject(plan, `Task ${data.id} appears more than once`);
+      continue;
+    }
+    if (data.id) sourceIds.add(data.id);
+
+    plan.existing = (data.id && teamTasks.get(data.id)) || null;
+    try {
+      plan.values = await validateRow(teamId, data, context);
+      assertImportTransition(plan, actor);
+      assertImportCreator(plan, unknownUsers);
+    } catch (error) {
+      if (!(error instanceof ApolloError)) throw error;
+      reject(plan, error.message);
+      continue;
+    }
+    plan.id = plan.existing ? plan.existing.id : uuidv4();
+    plans.push(plan);
+  }
+
+  // Rejecting a row can break references to it, so repeat until nothing changes
+  let rejectedAny = true;
+  while (rejectedAny) {
+    rejectedAny = false;
+    const accepted = plans.filter((plan) => !plan.rejected);
+    const bySourceId = new Map(accepted.filter((plan) => plan.data.id).map((plan) => [plan.data.id, plan]));
+    const byId = new Map(accepted.map((plan) => [plan.id, plan]));
+    const resolve = (id) => (bySourceId.has(id) ? bySourceId.get(id).id : (teamTasks.has(id) ? id : null));
+
+    accepted.forEach((plan) => {
+      const parentId = plan.data.parentId ? resolve(plan.data.parentId) : null;
+      if (plan.data.parentId && (!parentId || parentId === plan.id)) {
+        reject(plan, `Unknown parent task ${plan.data.parentId}`);
+        rejectedAny = true;
+        return;
+      }
+      const blockedBy = plan.data.blockedBy.map(resolve);
+      const unknown = plan.data.blockedBy.filter((id, index) => !blockedBy[index] || blockedBy[index] === plan.id);
+      if (unknown.length > 0) {
+        reject(plan, `Unknown blocking tasks: ${unknown.join(', ')}`);
+        rejectedAny = true;
+        return;
+      }
+      plan.values.parentId = parentId;
+      plan.values.blockedBy = [...new Set(blockedBy)];
+    });
+    if (rejectedAny) continue;
+
+    // Planned rows replace the stored version of the task they update
+    const current = (id) => (byId.has(id) ? byId.get(id).values : teamTasks.get(id));
+    accepted.forEach((plan) => {
+      if (leadsBackTo(plan.id, (id) => (current(id) && current(id).parentId ? [current(id).parentId] : []))) {
+        reject(plan, 'The task would become its own ancestor');
+        rejectedAny = true;
+      } else if (leadsBackTo(plan.id, (id) => (current(id) ? current(id).blockedBy || [] : []))) {
+        reject(plan, 'The task would end up blocking itself');
+        rejectedAny = true;
+      }
+    });
+    if (rejectedAny) continue;
+
+    const isOpen = (id) => Boolean(current(id)) && !CLOSED_STATUSES.includes(current(id).status);
+    const taskIds = [...new Set([...teamTasks.keys(), ...byId.keys()])];
+    // Errors name tasks of the file by the id the file gave them
+    const describe = (ids) => ids.map((id) => (byId.has(id) && byId.get(id).data.id) || id).join(', ');
+    accepted.forEach((plan) => {
+      const previousStatus = plan.existing ? plan.existing.status : null;
+      const { status } = plan.values;
+      if (status === previousStatus) return;
+
+      const openSubtasks = taskIds.filter((id) => current(id).parentId === plan.id && isOpen(id));
+      if (status === 'COMPLETED' && openSubtasks.length > 0) {
+        reject(plan, `Complete or cancel all subtasks before completing this task: ${describe(openSubtasks)}`);
+        rejectedAny = true;
+        return;
+      }
+      const openBlockers = plan.values.blockedBy.filter(isOpen);
+      if (['IN_PROGRESS', 'COMPLETED'].includes(status) && !force && openBlockers.length > 0) {
+        reject(plan, `This task is blocked by unfinished tasks: ${describe(openBlockers)}`);
+        rejectedAny = true;
+      }
+    });
+  }
+
+  const tasks = plans.filter((plan) => !plan.rejected).map((plan) => {
+    if (!plan.existing) {
+      return { ...plan, action: 'create' };
+    }
+    const changes = Object.fromEntries(UPDATABLE_FIELDS
+      .filter((field) => !isEqual(plan.values[field], storedValue(plan.existing, field)))
+      .map((field) => [field, plan.values[field]]));
+    return { ...plan, changes, action: Object.keys(changes).length > 0 ? 'update' : 'skip' };
+  });
+
+  return { tasks, errors: errors.sort((a, b) => a.row - b.row) };
+};
+
+// Ids are only handed out when the import runs, so a dry run maps new tasks to null
+const buildTaskImportReport = ({ tasks, errors }, dryRun) => ({
+  dryRun,
+  created: tasks.filter((task) => task.action === 'create').length,
+  updated: tasks.filter((task) => task.action === 'update').length,
+  skipped: tasks.filter((task) => task.action === 'skip').length,
+  errors,
+  idMap: tasks
+    .filter((task) => task.data.id)
+    .map((task) => ({ from: task.data.id, to: dryRun && task.action === 'create' ? null : task.id })),
+});
+
+module.exports = {
+  exportTasks,
+  parseTaskImport,
+  planTaskImport,
+  buildTaskImportReport,
+};
@@ -0,0 +1,61 @@
+const { UserInputError } = require('apollo-server-express');
+const { findTaskById, getSubtasks } = require('../data/tasksStore');
+
+const CLOSED_STATUSES = ['COMPLETED', 'CANCELLED'];
+
+// Every task below the given one, deepest levels last
+const getDescendants = (taskId) => {
+  const descendants = [];
+  const queue = [taskId];
+  while (queue.length > 0) {
+    const children = getSubtasks(queue.shift());
+    children.forEach((child) => {
+      descendants.push(child);
+      queue.push(child.id);
+    });
+  }
+  return descendants;
+};
+
+const getOpenSubtasks = (taskId) => getSubtasks(taskId).filter((task) => !CLOSED_STATUSES.includes(task.status));
+
+/**
+ * Percent complete, counting each checklist item and each direct subtask as one unit.
+ * Cancelled subtasks are left out; a task with nothing to count is 0 or 100 by its own status.
+ */
+const calculateProgress = (task) => {
+  const subtasks = getSubtasks(task.id).filter((subtask) => subtask.status !== 'CANCELLED');
+  const checklist = task.checklist || [];
+  const total = subtasks.length + checklist.length;
+
+  if (total === 0) {
+    return task.status === 'COMPLETED' ? 100 : 0;
+  }
+
+  const done = subtasks.filter((subtask) => subtask.status === 'COMPLETED').length
+    + checklist.filter((item) => item.done).length;
+  return Math.round((done / total) * 100);
+};
+
+// A parent must exist in the same team and must not be the task itself or one of its descendants
+const assertValidParent = (parentId, { teamId, taskId } = {}) => {
+  const parent = findTaskById(parentId);
+  if (!parent) {
+    throw new UserInputError('Parent task not found', { field: 'parentId' });
+  }
+  if (parent.teamId !== teamId) {
+    throw new UserInputError('A subtask must belong to the same team as its parent', { field: 'parentId' });
+  }
+  if (taskId && (parentId === taskId || getDescendants(taskId).some((task) => task.id === parentId))) {
+    throw new UserInputError('A task cannot be moved below itself', { field: 'parentId' });
+  }
+  return parent;
+};
+
+module.exports = {
+  CLOSED_STATUSES,
+  getDescendants,
+  getOpenSubtasks,
+  calculateProgress,
+  assertValidParent,
+};
@@ -0,0 +1,47 @@
+const { fetchFromUserService } = require('./userService');
+
+// Looks up team membership in the User Service; results are cached briefly
+// so a board render does not turn into one REST call per task.
+const CACHE_TTL_MS = 30 * 1000;
+
+const cache = new Map();
+
+const fetchTeam = (teamId) => fetchFromUserService(`/internal/teams/${encodeURIComponent(teamId)}`);
+
+const getTeamMembers = async (teamId) => {
+  const cached = cache.get(teamId);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.members;
+  }
+
+  try {
+    const team = await fetchTeam(teamId);
+    const members = team && Array.isArray(team.members) ? team.members : [];
+    cache.set(teamId, { members, expiresAt: Date.now() + CACHE_TTL_MS });
+    return members;
+  } catch (error) {
+    console.warn(`⚠️  Failed to load members of team ${teamId}:`, error.message);
+    return null;
+  }
+};
+
+// Admins and team moderators, used for escalations; null when the User Service is unreachable
+const getTeamAdmins = async (teamId) => {
+  try {
+    const result = await fetchFromUserService(`/internal/teams/${encodeURIComponent(teamId)}/admins`);
+    return result ? result.admins : [];
+  } catch (error) {
+    console.warn(`⚠️  Failed to load admins of team ${teamId}:`, error.message);
+    return null;
+  }
+};
+
+const invalidateTeam = (teamId) => {
+  cache.delete(teamId);
+};
+
+module.exports = {
+  getTeamMembers,
+  getTeamAdmins,
+  invalidateTeam,
+};
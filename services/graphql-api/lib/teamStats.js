@@ -0,0 +1,161 @@
+const { v4: uuidv4 } = require('uuid');
+const { UserInputError } = require('apollo-server-express');
+const { addStatusChange, getStatusChangesForTeam } = require('../data/statusChangesStore');
+const { getTasks } = require('../data/tasksStore');
+const { PRIORITIES, toTime, isOverdue } = require('./taskQuery');
+const { CLOSED_STATUSES } = require('./taskTree');
+const { STATUSES } = require('./workflow');
+
+// Entering one of these is when work on a task starts, for cycle time
+const WORK_STATUSES = ['IN_PROGRESS', 'REVIEW'];
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const WEEK = 7 * DAY;
+const MAX_RANGE_DAYS = 366;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Append to a task's status history; `from` is null when the task was just created
+const recordStatusChange = (task, from, actorId) => addStatusChange({
+  id: uuidv4(),
+  taskId: task.id,
+  teamId: task.teamId,
+  from,
+  to: task.status,
+  actorId: actorId || null,
+  changedAt: new Date().toISOString(),
+});
+
+// A bare date for `to` covers that whole day
+const parseRange = (from, to) => {
+  const start = toTime(from);
+  let end = toTime(to);
+  if (start === null || end === null) {
+    throw new UserInputError('from and to must be valid dates');
+  }
+  if (DATE_PATTERN.test(to)) {
+    end += DAY - 1;
+  }
+  if (start > end) {
+    throw new UserInputError('from must not be after to', { field: 'from' });
+  }
+  if (end - start > MAX_RANGE_DAYS * DAY) {
+    throw new UserInputError(`The range can span at most ${MAX_RANGE_DAYS} days`, { field: 'to' });
+  }
+  return { start, end };
+};
+
+// Weeks start on Monday, in UTC
+const startOfWeek = (time) => {
+  const date = new Date(time);
+  date.setUTCHours(0, 0, 0, 0);
+  date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+  return date.getTime();
+};
+
+const groupByTask = (changes) => changes.reduce((timelines, change) => {
+  timelines.set(change.taskId, [...(timelines.get(change.taskId) || []), change]);
+  return timelines;
+}, new Map());
+
+/**
+ * When a task was last completed and when work on it first started, from its status
+ * history. Tasks completed before history was recorded fall back to their last update.
+ */
+const getMilestones = (task, changes = []) => {
+  if (task.status !== 'COMPLETED') {
+    return { completedAt: null, startedAt: null };
+  }
+  const completion = [...changes].reverse().find((change) => change.to === 'COMPLETED');
+  const completedAt = toTime(completion ? completion.changedAt : task.updatedAt);
+  const start = changes.find((change) => WORK_STATUSES.includes(change.to) && toTime(change.changedAt) <= completedAt);
+  return { completedAt, startedAt: start ? toTime(start.changedAt) : null };
+};
+
+const averageHours = (durations) => (durations.length === 0
+  ? null
+  : Math.round((durations.reduce((sum, duration) => sum + duration, 0) / durations.length / HOUR) * 10) / 10);
+
+/**
+ * Dashboard figures for a team over [from, to]:
+ * - status and priority counts of the tasks created in the range, by their current values
+ * - completions per week, with lead time (created to completed) and cycle time
+ *   (first started to completed) averaged over the tasks completed in the range
+ * - the share of deadlines in the range, up to now, that were missed
+ * - open tasks per assignee right now, regardless of the range
+ */
+const computeTeamStats = (teamId, from, to, now = Date.now()) => {
+  const { start, end } = parseRange(from, to);
+  const inRange = (time) => time !== null && time >= start && time <= end;
+  const tasks = getTasks({ teamId, includeArchived: true });
+  const timelines = groupByTask(getStatusChangesForTeam(teamId));
+
+  const created = tasks.filter((task) => inRange(toTime(task.createdAt)));
+  const countBy = (field, values) => values.map((value) => ({
+    [field]: value,
+    count: created.filter((task) => task[field] === value).length,
+  }));
+
+  const firstWeek = startOfWeek(start);
+  const completedPerWeek = [];
+  for (let week = firstWeek; week <= end; week += WEEK) {
+    completedPerWeek.push({ weekStart: new Date(week).toISOString().slice(0, 10), count: 0 });
+  }
+
+  const leadTimes = [];
+  const cycleTimes = [];
+  let dueCount = 0;
+  let overdueCount = 0;
+
+  tasks.forEach((task) => {
+    const { completedAt, startedAt } = getMilestones(task, timelines.get(task.id));
+    if (inRange(completedAt)) {
+      completedPerWeek[Math.floor((completedAt - firstWeek) / WEEK)].count += 1;
+      leadTimes.push(completedAt - toTime(task.createdAt));
+      if (startedAt !== null) {
+        cycleTimes.push(completedAt - startedAt);
+      }
+    }
+
+    // Only deadlines that have already passed can have been missed
+    const due = toTime(task.dueDate);
+    if (task.status !== 'CANCELLED' && inRange(due) && due <= now) {
+      dueCount += 1;
+      if (completedAt === null || completedAt > due) {
+        overdueCount += 1;
+      }
+    }
+  });
+
+  const workload = new Map();
+  tasks
+    .filter((task) => !task.archivedAt && !CLOSED_STATUSES.includes(task.status))
+    .forEach((task) => {
+      const assigneeId = task.assignedTo || null;
+      const entry = workload.get(assigneeId) || { assigneeId, openTasks: 0, overdueTasks: 0 };
+      entry.openTasks += 1;
+      entry.overdueTasks += isOverdue(task, now) ? 1 : 0;
+      workload.set(assigneeId, entry);
+    });
+
+  return {
+    teamId,
+    from: new Date(start).toISOString(),
+    to: new Date(end).toISOString(),
+    statusCounts: countBy('status', STATUSES),
+    priorityCounts: countBy('priority', PRIORITIES),
+    completedPerWeek,
+    completedCount: leadTimes.length,
+    averageLeadTimeHours: averageHours(leadTimes),
+    averageCycleTimeHours: averageHours(cycleTimes),
+    dueCount,
+    overdueCount,
+    overdueRate: dueCount === 0 ? null : overdueCount / dueCount,
+    workload: [...workload.values()].sort((a, b) => b.openTasks - a.openTasks),
+  };
+};
+
+module.exports = {
+  recordStatusChange,
+  computeTeamStats,
+};
@@ -0,0 +1,69 @@
+const jwt = require('jsonwebtoken');
+const { fetchFromUserService } = require('./userService');
+
+let publicKey = null;
+let revokedTokens = { ids: new Set(), fetchedAt: 0 };
+
+const REVOCATION_CACHE_MS = 10 * 1000;
+
+// Fetch the RS256 public key from the User Service, retrying on demand until it is available
+const loadPublicKey = async () => {
+  if (publicKey) {
+    return publicKey;
+  }
+
+  try {
+    const data = await fetchFromUserService('/api/public-key');
+    publicKey = data && data.publicKey ? data.publicKey : null;
+    if (publicKey) {
+      console.log('✅ Public key fetched from User Service');
+    }
+  } catch (error) {
+    console.warn('⚠️  Failed to fetch public key:', error.message);
+  }
+  return publicKey;
+};
+
+const isRevoked = async (jti) => {
+  if (Date.now() - revokedTokens.fetchedAt > REVOCATION_CACHE_MS) {
+    try {
+      const data = await fetchFromUserService('/internal/revoked-tokens');
+      revokedTokens = { ids: new Set(data.tokens.map((entry) => entry.jti)), fetchedAt: Date.now() };
+    } catch (error) {
+      console.warn('⚠️  Failed to load revoked tokens:', error.message);
+    }
+  }
+  return revokedTokens.ids.has(jti);
+};
+
+/**
+ * Verify a bearer token (with or without the "Bearer " prefix) and return its claims.
+ * Returns null when the token is missing, invalid or cannot be verified yet.
+ */
+const verifyAccessToken = async (authorization) => {
+  if (!authorization || typeof authorization !== 'string') {
+    return null;
+  }
+
+  const token = authorization.startsWith('Bearer ') ? authorization.substring(7) : authorization;
+  const key = await loadPublicKey();
+  if (!key) {
+    return null;
+  }
+
+  let claims;
+  try {
+    claims = jwt.verify(token, key, { algorithms: ['RS256'] });
+  } catch (error) {
+    return null;
+  }
+  if (claims.jti && (await isRevoked(claims.jti))) {
+    return null;
+  }
+  return claims;
+};
+
+module.exports = {
+  loadPublicKey,
+  verifyAccessToken,
+};
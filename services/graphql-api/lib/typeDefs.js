@@ -0,0 +1,616 @@
+// GraphQL type definitions
+const typeDefs = `
+  enum TaskStatus {
+    TODO
+    IN_PROGRESS
+    REVIEW
+    COMPLETED
+    CANCELLED
+  }
+
+  enum TaskPriority {
+    LOW
+    MEDIUM
+    HIGH
+    URGENT
+  }
+
+  enum RecurrenceFrequency {
+    DAILY
+    WEEKLY
+    MONTHLY
+  }
+
+  enum Weekday {
+    MO
+    TU
+    WE
+    TH
+    FR
+    SA
+    SU
+  }
+
+  enum RecurrenceScope {
+    THIS_OCCURRENCE
+    ALL_FUTURE
+  }
+
+  type Task {
+    id: ID!
+    title: String!
+    description: String
+    status: TaskStatus!
+    priority: TaskPriority!
+    assignedTo: ID
+    teamId: ID!
+    createdBy: ID!
+    createdAt: String!
+    updatedAt: String!
+    startDate: String
+    dueDate: String
+    parentId: ID
+    position: Float!
+    seriesId: ID
+    occurrence: Int
+    recurrence: Recurrence
+    archivedAt: String
+    assignee: User
+    creator: User
+    team: Team
+    parent: Task
+    subtasks: [Task!]!
+    checklist: [ChecklistItem!]!
+    progress: Int!
+    blockedBy: [Task!]!
+    blocking: [Task!]!
+    isBlocked: Boolean!
+    allowedTransitions: [TaskStatus!]!
+    history: [ActivityEntry!]!
+    comments: [Comment!]!
+    attachments: [Attachment!]!
+    labelIds: [ID!]!
+    labels: [Label!]!
+    customFields: [CustomFieldValue!]!
+  }
+
+  type Label {
+    id: ID!
+    teamId: ID!
+    name: String!
+    color: String!
+    createdAt: String!
+    updatedAt: String!
+  }
+
+  enum CustomFieldType {
+    TEXT
+    NUMBER
+    DATE
+    SINGLE_SELECT
+    USER
+  }
+
+  type CustomField {
+    id: ID!
+    teamId: ID!
+    name: String!
+    type: CustomFieldType!
+    options: [String!]!
+    createdAt: String!
+    updatedAt: String!
+  }
+
+  # Values are sent and returned as strings: numbers as decimals, dates as YYYY-MM-DD,
+  # users as their id and single-select values as one of the field's options
+  type CustomFieldValue {
+    fieldId: ID!
+    field: CustomField!
+    value: String!
+  }
+
+  input LabelInput {
+    name: String!
+    color: String!
+  }
+
+  input UpdateLabelInput {
+    name: String
+    color: String
+  }
+
+  input CustomFieldInput {
+    name: String!
+    type: CustomFieldType!
+    options: [String!]
+  }
+
+  input UpdateCustomFieldInput {
+    name: String
+    options: [String!]
+  }
+
+  # A null or empty value clears the field
+  input CustomFieldValueInput {
+    fieldId: ID!
+    value: String
+  }
+
+  # equals ignores case; min and max are inclusive and apply to NUMBER and DATE fields
+  input CustomFieldFilter {
+    fieldId: ID!
+    equals: String
+    min: String
+    max: String
+    isSet: Boolean
+  }
+
+  # Files are uploaded with a multipart POST to /attachments/tasks/:taskId
+  type Attachment {
+    id: ID!
+    taskId: ID!
+    name: String!
+    size: Int!
+    mimeType: String!
+    uploadedBy: ID!
+    uploader: User
+    createdAt: String!
+    # Short-lived signed link; request the field again for a fresh one
+    downloadUrl: String!
+  }
+
+  type Recurrence {
+    frequency: RecurrenceFrequency!
+    interval: Int!
+    byDay: [Weekday!]!
+    until: String
+    count: Int
+    rule: String!
+  }
+
+  type ChecklistItem {
+    id: ID!
+    text: String!
+    done: Boolean!
+  }
+
+  # Users and teams live in the User Service and are fetched from it in batches
+  type User {
+    id: ID!
+    name: String!
+    email: String!
+    role: String!
+    teamId: ID
+    team: Team
+  }
+
+  type Team {
+    id: ID!
+    name: String!
+    description: String
+    members: [User!]!
+    tasks(status: TaskStatus): [Task!]!
+    createdAt: String
+    updatedAt: String
+  }
+
+  type Comment {
+    id: ID!
+    taskId: ID!
+    parentId: ID
+    authorId: ID!
+    author: User
+    body: String!
+    createdAt: String!
+    updatedAt: String!
+    edited: Boolean!
+  }
+
+  type FieldChange {
+    field: String!
+    from: String
+    to: String
+  }
+
+  type ActivityEntry {
+    id: ID!
+    action: String!
+    entityType: String!
+    entityId: ID!
+    taskId: ID
+    teamId: ID
+    actorId: ID
+    changes: [FieldChange!]!
+    createdAt: String!
+  }
+
+  type StatusCount {
+    status: TaskStatus!
+    count: Int!
+  }
+
+  type PriorityCount {
+    priority: TaskPriority!
+    count: Int!
+  }
+
+  type WeeklyCount {
+    # Monday of the week, YYYY-MM-DD (UTC)
+    weekStart: String!
+    count: Int!
+  }
+
+  type AssigneeWorkload {
+    # Null for unassigned tasks
+    assigneeId: ID
+    assignee: User
+    openTasks: Int!
+    overdueTasks: Int!
+  }
+
+  type TeamStats {
+    teamId: ID!
+    from: String!
+    to: String!
+    # Tasks created in the range, by their current status and priority
+    statusCounts: [StatusCount!]!
+    priorityCounts: [PriorityCount!]!
+    completedPerWeek: [WeeklyCount!]!
+    completedCount: Int!
+    averageLeadTimeHours: Float
+    averageCycleTimeHours: Float
+    # Deadlines in the range that have passed, and how many were missed
+    dueCount: Int!
+    overdueCount: Int!
+    overdueRate: Float
+    # Open tasks right now, whatever the range
+    workload: [AssigneeWorkload!]!
+  }
+
+  enum ExportFormat {
+    CSV
+    JSON
+  }
+
+  type TaskExport {
+    format: ExportFormat!
+    filename: String!
+    contentType: String!
+    content: String!
+  }
+
+  type ImportError {
+    # Data row for CSV, position in the tasks list for JSON; both start at 1
+    row: Int!
+    id: ID
+    message: String!
+  }
+
+  type IdMapping {
+    from: ID!
+    # Null for tasks a dry run would create
+    to: ID
+  }
+
+  type TaskImportReport {
+    dryRun: Boolean!
+    created: Int!
+    updated: Int!
+    skipped: Int!
+    errors: [ImportError!]!
+    idMap: [IdMapping!]!
+  }
+
+  input IdMappingInput {
+    from: ID!
+    to: ID!
+  }
+
+  # Fields left out keep their current value on every task
+  input BulkTaskInput {
+    status: TaskStatus
+    priority: TaskPriority
+    assignedTo: ID
+    startDate: String
+    dueDate: String
+    addLabelIds: [ID!]
+    removeLabelIds: [ID!]
+  }
+
+  type BulkTaskResult {
+    id: ID!
+    success: Boolean!
+    # The task after the change; null for deletions and failures
+    task: Task
+    error: String
+    # BULK_ABORTED for tasks an atomic run left alone because others failed
+    code: String
+  }
+
+  type BulkTaskPayload {
+    results: [BulkTaskResult!]!
+    succeeded: Int!
+    failed: Int!
+  }
+
+  # All changes one bulk operation made to a team's tasks
+  type TasksChangedEvent {
+    teamId: ID!
+    tasks: [Task!]!
+    removedIds: [ID!]!
+  }
+
+  type WorkflowTransition {
+    from: TaskStatus!
+    to: [TaskStatus!]!
+  }
+
+  type Workflow {
+    teamId: ID!
+    transitions: [WorkflowTransition!]!
+    requireAssigneeForInProgress: Boolean!
+    requireIndependentReview: Boolean!
+    updatedAt: String
+    updatedBy: ID
+  }
+
+  input WorkflowTransitionInput {
+    from: TaskStatus!
+    to: [TaskStatus!]!
+  }
+
+  input WorkflowInput {
+    transitions: [WorkflowTransitionInput!]
+    requireAssigneeForInProgress: Boolean
+    requireIndependentReview: Boolean
+  }
+
+  type TaskEdge {
+    cursor: String!
+    node: Task!
+  }
+
+  type PageInfo {
+    hasNextPage: Boolean!
+    hasPreviousPage: Boolean!
+    startCursor: String
+    endCursor: String
+  }
+
+  type TaskConnection {
+    edges: [TaskEdge!]!
+    pageInfo: PageInfo!
+    totalCount: Int!
+  }
+
+  enum TaskOrderField {
+    DUE_DATE
+    PRIORITY
+    CREATED_AT
+    UPDATED_AT
+    POSITION
+  }
+
+  enum SortDirection {
+    ASC
+    DESC
+  }
+
+  input TaskOrderBy {
+    field: TaskOrderField!
+    direction: SortDirection = ASC
+  }
+
+  input TaskFilter {
+    teamId: ID
+    status: TaskStatus
+    assignedTo: ID
+    createdBy: ID
+    priority: [TaskPriority!]
+    dueAfter: String
+    dueBefore: String
+    overdueOnly: Boolean
+    search: String
+    rootOnly: Boolean
+    labelIds: [ID!]
+    customFields: [CustomFieldFilter!]
+  }
+
+  type Notification {
+    id: ID!
+    userId: ID!
+    message: String!
+    type: String!
+    read: Boolean!
+    createdAt: String!
+    taskId: ID
+  }
+
+  type NotificationEdge {
+    cursor: String!
+    node: Notification!
+  }
+
+  type NotificationConnection {
+    edges: [NotificationEdge!]!
+    pageInfo: PageInfo!
+    totalCount: Int!
+  }
+
+  type NotificationPreference {
+    type: String!
+    enabled: Boolean!
+  }
+
+  input NotificationPreferenceInput {
+    type: String!
+    enabled: Boolean!
+  }
+
+  type Webhook {
+    id: ID!
+    teamId: ID!
+    url: String!
+    events: [String!]!
+    active: Boolean!
+    createdBy: ID!
+    createdAt: String!
+    deliveries(limit: Int = 20): [WebhookDelivery!]!
+  }
+
+  enum WebhookDeliveryStatus {
+    PENDING
+    SUCCEEDED
+    FAILED
+  }
+
+  type WebhookDelivery {
+    id: ID!
+    webhookId: ID!
+    event: String!
+    payload: String!
+    status: WebhookDeliveryStatus!
+    attempts: Int!
+    responseStatus: Int
+    error: String
+    createdAt: String!
+    lastAttemptAt: String
+    nextAttemptAt: String
+    deliveredAt: String
+  }
+
+  type WebhookRegistration {
+    webhook: Webhook!
+    secret: String!
+  }
+
+  input WebhookInput {
+    url: String!
+    events: [String!]!
+    secret: String
+  }
+
+  type Query {
+    tasks(
+      teamId: ID
+      assignedTo: ID
+      status: TaskStatus
+      includeArchived: Boolean = false
+      labelIds: [ID!]
+      customFields: [CustomFieldFilter!]
+    ): [Task!]!
+    tasksConnection(first: Int = 20, after: String, orderBy: TaskOrderBy, filter: TaskFilter): TaskConnection!
+    task(id: ID!): Task
+    team(id: ID!): Team
+    tasksInRange(teamId: ID!, from: String!, to: String!): [Task!]!
+    notifications(userId: ID!): [Notification!]!
+    notificationsConnection(userId: ID!, first: Int = 20, after: String, unreadOnly: Boolean = false): NotificationConnection!
+    unreadNotificationCount(userId: ID!): Int!
+    notificationPreferences(userId: ID!): [NotificationPreference!]!
+    webhooks(teamId: ID!): [Webhook!]!
+    webhookEvents: [String!]!
+    workflow(teamId: ID!): Workflow!
+    labels(teamId: ID!): [Label!]!
+    customFields(teamId: ID!): [CustomField!]!
+    activity(teamId: ID!, since: String, limit: Int = 50): [ActivityEntry!]!
+    teamStats(teamId: ID!, from: String!, to: String!): TeamStats!
+    exportTasks(teamId: ID!, format: ExportFormat = JSON): TaskExport!
+  }
+
+  input CreateTaskInput {
+    title: String!
+    description: String
+    priority: TaskPriority!
+    assignedTo: ID
+    teamId: ID!
+    startDate: String
+    dueDate: String
+    parentId: ID
+    checklist: [ChecklistItemInput!]
+    recurrence: RecurrenceInput
+    labelIds: [ID!]
+    customFields: [CustomFieldValueInput!]
+  }
+
+  input RecurrenceInput {
+    frequency: RecurrenceFrequency!
+    interval: Int = 1
+    byDay: [Weekday!]
+    until: String
+    count: Int
+  }
+
+  input ChecklistItemInput {
+    text: String!
+    done: Boolean = false
+  }
+
+  input UpdateTaskInput {
+    title: String
+    description: String
+    status: TaskStatus
+    priority: TaskPriority
+    assignedTo: ID
+    startDate: String
+    dueDate: String
+    parentId: ID
+    position: Float
+    recurrence: RecurrenceInput
+    # Replaces the task's labels
+    labelIds: [ID!]
+    # Only the listed fields change
+    customFields: [CustomFieldValueInput!]
+  }
+
+  type Mutation {
+    createTask(input: CreateTaskInput!): Task!
+    updateTask(id: ID!, input: UpdateTaskInput!, force: Boolean = false, scope: RecurrenceScope = THIS_OCCURRENCE): Task!
+    stopRecurrence(taskId: ID!): Task!
+    deleteTask(id: ID!, cascade: Boolean = false): Boolean!
+    bulkUpdateTasks(ids: [ID!]!, input: BulkTaskInput!, force: Boolean = false, atomic: Boolean = false): BulkTaskPayload!
+    bulkDeleteTasks(ids: [ID!]!, cascade: Boolean = false, atomic: Boolean = false): BulkTaskPayload!
+    bulkMoveTasks(ids: [ID!]!, teamId: ID!, atomic: Boolean = false): BulkTaskPayload!
+    addChecklistItem(taskId: ID!, text: String!): Task!
+    updateChecklistItem(taskId: ID!, itemId: ID!, text: String, done: Boolean): Task!
+    removeChecklistItem(taskId: ID!, itemId: ID!): Task!
+    addDependency(taskId: ID!, blockerId: ID!): Task!
+    removeDependency(taskId: ID!, blockerId: ID!): Task!
+    updateWorkflow(teamId: ID!, input: WorkflowInput!): Workflow!
+    createLabel(teamId: ID!, input: LabelInput!): Label!
+    updateLabel(id: ID!, input: UpdateLabelInput!): Label!
+    deleteLabel(id: ID!): Boolean!
+    createCustomField(teamId: ID!, input: CustomFieldInput!): CustomField!
+    updateCustomField(id: ID!, input: UpdateCustomFieldInput!): CustomField!
+    deleteCustomField(id: ID!): Boolean!
+    markNotificationRead(id: ID!): Boolean!
+    markAllNotificationsRead(userId: ID!): Int!
+    deleteNotification(id: ID!): Boolean!
+    updateNotificationPreferences(userId: ID!, input: [NotificationPreferenceInput!]!): [NotificationPreference!]!
+    registerWebhook(teamId: ID!, input: WebhookInput!): WebhookRegistration!
+    deleteWebhook(id: ID!): Boolean!
+    addComment(taskId: ID!, body: String!, parentId: ID): Comment!
+    editComment(id: ID!, body: String!): Comment!
+    deleteComment(id: ID!): Boolean!
+    deleteAttachment(id: ID!): Boolean!
+    importTasks(
+      teamId: ID!
+      format: ExportFormat!
+      content: String!
+      dryRun: Boolean = false
+      userIdMap: [IdMappingInput!]
+      force: Boolean = false
+    ): TaskImportReport!
+  }
+
+  type Subscription {
+    taskCreated(teamId: ID!): Task!
+    taskUpdated(teamId: ID!): Task!
+    taskDeleted(teamId: ID!): ID!
+    # Bulk operations send this instead of taskCreated, taskUpdated and taskDeleted
+    tasksChanged(teamId: ID!): TasksChangedEvent!
+    notificationAdded(userId: ID!): Notification!
+    commentAdded(taskId: ID!): Comment!
+  }
+`;
+
+module.exports = typeDefs;
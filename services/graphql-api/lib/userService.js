@@ -0,0 +1,22 @@
+// Thin client for the User Service's internal REST endpoints
+const USER_SERVICE_URL = process.env.REST_API_URL || 'http://rest-api:3001';
+// The User Service only answers /internal/* calls that present this token
+const SERVICE_TOKEN = process.env.INTERNAL_SERVICE_TOKEN || '';
+
+const fetchFromUserService = async (path) => {
+  const response = await fetch(`${USER_SERVICE_URL}${path}`, {
+    headers: { 'X-Service-Token': SERVICE_TOKEN },
+  });
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(`User Service responded with ${response.status}`);
+  }
+  return response.json();
+};
+
+module.exports = {
+  USER_SERVICE_URL,
+  fetchFromUserService,
+};
@@ -0,0 +1,315 @@
+const crypto = require('crypto');
+const dns = require('dns');
+const http = require('http');
+const https = require('https');
+const net = require('net');
+const { v4: uuidv4 } = require('uuid');
+const { UserInputError } = require('apollo-server-express');
+const {
+  getWebhooksForTeam,
+  findWebhookById,
+  addDeliveries,
+  findDeliveryById,
+  updateDelivery,
+  getPendingDeliveries,
+} = require('../data/webhooksStore');
+
+const WEBHOOK_EVENTS = [
+  'task.created',
+  'task.updated',
+  'task.deleted',
+  'team.updated',
+  'team.deleted',
+  'team.member_added',
+  'team.member_removed',
+];
+
+const MIN_SECRET_LENGTH = 16;
+
+// Loopback, private, link-local and other non-routable ranges a webhook must never reach
+const PRIVATE_NETWORKS = new net.BlockList();
+[
+  ['0.0.0.0', 8, 'ipv4'],
+  ['10.0.0.0', 8, 'ipv4'],
+  ['100.64.0.0', 10, 'ipv4'],
+  ['127.0.0.0', 8, 'ipv4'],
+  ['169.254.0.0', 16, 'ipv4'],
+  ['172.16.0.0', 12, 'ipv4'],
+  ['192.0.0.0', 24, 'ipv4'],
+  ['192.168.0.0', 16, 'ipv4'],
+  ['198.18.0.0', 15, 'ipv4'],
+  ['224.0.0.0', 3, 'ipv4'],
+  ['::', 128, 'ipv6'],
+  ['::1', 128, 'ipv6'],
+  ['fc00::', 7, 'ipv6'],
+  ['fe80::', 10, 'ipv6'],
+  ['ff00::', 8, 'ipv6'],
+].forEach(([network, prefix, type]) => PRIVATE_NETWORKS.addSubnet(network, prefix, type));
+
+const isPrivateAddress = (address) => {
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) return isPrivateAddress(mapped[1]);
+  const family = net.isIP(address);
+  if (family === 0) return true;
+  return PRIVATE_NETWORKS.check(address, family === 6 ? 'ipv6' : 'ipv4');
+};
+
+const lookupAll = (hostname) => dns.promises.lookup(hostname, { all: true });
+
+// Every `{ address, family }` the URL's host resolves to; an IP literal is taken as is
+const resolveHost = async (url, lookup = lookupAll) => {
+  const hostname = new URL(url).hostname.replace(/^\[|\]$/g, '');
+  const family = net.isIP(hostname);
+  return family ? [{ address: hostname, family }] : lookup(hostname);
+};
+
+// The first private address among the resolved ones, or null when every address is public
+const findPrivateAddress = (addresses) => {
+  const blocked = addresses.find(({ address }) => isPrivateAddress(address));
+  return blocked ? blocked.address : null;
+};
+
+// A `lookup` for http.request that always answers with the given address, so the connection
+// goes to the address that was checked instead of whatever the host resolves to a moment later
+const pinnedLookup = ({ address, family }) => (hostname, options, callback) => {
+  if (options && options.all) {
+    callback(null, [{ address, family }]);
+  } else {
+    callback(null, address, family);
+  }
+};
+
+// POST the body to `url` over a connection to `target`; resolves with `{ status, ok }`
+const postTo = (url, target, { headers, body, signal }) => new Promise((resolve, reject) => {
+  const { request } = url.startsWith('https:') ? https : http;
+  // Redirects are not followed: http.request returns a 3xx response as it is
+  const req = request(url, {
+    method: 'POST',
+    headers: { ...headers, 'Content-Length': Buffer.byteLength(body) },
+    lookup: pinnedLookup(target),
+    signal,
+  }, (res) => {
+    res.on('error', reject);
+    res.on('end', () => resolve({ status: res.statusCode, ok: res.statusCode >= 200 && res.statusCode < 300 }));
+    res.resume();
+  });
+  req.on('error', reject);
+  req.end(body);
+});
+
+const validateWebhookInput = async ({ url, events, secret }, { allowPrivateNetworks = false, lookup } = {}) => {
+  let parsed;
+  try {
+    parsed = new URL(url);
+  } catch (error) {
+    throw new UserInputError('url must be an absolute URL', { field: 'url' });
+  }
+  if (!['http:', 'https:'].includes(parsed.protocol)) {
+    throw new UserInputError('url must use http or https', { field: 'url' });
+  }
+  if (!allowPrivateNetworks) {
+    let blocked;
+    try {
+      blocked = findPrivateAddress(await resolveHost(url, lookup));
+    } catch (error) {
+      throw new UserInputError(`Could not resolve ${parsed.hostname}`, { field: 'url' });
+    }
+    if (blocked) {
+      throw new UserInputError('url must not point to a private or loopback address', { field: 'url' });
+    }
+  }
+
+  if (events.length === 0) {
+    throw new UserInputError('Subscribe to at least one event', { field: 'events' });
+  }
+  const unknown = events.filter((event) => !WEBHOOK_EVENTS.includes(event));
+  if (unknown.length > 0) {
+    throw new UserInputError(`Unknown webhook events: ${unknown.join(', ')}`, {
+      field: 'events',
+      allowed: WEBHOOK_EVENTS,
+    });
+  }
+
+  if (secret !== undefined && secret !== null && secret.length < MIN_SECRET_LENGTH) {
+    throw new UserInputError(`secret must be at least ${MIN_SECRET_LENGTH} characters`, { field: 'secret' });
+  }
+};
+
+const generateSecret = () => crypto.randomBytes(24).toString('hex');
+
+// Receivers recompute this over the raw request body with their copy of the secret
+const signPayload = (secret, body) => `sha256=${crypto.createHmac('sha256', secret).update(body).digest('hex')}`;
+
+/**
+ * Deliver events to matching webhooks as signed JSON POSTs.
+ * Every delivery is logged; failures are retried with exponential backoff
+ * (baseDelayMs, 2x, 4x, ...) until maxAttempts, after which the delivery is marked FAILED.
+ * The host is resolved again before every attempt, and deliveries to private addresses fail
+ * straight away unless allowPrivateNetworks is set. The request connects to the address that
+ * was checked, so a host that resolves differently the second time (DNS rebinding) cannot
+ * send it elsewhere. Only the newest maxLoggedDeliveries finished deliveries are kept per webhook.
+ * `lookup`, `clock` and `setTimer` are injectable for tests.
+ */
+const createWebhookDispatcher = ({
+  lookup = lookupAll,
+  clock = () => Date.now(),
+  setTimer = setTimeout,
+  maxAttempts = 5,
+  baseDelayMs = 1000,
+  timeoutMs = 5000,
+  maxLoggedDeliveries = 100,
+  allowPrivateNetworks = false,
+  logger = console,
+} = {}) => {
+  const timers = new Set();
+
+  const schedule = (deliveryId, delayMs) => {
+    const timer = setTimer(() => {
+      timers.delete(timer);
+      return attempt(deliveryId);
+    }, delayMs);
+    if (timer && timer.unref) timer.unref();
+    timers.add(timer);
+  };
+
+  const post = async (webhook, delivery, target) => {
+    const body = JSON.stringify(delivery.payload);
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+      return await postTo(webhook.url, target, {
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'task-service-webhooks',
+          'X-Webhook-Event': delivery.event,
+          'X-Webhook-Delivery': delivery.id,
+          'X-Webhook-Signature': signPayload(webhook.secret, body),
+        },
+        body,
+        signal: controller.signal,
+      });
+    } finally {
+      clearTimeout(timeout);
+    }
+  };
+
+  // One try at a logged delivery; schedules the next one on failure
+  const attempt = async (deliveryId) => {
+    const delivery = findDeliveryById(deliveryId);
+    if (!delivery || delivery.status !== 'PENDING') return null;
+
+    const webhook = findWebhookById(delivery.webhookId);
+    if (!webhook) return null;
+
+    const attempts = delivery.attempts + 1;
+    const attemptedAt = new Date(clock()).toISOString();
+    let responseStatus = null;
+    let error = null;
+    let retryable = true;
+    try {
+      const addresses = await resolveHost(webhook.url, lookup);
+      const blocked = allowPrivateNetworks ? null : findPrivateAddress(addresses);
+      if (blocked) {
+        error = `Refusing to deliver to private address ${blocked}`;
+        retryable = false;
+      } else {
+        const response = await post(webhook, delivery, addresses[0]);
+        responseStatus = response.status;
+        if (!response.ok) error = `Receiver responded with ${response.status}`;
+      }
+    } catch (requestError) {
+      error = requestError.name === 'AbortError' ? `Timed out after ${timeoutMs}ms` : requestError.message;
+    }
+
+    if (!error) {
+      return updateDelivery(deliveryId, {
+        status: 'SUCCEEDED',
+        attempts,
+        responseStatus,
+        error: null,
+        lastAttemptAt: attemptedAt,
+        nextAttemptAt: null,
+        deliveredAt: attemptedAt,
+      });
+    }
+
+    if (!retryable || attempts >= maxAttempts) {
+      logger.warn(`⚠️  Webhook delivery ${deliveryId} to ${webhook.url} failed after ${attempts} attempts: ${error}`);
+      return updateDelivery(deliveryId, {
+        status: 'FAILED',
+        attempts,
+        responseStatus,
+        error,
+        lastAttemptAt: attemptedAt,
+        nextAttemptAt: null,
+      });
+    }
+
+    const delayMs = baseDelayMs * 2 ** (attempts - 1);
+    const updated = updateDelivery(deliveryId, {
+      attempts,
+      responseStatus,
+      error,
+      lastAttemptAt: attemptedAt,
+      nextAttemptAt: new Date(clock() + delayMs).toISOString(),
+    });
+    schedule(deliveryId, delayMs);
+    return updated;
+  };
+
+  // Log one delivery per subscribed webhook and fire the first attempts; resolves once they settle
+  const dispatch = (event, { teamId, data }) => {
+    const occurredAt = new Date(clock()).toISOString();
+    const eventId = uuidv4();
+    const targets = getWebhooksForTeam(teamId).filter((webhook) => webhook.active && webhook.events.includes(event));
+
+    const deliveries = addDeliveries(targets.map((webhook) => ({
+      id: uuidv4(),
+      webhookId: webhook.id,
+      event,
+      payload: { id: eventId, event, teamId, occurredAt, data },
+      status: 'PENDING',
+      attempts: 0,
+      responseStatus: null,
+      error: null,
+      createdAt: occurredAt,
+      lastAttemptAt: null,
+      nextAttemptAt: occurredAt,
+      deliveredAt: null,
+    })), { keepPerWebhook: maxLoggedDeliveries });
+    return Promise.all(deliveries.map((delivery) => attempt(delivery.id))).catch((error) => {
+      logger.error(`Webhook dispatch of ${event} failed:`, error);
+      return [];
+    });
+  };
+
+  // Pick up deliveries that were still waiting for a retry when the service stopped
+  const resume = () => {
+    const pending = getPendingDeliveries();
+    pending.forEach((delivery) => {
+      const due = delivery.nextAttemptAt ? new Date(delivery.nextAttemptAt).getTime() : clock();
+      schedule(delivery.id, Math.max(0, due - clock()));
+    });
+    return pending.length;
+  };
+
+  const stop = () => {
+    timers.forEach((timer) => clearTimeout(timer));
+    timers.clear();
+  };
+
+  return {
+    dispatch,
+    resume,
+    stop,
+  };
+};
+
+module.exports = {
+  WEBHOOK_EVENTS,
+  isPrivateAddress,
+  validateWebhookInput,
+  generateSecret,
+  signPayload,
+  createWebhookDispatcher,
+};
@@ -0,0 +1,98 @@
+const { UserInputError } = require('apollo-server-express');
+const { findWorkflowByTeam } = require('../data/workflowsStore');
+const { InvalidTransitionError } = require('./errors');
+
+const STATUSES = ['TODO', 'IN_PROGRESS', 'REVIEW', 'COMPLETED', 'CANCELLED'];
+
+// Used for every team until it saves its own workflow
+const DEFAULT_WORKFLOW = {
+  transitions: {
+    TODO: ['IN_PROGRESS', 'CANCELLED'],
+    IN_PROGRESS: ['TODO', 'REVIEW', 'CANCELLED'],
+    REVIEW: ['IN_PROGRESS', 'COMPLETED', 'CANCELLED'],
+    COMPLETED: ['IN_PROGRESS'],
+    CANCELLED: ['TODO'],
+  },
+  requireAssigneeForInProgress: false,
+  requireIndependentReview: false,
+};
+
+const getTeamWorkflow = (teamId) => {
+  const stored = findWorkflowByTeam(teamId);
+  return {
+    ...DEFAULT_WORKFLOW,
+    ...stored,
+    teamId,
+    transitions: { ...DEFAULT_WORKFLOW.transitions, ...(stored && stored.transitions) },
+  };
+};
+
+// Reason the guard rejects the move, or null when it may go ahead
+const checkGuards = (workflow, task, nextStatus, user) => {
+  if (workflow.requireAssigneeForInProgress && nextStatus === 'IN_PROGRESS' && !task.assignedTo) {
+    return 'A task needs an assignee before it can move to IN_PROGRESS';
+  }
+  if (workflow.requireIndependentReview && task.status === 'REVIEW' && user && user.id === task.assignedTo) {
+    return 'A reviewer other than the assignee must move this task out of REVIEW';
+  }
+  return null;
+};
+
+const getAllowedTransitions = (task, user) => {
+  const workflow = getTeamWorkflow(task.teamId);
+  return (workflow.transitions[task.status] || []).filter(
+    (status) => checkGuards(workflow, task, status, user) === null
+  );
+};
+
+const assertTransition = (task, nextStatus, user) => {
+  const workflow = getTeamWorkflow(task.teamId);
+  const allowed = workflow.transitions[task.status] || [];
+  if (!allowed.includes(nextStatus)) {
+    throw new InvalidTransitionError(`Cannot move a task from ${task.status} to ${nextStatus}`, {
+      from: task.status,
+      to: nextStatus,
+      allowed,
+    });
+  }
+
+  const reason = checkGuards(workflow, task, nextStatus, user);
+  if (reason) {
+    throw new InvalidTransitionError(reason, { from: task.status, to: nextStatus, allowed });
+  }
+};
+
+// Merge a partial workflow update and reject transitions that point at unknown or identical states
+const buildWorkflow = (teamId, input) => {
+  const current = getTeamWorkflow(teamId);
+  const transitions = { ...current.transitions };
+
+  (input.transitions || []).forEach(({ from, to }) => {
+    if (to.includes(from)) {
+      throw new UserInputError(`A status cannot transition to itself (${from})`, { field: 'transitions' });
+    }
+    transitions[from] = [...new Set(to)].filter((status) => STATUSES.includes(status));
+  });
+
+  return {
+    transitions,
+    requireAssigneeForInProgress: input.requireAssigneeForInProgress ?? current.requireAssigneeForInProgress,
+    requireIndependentReview: input.requireIndependentReview ?? current.requireIndependentReview,
+  };
+};
+
+// Only the configurable part of a workflow, without bookkeeping fields
+const getWorkflowSettings = ({ transitions, requireAssigneeForInProgress, requireIndependentReview }) => ({
+  transitions,
+  requireAssigneeForInProgress,
+  requireIndependentReview,
+});
+
+module.exports = {
+  STATUSES,
+  getTeamWorkflow,
+  getAllowedTransitions,
+  assertTransition,
+  buildWorkflow,
+  getWorkflowSettings,
+};
@@ -0,0 +1,25 @@
+const { diffRecords, recordAudit } = require('../lib/audit');
+const { getAuditEntries } = require('../data/auditStore');
+
+describe('audit log', () => {
+  it('records changed fields but never the password', () => {
+    const changes = diffRecords(
+      { id: '7', name: 'Ann', role: 'user', password: 'old-hash', updatedAt: '2030-01-01' },
+      { id: '7', name: 'Ann', role: 'admin', password: 'new-hash', updatedAt: '2030-01-02' }
+    );
+
+    expect(changes).toEqual([{ field: 'role', from: 'user', to: 'admin' }]);
+  });
+
+  it('attributes an entry to the current user unless an actor is given', () => {
+    const req = { currentUser: { id: '1' } };
+    recordAudit(req, { action: 'USER_UPDATED', entityType: 'user', entityId: 'audited', before: { name: 'A' }, after: { name: 'B' } });
+    recordAudit(req, { action: 'TEAM_INVITATION_ACCEPTED', entityType: 'user', entityId: 'audited', actorId: '2' });
+
+    const entries = getAuditEntries({ entityType: 'user', entityId: 'audited' });
+    expect(entries.map(({ action, actorId }) => [action, actorId])).toEqual([
+      ['TEAM_INVITATION_ACCEPTED', '2'],
+      ['USER_UPDATED', '1'],
+    ]);
+  });
+});
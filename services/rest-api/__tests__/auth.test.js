@@ -0,0 +1,85 @@
+const crypto = require('crypto');
+const fs = require('fs');
+
+// The routes read the JWT key pair from disk; tests sign with a throwaway one
+const keys = crypto.generateKeyPairSync('rsa', {
+  modulusLength: 2048,
+  publicKeyEncoding: { type: 'spki', format: 'pem' },
+  privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+});
+const readFileSync = fs.readFileSync;
+jest.spyOn(fs, 'readFileSync').mockImplementation((path, ...rest) => {
+  if (String(path).endsWith('/jwt-private.key')) return keys.privateKey;
+  if (String(path).endsWith('/jwt-public.key')) return keys.publicKey;
+  return readFileSync(path, ...rest);
+});
+
+const express = require('express');
+const jwt = require('jsonwebtoken');
+const request = require('supertest');
+const authRoutes = require('../routes/auth');
+const {
+  addRefreshToken,
+  findRefreshTokenByHash,
+  getRevokedAccessTokens,
+} = require('../data/tokensStore');
+
+const app = express();
+app.use(express.json());
+app.use('/api/auth', authRoutes);
+
+// Seeded regular user
+const login = async () => {
+  const response = await request(app).post('/api/auth/login').send({ email: 'user@taskmanager.com', password: 'user123' });
+  expect(response.status).toBe(200);
+  return response.body;
+};
+
+const refresh = (refreshToken) => request(app).post('/api/auth/refresh').send({ refreshToken });
+
+describe('auth sessions', () => {
+  it('rotates the refresh token and revokes the whole session when a used one comes back', async () => {
+    const { refreshToken: first } = await login();
+
+    const rotated = await refresh(first);
+    expect(rotated.status).toBe(200);
+    expect(rotated.body.refreshToken).not.toBe(first);
+
+    const reused = await refresh(first);
+    expect(reused.status).toBe(401);
+    expect(reused.body.code).toBe('REFRESH_TOKEN_REUSED');
+
+    const afterReuse = await refresh(rotated.body.refreshToken);
+    expect(afterReuse.status).toBe(401);
+    expect(afterReuse.body.code).toBe('REFRESH_TOKEN_REVOKED');
+  });
+
+  it('revokes the access token and the refresh token on logout', async () => {
+    const { token, refreshToken } = await login();
+
+    const response = await request(app)
+      .post('/api/auth/logout')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ refreshToken });
+
+    expect(response.status).toBe(200);
+    expect(getRevokedAccessTokens().map((entry) => entry.jti)).toContain(jwt.decode(token).jti);
+    expect((await refresh(refreshToken)).body.code).toBe('REFRESH_TOKEN_REVOKED');
+  });
+
+  it('drops expired refresh tokens when a session is refreshed', async () => {
+    addRefreshToken({
+      id: 'stale',
+      userId: '2',
+      familyId: 'family-stale',
+      tokenHash: 'hash-stale',
+      expiresAt: new Date(Date.now() - 1000).toISOString(),
+      rotatedAt: null,
+      revokedAt: null,
+    });
+    const { refreshToken } = await login();
+
+    expect((await refresh(refreshToken)).status).toBe(200);
+    expect(findRefreshTokenByHash('hash-stale')).toBeNull();
+  });
+});
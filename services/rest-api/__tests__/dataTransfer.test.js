@@ -0,0 +1,83 @@
+jest.mock('../lib/events', () => ({ publishEvent: jest.fn() }));
+
+const bcrypt = require('bcryptjs');
+const { publishEvent } = require('../lib/events');
+const { addUser, findUserByEmail } = require('../data/usersStore');
+const { addTeam, addMemberToTeam, findTeamById } = require('../data/teamsStore');
+const {
+  buildExport,
+  toExportCsv,
+  parseImport,
+  planImport,
+  buildReport,
+  applyImport,
+} = require('../lib/dataTransfer');
+
+const req = { currentUser: { id: '1' } };
+
+describe('user and team import', () => {
+  beforeAll(() => {
+    // Registered through /api/auth/register, which stores no age
+    addUser({ id: 'registered', email: 'registered@example.com', name: 'Registered', role: 'user', teamId: null, password: 'hash' });
+  });
+
+  it.each(['json', 'csv'])('accepts the service\'s own %s export unchanged', (format) => {
+    const data = buildExport();
+    const body = format === 'csv' ? toExportCsv(data) : JSON.parse(JSON.stringify(data));
+
+    const report = buildReport(planImport(parseImport(format, body)), true);
+
+    expect(report.errors).toEqual([]);
+    expect(report.created).toEqual({ users: 0, teams: 0 });
+    expect(report.updated).toEqual({ users: 0, teams: 0 });
+    expect(report.idMap.users).toContainEqual({ from: 'registered', to: 'registered' });
+  });
+
+  it('reports ids as from/to pairs and maps new records to null in a dry run', () => {
+    const body = {
+      teams: [{ id: 't-new', name: 'Imported team', members: ['u-new'] }],
+      users: [{ id: 'u-new', name: 'Imported', email: 'imported@example.com', teamId: 't-new' }],
+    };
+
+    const report = buildReport(planImport(parseImport('json', body)), true);
+
+    expect(report.errors).toEqual([]);
+    expect(report.idMap).toEqual({
+      users: [{ from: 'u-new', to: null }],
+      teams: [{ from: 't-new', to: null }],
+    });
+  });
+
+  it('gives users imported without a password an unguessable one and asks for a reset', async () => {
+    const body = {
+      users: [
+        { name: 'No Password', email: 'no-password@example.com' },
+        { name: 'With Password', email: 'with-password@example.com', password: 'chosen-secret' },
+      ],
+    };
+
+    await applyImport(req, planImport(parseImport('json', body)));
+
+    const withoutPassword = findUserByEmail('no-password@example.com');
+    const withPassword = findUserByEmail('with-password@example.com');
+    expect(withoutPassword.mustResetPassword).toBe(true);
+    expect(await bcrypt.compare('password123', withoutPassword.password)).toBe(false);
+    expect(withPassword.mustResetPassword).toBe(false);
+    expect(await bcrypt.compare('chosen-secret', withPassword.password)).toBe(true);
+  });
+
+  it('leaves every team when an import changes the primary team', async () => {
+    addTeam({ id: 'side', name: 'Joined by invitation', members: ['mover'] });
+    addUser({ id: 'mover', email: 'mover@example.com', name: 'Mover', role: 'user', teamId: '1', password: 'hash' });
+    addMemberToTeam('1', 'mover');
+    publishEvent.mockClear();
+
+    const body = { users: [{ id: 'mover', name: 'Mover', email: 'mover@example.com', teamId: '2' }] };
+    await applyImport(req, planImport(parseImport('json', body)));
+
+    expect(findTeamById('1').members).not.toContain('mover');
+    expect(findTeamById('side').members).not.toContain('mover');
+    expect(findTeamById('2').members).toContain('mover');
+    expect(publishEvent).toHaveBeenCalledWith('team.member_removed', { teamId: 'side', userId: 'mover' });
+  });
+});
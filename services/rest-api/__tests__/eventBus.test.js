@@ -0,0 +1,72 @@
+const crypto = require('crypto');
+const { createLocalBroker, createEventBus } = require('../lib/eventBus');
+const { getOutboxEntries } = require('../data/outboxStore');
+
+const SECRET = 'an-event-signing-secret';
+
+// Outbox pushes run in the background; wait for the queued attempt to settle
+const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+const setup = (statuses) => {
+  const fetchImpl = jest.fn(async () => {
+    const status = statuses.shift() || 200;
+    return { status, ok: status >= 200 && status < 300 };
+  });
+  const timers = [];
+  const broker = createLocalBroker({
+    subscribers: ['http://task-service/internal/events'],
+    signingSecret: SECRET,
+    fetchImpl,
+    setTimer: (fn, delayMs) => {
+      const timer = { fn, delayMs };
+      timers.push(timer);
+      return timer;
+    },
+    logger: { warn: jest.fn(), error: jest.fn() },
+  });
+  const bus = createEventBus({ broker, source: 'user-service' });
+  return { bus, fetchImpl, timers };
+};
+
+const outboxFor = (eventId) => getOutboxEntries().filter((entry) => entry.event.id === eventId);
+
+describe('local event broker', () => {
+  it('signs the envelope and clears the outbox once delivered', async () => {
+    const { bus, fetchImpl } = setup([]);
+
+    const event = bus.publish('team.updated', { teamId: '1' });
+    await settle();
+
+    expect(event).toMatchObject({ type: 'team.updated', source: 'user-service', data: { teamId: '1' } });
+    const [[url, { headers, body }]] = fetchImpl.mock.calls;
+    expect(url).toBe('http://task-service/internal/events');
+    expect(headers['X-Event-Signature']).toBe(`sha256=${crypto.createHmac('sha256', SECRET).update(body).digest('hex')}`);
+    expect(outboxFor(event.id)).toEqual([]);
+  });
+
+  it('keeps failed events in the outbox and retries with backoff', async () => {
+    const { bus, fetchImpl, timers } = setup([503, 401]);
+
+    const event = bus.publish('user.deleted', { userId: '2' });
+    await settle();
+    expect(outboxFor(event.id)).toMatchObject([{ attempts: 1, lastError: 'Subscriber responded with 503' }]);
+
+    await timers.shift().fn();
+    expect(outboxFor(event.id)).toMatchObject([{ attempts: 2, lastError: 'Subscriber responded with 401' }]);
+    expect(timers.map(({ delayMs }) => delayMs)).toEqual([2000]);
+
+    await timers.shift().fn();
+    expect(fetchImpl).toHaveBeenCalledTimes(3);
+    expect(outboxFor(event.id)).toEqual([]);
+  });
+
+  it('drops an event the subscriber rejects as invalid', async () => {
+    const { bus, timers } = setup([422]);
+
+    const event = bus.publish('team.member_added', {});
+    await settle();
+
+    expect(outboxFor(event.id)).toEqual([]);
+    expect(timers).toEqual([]);
+  });
+});
@@ -0,0 +1,83 @@
+jest.mock('../lib/events', () => ({ publishEvent: jest.fn() }));
+jest.mock('../lib/mailer', () => ({ sendMail: jest.fn(async () => true) }));
+
+const path = require('path');
+const express = require('express');
+const request = require('supertest');
+const teamRoutes = require('../routes/teams');
+const invitationRoutes = require('../routes/invitations');
+const { sendMail } = require('../lib/mailer');
+const { findUserById } = require('../data/usersStore');
+const { addTeam, findTeamById } = require('../data/teamsStore');
+const { updateInvitation } = require('../data/invitationsStore');
+
+const app = express();
+app.use(express.json());
+app.use('/api/teams', teamRoutes);
+app.use('/api/invitations', invitationRoutes);
+
+// The API Gateway forwards the verified claims in the `user` header
+const as = (id) => ({ user: JSON.stringify({ id }) });
+
+// Invite tokens are signed with a key derived from the JWT private key in ./keys
+const originalCwd = process.cwd();
+beforeAll(() => process.chdir(path.join(__dirname, '..', '..', '..')));
+afterAll(() => process.chdir(originalCwd));
+
+const invite = (teamId, email) => request(app).post(`/api/teams/${teamId}/invitations`).set(as('1')).send({ email });
+const accept = (token, userId = '2') => request(app).post('/api/invitations/accept').set(as(userId)).send({ token });
+
+describe('team invitations', () => {
+  beforeAll(() => {
+    addTeam({ id: '3', name: 'QA Team', members: [] });
+  });
+
+  it('emails a signed link and refuses a second pending invitation for the same address', async () => {
+    const response = await invite('2', 'Someone@Example.com');
+
+    expect(response.status).toBe(201);
+    expect(response.body.invitation).toMatchObject({ teamId: '2', email: 'someone@example.com', status: 'PENDING', sentCount: 1 });
+    expect(response.body.invitation.tokenId).toBeUndefined();
+    expect(sendMail).toHaveBeenCalledWith(expect.objectContaining({ to: 'someone@example.com' }));
+    expect(sendMail.mock.calls[0][0].text).toContain(encodeURIComponent(response.body.token));
+
+    expect((await invite('2', 'someone@example.com')).status).toBe(409);
+  });
+
+  it('adds the invitee to the team without changing their primary team, once', async () => {
+    const { body } = await invite('2', 'user@taskmanager.com');
+
+    const response = await accept(body.token);
+
+    expect(response.status).toBe(200);
+    expect(response.body.invitation).toMatchObject({ status: 'ACCEPTED', acceptedBy: '2' });
+    expect(findTeamById('2').members).toContain('2');
+    expect(findUserById('2').teamId).toBe('1');
+    expect((await accept(body.token)).body.code).toBe('INVITE_ALREADY_ACCEPTED');
+  });
+
+  it('only accepts the latest link, sent to the caller\'s own address', async () => {
+    const { body: created } = await invite('3', 'user@taskmanager.com');
+    const { body: resent } = await request(app)
+      .post(`/api/teams/3/invitations/${created.invitation.id}/resend`)
+      .set(as('1'));
+
+    expect(resent.invitation.sentCount).toBe(2);
+    expect((await accept(created.token)).body.code).toBe('INVITE_SUPERSEDED');
+    expect((await accept(resent.token, '1')).body.code).toBe('INVITE_EMAIL_MISMATCH');
+    expect((await accept('not-a-token')).body.code).toBe('INVITE_INVALID');
+  });
+
+  it('rejects revoked and expired invitations', async () => {
+    const { body: revoked } = await invite('3', 'revoked@example.com');
+    const { body: expired } = await invite('3', 'expired@example.com');
+
+    await request(app).delete(`/api/teams/3/invitations/${revoked.invitation.id}`).set(as('1')).expect(200);
+    updateInvitation(expired.invitation.id, { expiresAt: new Date(Date.now() - 1000).toISOString() });
+
+    expect((await accept(revoked.token)).status).toBe(410);
+    expect((await accept(expired.token)).body.code).toBe('INVITE_EXPIRED');
+    const { body: list } = await request(app).get('/api/teams/3/invitations').set(as('1'));
+    expect(list.invitations.find(({ id }) => id === expired.invitation.id).status).toBe('EXPIRED');
+  });
+});
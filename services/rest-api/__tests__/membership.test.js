@@ -0,0 +1,137 @@
+jest.mock('../lib/events', () => ({ publishEvent: jest.fn() }));
+
+const express = require('express');
+const request = require('supertest');
+const userRoutes = require('../routes/users');
+const teamRoutes = require('../routes/teams');
+const { publishEvent } = require('../lib/events');
+const { addUser, findUserById } = require('../data/usersStore');
+const { addTeam, addMemberToTeam, findTeamById } = require('../data/teamsStore');
+const { addRefreshToken, findRefreshTokenByHash } = require('../data/tokensStore');
+
+const app = express();
+app.use(express.json());
+app.use('/api/users', userRoutes);
+app.use('/api/teams', teamRoutes);
+
+// The API Gateway forwards the verified claims in the `user` header
+const as = (id) => ({ user: JSON.stringify({ id }) });
+
+const addSession = (id, userId) => addRefreshToken({
+  id,
+  userId,
+  familyId: `family-${id}`,
+  tokenHash: `hash-${id}`,
+  expiresAt: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+  revokedAt: null,
+});
+
+describe('team membership', () => {
+  beforeAll(() => {
+    addUser({ id: 'mod', email: 'mod@example.com', name: 'Moderator', role: 'moderator', teamId: '1' });
+    addMemberToTeam('1', 'mod');
+    addSession('mod-session', 'mod');
+  });
+
+  it('clears the teamId and revokes the sessions of a removed member', async () => {
+    const response = await request(app).delete('/api/teams/1/members/mod').set(as('1'));
+
+    expect(response.status).toBe(200);
+    expect(findTeamById('1').members).not.toContain('mod');
+    expect(findUserById('mod').teamId).toBeNull();
+    expect(findRefreshTokenByHash('hash-mod-session').revokedAt).not.toBeNull();
+    expect(publishEvent).toHaveBeenCalledWith('team.member_removed', { teamId: '1', userId: 'mod' });
+  });
+
+  it('takes member management away from a removed moderator', async () => {
+    const response = await request(app).delete('/api/teams/1/members/2').set(as('mod'));
+
+    expect(response.status).toBe(403);
+    expect(findTeamById('1').members).toContain('2');
+  });
+
+  it('does not touch users outside the team', async () => {
+    addSession('admin-session', '1');
+    publishEvent.mockClear();
+
+    const response = await request(app).delete('/api/teams/2/members/1').set(as('1'));
+
+    expect(response.status).toBe(404);
+    expect(findRefreshTokenByHash('hash-admin-session').revokedAt).toBeNull();
+    expect(publishEvent).not.toHaveBeenCalled();
+  });
+
+  it('only adds users that exist', async () => {
+    const response = await request(app).post('/api/teams/2/members').set(as('1')).send({ userId: 'ghost' });
+
+    expect(response.status).toBe(404);
+    expect(findTeamById('2').members).not.toContain('ghost');
+  });
+
+  it('revokes the sessions of a deleted user', async () => {
+    addSession('user-session', '2');
+
+    const response = await request(app).delete('/api/users/2').set(as('1'));
+
+    expect(response.status).toBe(200);
+    expect(findUserById('2')).toBeNull();
+    expect(findRefreshTokenByHash('hash-user-session').revokedAt).not.toBeNull();
+  });
+});
+
+describe('teams joined by invitation', () => {
+  // Accepting an invite adds a member to the team without changing their primary team
+  const addInvitedUser = (id) => {
+    addUser({ id, email: `${id}@example.com`, name: id, role: 'user', teamId: '1' });
+    addMemberToTeam('1', id);
+    addMemberToTeam('2', id);
+  };
+
+  it('leaves every team when the primary team changes', async () => {
+    addInvitedUser('guest');
+
+    const response = await request(app).put('/api/users/guest').set(as('1')).send({ teamId: null });
+
+    expect(response.status).toBe(200);
+    expect(findTeamById('1').members).not.toContain('guest');
+    expect(findTeamById('2').members).not.toContain('guest');
+    expect(publishEvent).toHaveBeenCalledWith('team.member_removed', { teamId: '2', userId: 'guest' });
+  });
+
+  it('leaves every team when the user is deleted', async () => {
+    addInvitedUser('visitor');
+
+    const response = await request(app).delete('/api/users/visitor').set(as('1'));
+
+    expect(response.status).toBe(200);
+    expect(findTeamById('1').members).not.toContain('visitor');
+    expect(findTeamById('2').members).not.toContain('visitor');
+  });
+});
+
+describe('team deletion', () => {
+  it('clears the team of every user on it', async () => {
+    addTeam({ id: 'closing', name: 'Closing', members: ['leaver'] });
+    addUser({ id: 'leaver', email: 'leaver@example.com', name: 'Leaver', role: 'user', teamId: 'closing' });
+
+    const response = await request(app).delete('/api/teams/closing').set(as('1'));
+
+    expect(response.status).toBe(200);
+    expect(findTeamById('closing')).toBeNull();
+    expect(findUserById('leaver').teamId).toBeNull();
+    expect(findUserById('1').teamId).toBe('1');
+  });
+});
+
+describe('user passwords', () => {
+  it('completes a pending reset when a password is set', async () => {
+    addUser({ id: 'imported', email: 'imported@example.com', name: 'Imported', role: 'user', password: 'hash', mustResetPassword: true });
+
+    const response = await request(app).put('/api/users/imported').set(as('1')).send({ password: 'new-secret' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.user).not.toHaveProperty('password');
+    expect(findUserById('imported').mustResetPassword).toBe(false);
+    expect(findUserById('imported').password).not.toBe('hash');
+  });
+});
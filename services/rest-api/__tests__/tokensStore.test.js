@@ -0,0 +1,51 @@
+const {
+  addRefreshToken,
+  findRefreshTokenByHash,
+  revokeRefreshTokenFamily,
+  revokeRefreshTokensForUser,
+  revokeAccessToken,
+  getRevokedAccessTokens,
+} = require('../data/tokensStore');
+
+const inOneDay = () => new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
+
+const addToken = (id, userId, familyId, revokedAt = null) => addRefreshToken({
+  id,
+  userId,
+  familyId,
+  tokenHash: `hash-${id}`,
+  expiresAt: inOneDay(),
+  revokedAt,
+});
+
+describe('tokensStore', () => {
+  beforeAll(() => {
+    addToken('a1', 'u1', 'family-a');
+    addToken('a2', 'u1', 'family-a', '2026-01-01T00:00:00.000Z');
+    addToken('b1', 'u1', 'family-b');
+    addToken('c1', 'u2', 'family-c');
+  });
+
+  it('revokes the active tokens of one family only', () => {
+    expect(revokeRefreshTokenFamily('family-a')).toBe(1);
+
+    expect(findRefreshTokenByHash('hash-a1').revokedAt).not.toBeNull();
+    expect(findRefreshTokenByHash('hash-a2').revokedAt).toBe('2026-01-01T00:00:00.000Z');
+    expect(findRefreshTokenByHash('hash-b1').revokedAt).toBeNull();
+  });
+
+  it('revokes every remaining session of a user', () => {
+    expect(revokeRefreshTokensForUser('u1')).toBe(1);
+
+    expect(findRefreshTokenByHash('hash-b1').revokedAt).not.toBeNull();
+    expect(findRefreshTokenByHash('hash-c1').revokedAt).toBeNull();
+  });
+
+  it('lists revoked access tokens until they expire', () => {
+    revokeAccessToken('jti-live', inOneDay());
+    revokeAccessToken('jti-live', inOneDay());
+    revokeAccessToken('jti-expired', new Date(Date.now() - 1000).toISOString());
+
+    expect(getRevokedAccessTokens().map((entry) => entry.jti)).toEqual(['jti-live']);
+  });
+});
@@ -0,0 +1,21 @@
+const db = require('./db');
+
+const auditLog = db.repository('auditLog');
+
+// Entries are append-only: there is deliberately no update or remove
+const addAuditEntry = (entry) => auditLog.insert(entry);
+
+// Newest first
+const getAuditEntries = ({ since, entityType, entityId, actorId } = {}) => auditLog
+  .find((entry) => (
+    (!since || entry.createdAt > since)
+    && (!entityType || entry.entityType === entityType)
+    && (!entityId || entry.entityId === entityId)
+    && (!actorId || entry.actorId === actorId)
+  ))
+  .reverse();
+
+module.exports = {
+  addAuditEntry,
+  getAuditEntries,
+};
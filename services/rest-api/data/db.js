@@ -0,0 +1,13 @@
+const path = require('path');
+const { createStorage } = require('@microservices-demo/shared/storage');
+const migrations = require('./migrations');
+const seed = require('./seed');
+
+const driver = process.env.STORAGE_DRIVER || (process.env.NODE_ENV === 'test' ? 'memory' : 'file');
+const filePath = process.env.STORAGE_FILE || path.join(__dirname, '..', 'storage', 'user-service.json');
+
+const db = createStorage({ driver, filePath, migrations, seed });
+
+console.log(`💾 Storage driver: ${db.driver}${db.driver === 'file' ? ` (${filePath})` : ''}`);
+
+module.exports = db;
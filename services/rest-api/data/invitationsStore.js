@@ -0,0 +1,27 @@
+const db = require('./db');
+
+const invitations = db.repository('invitations');
+
+// Newest first
+const getInvitationsForTeam = (teamId) => invitations
+  .find((invitation) => invitation.teamId === teamId)
+  .reverse();
+
+const findInvitationById = (id) => invitations.findById(id);
+
+// Emails are stored lowercased
+const findPendingInvitation = (teamId, email) => invitations.findOne((invitation) => (
+  invitation.teamId === teamId && invitation.email === email && invitation.status === 'PENDING'
+));
+
+const addInvitation = (invitation) => invitations.insert(invitation);
+
+const updateInvitation = (id, updates) => invitations.update(id, { ...updates, updatedAt: new Date().toISOString() });
+
+module.exports = {
+  getInvitationsForTeam,
+  findInvitationById,
+  findPendingInvitation,
+  addInvitation,
+  updateInvitation,
+};
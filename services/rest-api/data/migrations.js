@@ -0,0 +1,41 @@
+// Schema migrations for the user service store, applied in order of `version`.
+// Never edit a released migration; append a new one instead.
+module.exports = [
+  {
+    version: 1,
+    name: 'create users and teams collections',
+    up: (collections) => {
+      collections.users = collections.users || [];
+      collections.teams = collections.teams || [];
+    },
+  },
+  {
+    version: 2,
+    name: 'create refresh token and revocation collections',
+    up: (collections) => {
+      collections.refreshTokens = collections.refreshTokens || [];
+      collections.revokedTokens = collections.revokedTokens || [];
+    },
+  },
+  {
+    version: 3,
+    name: 'create audit log collection',
+    up: (collections) => {
+      collections.auditLog = collections.auditLog || [];
+    },
+  },
+  {
+    version: 4,
+    name: 'create event outbox collection',
+    up: (collections) => {
+      collections.eventOutbox = collections.eventOutbox || [];
+    },
+  },
+  {
+    version: 5,
+    name: 'create team invitations collection',
+    up: (collections) => {
+      collections.invitations = collections.invitations || [];
+    },
+  },
+];
@@ -0,0 +1,23 @@
+const db = require('./db');
+
+const outbox = db.repository('eventOutbox');
+
+// One entry per event and subscriber; entries are removed once the subscriber acknowledges them
+const addOutboxEntry = (entry) => outbox.insert(entry);
+
+const findOutboxEntryById = (id) => outbox.findById(id);
+
+const updateOutboxEntry = (id, updates) => outbox.update(id, updates);
+
+const removeOutboxEntry = (id) => outbox.remove(id);
+
+// Oldest first, so a resumed broker redelivers in publish order
+const getOutboxEntries = () => outbox.list();
+
+module.exports = {
+  addOutboxEntry,
+  findOutboxEntryById,
+  updateOutboxEntry,
+  removeOutboxEntry,
+  getOutboxEntries,
+};
@@ -0,0 +1,52 @@
+const bcrypt = require('bcryptjs');
+
+// Default fixtures inserted when a store is created for the first time
+const seed = (collections) => {
+  const now = new Date().toISOString();
+
+  collections.users.push(
+    {
+      id: '1',
+      email: 'admin@taskmanager.com',
+      password: bcrypt.hashSync('admin123', 10),
+      name: 'Admin User',
+      role: 'admin',
+      teamId: '1',
+      age: 32,
+      createdAt: now,
+      updatedAt: now,
+    },
+    {
+      id: '2',
+      email: 'user@taskmanager.com',
+      password: bcrypt.hashSync('user123', 10),
+      name: 'Regular User',
+      role: 'user',
+      teamId: '1',
+      age: 26,
+      createdAt: now,
+      updatedAt: now,
+    },
+  );
+
+  collections.teams.push(
+    {
+      id: '1',
+      name: 'Development Team',
+      description: 'Main development team',
+      members: ['1', '2'],
+      createdAt: now,
+      updatedAt: now,
+    },
+    {
+      id: '2',
+      name: 'Marketing Team',
+      description: 'Marketing and promotion team',
+      members: [],
+      createdAt: now,
+      updatedAt: now,
+    },
+  );
+};
+
+module.exports = seed;
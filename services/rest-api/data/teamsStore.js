@@ -1,25 +1,10 @@
-const teams = [
-  {
-    id: '1',
-    name: 'Development Team',
-    description: 'Main development team',
-    members: ['1', '2'],
-    createdAt: new Date().toISOString(),
-    updatedAt: new Date().toISOString(),
-  },
-  {
-    id: '2',
-    name: 'Marketing Team',
-    description: 'Marketing and promotion team',
-    members: [],
-    createdAt: new Date().toISOString(),
-    updatedAt: new Date().toISOString(),
-  },
-];
+const db = require('./db');
 
-const getTeams = () => teams;
+const teams = db.repository('teams');
 
-const findTeamById = (id) => teams.find((team) => team.id === id);
+const getTeams = () => teams.list();
+
+const findTeamById = (id) => teams.findById(id);
 
 const addTeam = (team) => {
   const entry = {
@@ -28,40 +13,22 @@ const addTeam = (team) => {
     createdAt: team.createdAt || new Date().toISOString(),
     updatedAt: team.updatedAt || new Date().toISOString(),
   };
-  teams.push(entry);
-  return entry;
-};
-
-const updateTeam = (id, updates) => {
-  const index = teams.findIndex((team) => team.id === id);
-  if (index === -1) {
-    return null;
-  }
-
-  teams[index] = { ...teams[index], ...updates, updatedAt: new Date().toISOString() };
-  return teams[index];
+  return teams.insert(entry);
 };
 
-const removeTeam = (id) => {
-  const index = teams.findIndex((team) => team.id === id);
-  if (index === -1) {
-    return null;
-  }
+const updateTeam = (id, updates) => teams.update(id, { ...updates, updatedAt: new Date().toISOString() });
 
-  const [removed] = teams.splice(index, 1);
-  return removed;
-};
+const removeTeam = (id) => teams.remove(id);
 
 const addMemberToTeam = (teamId, userId) => {
   const team = findTeamById(teamId);
   if (!team) {
     return null;
   }
-  if (!team.members.includes(userId)) {
-    team.members.push(userId);
-    team.updatedAt = new Date().toISOString();
+  if (team.members.includes(userId)) {
+    return team;
   }
-  return team;
+  return updateTeam(teamId, { members: [...team.members, userId] });
 };
 
 const removeMemberFromTeam = (teamId, userId) => {
@@ -69,11 +36,14 @@ const removeMemberFromTeam = (teamId, userId) => {
   if (!team) {
     return null;
   }
-  team.members = team.members.filter((member) => member !== userId);
-  team.updatedAt = new Date().toISOString();
-  return team;
+  return updateTeam(teamId, { members: team.members.filter((member) => member !== userId) });
 };
 
+// Drop the user from every team that lists them, in one write; returns the teams they left
+const removeMemberFromAllTeams = (userId, { except = null } = {}) => db.batch(() => teams
+  .find((team) => team.id !== except && team.members.includes(userId))
+  .map((team) => updateTeam(team.id, { members: team.members.filter((member) => member !== userId) })));
+
 module.exports = {
   getTeams,
   findTeamById,
@@ -82,4 +52,5 @@ module.exports = {
   removeTeam,
   addMemberToTeam,
   removeMemberFromTeam,
+  removeMemberFromAllTeams,
 };
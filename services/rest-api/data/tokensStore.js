@@ -0,0 +1,53 @@
+const db = require('./db');
+
+const refreshTokens = db.repository('refreshTokens');
+const revokedTokens = db.repository('revokedTokens');
+
+const findRefreshTokenByHash = (tokenHash) => refreshTokens.findOne((token) => token.tokenHash === tokenHash);
+
+const addRefreshToken = (token) => refreshTokens.insert(token);
+
+const updateRefreshToken = (id, updates) => refreshTokens.update(id, updates);
+
+// Revoke every still-active refresh token of a rotation family
+const revokeRefreshTokenFamily = (familyId) => refreshTokens.updateWhere(
+  (token) => token.familyId === familyId && !token.revokedAt,
+  { revokedAt: new Date().toISOString() }
+);
+
+const revokeRefreshTokensForUser = (userId) => refreshTokens.updateWhere(
+  (token) => token.userId === userId && !token.revokedAt,
+  { revokedAt: new Date().toISOString() }
+);
+
+// Expired entries are useless for reuse detection and the revocation list alike
+const pruneExpiredTokens = () => {
+  const now = Date.now();
+  revokedTokens.removeWhere((entry) => new Date(entry.expiresAt).getTime() <= now);
+  refreshTokens.removeWhere((token) => new Date(token.expiresAt).getTime() <= now);
+};
+
+const revokeAccessToken = (jti, expiresAt) => {
+  pruneExpiredTokens();
+  if (!revokedTokens.findById(jti)) {
+    revokedTokens.insert({ id: jti, expiresAt, revokedAt: new Date().toISOString() });
+  }
+};
+
+const getRevokedAccessTokens = () => {
+  const now = Date.now();
+  return revokedTokens
+    .find((entry) => new Date(entry.expiresAt).getTime() > now)
+    .map((entry) => ({ jti: entry.id, expiresAt: entry.expiresAt }));
+};
+
+module.exports = {
+  findRefreshTokenByHash,
+  addRefreshToken,
+  updateRefreshToken,
+  revokeRefreshTokenFamily,
+  revokeRefreshTokensForUser,
+  revokeAccessToken,
+  getRevokedAccessTokens,
+  pruneExpiredTokens,
+};
@@ -1,60 +1,27 @@
-const bcrypt = require('bcryptjs');
+const db = require('./db');
 
-const users = [
-  {
-    id: '1',
-    email: 'admin@taskmanager.com',
-    password: bcrypt.hashSync('admin123', 10),
-    name: 'Admin User',
-    role: 'admin',
-    teamId: '1',
-    age: 32,
-    createdAt: new Date().toISOString(),
-    updatedAt: new Date().toISOString(),
-  },
-  {
-    id: '2',
-    email: 'user@taskmanager.com',
-    password: bcrypt.hashSync('user123', 10),
-    name: 'Regular User',
-    role: 'user',
-    teamId: '1',
-    age: 26,
-    createdAt: new Date().toISOString(),
-    updatedAt: new Date().toISOString(),
-  },
-];
+const users = db.repository('users');
 
-const getUsers = () => users;
+const getUsers = () => users.list();
 
-const findUserByEmail = (email) => users.find((user) => user.email === email);
+const findUserByEmail = (email) => users.findOne((user) => user.email === email);
 
-const findUserById = (id) => users.find((user) => user.id === id);
+const findUserById = (id) => users.findById(id);
 
 const addUser = (user) => {
-  users.push({ ...user, createdAt: user.createdAt || new Date().toISOString(), updatedAt: user.updatedAt || new Date().toISOString() });
+  users.insert({ ...user, createdAt: user.createdAt || new Date().toISOString(), updatedAt: user.updatedAt || new Date().toISOString() });
   return user;
 };
 
-const updateUser = (id, updates) => {
-  const index = users.findIndex((user) => user.id === id);
-  if (index === -1) {
-    return null;
-  }
+const updateUser = (id, updates) => users.update(id, { ...updates, updatedAt: new Date().toISOString() });
 
-  users[index] = { ...users[index], ...updates, updatedAt: new Date().toISOString() };
-  return users[index];
-};
-
-const removeUser = (id) => {
-  const index = users.findIndex((user) => user.id === id);
-  if (index === -1) {
-    return null;
-  }
+const removeUser = (id) => users.remove(id);
 
-  const [removed] = users.splice(index, 1);
-  return removed;
-};
+// Clear the team of everyone on it, in one write; returns how many users changed
+const clearUsersTeam = (teamId) => users.updateWhere(
+  (user) => user.teamId === teamId,
+  { teamId: null, updatedAt: new Date().toISOString() }
+);
 
 module.exports = {
   getUsers,
@@ -63,4 +30,5 @@ module.exports = {
   addUser,
   updateUser,
   removeUser,
+  clearUsersTeam,
 };
@@ -0,0 +1,48 @@
+const { v4: uuidv4 } = require('uuid');
+const { addAuditEntry } = require('../data/auditStore');
+
+// Never copied into the audit log, not even as a hash
+const HIDDEN_FIELDS = ['password'];
+
+// Bookkeeping fields that change on every write and say nothing about the edit itself
+const IGNORED_FIELDS = ['id', 'createdAt', 'updatedAt'];
+
+const isEqual = (a, b) => JSON.stringify(a) === JSON.stringify(b);
+
+// Missing fields and null compare as equal
+const valueOf = (record, field) => (record && record[field] !== undefined ? record[field] : null);
+
+// Field-level differences between two versions of a record; either side may be null
+const diffRecords = (before, after) => {
+  const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+  return [...fields]
+    .filter((field) => !IGNORED_FIELDS.includes(field) && !HIDDEN_FIELDS.includes(field))
+    .filter((field) => !isEqual(valueOf(before, field), valueOf(after, field)))
+    .map((field) => ({ field, from: valueOf(before, field), to: valueOf(after, field) }));
+};
+
+/**
+ * Append an audit entry for a change made during `req`.
+ * The actor defaults to the user resolved by the authorize middleware.
+ */
+const recordAudit = (req, {
+  action,
+  entityType,
+  entityId,
+  before = null,
+  after = null,
+  actorId = req.currentUser ? req.currentUser.id : null,
+}) => addAuditEntry({
+  id: uuidv4(),
+  action,
+  entityType,
+  entityId,
+  actorId,
+  changes: diffRecords(before, after),
+  createdAt: new Date().toISOString(),
+});
+
+module.exports = {
+  diffRecords,
+  recordAudit,
+};
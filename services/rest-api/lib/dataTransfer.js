@@ -0,0 +1,296 @@
+const crypto = require('crypto');
+const { v4: uuidv4 } = require('uuid');
+const bcrypt = require('bcryptjs');
+const { userImportSchema, teamSchema } = require('../middleware/validation');
+const { getUsers, findUserById, findUserByEmail, addUser, updateUser } = require('../data/usersStore');
+const {
+  getTeams,
+  findTeamById,
+  addTeam,
+  updateTeam,
+  addMemberToTeam,
+  removeMemberFromAllTeams,
+} = require('../data/teamsStore');
+const { recordAudit } = require('./audit');
+const { publishEvent } = require('./events');
+const { toCsv, parseCsv, parseList } = require('@microservices-demo/shared/csv');
+
+const FORMATS = ['json', 'csv'];
+const MAX_IMPORT_ROWS = 5000;
+
+// Users and teams share one CSV file; `type` tells the rows apart
+const CSV_COLUMNS = ['type', 'id', 'name', 'email', 'age', 'role', 'teamId', 'description', 'members', 'createdAt'];
+const USER_FIELDS = ['name', 'email', 'age', 'role', 'teamId', 'password'];
+
+const buildExport = () => ({
+  exportedAt: new Date().toISOString(),
+  // Password hashes never leave the service
+  users: getUsers().map(({ password, ...user }) => user),
+  teams: getTeams(),
+});
+
+const toExportCsv = ({ users, teams }) => toCsv(CSV_COLUMNS, [
+  ...teams.map((team) => ({ type: 'team', ...team })),
+  ...users.map((user) => ({ type: 'user', ...user })),
+]);
+
+// Empty cells and nulls mean "not given"
+const present = (value) => (value === '' || value === null ? undefined : value);
+
+const toUserData = (record) => ({
+  id: present(record.id),
+  ...Object.fromEntries(USER_FIELDS.map((field) => [field, present(record[field])])),
+});
+
+const toTeamData = (record) => ({
+  id: present(record.id),
+  name: present(record.name),
+  description: present(record.description),
+  members: Array.isArray(record.members) ? record.members.map(String) : parseList(record.members),
+});
+
+/**
+ * Read an import file into `{ users, teams, errors }`, each row tagged with its number:
+ * the data row for CSV, the position within its list for JSON. Throws on a malformed file.
+ */
+const parseImport = (format, body) => {
+  const users = [];
+  const teams = [];
+  const errors = [];
+
+  if (format === 'csv') {
+    if (typeof body !== 'string') {
+      throw new Error('Send the CSV file with Content-Type: text/csv');
+    }
+    parseCsv(body).forEach((record, index) => {
+      const row = index + 1;
+      const type = record.type && record.type.trim();
+      if (type === 'user') {
+        users.push({ row, data: toUserData(record) });
+      } else if (type === 'team') {
+        teams.push({ row, data: toTeamData(record) });
+      } else {
+        errors.push({ type: type || null, row, id: present(record.id) || null, message: 'type must be "user" or "team"' });
+      }
+    });
+  } else {
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      throw new Error('Send a JSON object with "users" and/or "teams" lists');
+    }
+    ['users', 'teams'].forEach((key) => {
+      if (body[key] !== undefined && !Array.isArray(body[key])) {
+        throw new Error(`"${key}" must be a list`);
+      }
+    });
+    (body.users || []).forEach((record, index) => users.push({ row: index + 1, data: toUserData(record || {}) }));
+    (body.teams || []).forEach((record, index) => teams.push({ row: index + 1, data: toTeamData(record || {}) }));
+  }
+
+  if (users.length + teams.length + errors.length > MAX_IMPORT_ROWS) {
+    throw new Error(`An import can hold at most ${MAX_IMPORT_ROWS} rows`);
+  }
+  return { users, teams, errors };
+};
+
+/**
+ * Decide what each row does without writing anything. Teams are matched by name and users
+ * by email; rows that match nothing are created under new ids. References to teams and
+ * members may use the ids from the file, which are mapped to the ids they end up with.
+ */
+const planImport = ({ users, teams, errors: parseErrors }) => {
+  const errors = [...parseErrors];
+  const reject = (type, { row, data }, message) => errors.push({ type, row, id: data.id || null, message });
+  const teamIds = {};
+  const userIds = {};
+
+  const teamNames = new Set();
+  const teamPlans = teams.reduce((plans, entry) => {
+    const { error, value } = teamSchema.validate({ name: entry.data.name, description: entry.data.description });
+    if (error) {
+      reject('team', entry, error.details[0].message);
+      return plans;
+    }
+    const key = value.name.toLowerCase();
+    if (teamNames.has(key)) {
+      reject('team', entry, `Team "${value.name}" appears more than once`);
+      return plans;
+    }
+    teamNames.add(key);
+
+    const existing = getTeams().find((team) => team.name.toLowerCase() === key) || null;
+    const plan = { entry, existing, id: existing ? existing.id : uuidv4(), values: value };
+    if (entry.data.id) teamIds[entry.data.id] = plan.id;
+    return [...plans, plan];
+  }, []);
+
+  const emails = new Set();
+  const userPlans = users.reduce((plans, entry) => {
+    const fields = Object.fromEntries(USER_FIELDS.map((field) => [field, entry.data[field]]));
+    const { error, value } = userImportSchema.validate(fields);
+    if (error) {
+      reject('user', entry, error.details[0].message);
+      return plans;
+    }
+    if (emails.has(value.email)) {
+      reject('user', entry, `${value.email} appears more than once`);
+      return plans;
+    }
+    emails.add(value.email);
+
+    let teamId;
+    if (value.teamId) {
+      teamId = teamIds[value.teamId] || (findTeamById(value.teamId) ? value.teamId : null);
+      if (!teamId) {
+        reject('user', entry, `Unknown team ${value.teamId}`);
+        return plans;
+      }
+    }
+
+    const existing = findUserByEmail(value.email) || null;
+    const plan = { entry, existing, id: existing ? existing.id : uuidv4(), values: { ...value, teamId } };
+    if (entry.data.id) userIds[entry.data.id] = plan.id;
+    return [...plans, plan];
+  }, []);
+
+  // Members whose own row was rejected already have an error of their own
+  const importedUserIds = new Set(users.map(({ data }) => data.id).filter(Boolean));
+  teamPlans.forEach((plan) => {
+    const current = plan.existing ? plan.existing.members : [];
+    const members = [];
+    plan.entry.data.members.forEach((memberId) => {
+      const id = userIds[memberId] || (findUserById(memberId) ? memberId : null);
+      if (id) {
+        members.push(id);
+      } else if (!importedUserIds.has(memberId)) {
+        reject('team', plan.entry, `Unknown member ${memberId} was not added`);
+      }
+    });
+    plan.newMembers = [...new Set(members)].filter((id) => !current.includes(id));
+  });
+
+  teamPlans.forEach((plan) => {
+    const descriptionChanged = Boolean(plan.existing)
+      && plan.values.description !== undefined
+      && plan.values.description !== (plan.existing.description || '');
+    plan.changes = descriptionChanged ? { description: plan.values.description } : {};
+    if (!plan.existing) {
+      plan.action = 'create';
+    } else {
+      plan.action = descriptionChanged || plan.newMembers.length > 0 ? 'update' : 'skip';
+    }
+  });
+
+  userPlans.forEach((plan) => {
+    if (!plan.existing) {
+      plan.action = 'create';
+      return;
+    }
+    // Blank cells keep the current value; passwords are only set for new users
+    plan.changes = Object.fromEntries(['name', 'age', 'role', 'teamId']
+      .filter((field) => plan.values[field] !== undefined && plan.values[field] !== plan.existing[field])
+      .map((field) => [field, plan.values[field]]));
+    plan.action = Object.keys(plan.changes).length > 0 ? 'update' : 'skip';
+  });
+
+  return { teams: teamPlans, users: userPlans, errors };
+};
+
+const countActions = (plan, action) => ({
+  users: plan.users.filter((entry) => entry.action === action).length,
+  teams: plan.teams.filter((entry) => entry.action === action).length,
+});
+
+// `{ from, to }` pairs like the Task Service import, so `users` can be passed on as its userIdMap.
+// Ids are only handed out when the import runs, so a dry run maps new records to null
+const buildIdMap = (plans, dryRun) => plans
+  .filter(({ entry }) => entry.data.id)
+  .map(({ entry, action, id }) => ({ from: entry.data.id, to: dryRun && action === 'create' ? null : id }));
+
+const buildReport = (plan, dryRun) => ({
+  dryRun,
+  created: countActions(plan, 'create'),
+  updated: countActions(plan, 'update'),
+  skipped: countActions(plan, 'skip'),
+  errors: plan.errors,
+  idMap: {
+    users: buildIdMap(plan.users, dryRun),
+    teams: buildIdMap(plan.teams, dryRun),
+  },
+});
+
+// Same as PUT /api/users/:id: teams joined by invitation are left too, not only the previous primary team
+const moveUserToTeam = (user, teamId, userName) => {
+  removeMemberFromAllTeams(user.id, { except: teamId }).forEach((team) => {
+    publishEvent('team.member_removed', { teamId: team.id, userId: user.id });
+  });
+  if (teamId) {
+    const team = addMemberToTeam(teamId, user.id);
+    publishEvent('team.member_added', { teamId, userId: user.id, userName, teamName: team ? team.name : null });
+  }
+};
+
+// Write a plan made by planImport, with the same audit entries and events as the single-record routes
+const applyImport = async (req, plan) => {
+  plan.teams.filter((entry) => entry.action === 'create').forEach(({ id, values }) => {
+    addTeam({ id, name: values.name, description: values.description || '', members: [] });
+  });
+  plan.teams.filter((entry) => entry.action === 'update' && entry.changes.description !== undefined)
+    .forEach(({ id, changes }) => updateTeam(id, changes));
+
+  for (const { action, id, values, existing, changes } of plan.users) {
+    if (action === 'create') {
+      // Without a password in the file nobody can log in until an admin sets one
+      const password = await bcrypt.hash(values.password || crypto.randomBytes(24).toString('base64url'), 10);
+      addUser({
+        id,
+        name: values.name,
+        email: values.email,
+        age: values.age,
+        role: values.role || 'user',
+        teamId: values.teamId || null,
+        password,
+        mustResetPassword: !values.password,
+      });
+      if (values.teamId) {
+        addMemberToTeam(values.teamId, id);
+      }
+      recordAudit(req, { action: 'USER_CREATED', entityType: 'user', entityId: id, after: findUserById(id) });
+    } else if (action === 'update') {
+      const updated = updateUser(id, changes);
+      recordAudit(req, { action: 'USER_UPDATED', entityType: 'user', entityId: id, before: existing, after: updated });
+      if (changes.teamId !== undefined) {
+        moveUserToTeam(existing, changes.teamId, updated.name);
+      }
+    }
+  }
+
+  plan.teams.filter((entry) => entry.action !== 'skip').forEach(({ action, id, existing, changes, newMembers }) => {
+    newMembers.forEach((userId) => {
+      const team = findTeamById(id);
+      if (team.members.includes(userId)) return;
+      addMemberToTeam(id, userId);
+      const member = findUserById(userId);
+      publishEvent('team.member_added', { teamId: id, userId, userName: member ? member.name : null, teamName: team.name });
+    });
+
+    const team = findTeamById(id);
+    if (action === 'create') {
+      recordAudit(req, { action: 'TEAM_CREATED', entityType: 'team', entityId: id, after: team });
+    } else {
+      recordAudit(req, { action: 'TEAM_UPDATED', entityType: 'team', entityId: id, before: existing, after: team });
+      if (changes.description !== undefined) {
+        publishEvent('team.updated', { teamId: id, team });
+      }
+    }
+  });
+};
+
+module.exports = {
+  FORMATS,
+  buildExport,
+  toExportCsv,
+  parseImport,
+  planImport,
+  buildReport,
+  applyImport,
+};
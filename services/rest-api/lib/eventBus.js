@@ -0,0 +1,168 @@
+const crypto = require('crypto');
+const { v4: uuidv4 } = require('uuid');
+const {
+  addOutboxEntry,
+  findOutboxEntryById,
+  updateOutboxEntry,
+  removeOutboxEntry,
+  getOutboxEntries,
+} = require('../data/outboxStore');
+
+const signEvent = (secret, body) => `sha256=${crypto.createHmac('sha256', secret).update(body).digest('hex')}`;
+
+/**
+ * Local broker: events are written to the outbox in this service's store and pushed
+ * as JSON POSTs to every subscriber endpoint. An entry stays in the outbox until the
+ * subscriber answers 2xx, retrying with capped exponential backoff, so delivery is
+ * at-least-once and survives restarts. Subscribers must tolerate duplicates. Only a
+ * permanent rejection (4xx) drops an event. Each POST carries an X-Event-Signature
+ * HMAC of the body, keyed with `signingSecret`, so subscribers can reject forged events.
+ * `fetchImpl`, `clock` and `setTimer` are injectable for tests.
+ */
+const createLocalBroker = ({
+  subscribers = [],
+  signingSecret = '',
+  fetchImpl = (...args) => fetch(...args),
+  clock = () => Date.now(),
+  setTimer = setTimeout,
+  baseDelayMs = 1000,
+  maxDelayMs = 60 * 1000,
+  timeoutMs = 5000,
+  logger = console,
+} = {}) => {
+  const timers = new Set();
+
+  const schedule = (entryId, delayMs) => {
+    const timer = setTimer(() => {
+      timers.delete(timer);
+      return attempt(entryId);
+    }, delayMs);
+    if (timer && timer.unref) timer.unref();
+    timers.add(timer);
+  };
+
+  const post = async (entry) => {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), timeoutMs);
+    const body = JSON.stringify(entry.event);
+    try {
+      return await fetchImpl(entry.subscriber, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Event-Signature': signEvent(signingSecret, body),
+        },
+        body,
+        signal: controller.signal,
+      });
+    } finally {
+      clearTimeout(timeout);
+    }
+  };
+
+  const attempt = async (entryId) => {
+    const entry = findOutboxEntryById(entryId);
+    if (!entry) return null;
+
+    let error = null;
+    let rejected = false;
+    try {
+      const response = await post(entry);
+      if (!response.ok) error = `Subscriber responded with ${response.status}`;
+      // A 4xx other than timeout, rate limiting or a signature the subscriber does not accept yet
+      // (mismatched secrets are fixed by configuration) means the event itself is bad
+      rejected = response.status >= 400 && response.status < 500 && ![401, 403, 408, 429].includes(response.status);
+    } catch (requestError) {
+      error = requestError.name === 'AbortError' ? `Timed out after ${timeoutMs}ms` : requestError.message;
+    }
+
+    if (!error || rejected) {
+      if (rejected) logger.error(`❌ ${entry.subscriber} rejected ${entry.event.type} event ${entry.event.id}: ${error}`);
+      removeOutboxEntry(entryId);
+      return null;
+    }
+
+    const attempts = entry.attempts + 1;
+    const delayMs = Math.min(baseDelayMs * 2 ** (attempts - 1), maxDelayMs);
+    logger.warn(`⚠️  Delivery of ${entry.event.type} event ${entry.event.id} to ${entry.subscriber} failed (attempt ${attempts}): ${error}`);
+    const updated = updateOutboxEntry(entryId, {
+      attempts,
+      lastError: error,
+      nextAttemptAt: new Date(clock() + delayMs).toISOString(),
+    });
+    schedule(entryId, delayMs);
+    return updated;
+  };
+
+  // The event is in the outbox before this returns; the first push happens in the background
+  const publish = (event) => {
+    subscribers.forEach((subscriber) => {
+      const entry = addOutboxEntry({
+        id: uuidv4(),
+        subscriber,
+        event,
+        attempts: 0,
+        lastError: null,
+        nextAttemptAt: event.occurredAt,
+        createdAt: event.occurredAt,
+      });
+      attempt(entry.id).catch((error) => logger.error(`Event delivery to ${subscriber} failed:`, error));
+    });
+  };
+
+  // Pick up entries that were still waiting for a subscriber when the service stopped
+  const start = () => {
+    const pending = getOutboxEntries();
+    pending.forEach((entry) => {
+      const due = entry.nextAttemptAt ? new Date(entry.nextAttemptAt).getTime() : clock();
+      schedule(entry.id, Math.max(0, due - clock()));
+    });
+    return pending.length;
+  };
+
+  const stop = () => {
+    timers.forEach((timer) => clearTimeout(timer));
+    timers.clear();
+  };
+
+  return {
+    publish,
+    start,
+    stop,
+  };
+};
+
+// Broker implementations by EVENT_BROKER name; each provides publish(event), start() and stop()
+const BROKERS = {
+  local: createLocalBroker,
+};
+
+/**
+ * Domain event bus. Events are wrapped in an envelope whose `id` lets subscribers
+ * drop redeliveries: { id, type, source, occurredAt, data }.
+ */
+const createEventBus = ({ broker, source, clock = () => Date.now() }) => {
+  const publish = (type, data) => {
+    const event = {
+      id: uuidv4(),
+      type,
+      source,
+      occurredAt: new Date(clock()).toISOString(),
+      data,
+    };
+    broker.publish(event);
+    return event;
+  };
+
+  return {
+    publish,
+    start: () => broker.start(),
+    stop: () => broker.stop(),
+  };
+};
+
+module.exports = {
+  BROKERS,
+  createLocalBroker,
+  createEventBus,
+};
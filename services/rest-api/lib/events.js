@@ -0,0 +1,33 @@
+const { BROKERS, createEventBus } = require('./eventBus');
+
+// The Task Service reacts to user and team changes; more subscribers can be listed in EVENT_SUBSCRIBERS
+const TASK_SERVICE_URL = process.env.GRAPHQL_API_URL || 'http://graphql-api:4000';
+const subscribers = (process.env.EVENT_SUBSCRIBERS || `${TASK_SERVICE_URL}/internal/events`)
+  .split(',')
+  .map((url) => url.trim())
+  .filter(Boolean);
+
+const brokerName = process.env.EVENT_BROKER || 'local';
+const createBroker = BROKERS[brokerName];
+if (!createBroker) {
+  throw new Error(`Unknown EVENT_BROKER "${brokerName}"; expected one of: ${Object.keys(BROKERS).join(', ')}`);
+}
+
+const eventBus = createEventBus({
+  source: 'user-service',
+  broker: createBroker({
+    subscribers,
+    // Subscribers verify X-Event-Signature with the same shared token
+    signingSecret: process.env.INTERNAL_SERVICE_TOKEN || '',
+    baseDelayMs: Number(process.env.EVENT_RETRY_BASE_MS) || 1000,
+    maxDelayMs: Number(process.env.EVENT_RETRY_MAX_MS) || 60 * 1000,
+  }),
+});
+
+// Publishing never fails the request that caused the event: it only writes to the outbox
+const publishEvent = (type, data) => eventBus.publish(type, data);
+
+module.exports = {
+  eventBus,
+  publishEvent,
+};
@@ -0,0 +1,115 @@
+const { findInvitationById, updateInvitation } = require('../data/invitationsStore');
+const { findTeamById, addMemberToTeam } = require('../data/teamsStore');
+const { findUserById, updateUser } = require('../data/usersStore');
+const { verifyInviteToken } = require('./tokens');
+const { sendMail } = require('./mailer');
+const { recordAudit } = require('./audit');
+const { publishEvent } = require('./events');
+
+const APP_URL = process.env.APP_URL || 'http://localhost:3002';
+
+const normalizeEmail = (email) => String(email || '').trim().toLowerCase();
+
+// Pending invitations past their expiry are reported as EXPIRED; the stored status stays PENDING
+const getInvitationStatus = (invitation) => (
+  invitation.status === 'PENDING' && new Date(invitation.expiresAt).getTime() <= Date.now()
+    ? 'EXPIRED'
+    : invitation.status
+);
+
+// The current token id is what invalidates older links after a resend, so it never leaves the service
+const serializeInvitation = (invitation) => {
+  const { tokenId, ...rest } = invitation;
+  return { ...rest, status: getInvitationStatus(invitation) };
+};
+
+const sendInvitationEmail = (invitation, token) => {
+  const team = findTeamById(invitation.teamId);
+  const inviter = findUserById(invitation.invitedBy);
+  const teamName = team ? team.name : 'a team';
+
+  return sendMail({
+    to: invitation.email,
+    subject: `You're invited to join ${teamName}`,
+    text: [
+      `${inviter ? inviter.name : 'Someone'} invited you to join ${teamName} on Task Manager.`,
+      '',
+      `Accept the invitation: ${APP_URL}/?invite=${encodeURIComponent(token)}`,
+      '',
+      `The link expires on ${new Date(invitation.expiresAt).toUTCString()}.`,
+    ].join('\n'),
+  });
+};
+
+/**
+ * Resolve an invite token to the invitation it was issued for. Returns `{ invitation }`
+ * or `{ error: { status, code, message } }` ready to be sent as the response.
+ * When `email` is given it must match the invited address.
+ */
+const resolveInvitation = (token, { email } = {}) => {
+  const claims = verifyInviteToken(token);
+  const invitation = claims && findInvitationById(claims.invitationId);
+  if (!invitation) {
+    return { error: { status: 400, code: 'INVITE_INVALID', message: 'Invalid invitation token' } };
+  }
+  if (invitation.status === 'REVOKED') {
+    return { error: { status: 410, code: 'INVITE_REVOKED', message: 'This invitation has been revoked' } };
+  }
+  if (invitation.status === 'ACCEPTED') {
+    return { error: { status: 409, code: 'INVITE_ALREADY_ACCEPTED', message: 'This invitation has already been used' } };
+  }
+  // A resend issues a new token; links from earlier emails stop working
+  if (claims.jti !== invitation.tokenId) {
+    return { error: { status: 410, code: 'INVITE_SUPERSEDED', message: 'A newer invitation was sent; use the latest link' } };
+  }
+  if (claims.expired || getInvitationStatus(invitation) === 'EXPIRED') {
+    return { error: { status: 410, code: 'INVITE_EXPIRED', message: 'This invitation has expired' } };
+  }
+  if (!findTeamById(invitation.teamId)) {
+    return { error: { status: 410, code: 'INVITE_INVALID', message: 'The team no longer exists' } };
+  }
+  if (email !== undefined && normalizeEmail(email) !== invitation.email) {
+    return { error: { status: 403, code: 'INVITE_EMAIL_MISMATCH', message: 'This invitation was sent to a different email address' } };
+  }
+  return { invitation };
+};
+
+// Join the invited team; the team becomes the user's primary team if they have none yet
+const acceptInvitation = (req, invitation, user) => {
+  const team = findTeamById(invitation.teamId);
+  const updatedTeam = addMemberToTeam(team.id, user.id);
+  if (!user.teamId) {
+    updateUser(user.id, { teamId: team.id });
+  }
+
+  const accepted = updateInvitation(invitation.id, {
+    status: 'ACCEPTED',
+    acceptedAt: new Date().toISOString(),
+    acceptedBy: user.id,
+  });
+  recordAudit(req, {
+    action: 'TEAM_INVITATION_ACCEPTED',
+    entityType: 'team',
+    entityId: team.id,
+    before: team,
+    after: updatedTeam,
+    actorId: user.id,
+  });
+  publishEvent('team.member_added', {
+    teamId: team.id,
+    userId: user.id,
+    userName: user.name,
+    teamName: team.name,
+    invitationId: invitation.id,
+  });
+
+  return { invitation: accepted, team: updatedTeam };
+};
+
+module.exports = {
+  normalizeEmail,
+  serializeInvitation,
+  sendInvitationEmail,
+  resolveInvitation,
+  acceptInvitation,
+};
@@ -0,0 +1,53 @@
+const fs = require('fs');
+const path = require('path');
+
+/**
+ * Outgoing email. The transport is chosen with MAIL_TRANSPORT; each one is an object
+ * with an async send({ to, subject, text }). Only local stand-ins ship with the service:
+ * `console` prints the message and `file` appends it as a JSON line to MAIL_FILE.
+ */
+const createConsoleTransport = ({ logger = console } = {}) => ({
+  send: async ({ to, subject, text }) => {
+    logger.log(`✉️  To: ${to}\n   Subject: ${subject}\n\n${text}\n`);
+  },
+});
+
+const createFileTransport = ({ filePath }) => ({
+  send: async (message) => {
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.appendFile(filePath, `${JSON.stringify({ ...message, sentAt: new Date().toISOString() })}\n`);
+  },
+});
+
+const TRANSPORTS = {
+  console: createConsoleTransport,
+  file: createFileTransport,
+};
+
+const transportName = process.env.MAIL_TRANSPORT || 'console';
+const createTransport = TRANSPORTS[transportName];
+if (!createTransport) {
+  throw new Error(`Unknown MAIL_TRANSPORT "${transportName}"; expected one of: ${Object.keys(TRANSPORTS).join(', ')}`);
+}
+
+const transport = createTransport({
+  filePath: process.env.MAIL_FILE || path.join(__dirname, '..', 'storage', 'mail.log'),
+});
+
+const MAIL_FROM = process.env.MAIL_FROM || 'Task Manager <no-reply@taskmanager.local>';
+
+// Resolves to false instead of throwing, so a mail outage never fails the request that sent it
+const sendMail = async ({ to, subject, text }) => {
+  try {
+    await transport.send({ from: MAIL_FROM, to, subject, text });
+    return true;
+  } catch (error) {
+    console.warn(`⚠️  Failed to send "${subject}" to ${to}:`, error.message);
+    return false;
+  }
+};
+
+module.exports = {
+  TRANSPORTS,
+  sendMail,
+};
@@ -0,0 +1,164 @@
+const crypto = require('crypto');
+const fs = require('fs');
+const jwt = require('jsonwebtoken');
+const { v4: uuidv4 } = require('uuid');
+const { addRefreshToken } = require('../data/tokensStore');
+
+const ACCESS_TOKEN_TTL = process.env.ACCESS_TOKEN_TTL || '15m';
+const REFRESH_TOKEN_TTL_DAYS = Number(process.env.REFRESH_TOKEN_TTL_DAYS || 7);
+const INVITE_TOKEN_TTL = process.env.INVITE_TOKEN_TTL || '7d';
+
+const keyCache = {};
+
+// Keys are mounted at /app/keys in Docker and live in ./keys for local development
+const readKey = (fileName) => {
+  if (keyCache[fileName]) {
+    return keyCache[fileName];
+  }
+  for (const dir of ['/app/keys', './keys']) {
+    try {
+      keyCache[fileName] = fs.readFileSync(`${dir}/${fileName}`, 'utf8');
+      return keyCache[fileName];
+    } catch (error) {
+      // try the next location
+    }
+  }
+  return null;
+};
+
+const getPrivateKey = () => readKey('jwt-private.key');
+
+const getPublicKey = () => readKey('jwt-public.key');
+
+const hashToken = (token) => crypto.createHash('sha256').update(token).digest('hex');
+
+const issueAccessToken = (user) => {
+  const privateKey = getPrivateKey();
+  if (!privateKey) {
+    const error = new Error('JWT key not configured');
+    error.statusCode = 500;
+    throw error;
+  }
+
+  const jti = uuidv4();
+  const token = jwt.sign(
+    {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      role: user.role,
+      teamId: user.teamId
+    },
+    privateKey,
+    {
+      algorithm: 'RS256',
+      expiresIn: ACCESS_TOKEN_TTL,
+      jwtid: jti
+    }
+  );
+
+  const { exp } = jwt.decode(token);
+  return { token, jti, expiresAt: new Date(exp * 1000).toISOString() };
+};
+
+/**
+ * Issue an opaque refresh token. Only its hash is stored; tokens rotated from the
+ * same login share a familyId so a reused token can revoke the whole chain.
+ */
+const issueRefreshToken = (userId, familyId = uuidv4()) => {
+  const refreshToken = crypto.randomBytes(48).toString('base64url');
+  const entry = addRefreshToken({
+    id: uuidv4(),
+    userId,
+    familyId,
+    tokenHash: hashToken(refreshToken),
+    createdAt: new Date().toISOString(),
+    expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+    rotatedAt: null,
+    revokedAt: null,
+  });
+  return { refreshToken, entry };
+};
+
+const issueSession = (user, familyId) => {
+  const access = issueAccessToken(user);
+  const { refreshToken, entry } = issueRefreshToken(user.id, familyId);
+  return {
+    token: access.token,
+    expiresAt: access.expiresAt,
+    refreshToken,
+    refreshTokenEntry: entry,
+  };
+};
+
+// Invite tokens are HS256 with a secret derived from the private key. The gateway and
+// verifyAccessToken only accept RS256, so an invite can never pass as an access token.
+const getInviteSecret = () => {
+  const privateKey = getPrivateKey();
+  if (!privateKey) {
+    const error = new Error('JWT key not configured');
+    error.statusCode = 500;
+    throw error;
+  }
+  return crypto.createHmac('sha256', privateKey).update('team-invite').digest();
+};
+
+const issueInviteToken = (invitation) => {
+  const jti = uuidv4();
+  const token = jwt.sign(
+    {
+      type: 'team_invite',
+      invitationId: invitation.id,
+      teamId: invitation.teamId,
+      email: invitation.email
+    },
+    getInviteSecret(),
+    {
+      algorithm: 'HS256',
+      expiresIn: INVITE_TOKEN_TTL,
+      jwtid: jti
+    }
+  );
+
+  const { exp } = jwt.decode(token);
+  return { token, jti, expiresAt: new Date(exp * 1000).toISOString() };
+};
+
+// Claims of a validly signed invite token, or null. Expired tokens are returned with `expired: true`
+// so callers can tell the invitee why the link stopped working.
+const verifyInviteToken = (token) => {
+  if (!token) {
+    return null;
+  }
+  try {
+    const claims = jwt.verify(token, getInviteSecret(), { algorithms: ['HS256'], ignoreExpiration: true });
+    if (claims.type !== 'team_invite') {
+      return null;
+    }
+    return { ...claims, expired: claims.exp * 1000 <= Date.now() };
+  } catch (error) {
+    return null;
+  }
+};
+
+// Verify an access token signature; expired tokens are accepted when ignoreExpiration is set (logout)
+const verifyAccessToken = (token, { ignoreExpiration = false } = {}) => {
+  const publicKey = getPublicKey();
+  if (!publicKey || !token) {
+    return null;
+  }
+  try {
+    return jwt.verify(token, publicKey, { algorithms: ['RS256'], ignoreExpiration });
+  } catch (error) {
+    return null;
+  }
+};
+
+module.exports = {
+  getPublicKey,
+  hashToken,
+  issueSession,
+  verifyAccessToken,
+  issueInviteToken,
+  verifyInviteToken,
+};
@@ -0,0 +1,113 @@
+const { findUserById } = require('../data/usersStore');
+const { findTeamById } = require('../data/teamsStore');
+
+/**
+ * Declarative permission policies, one per route.
+ * `allow` lists the rules of which at least one must pass; `fields` restricts
+ * individual body fields to a narrower set of rules.
+ */
+const policies = {
+  'users:list': { allow: ['authenticated'] },
+  'users:read': { allow: ['authenticated'] },
+  'users:create': { allow: ['admin'] },
+  'users:update': {
+    allow: ['admin', 'self'],
+    fields: {
+      role: ['admin'],
+      teamId: ['admin'],
+    },
+  },
+  'users:delete': { allow: ['admin'] },
+  'teams:list': { allow: ['authenticated'] },
+  'teams:read': { allow: ['authenticated'] },
+  'teams:create': { allow: ['admin'] },
+  'teams:update': { allow: ['admin'] },
+  'teams:delete': { allow: ['admin'] },
+  'teams:members:add': { allow: ['admin', 'teamModerator'] },
+  'teams:members:remove': { allow: ['admin', 'teamModerator'] },
+  'teams:invitations:list': { allow: ['admin', 'teamModerator'] },
+  'teams:invitations:create': { allow: ['admin', 'teamModerator'] },
+  'teams:invitations:resend': { allow: ['admin', 'teamModerator'] },
+  'teams:invitations:revoke': { allow: ['admin', 'teamModerator'] },
+  'invitations:accept': { allow: ['authenticated'] },
+  'audit:read': { allow: ['admin'] },
+  'data:export': { allow: ['admin'] },
+  'data:import': { allow: ['admin'] },
+};
+
+// Only the team's member list counts; a stale teamId on the user grants nothing
+const isTeamMember = (team, user) => Boolean(team) && team.members.includes(user.id);
+
+const rules = {
+  authenticated: () => true,
+  admin: (user) => user.role === 'admin',
+  // The route's :id refers to the user being acted upon
+  self: (user, req) => user.id === req.params.id,
+  // The route's :id refers to a team the moderator belongs to
+  teamModerator: (user, req) => user.role === 'moderator' && isTeamMember(findTeamById(req.params.id), user),
+};
+
+const passes = (ruleNames, user, req) => ruleNames.some((name) => rules[name](user, req));
+
+// The role is read from the store rather than the token, so a demotion applies immediately
+const getRequestUser = (req) => {
+  if (!req.headers.user) {
+    return null;
+  }
+  try {
+    const claims = JSON.parse(req.headers.user);
+    return findUserById(claims.id);
+  } catch (error) {
+    return null;
+  }
+};
+
+const authorize = (permission) => {
+  const policy = policies[permission];
+  if (!policy) {
+    throw new Error(`Unknown permission: ${permission}`);
+  }
+
+  return (req, res, next) => {
+    const user = getRequestUser(req);
+    if (!user) {
+      return res.status(401).json({
+        error: 'Not authenticated',
+        code: 'UNAUTHENTICATED'
+      });
+    }
+
+    if (!passes(policy.allow, user, req)) {
+      return res.status(403).json({
+        error: 'Forbidden',
+        code: 'PERMISSION_DENIED',
+        permission,
+        message: `Your role (${user.role}) is not allowed to perform ${permission}`
+      });
+    }
+
+    const forbiddenFields = Object.entries(policy.fields || {})
+      .filter(([field]) => req.body && req.body[field] !== undefined)
+      .filter(([, fieldRules]) => !passes(fieldRules, user, req))
+      .map(([field]) => field);
+
+    if (forbiddenFields.length > 0) {
+      return res.status(403).json({
+        error: 'Forbidden',
+        code: 'FIELD_NOT_ALLOWED',
+        permission,
+        fields: forbiddenFields,
+        message: `You are not allowed to change: ${forbiddenFields.join(', ')}`
+      });
+    }
+
+    req.currentUser = user;
+    next();
+  };
+};
+
+module.exports = {
+  policies,
+  authorize,
+  getRequestUser
+};
@@ -0,0 +1,32 @@
+const crypto = require('crypto');
+
+// Shared with the API Gateway and the Task Service. Without it no caller is let in.
+const SERVICE_TOKEN = process.env.INTERNAL_SERVICE_TOKEN || '';
+
+if (!SERVICE_TOKEN) {
+  console.warn('⚠️  INTERNAL_SERVICE_TOKEN is not set; /internal endpoints will reject every request');
+}
+
+const matchesServiceToken = (token) => {
+  if (!SERVICE_TOKEN || typeof token !== 'string') {
+    return false;
+  }
+  const expected = Buffer.from(SERVICE_TOKEN);
+  const actual = Buffer.from(token);
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+};
+
+// Service-to-service endpoints answer only callers that present the shared X-Service-Token
+const requireServiceToken = (req, res, next) => {
+  if (!matchesServiceToken(req.headers['x-service-token'])) {
+    return res.status(401).json({
+      error: 'Service token required',
+      code: 'UNAUTHENTICATED'
+    });
+  }
+  next();
+};
+
+module.exports = {
+  requireServiceToken
+};
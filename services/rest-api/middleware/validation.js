@@ -10,6 +10,11 @@ const userSchema = Joi.object({
   password: Joi.string().min(6).optional()
 });
 
+// User import validation schema; matches stored users, where self-registered ones have no age
+const userImportSchema = userSchema.keys({
+  age: Joi.number().integer().min(1).max(150).optional()
+});
+
 // User update validation schema (all fields optional)
 const userUpdateSchema = Joi.object({
   name: Joi.string().min(2).max(50).optional(),
@@ -20,6 +25,17 @@ const userUpdateSchema = Joi.object({
   password: Joi.string().min(6).optional()
 }).min(1); // At least one field must be provided
 
+// Team validation schema
+const teamSchema = Joi.object({
+  name: Joi.string().trim().min(1).max(100).required(),
+  description: Joi.string().allow('').max(500).optional()
+});
+
+// Team invitation validation schema
+const invitationSchema = Joi.object({
+  email: Joi.string().email().required()
+});
+
 // Validation middleware for creating users
 const validateUser = (req, res, next) => {
   const { error } = userSchema.validate(req.body);
@@ -50,7 +66,27 @@ const validateUserUpdate = (req, res, next) => {
   next();
 };
 
+// Validation middleware for team invitations
+const validateInvitation = (req, res, next) => {
+  const { error } = invitationSchema.validate(req.body);
+
+  if (error) {
+    return res.status(400).json({
+      error: 'Validation error',
+      message: error.details[0].message,
+      details: error.details
+    });
+  }
+
+  next();
+};
+
 module.exports = {
+  userSchema,
+  userImportSchema,
+  userUpdateSchema,
+  teamSchema,
   validateUser,
-  validateUserUpdate
+  validateUserUpdate,
+  validateInvitation
 };
\ No newline at end of file
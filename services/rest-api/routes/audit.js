@@ -0,0 +1,34 @@
+const express = require('express');
+const { getAuditEntries } = require('../data/auditStore');
+const { authorize } = require('../middleware/authorization');
+
+const router = express.Router();
+
+const MAX_LIMIT = 500;
+
+/**
+ * GET /api/audit
+ * List audit entries, newest first. Optional filters: since, entityType, entityId, actorId, limit
+ */
+router.get('/', authorize('audit:read'), (req, res) => {
+  const { since, entityType, entityId, actorId } = req.query;
+  const limit = Math.min(parseInt(req.query.limit, 10) || 100, MAX_LIMIT);
+
+  if (since && Number.isNaN(Date.parse(since))) {
+    return res.status(400).json({ error: 'since must be an ISO date' });
+  }
+
+  const entries = getAuditEntries({
+    since: since ? new Date(since).toISOString() : undefined,
+    entityType,
+    entityId,
+    actorId,
+  });
+
+  res.json({
+    entries: entries.slice(0, limit),
+    total: entries.length,
+  });
+});
+
+module.exports = router;
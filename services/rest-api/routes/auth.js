@@ -1,23 +1,32 @@
 const express = require('express');
 const bcrypt = require('bcryptjs');
-const jwt = require('jsonwebtoken');
 const { v4: uuidv4 } = require('uuid');
-const fs = require('fs');
 const router = express.Router();
 const {
   findUserByEmail,
   findUserById,
   addUser,
 } = require('../data/usersStore');
-const { addMemberToTeam } = require('../data/teamsStore');
+const {
+  findRefreshTokenByHash,
+  updateRefreshToken,
+  revokeRefreshTokenFamily,
+  revokeAccessToken,
+  pruneExpiredTokens,
+} = require('../data/tokensStore');
+const { hashToken, issueSession, verifyAccessToken } = require('../lib/tokens');
+const { recordAudit } = require('../lib/audit');
+const { findTeamById } = require('../data/teamsStore');
+const { resolveInvitation, acceptInvitation } = require('../lib/invitations');
 
 /**
  * POST /api/auth/register
- * Register new user
+ * Register new user. Without an inviteToken the account starts without a team;
+ * with one it joins the invited team (the email must match the invitation).
  */
 router.post('/register', async (req, res, next) => {
   try {
-    const { email, password, name, teamId } = req.body;
+    const { email, password, name, inviteToken } = req.body;
 
     // Validate input
     if (!email || !password || !name) {
@@ -34,24 +43,38 @@ router.post('/register', async (req, res, next) => {
       });
     }
 
+    const { invitation, error: inviteError } = inviteToken
+      ? resolveInvitation(inviteToken, { email })
+      : {};
+    if (inviteError) {
+      return res.status(inviteError.status).json({ error: inviteError.message, code: inviteError.code });
+    }
+
     // Hash password
     const hashedPassword = await bcrypt.hash(password, 10);
 
     // Create new user
-    const resolvedTeamId = teamId || '1';
-
     const newUser = {
       id: uuidv4(),
       email,
       password: hashedPassword,
       name,
       role: 'user',
-      teamId: resolvedTeamId,
+      teamId: null,
       createdAt: new Date().toISOString()
     };
 
     addUser(newUser);
-    addMemberToTeam(resolvedTeamId, newUser.id);
+    recordAudit(req, {
+      action: 'USER_REGISTERED',
+      entityType: 'user',
+      entityId: newUser.id,
+      after: findUserById(newUser.id),
+      actorId: newUser.id,
+    });
+    if (invitation) {
+      acceptInvitation(req, invitation, findUserById(newUser.id));
+    }
     const savedUser = findUserById(newUser.id);
 
     // Return user without password
@@ -65,9 +88,27 @@ router.post('/register', async (req, res, next) => {
   }
 });
 
+/**
+ * GET /api/auth/invitations/:token
+ * Public preview of an invitation, so the sign-up form can show the team and prefill the email
+ */
+router.get('/invitations/:token', (req, res) => {
+  const { invitation, error } = resolveInvitation(req.params.token);
+  if (error) {
+    return res.status(error.status).json({ error: error.message, code: error.code });
+  }
+
+  const team = findTeamById(invitation.teamId);
+  res.json({
+    email: invitation.email,
+    team: { id: team.id, name: team.name },
+    expiresAt: invitation.expiresAt
+  });
+});
+
 /**
  * POST /api/auth/login
- * Login user and return JWT token
+ * Login user and return a short-lived access token plus a refresh token
  */
 router.post('/login', async (req, res, next) => {
   try {
@@ -96,42 +137,15 @@ router.post('/login', async (req, res, next) => {
       });
     }
 
-    // Load private key
-    let privateKey;
-    try {
-      privateKey = fs.readFileSync('/app/keys/jwt-private.key', 'utf8');
-    } catch (error) {
-      // Fallback for local development
-      try {
-        privateKey = fs.readFileSync('./keys/jwt-private.key', 'utf8');
-      } catch (err) {
-        return res.status(500).json({ 
-          error: 'JWT key not configured' 
-        });
-      }
-    }
-
-    // Generate JWT token
-    const token = jwt.sign(
-      {
-        id: user.id,
-        email: user.email,
-        name: user.name,
-        role: user.role,
-        teamId: user.teamId
-      },
-      privateKey,
-      {
-        algorithm: 'RS256',
-        expiresIn: '24h'
-      }
-    );
+    const session = issueSession(user);
 
     // Return token and user info
     const { password: _, ...userWithoutPassword } = user;
     res.json({
       message: 'Login successful',
-      token,
+      token: session.token,
+      expiresAt: session.expiresAt,
+      refreshToken: session.refreshToken,
       user: userWithoutPassword
     });
   } catch (error) {
@@ -139,6 +153,111 @@ router.post('/login', async (req, res, next) => {
   }
 });
 
+/**
+ * POST /api/auth/refresh
+ * Exchange a refresh token for a new access token; the refresh token is rotated.
+ * Presenting an already-rotated token revokes every token issued from the same login.
+ */
+router.post('/refresh', (req, res, next) => {
+  try {
+    const { refreshToken } = req.body;
+
+    if (!refreshToken) {
+      return res.status(400).json({
+        error: 'Refresh token is required'
+      });
+    }
+
+    const stored = findRefreshTokenByHash(hashToken(refreshToken));
+    if (!stored) {
+      return res.status(401).json({
+        error: 'Invalid refresh token',
+        code: 'REFRESH_TOKEN_INVALID'
+      });
+    }
+
+    if (stored.rotatedAt) {
+      revokeRefreshTokenFamily(stored.familyId);
+      console.warn(`⚠️  Refresh token reuse detected for user ${stored.userId}; session revoked`);
+      return res.status(401).json({
+        error: 'Refresh token has already been used',
+        code: 'REFRESH_TOKEN_REUSED'
+      });
+    }
+
+    if (stored.revokedAt) {
+      return res.status(401).json({
+        error: 'Refresh token has been revoked',
+        code: 'REFRESH_TOKEN_REVOKED'
+      });
+    }
+
+    if (new Date(stored.expiresAt).getTime() <= Date.now()) {
+      return res.status(401).json({
+        error: 'Refresh token has expired',
+        code: 'REFRESH_TOKEN_EXPIRED'
+      });
+    }
+
+    const user = findUserById(stored.userId);
+    if (!user) {
+      revokeRefreshTokenFamily(stored.familyId);
+      return res.status(401).json({
+        error: 'User no longer exists',
+        code: 'REFRESH_TOKEN_INVALID'
+      });
+    }
+
+    const session = issueSession(user, stored.familyId);
+    updateRefreshToken(stored.id, {
+      rotatedAt: new Date().toISOString(),
+      replacedBy: session.refreshTokenEntry.id
+    });
+    // Logout is not the only cleanup, since many sessions simply expire without one
+    pruneExpiredTokens();
+
+    res.json({
+      message: 'Token refreshed',
+      token: session.token,
+      expiresAt: session.expiresAt,
+      refreshToken: session.refreshToken
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/auth/logout
+ * Revoke the presented access token (by jti) and the refresh token's session
+ */
+router.post('/logout', (req, res, next) => {
+  try {
+    const { refreshToken } = req.body || {};
+    const authHeader = req.headers.authorization;
+
+    if (authHeader && authHeader.startsWith('Bearer ')) {
+      const claims = verifyAccessToken(authHeader.substring(7), { ignoreExpiration: true });
+      if (claims && claims.jti) {
+        revokeAccessToken(claims.jti, new Date(claims.exp * 1000).toISOString());
+      }
+    }
+
+    if (refreshToken) {
+      const stored = findRefreshTokenByHash(hashToken(refreshToken));
+      if (stored) {
+        revokeRefreshTokenFamily(stored.familyId);
+      }
+    }
+
+    res.json({
+      message: 'Logged out successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 /**
  * GET /api/auth/me
  * Get current user info from token
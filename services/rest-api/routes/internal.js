@@ -0,0 +1,101 @@
+const express = require('express');
+const { getRevokedAccessTokens } = require('../data/tokensStore');
+const { findTeamById } = require('../data/teamsStore');
+const { getUsers, findUserById } = require('../data/usersStore');
+const { requireServiceToken } = require('../middleware/serviceAuth');
+
+// Service-to-service endpoints. The API Gateway only proxies /api/*, and every caller
+// must present the shared service token as well.
+const router = express.Router();
+
+router.use(requireServiceToken);
+
+// Batch lookups take ?ids=1,2,3 and answer in the same order, with null for unknown ids
+const MAX_BATCH_SIZE = 100;
+
+const parseIds = (req) => String(req.query.ids || '')
+  .split(',')
+  .map((id) => id.trim())
+  .filter(Boolean);
+
+// The profile other services may show; never the password hash
+const toProfile = (user) => ({
+  id: user.id,
+  name: user.name,
+  email: user.email,
+  role: user.role,
+  teamId: user.teamId || null,
+});
+
+/**
+ * GET /internal/revoked-tokens
+ * List revoked access token ids (jti) that have not expired yet
+ */
+router.get('/revoked-tokens', (req, res) => {
+  res.json({ tokens: getRevokedAccessTokens() });
+});
+
+/**
+ * GET /internal/users?ids=1,2
+ * Public profiles for the Task Service's User type
+ */
+router.get('/users', (req, res) => {
+  const ids = parseIds(req);
+  if (ids.length > MAX_BATCH_SIZE) {
+    return res.status(400).json({ error: `At most ${MAX_BATCH_SIZE} ids per request` });
+  }
+
+  res.json({
+    users: ids.map((id) => {
+      const user = findUserById(id);
+      return user ? toProfile(user) : null;
+    }),
+  });
+});
+
+/**
+ * GET /internal/teams?ids=1,2
+ * Teams for the Task Service's Team type
+ */
+router.get('/teams', (req, res) => {
+  const ids = parseIds(req);
+  if (ids.length > MAX_BATCH_SIZE) {
+    return res.status(400).json({ error: `At most ${MAX_BATCH_SIZE} ids per request` });
+  }
+
+  res.json({ teams: ids.map((id) => findTeamById(id) || null) });
+});
+
+/**
+ * GET /internal/teams/:id
+ * Team lookup for the Task Service's membership checks
+ */
+router.get('/teams/:id', (req, res) => {
+  const team = findTeamById(req.params.id);
+
+  if (!team) {
+    return res.status(404).json({ error: 'Team not found' });
+  }
+
+  res.json(team);
+});
+
+/**
+ * GET /internal/teams/:id/admins
+ * Users responsible for a team: every admin plus the team's moderators
+ */
+router.get('/teams/:id/admins', (req, res) => {
+  const team = findTeamById(req.params.id);
+
+  if (!team) {
+    return res.status(404).json({ error: 'Team not found' });
+  }
+
+  const admins = getUsers()
+    .filter((user) => user.role === 'admin' || (user.role === 'moderator' && team.members.includes(user.id)))
+    .map((user) => user.id);
+
+  res.json({ admins });
+});
+
+module.exports = router;
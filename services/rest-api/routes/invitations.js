@@ -0,0 +1,26 @@
+const express = require('express');
+const { authorize } = require('../middleware/authorization');
+const { resolveInvitation, acceptInvitation, serializeInvitation } = require('../lib/invitations');
+
+const router = express.Router();
+
+/**
+ * POST /api/invitations/accept
+ * Join a team with an invite token; the token must have been sent to the caller's email
+ */
+router.post('/accept', authorize('invitations:accept'), (req, res, next) => {
+  try {
+    const { token } = req.body || {};
+    const { invitation, error } = resolveInvitation(token, { email: req.currentUser.email });
+    if (error) {
+      return res.status(error.status).json({ error: error.message, code: error.code });
+    }
+
+    const result = acceptInvitation(req, invitation, req.currentUser);
+    res.json({ invitation: serializeInvitation(result.invitation), team: result.team });
+  } catch (error) {
+    next(error);
+  }
+});
+
+module.exports = router;
@@ -9,7 +9,21 @@ const {
   addMemberToTeam,
   removeMemberFromTeam,
 } = require('../data/teamsStore');
-const { getUsers, updateUser } = require('../data/usersStore');
+const {
+  getInvitationsForTeam,
+  findInvitationById,
+  findPendingInvitation,
+  addInvitation,
+  updateInvitation,
+} = require('../data/invitationsStore');
+const { findUserById, findUserByEmail, updateUser, clearUsersTeam } = require('../data/usersStore');
+const { revokeRefreshTokensForUser } = require('../data/tokensStore');
+const { authorize } = require('../middleware/authorization');
+const { validateInvitation } = require('../middleware/validation');
+const { recordAudit } = require('../lib/audit');
+const { publishEvent } = require('../lib/events');
+const { issueInviteToken } = require('../lib/tokens');
+const { normalizeEmail, serializeInvitation, sendInvitationEmail } = require('../lib/invitations');
 
 const router = express.Router();
 
@@ -17,7 +31,7 @@ const router = express.Router();
  * GET /api/teams
  * Get all teams
  */
-router.get('/', (req, res) => {
+router.get('/', authorize('teams:list'), (req, res) => {
   res.json(getTeams());
 });
 
@@ -25,7 +39,7 @@ router.get('/', (req, res) => {
  * GET /api/teams/:id
  * Get team by ID
  */
-router.get('/:id', (req, res) => {
+router.get('/:id', authorize('teams:read'), (req, res) => {
   const team = findTeamById(req.params.id);
 
   if (!team) {
@@ -39,7 +53,7 @@ router.get('/:id', (req, res) => {
  * POST /api/teams
  * Create new team
  */
-router.post('/', (req, res, next) => {
+router.post('/', authorize('teams:create'), (req, res, next) => {
   try {
     const { name, description } = req.body;
 
@@ -56,6 +70,7 @@ router.post('/', (req, res, next) => {
     };
 
     const created = addTeam(newTeam);
+    recordAudit(req, { action: 'TEAM_CREATED', entityType: 'team', entityId: created.id, after: created });
     res.status(201).json(created);
   } catch (error) {
     next(error);
@@ -66,7 +81,7 @@ router.post('/', (req, res, next) => {
  * PUT /api/teams/:id
  * Update team
  */
-router.put('/:id', (req, res, next) => {
+router.put('/:id', authorize('teams:update'), (req, res, next) => {
   try {
     const { name, description } = req.body;
     const team = findTeamById(req.params.id);
@@ -79,6 +94,8 @@ router.put('/:id', (req, res, next) => {
       ...(name !== undefined ? { name } : {}),
       ...(description !== undefined ? { description } : {}),
     });
+    recordAudit(req, { action: 'TEAM_UPDATED', entityType: 'team', entityId: team.id, before: team, after: updated });
+    publishEvent('team.updated', { teamId: team.id, team: updated });
 
     res.json(updated);
   } catch (error) {
@@ -90,7 +107,7 @@ router.put('/:id', (req, res, next) => {
  * POST /api/teams/:id/members
  * Add member to team
  */
-router.post('/:id/members', (req, res, next) => {
+router.post('/:id/members', authorize('teams:members:add'), (req, res, next) => {
   try {
     const { userId } = req.body;
     const team = findTeamById(req.params.id);
@@ -103,11 +120,18 @@ router.post('/:id/members', (req, res, next) => {
       return res.status(400).json({ error: 'User ID is required' });
     }
 
+    const member = findUserById(userId);
+    if (!member) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
     if (team.members.includes(userId)) {
       return res.status(409).json({ error: 'User is already a member' });
     }
 
     const updated = addMemberToTeam(req.params.id, userId);
+    recordAudit(req, { action: 'TEAM_MEMBER_ADDED', entityType: 'team', entityId: team.id, before: team, after: updated });
+    publishEvent('team.member_added', { teamId: team.id, userId, userName: member.name, teamName: team.name });
     res.json(updated);
   } catch (error) {
     next(error);
@@ -118,7 +142,7 @@ router.post('/:id/members', (req, res, next) => {
  * DELETE /api/teams/:id/members/:userId
  * Remove member from team
  */
-router.delete('/:id/members/:userId', (req, res, next) => {
+router.delete('/:id/members/:userId', authorize('teams:members:remove'), (req, res, next) => {
   try {
     const team = findTeamById(req.params.id);
 
@@ -126,18 +150,170 @@ router.delete('/:id/members/:userId', (req, res, next) => {
       return res.status(404).json({ error: 'Team not found' });
     }
 
+    // Only actual members can be removed; anyone else's sessions are none of this team's business
+    if (!team.members.includes(req.params.userId)) {
+      return res.status(404).json({ error: 'User is not a member of this team' });
+    }
+
     const updated = removeMemberFromTeam(req.params.id, req.params.userId);
+    // Tokens issued while they were a member still name the team; make them log in again
+    const member = findUserById(req.params.userId);
+    if (member && member.teamId === team.id) {
+      updateUser(member.id, { teamId: null });
+    }
+    revokeRefreshTokensForUser(req.params.userId);
+    recordAudit(req, { action: 'TEAM_MEMBER_REMOVED', entityType: 'team', entityId: team.id, before: team, after: updated });
+    publishEvent('team.member_removed', { teamId: team.id, userId: req.params.userId });
     res.json(updated);
   } catch (error) {
     next(error);
   }
 });
 
+/**
+ * GET /api/teams/:id/invitations
+ * List the team's invitations, newest first
+ */
+router.get('/:id/invitations', authorize('teams:invitations:list'), (req, res) => {
+  const team = findTeamById(req.params.id);
+
+  if (!team) {
+    return res.status(404).json({ error: 'Team not found' });
+  }
+
+  res.json({ invitations: getInvitationsForTeam(team.id).map(serializeInvitation) });
+});
+
+/**
+ * POST /api/teams/:id/invitations
+ * Invite someone by email; the signed invite token is returned and emailed to them
+ */
+router.post('/:id/invitations', authorize('teams:invitations:create'), validateInvitation, async (req, res, next) => {
+  try {
+    const team = findTeamById(req.params.id);
+
+    if (!team) {
+      return res.status(404).json({ error: 'Team not found' });
+    }
+
+    const email = normalizeEmail(req.body.email);
+    const existingUser = findUserByEmail(email);
+    if (existingUser && team.members.includes(existingUser.id)) {
+      return res.status(409).json({ error: 'User is already a member' });
+    }
+
+    const pending = findPendingInvitation(team.id, email);
+    if (pending && serializeInvitation(pending).status === 'PENDING') {
+      return res.status(409).json({
+        error: 'An invitation for this email is already pending; resend it instead',
+        invitationId: pending.id
+      });
+    }
+    // An expired invitation for the same address is replaced by the new one
+    if (pending) {
+      updateInvitation(pending.id, { status: 'REVOKED', revokedAt: new Date().toISOString() });
+    }
+
+    const now = new Date().toISOString();
+    const invitation = {
+      id: uuidv4(),
+      teamId: team.id,
+      email,
+      invitedBy: req.currentUser.id,
+      status: 'PENDING',
+      sentCount: 1,
+      lastSentAt: now,
+      acceptedAt: null,
+      acceptedBy: null,
+      revokedAt: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    const { token, jti, expiresAt } = issueInviteToken(invitation);
+    const saved = addInvitation({ ...invitation, tokenId: jti, expiresAt });
+    recordAudit(req, { action: 'TEAM_INVITATION_CREATED', entityType: 'team', entityId: team.id, after: serializeInvitation(saved) });
+    const emailSent = await sendInvitationEmail(saved, token);
+
+    res.status(201).json({ invitation: serializeInvitation(saved), token, emailSent });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/teams/:id/invitations/:invitationId/resend
+ * Issue a fresh token with a new expiry and email it again; earlier links stop working
+ */
+router.post('/:id/invitations/:invitationId/resend', authorize('teams:invitations:resend'), async (req, res, next) => {
+  try {
+    const invitation = findInvitationById(req.params.invitationId);
+
+    if (!invitation || invitation.teamId !== req.params.id) {
+      return res.status(404).json({ error: 'Invitation not found' });
+    }
+
+    if (invitation.status !== 'PENDING') {
+      return res.status(409).json({ error: `Invitation is already ${invitation.status.toLowerCase()}` });
+    }
+
+    const { token, jti, expiresAt } = issueInviteToken(invitation);
+    const updated = updateInvitation(invitation.id, {
+      tokenId: jti,
+      expiresAt,
+      sentCount: invitation.sentCount + 1,
+      lastSentAt: new Date().toISOString(),
+    });
+    recordAudit(req, {
+      action: 'TEAM_INVITATION_RESENT',
+      entityType: 'team',
+      entityId: invitation.teamId,
+      before: serializeInvitation(invitation),
+      after: serializeInvitation(updated),
+    });
+    const emailSent = await sendInvitationEmail(updated, token);
+
+    res.json({ invitation: serializeInvitation(updated), token, emailSent });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/teams/:id/invitations/:invitationId
+ * Revoke a pending invitation
+ */
+router.delete('/:id/invitations/:invitationId', authorize('teams:invitations:revoke'), (req, res, next) => {
+  try {
+    const invitation = findInvitationById(req.params.invitationId);
+
+    if (!invitation || invitation.teamId !== req.params.id) {
+      return res.status(404).json({ error: 'Invitation not found' });
+    }
+
+    if (invitation.status !== 'PENDING') {
+      return res.status(409).json({ error: `Invitation is already ${invitation.status.toLowerCase()}` });
+    }
+
+    const revoked = updateInvitation(invitation.id, { status: 'REVOKED', revokedAt: new Date().toISOString() });
+    recordAudit(req, {
+      action: 'TEAM_INVITATION_REVOKED',
+      entityType: 'team',
+      entityId: invitation.teamId,
+      before: serializeInvitation(invitation),
+      after: serializeInvitation(revoked),
+    });
+
+    res.json(serializeInvitation(revoked));
+  } catch (error) {
+    next(error);
+  }
+});
+
 /**
  * DELETE /api/teams/:id
  * Delete team
  */
-router.delete('/:id', (req, res, next) => {
+router.delete('/:id', authorize('teams:delete'), (req, res, next) => {
   try {
     const team = findTeamById(req.params.id);
 
@@ -146,13 +322,11 @@ router.delete('/:id', (req, res, next) => {
     }
 
     const removed = removeTeam(req.params.id);
+    recordAudit(req, { action: 'TEAM_DELETED', entityType: 'team', entityId: team.id, before: team });
+    publishEvent('team.deleted', { teamId: team.id, team });
 
     // Clear team reference for all users that belonged to this team
-    getUsers().forEach((user) => {
-      if (user.teamId === req.params.id) {
-        updateUser(user.id, { teamId: null });
-      }
-    });
+    clearUsersTeam(team.id);
 
     res.json({
       message: 'Team deleted successfully',
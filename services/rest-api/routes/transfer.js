@@ -0,0 +1,73 @@
+const express = require('express');
+const { authorize } = require('../middleware/authorization');
+const {
+  FORMATS,
+  buildExport,
+  toExportCsv,
+  parseImport,
+  planImport,
+  buildReport,
+  applyImport,
+} = require('../lib/dataTransfer');
+
+const router = express.Router();
+
+const readFormat = (req, res) => {
+  const format = String(req.query.format || 'json').toLowerCase();
+  if (!FORMATS.includes(format)) {
+    res.status(400).json({ error: `format must be one of ${FORMATS.join(', ')}` });
+    return null;
+  }
+  return format;
+};
+
+/**
+ * GET /api/export?format=json|csv
+ * Download all users (without password hashes) and teams
+ */
+router.get('/export', authorize('data:export'), (req, res) => {
+  const format = readFormat(req, res);
+  if (!format) return;
+
+  const data = buildExport();
+  res.attachment(`users-and-teams-${data.exportedAt.slice(0, 10)}.${format}`);
+  if (format === 'csv') {
+    return res.type('text/csv').send(toExportCsv(data));
+  }
+  res.json(data);
+});
+
+/**
+ * POST /api/import?format=json|csv&dryRun=true
+ * Create or update users and teams from an export-shaped file; rows that fail validation are
+ * reported and skipped. A dry run only reports what would happen.
+ */
+router.post(
+  '/import',
+  authorize('data:import'),
+  express.text({ type: ['text/csv', 'text/plain'], limit: '10mb' }),
+  async (req, res, next) => {
+    const format = readFormat(req, res);
+    if (!format) return;
+    const dryRun = req.query.dryRun === 'true';
+
+    let rows;
+    try {
+      rows = parseImport(format, req.body);
+    } catch (error) {
+      return res.status(400).json({ error: 'Invalid import file', message: error.message });
+    }
+
+    try {
+      const plan = planImport(rows);
+      if (!dryRun) {
+        await applyImport(req, plan);
+      }
+      res.json(buildReport(plan, dryRun));
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+module.exports = router;
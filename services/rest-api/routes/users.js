@@ -2,6 +2,9 @@ const express = require('express');
 const { v4: uuidv4 } = require('uuid');
 const bcrypt = require('bcryptjs');
 const { validateUser, validateUserUpdate } = require('../middleware/validation');
+const { authorize } = require('../middleware/authorization');
+const { recordAudit } = require('../lib/audit');
+const { publishEvent } = require('../lib/events');
 const {
   getUsers,
   findUserById,
@@ -12,8 +15,9 @@ const {
 } = require('../data/usersStore');
 const {
   addMemberToTeam,
-  removeMemberFromTeam,
+  removeMemberFromAllTeams,
 } = require('../data/teamsStore');
+const { revokeRefreshTokensForUser } = require('../data/tokensStore');
 
 const router = express.Router();
 
@@ -26,7 +30,7 @@ const sanitizeUser = (user) => {
 };
 
 // GET /api/users - Get all users
-router.get('/', (req, res) => {
+router.get('/', authorize('users:list'), (req, res) => {
   const { page, limit, role, search } = req.query;
   
   let filteredUsers = [...getUsers()];
@@ -67,7 +71,7 @@ router.get('/', (req, res) => {
 });
 
 // GET /api/users/:id - Get user by ID
-router.get('/:id', (req, res) => {
+router.get('/:id', authorize('users:read'), (req, res) => {
   const user = findUserById(req.params.id);
   
   if (!user) {
@@ -81,7 +85,7 @@ router.get('/:id', (req, res) => {
 });
 
 // POST /api/users - Create new user
-router.post('/', validateUser, async (req, res) => {
+router.post('/', authorize('users:create'), validateUser, async (req, res) => {
   const { name, email, age, role = 'user' } = req.body;
 
   // Check if email already exists
@@ -113,6 +117,7 @@ router.post('/', validateUser, async (req, res) => {
   }
 
   const savedUser = findUserById(newUser.id);
+  recordAudit(req, { action: 'USER_CREATED', entityType: 'user', entityId: savedUser.id, after: savedUser });
 
   res.status(201).json({
     message: 'User created successfully',
@@ -121,8 +126,8 @@ router.post('/', validateUser, async (req, res) => {
 });
 
 // PUT /api/users/:id - Update user
-router.put('/:id', validateUserUpdate, (req, res) => {
-  const { name, email, age, role, teamId } = req.body;
+router.put('/:id', authorize('users:update'), validateUserUpdate, async (req, res) => {
+  const { name, email, age, role, teamId, password } = req.body;
 
   const user = findUserById(req.params.id);
 
@@ -152,15 +157,28 @@ router.put('/:id', validateUserUpdate, (req, res) => {
   if (age !== undefined) updates.age = age;
   if (role !== undefined) updates.role = role;
   if (teamId !== undefined) updates.teamId = teamId;
+  // Setting a password also completes the reset asked of users imported without one
+  if (password !== undefined) {
+    updates.password = await bcrypt.hash(password, 10);
+    updates.mustResetPassword = false;
+  }
 
   const updatedUser = updateUser(req.params.id, updates);
+  recordAudit(req, { action: 'USER_UPDATED', entityType: 'user', entityId: user.id, before: user, after: updatedUser });
 
-  if (teamId !== undefined) {
-    if (user.teamId) {
-      removeMemberFromTeam(user.teamId, user.id);
-    }
+  if (teamId !== undefined && teamId !== user.teamId) {
+    // Teams joined by invitation are left too, not only the previous primary team
+    removeMemberFromAllTeams(user.id, { except: teamId }).forEach((team) => {
+      publishEvent('team.member_removed', { teamId: team.id, userId: user.id });
+    });
     if (teamId) {
-      addMemberToTeam(teamId, user.id);
+      const team = addMemberToTeam(teamId, user.id);
+      publishEvent('team.member_added', {
+        teamId,
+        userId: user.id,
+        userName: updatedUser.name,
+        teamName: team ? team.name : null,
+      });
     }
   }
 
@@ -171,7 +189,7 @@ router.put('/:id', validateUserUpdate, (req, res) => {
 });
 
 // DELETE /api/users/:id - Delete user
-router.delete('/:id', (req, res) => {
+router.delete('/:id', authorize('users:delete'), (req, res) => {
   const user = findUserById(req.params.id);
 
   if (!user) {
@@ -181,10 +199,12 @@ router.delete('/:id', (req, res) => {
     });
   }
 
-  if (user.teamId) {
-    removeMemberFromTeam(user.teamId, user.id);
-  }
+  removeMemberFromAllTeams(user.id);
   const deletedUser = removeUser(user.id);
+  // Sessions of a deleted account cannot be refreshed any more
+  revokeRefreshTokensForUser(user.id);
+  recordAudit(req, { action: 'USER_DELETED', entityType: 'user', entityId: user.id, before: user });
+  publishEvent('user.deleted', { userId: user.id, teamId: user.teamId || null });
 
   res.json({
     message: 'User deleted successfully',
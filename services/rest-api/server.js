@@ -6,7 +6,12 @@ const fs = require('fs');
 const userRoutes = require('./routes/users');
 const authRoutes = require('./routes/auth');
 const teamRoutes = require('./routes/teams');
+const internalRoutes = require('./routes/internal');
+const auditRoutes = require('./routes/audit');
+const invitationRoutes = require('./routes/invitations');
+const transferRoutes = require('./routes/transfer');
 const { errorHandler } = require('./middleware/errorHandler');
+const { eventBus } = require('./lib/events');
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -29,6 +34,10 @@ try {
 app.use(helmet());
 app.use(cors());
 
+// Service-to-service calls (the gateway's revocation sync, the Task Service's lookups) poll and
+// fan out far beyond a browser's budget, so they are mounted ahead of the per-IP limiter
+app.use('/internal', internalRoutes);
+
 // Rate limiting
 const limiter = rateLimit({
   windowMs: 15 * 60 * 1000, // 15 minutes
@@ -61,6 +70,9 @@ app.get('/api/public-key', (req, res) => {
 app.use('/api/auth', authRoutes);
 app.use('/api/users', userRoutes);
 app.use('/api/teams', teamRoutes);
+app.use('/api/audit', auditRoutes);
+app.use('/api/invitations', invitationRoutes);
+app.use('/api', transferRoutes);
 
 // Error handling middleware
 app.use(errorHandler);
@@ -77,6 +89,11 @@ app.listen(PORT, () => {
   console.log(`🚀 User Service (REST API) running on port ${PORT}`);
   console.log(`📋 Health check: http://localhost:${PORT}/health`);
   console.log(`🔑 Public key: http://localhost:${PORT}/api/public-key`);
+
+  const pendingEvents = eventBus.start();
+  if (pendingEvents > 0) {
+    console.log(`📨 Redelivering ${pendingEvents} pending event(s)`);
+  }
 });
 
 module.exports = app;
\ No newline at end of file
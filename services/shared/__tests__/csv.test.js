@@ -0,0 +1,53 @@
+const { toCsv, parseCsv, parseList } = require('../csv');
+
+describe('csv', () => {
+  it('quotes cells with separators, quotes and line breaks', () => {
+    const csv = toCsv(['id', 'title'], [{ id: '1', title: 'Say "hi", then\nleave' }]);
+
+    expect(csv).toBe('id,title\r\n1,"Say ""hi"", then\nleave"\r\n');
+  });
+
+  it('writes lists as one semicolon separated cell and empty values as blanks', () => {
+    expect(toCsv(['labels', 'dueDate'], [{ labels: ['a', 'b'], dueDate: null }])).toBe('labels,dueDate\r\na;b,\r\n');
+  });
+
+  it('parses what it writes', () => {
+    const records = [{ id: '1', title: 'Say "hi", then\nleave' }, { id: '2', title: '' }];
+
+    expect(parseCsv(toCsv(['id', 'title'], records))).toEqual(records);
+  });
+
+  it('keeps spreadsheets from running cells as formulas', () => {
+    const records = [
+      { id: '1', title: '=HYPERLINK("http://evil.example")' },
+      { id: '2', title: '+1' },
+      { id: '3', title: '-2' },
+      { id: '4', title: '@SUM(A1)' },
+      { id: '5', title: "'=already quoted" },
+    ];
+    const csv = toCsv(['id', 'title'], records);
+
+    expect(csv.split('\r\n').slice(1, 6)).toEqual([
+      '1,"\'=HYPERLINK(""http://evil.example"")"',
+      "2,'+1",
+      "3,'-2",
+      "4,'@SUM(A1)",
+      "5,''=already quoted",
+    ]);
+    expect(toCsv(['age'], [{ age: -5 }])).toBe('age\r\n-5\r\n');
+    expect(parseCsv(csv)).toEqual(records);
+  });
+
+  it('drops a byte order mark and blank lines and fills missing cells', () => {
+    expect(parseCsv('\uFEFFid,title\n\n1\n')).toEqual([{ id: '1', title: '' }]);
+  });
+
+  it('rejects an unterminated quote', () => {
+    expect(() => parseCsv('id\n"open')).toThrow('Unterminated quoted field');
+  });
+
+  it('splits list cells', () => {
+    expect(parseList(' a ; b;;')).toEqual(['a', 'b']);
+    expect(parseList('')).toEqual([]);
+  });
+});
@@ -0,0 +1,78 @@
+const { createRepository } = require('../storage/repository');
+
+const setup = (records = []) => {
+  const document = { schemaVersion: 1, collections: { tasks: records } };
+  const persist = jest.fn();
+  return { document, persist, tasks: createRepository('tasks', document, persist) };
+};
+
+describe('createRepository', () => {
+  it('creates the collection on first use', () => {
+    const document = { schemaVersion: 1, collections: {} };
+    const tasks = createRepository('tasks', document, jest.fn());
+
+    expect(tasks.list()).toEqual([]);
+    expect(document.collections.tasks).toEqual([]);
+  });
+
+  it('returns copies so callers cannot change stored records', () => {
+    const { tasks } = setup([{ id: '1', tags: ['a'] }]);
+
+    const task = tasks.findById('1');
+    task.tags.push('b');
+
+    expect(tasks.findById('1')).toEqual({ id: '1', tags: ['a'] });
+  });
+
+  it('finds records by predicate and id', () => {
+    const { tasks } = setup([{ id: '1', status: 'TODO' }, { id: '2', status: 'DONE' }, { id: '3', status: 'TODO' }]);
+
+    expect(tasks.find((task) => task.status === 'TODO').map((task) => task.id)).toEqual(['1', '3']);
+    expect(tasks.findOne((task) => task.status === 'DONE')).toEqual({ id: '2', status: 'DONE' });
+    expect(tasks.findOne((task) => task.status === 'NONE')).toBeNull();
+    expect(tasks.findById('missing')).toBeNull();
+    expect(tasks.count()).toBe(3);
+  });
+
+  it('persists after insert, update and remove', () => {
+    const { tasks, persist } = setup();
+
+    tasks.insert({ id: '1', title: 'First' });
+    expect(tasks.update('1', { title: 'Renamed' })).toEqual({ id: '1', title: 'Renamed' });
+    expect(tasks.remove('1')).toEqual({ id: '1', title: 'Renamed' });
+
+    expect(persist).toHaveBeenCalledTimes(3);
+    expect(tasks.count()).toBe(0);
+  });
+
+  it('does not persist when update or remove find nothing', () => {
+    const { tasks, persist } = setup();
+
+    expect(tasks.update('missing', { title: 'x' })).toBeNull();
+    expect(tasks.remove('missing')).toBeNull();
+    expect(persist).not.toHaveBeenCalled();
+  });
+
+  it('updates every match with a single write', () => {
+    const { tasks, persist } = setup([
+      { id: '1', userId: 'u1', read: false },
+      { id: '2', userId: 'u1', read: false },
+      { id: '3', userId: 'u2', read: false },
+    ]);
+
+    expect(tasks.updateWhere((task) => task.userId === 'u1', { read: true })).toBe(2);
+    expect(persist).toHaveBeenCalledTimes(1);
+    expect(tasks.list().map((task) => task.read)).toEqual([true, true, false]);
+
+    expect(tasks.updateWhere((task) => task.userId === 'nobody', { read: true })).toBe(0);
+    expect(persist).toHaveBeenCalledTimes(1);
+  });
+
+  it('removes every match with a single write', () => {
+    const { tasks, persist } = setup([{ id: '1', teamId: 'a' }, { id: '2', teamId: 'b' }, { id: '3', teamId: 'a' }]);
+
+    expect(tasks.removeWhere((task) => task.teamId === 'a')).toBe(2);
+    expect(persist).toHaveBeenCalledTimes(1);
+    expect(tasks.list()).toEqual([{ id: '2', teamId: 'b' }]);
+  });
+});
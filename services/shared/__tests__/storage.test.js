@@ -0,0 +1,97 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { createStorage } = require('../storage');
+
+const migrations = [
+  {
+    version: 1,
+    name: 'create items collection',
+    up: (collections) => {
+      collections.items = collections.items || [];
+    },
+  },
+  {
+    version: 2,
+    name: 'add done flag to items',
+    up: (collections) => {
+      collections.items.forEach((item) => {
+        item.done = Boolean(item.done);
+      });
+    },
+  },
+];
+
+describe('createStorage', () => {
+  let logSpy;
+  let tempDir;
+
+  beforeEach(() => {
+    logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'storage-test-'));
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('rejects unknown drivers', () => {
+    expect(() => createStorage({ driver: 'redis' })).toThrow('Unknown storage driver: redis');
+  });
+
+  it('runs migrations in version order and seeds a new memory store', () => {
+    const seed = jest.fn((collections) => {
+      collections.items.push({ id: '1', title: 'Seeded', done: false });
+    });
+    const db = createStorage({ driver: 'memory', migrations: [...migrations].reverse(), seed });
+
+    expect(db.driver).toBe('memory');
+    expect(seed).toHaveBeenCalledTimes(1);
+    expect(db.repository('items').list()).toEqual([{ id: '1', title: 'Seeded', done: false }]);
+  });
+
+  it('keeps file data across reopen and only applies new migrations', () => {
+    const filePath = path.join(tempDir, 'nested', 'store.json');
+    const seed = jest.fn();
+
+    const first = createStorage({ driver: 'file', filePath, migrations: migrations.slice(0, 1), seed });
+    first.repository('items').insert({ id: 'a', title: 'Kept' });
+
+    const second = createStorage({ driver: 'file', filePath, migrations, seed });
+
+    expect(seed).toHaveBeenCalledTimes(1);
+    expect(second.repository('items').findById('a')).toEqual({ id: 'a', title: 'Kept', done: false });
+    expect(JSON.parse(fs.readFileSync(filePath, 'utf8')).schemaVersion).toBe(2);
+    expect(fs.existsSync(`${filePath}.tmp`)).toBe(false);
+  });
+
+  it('requires a path for the file driver', () => {
+    expect(() => createStorage({ driver: 'file' })).toThrow('File storage requires a file path');
+  });
+
+  it('writes a batch of changes once', () => {
+    const filePath = path.join(tempDir, 'store.json');
+    const db = createStorage({ driver: 'file', filePath, migrations });
+    const items = db.repository('items');
+    const writeSpy = jest.spyOn(fs, 'writeFileSync');
+
+    try {
+      const result = db.batch(() => {
+        items.insert({ id: 'a', title: 'A' });
+        items.insert({ id: 'b', title: 'B' });
+        db.batch(() => items.remove('a'));
+        return items.count();
+      });
+
+      expect(result).toBe(1);
+      expect(writeSpy).toHaveBeenCalledTimes(1);
+      expect(JSON.parse(fs.readFileSync(filePath, 'utf8')).collections.items).toEqual([{ id: 'b', title: 'B' }]);
+
+      db.batch(() => items.findById('b'));
+      expect(writeSpy).toHaveBeenCalledTimes(1);
+    } finally {
+      writeSpy.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,92 @@
+// Minimal RFC 4180 CSV: a header row naming the columns, then one line per record
+const NEEDS_QUOTES = /[",\r\n]/;
+
+// Lists are written as one cell, separated by semicolons
+const LIST_SEPARATOR = ';';
+
+// Spreadsheets run cells starting with these as formulas, so such text gets a leading quote.
+// Text that already starts with quotes before one of them gets one more, so parsing can undo it.
+const FORMULA_PREFIX = /^'*[=+\-@\t\r]/;
+
+const formatCell = (value) => {
+  if (value === null || value === undefined) return '';
+  let text = Array.isArray(value) ? value.join(LIST_SEPARATOR) : String(value);
+  if (typeof value !== 'number' && FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+  return NEEDS_QUOTES.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const unescapeFormula = (cell) => (FORMULA_PREFIX.test(cell) && cell.startsWith("'") ? cell.slice(1) : cell);
+
+const toCsv = (columns, records) => [columns, ...records.map((record) => columns.map((column) => record[column]))]
+  .map((row) => row.map(formatCell).join(','))
+  .join('\r\n')
+  .concat('\r\n');
+
+const splitRows = (text) => {
+  const rows = [];
+  let row = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+    if (inQuotes) {
+      if (char === '"' && text[index + 1] === '"') {
+        cell += '"';
+        index += 1;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') index += 1;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error('Unterminated quoted field');
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+};
+
+/**
+ * Parse CSV text into one object per record, keyed by the header row.
+ * Blank lines are dropped, missing trailing cells read as empty strings and
+ * the formula guard added by toCsv is removed.
+ */
+const parseCsv = (text) => {
+  const rows = splitRows(String(text).replace(/^\uFEFF/, ''))
+    .filter((row) => row.some((cell) => cell.trim() !== ''));
+  if (rows.length === 0) return [];
+
+  const columns = rows[0].map((column) => column.trim());
+  return rows.slice(1).map((values) => Object.fromEntries(
+    columns.map((column, index) => [column, values[index] === undefined ? '' : unescapeFormula(values[index])])
+  ));
+};
+
+const parseList = (cell) => (cell ? cell.split(LIST_SEPARATOR).map((item) => item.trim()).filter(Boolean) : []);
+
+module.exports = {
+  toCsv,
+  parseCsv,
+  parseList,
+};
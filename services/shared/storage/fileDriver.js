@@ -0,0 +1,31 @@
+const fs = require('fs');
+const path = require('path');
+const { createEmptyDocument } = require('./memoryDriver');
+
+// Persists the whole document as a single JSON file, written atomically
+const createFileDriver = ({ filePath }) => {
+  if (!filePath) {
+    throw new Error('File storage requires a file path');
+  }
+
+  const load = () => {
+    if (!fs.existsSync(filePath)) {
+      return createEmptyDocument();
+    }
+    const raw = fs.readFileSync(filePath, 'utf8');
+    return { ...createEmptyDocument(), ...JSON.parse(raw) };
+  };
+
+  const save = (document) => {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(document, null, 2));
+    fs.renameSync(tempPath, filePath);
+  };
+
+  return { load, save };
+};
+
+module.exports = {
+  createFileDriver,
+};
@@ -0,0 +1,86 @@
+const { createMemoryDriver } = require('./memoryDriver');
+const { createFileDriver } = require('./fileDriver');
+const { createRepository } = require('./repository');
+
+const drivers = {
+  memory: createMemoryDriver,
+  file: createFileDriver,
+};
+
+const runMigrations = (document, migrations) => {
+  const pending = migrations
+    .filter((migration) => migration.version > document.schemaVersion)
+    .sort((a, b) => a.version - b.version);
+
+  pending.forEach((migration) => {
+    migration.up(document.collections);
+    document.schemaVersion = migration.version;
+    console.log(`📦 Applied migration ${migration.version}: ${migration.name}`);
+  });
+
+  return pending.length;
+};
+
+/**
+ * Create a storage instance backed by the given driver ("memory" or "file").
+ * Pending migrations are applied on open; seed data is only inserted into a brand new store.
+ */
+const createStorage = ({ driver = 'memory', filePath, migrations = [], seed } = {}) => {
+  const createDriver = drivers[driver];
+  if (!createDriver) {
+    throw new Error(`Unknown storage driver: ${driver}`);
+  }
+
+  const backend = createDriver({ filePath });
+  const document = backend.load();
+  const isNew = document.schemaVersion === 0;
+  let batchDepth = 0;
+  let batchDirty = false;
+  const persist = () => {
+    if (batchDepth > 0) {
+      batchDirty = true;
+      return;
+    }
+    backend.save(document);
+  };
+
+  // Run several repository changes with a single write at the end; `fn` must be synchronous
+  const batch = (fn) => {
+    batchDepth += 1;
+    try {
+      return fn();
+    } finally {
+      batchDepth -= 1;
+      if (batchDepth === 0 && batchDirty) {
+        batchDirty = false;
+        backend.save(document);
+      }
+    }
+  };
+
+  const appliedCount = runMigrations(document, migrations);
+  if (isNew && seed) {
+    seed(document.collections);
+  }
+  if (isNew || appliedCount > 0) {
+    persist();
+  }
+
+  const repositories = new Map();
+  const repository = (name) => {
+    if (!repositories.has(name)) {
+      repositories.set(name, createRepository(name, document, persist));
+    }
+    return repositories.get(name);
+  };
+
+  return {
+    driver,
+    repository,
+    batch,
+  };
+};
+
+module.exports = {
+  createStorage,
+};
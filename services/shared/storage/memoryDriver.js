@@ -0,0 +1,19 @@
+const createEmptyDocument = () => ({
+  schemaVersion: 0,
+  collections: {},
+});
+
+// Keeps everything in process memory; data is lost on restart (used for tests)
+const createMemoryDriver = () => {
+  const document = createEmptyDocument();
+
+  return {
+    load: () => document,
+    save: () => {},
+  };
+};
+
+module.exports = {
+  createEmptyDocument,
+  createMemoryDriver,
+};
@@ -0,0 +1,96 @@
+const clone = (record) => (record ? structuredClone(record) : null);
+
+// Generic repository over one collection of the storage document.
+// Records are returned as copies, so every change must go through insert/update/remove.
+const createRepository = (name, document, persist) => {
+  const records = () => {
+    if (!Array.isArray(document.collections[name])) {
+      document.collections[name] = [];
+    }
+    return document.collections[name];
+  };
+
+  const list = () => records().map(clone);
+
+  const find = (predicate) => records().filter(predicate).map(clone);
+
+  const findOne = (predicate) => clone(records().find(predicate));
+
+  const findById = (id) => findOne((record) => record.id === id);
+
+  const insert = (record) => {
+    records().push(clone(record));
+    persist();
+    return clone(record);
+  };
+
+  const update = (id, updates) => {
+    const items = records();
+    const index = items.findIndex((record) => record.id === id);
+    if (index === -1) {
+      return null;
+    }
+
+    items[index] = { ...items[index], ...clone(updates) };
+    persist();
+    return clone(items[index]);
+  };
+
+  // Apply the same updates to every matching record with a single write
+  const updateWhere = (predicate, updates) => {
+    const items = records();
+    let updatedCount = 0;
+    items.forEach((record, index) => {
+      if (predicate(record)) {
+        items[index] = { ...record, ...clone(updates) };
+        updatedCount += 1;
+      }
+    });
+    if (updatedCount > 0) {
+      persist();
+    }
+    return updatedCount;
+  };
+
+  const remove = (id) => {
+    const items = records();
+    const index = items.findIndex((record) => record.id === id);
+    if (index === -1) {
+      return null;
+    }
+
+    const [removed] = items.splice(index, 1);
+    persist();
+    return removed;
+  };
+
+  const removeWhere = (predicate) => {
+    const items = records();
+    const kept = items.filter((record) => !predicate(record));
+    const removedCount = items.length - kept.length;
+    if (removedCount > 0) {
+      document.collections[name] = kept;
+      persist();
+    }
+    return removedCount;
+  };
+
+  const count = () => records().length;
+
+  return {
+    list,
+    find,
+    findOne,
+    findById,
+    insert,
+    update,
+    updateWhere,
+    remove,
+    removeWhere,
+    count,
+  };
+};
+
+module.exports = {
+  createRepository,
+};
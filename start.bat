@@ -77,6 +77,7 @@ goto menu
 :install
 echo.
 echo Installing dependencies for all services...
+cd services\shared && npm install && cd ..\..
 cd services\rest-api && npm install && cd ..\..
 cd services\graphql-api && npm install && cd ..\..
 cd api-gateway && npm install && cd ..\..